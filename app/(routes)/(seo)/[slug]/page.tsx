@@ -1,10 +1,16 @@
-import { getSeoPageBySlug } from "@/modules/seo/actions";
+import { getSeoPageBySlug } from "@/modules/seo/lib/pages";
 import { notFound } from "next/navigation";
 import { Metadata } from "next";
 import { StructuredData } from "@/components/features/seo/StructuredData";
-import { getDynamicSEOConfig } from "@/lib/utils/seo/seo-config-loader";
-import type { CarouselsState } from "@/modules/seo/components/SeoPageForm";
+import {
+	getDynamicSEOConfig,
+	generateCanonicalURL,
+	generateAlternateLanguages,
+} from "@/lib/utils/seo/seo-config-loader";
+import { getRequestLocale } from "@/lib/utils/i18n/request-locale";
+import { getContentBlocks } from "@/modules/seo/lib/content-blocks";
 import { CarouselRenderer } from "@/modules/seo/components/carousel-renderer";
+import { parseStructuredData } from "@/modules/seo/lib/structured-data";
 
 export async function generateMetadata({
 	params,
@@ -14,18 +20,29 @@ export async function generateMetadata({
 	try {
 		const { slug } = await params;
 		const config = await getDynamicSEOConfig();
-		const page = await getSeoPageBySlug(slug);
+		const page = await getSeoPageBySlug(slug, await getRequestLocale());
 		if (!page) return {};
 
+		const path = `/${slug}`;
+		const url = generateCanonicalURL(path, page.locale, config);
+
 		return {
 			title: page.title,
 			description: page.description,
 			keywords: page.keywords?.split(",").map((k: string) => k.trim()),
+			alternates: {
+				canonical: url,
+				languages: generateAlternateLanguages(
+					path,
+					page.availableLocales,
+					config
+				),
+			},
 			openGraph: {
 				title: page.title,
 				description: page.description,
 				type: "website",
-				url: `${config.defaultDomain}/${slug}`,
+				url,
 			},
 		};
 	} catch (error) {
@@ -44,22 +61,22 @@ export default async function SeoPage({
 	const { slug } = await params;
 	let page;
 	try {
-		page = await getSeoPageBySlug(slug);
+		page = await getSeoPageBySlug(slug, await getRequestLocale());
 	} catch (error) {
 		console.error("Error fetching SEO page:", error);
 		notFound();
 	}
 
-	if (!page || !page.published) {
+	if (!page) {
 		notFound();
 	}
 
-	const carousels = page.carousels as unknown as CarouselsState;
+	const structuredData = parseStructuredData(page.structuredData);
 
 	return (
 		<>
-			{page.structuredData && (
-				<StructuredData data={JSON.parse(page.structuredData)} />
+			{structuredData && (
+				<StructuredData id="seo-page-schema" data={structuredData} />
 			)}
 
 			<div className="min-h-screen bg-background ">
@@ -70,16 +87,10 @@ export default async function SeoPage({
 						</h1>
 					</div>
 
-					{/* Top Carousels */}
-					<CarouselRenderer config={carousels} position="top" />
-
-					<div
-						className="prose prose-lg dark:prose-invert max-w-none"
-						dangerouslySetInnerHTML={{ __html: page.content }}
+					<CarouselRenderer
+						blocks={getContentBlocks(page)}
+						content={page.content}
 					/>
-
-					{/* Bottom Carousels */}
-					<CarouselRenderer config={carousels} position="bottom" />
 				</div>
 			</div>
 		</>
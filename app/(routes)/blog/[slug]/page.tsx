@@ -10,29 +10,44 @@ import { Calendar, Clock, Tag, ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { BlogCard } from "@/modules/blog/components/BlogCard";
+import { getRequestLocale } from "@/lib/utils/i18n/request-locale";
+import { isLive } from "@/modules/admin/lib/publishing";
 
 export async function generateMetadata({
 	params,
 }: {
 	params: Promise<{ slug: string }>;
 }): Promise<Metadata> {
-	const { getDynamicSEOConfig } = await import(
-		"@/lib/utils/seo/seo-config-loader"
-	);
+	const {
+		getDynamicSEOConfig,
+		generateCanonicalURL,
+		generateAlternateLanguages,
+	} = await import("@/lib/utils/seo/seo-config-loader");
 	try {
 		const config = await getDynamicSEOConfig();
 		const { slug } = await params;
-		const post = await getPostBySlug(slug);
+		const post = await getPostBySlug(slug, await getRequestLocale());
 		if (!post) return {};
 
+		const path = `/blog/${slug}`;
+		const url = generateCanonicalURL(path, post.locale, config);
+
 		return {
 			title: post.seoTitle || post.title,
 			description: post.seoDescription || post.excerpt,
+			alternates: {
+				canonical: url,
+				languages: generateAlternateLanguages(
+					path,
+					post.availableLocales,
+					config
+				),
+			},
 			openGraph: {
 				title: post.seoTitle || post.title,
 				description: post.seoDescription || post.excerpt || undefined,
 				images: post.coverImage ? [post.coverImage] : [],
-				url: `${config.defaultDomain}/blog/${slug}`,
+				url,
 			},
 		};
 	} catch (error) {
@@ -51,13 +66,13 @@ export default async function BlogPostPage({
 	const { slug } = await params;
 	let post;
 	try {
-		post = await getPostBySlug(slug);
+		post = await getPostBySlug(slug, await getRequestLocale());
 	} catch (error) {
 		console.error("Error fetching post:", error);
 		notFound();
 	}
 
-	if (!post || !post.published) {
+	if (!post || !isLive(post)) {
 		notFound();
 	}
 
@@ -99,13 +114,12 @@ export default async function BlogPostPage({
 				<div className="container mx-auto px-4 py-12 max-w-4xl">
 					<div className="mb-6 flex flex-wrap gap-2">
 						{post.tags.map((tag) => (
-							<Badge
-								key={tag.id}
-								className="bg-primary/10 text-primary hover:bg-primary/20 text-sm px-3 py-1"
-							>
-								<Tag className="h-3 w-3 mr-1" />
-								{tag.name}
-							</Badge>
+							<Link key={tag.id} href={`/blog/tag/${tag.slug}`}>
+								<Badge className="bg-primary/10 text-primary hover:bg-primary/20 text-sm px-3 py-1">
+									<Tag className="h-3 w-3 mr-1" />
+									{tag.name}
+								</Badge>
+							</Link>
 						))}
 					</div>
 
@@ -0,0 +1,8 @@
+import { createFeedResponse } from "@/modules/blog/lib/feeds";
+
+// Built per request; Cache-Control and the validators do the caching
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+	return createFeedResponse(request, "json");
+}
@@ -1,4 +1,6 @@
-import { getPosts } from "@/modules/blog/lib/api";
+import { getPopularTags, getPosts } from "@/modules/blog/lib/api";
+import { searchPosts } from "@/modules/blog/lib/search";
+import { FEED_PATHS } from "@/modules/blog/lib/feeds";
 import { BlogCard } from "@/modules/blog/components/BlogCard";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -14,7 +16,7 @@ export async function generateMetadata(): Promise<Metadata> {
 	const siteName = config.defaults.siteName;
 	const siteDomain = config.defaultDomain;
 
-	return generateSEOMetadata({
+	const metadata = await generateSEOMetadata({
 		title: `Blog | ${siteName} - Strategies, Tips & Platform Updates`,
 		description: `Discover expert betting strategies, platform updates, and winning tips from the ${siteName} team. Stay ahead of the game with our latest insights.`,
 		keywords: [
@@ -34,6 +36,19 @@ export async function generateMetadata(): Promise<Metadata> {
 		ogUrl: `${siteDomain}/blog`,
 		ogImage: "/assets/seo/og.png",
 	});
+
+	// Lets readers and feed readers discover the feeds from the blog page
+	return {
+		...metadata,
+		alternates: {
+			...metadata.alternates,
+			types: {
+				"application/rss+xml": `${siteDomain}${FEED_PATHS.rss}`,
+				"application/atom+xml": `${siteDomain}${FEED_PATHS.atom}`,
+				"application/feed+json": `${siteDomain}${FEED_PATHS.json}`,
+			},
+		},
+	};
 }
 
 export default async function BlogPage({
@@ -43,8 +58,13 @@ export default async function BlogPage({
 }) {
 	const { page: pageParam, search: searchParam } = await searchParams;
 	const page = Number(pageParam) || 1;
-	const search = searchParam || "";
-	const { posts, total } = await getPosts(page, 9, search, "published");
+	const search = searchParam?.trim() || "";
+	const [{ posts, total }, tags] = await Promise.all([
+		search
+			? searchPosts(search, page, 9)
+			: getPosts(page, 9, "", "published"),
+		getPopularTags(),
+	]);
 
 	return (
 		<div className="min-h-screen bg-background">
@@ -104,47 +124,30 @@ export default async function BlogPage({
 			</div>
 
 			{/* Featured Categories */}
-			<div className="border-b bg-muted/20 py-6">
-				<div className="container mx-auto px-4">
-					<div className="flex flex-wrap items-center justify-center gap-3">
-						<span className="text-sm font-medium text-muted-foreground">
-							Browse by topic:
-						</span>
-						<Link href="/blog?tag=strategy">
-							<Badge
-								variant="secondary"
-								className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors"
-							>
-								Strategy
-							</Badge>
-						</Link>
-						<Link href="/blog?tag=news">
-							<Badge
-								variant="secondary"
-								className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors"
-							>
-								News
-							</Badge>
-						</Link>
-						<Link href="/blog?tag=tips">
-							<Badge
-								variant="secondary"
-								className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors"
-							>
-								Tips & Tricks
-							</Badge>
-						</Link>
-						<Link href="/blog?tag=updates">
-							<Badge
-								variant="secondary"
-								className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors"
-							>
-								Platform Updates
-							</Badge>
-						</Link>
+			{tags.length > 0 && (
+				<div className="border-b bg-muted/20 py-6">
+					<div className="container mx-auto px-4">
+						<div className="flex flex-wrap items-center justify-center gap-3">
+							<span className="text-sm font-medium text-muted-foreground">
+								Browse by topic:
+							</span>
+							{tags.map((tag) => (
+								<Link
+									key={tag.id}
+									href={`/blog/tag/${tag.slug}`}
+								>
+									<Badge
+										variant="secondary"
+										className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors"
+									>
+										{tag.name}
+									</Badge>
+								</Link>
+							))}
+						</div>
 					</div>
 				</div>
-			</div>
+			)}
 
 			{/* Content Grid */}
 			<div className="container mx-auto px-4 py-20">
@@ -198,7 +201,7 @@ export default async function BlogPage({
 												<Link
 													href={`/blog?page=${i + 1}${
 														search
-															? `&search=${search}`
+															? `&search=${encodeURIComponent(search)}`
 															: ""
 													}`}
 												>
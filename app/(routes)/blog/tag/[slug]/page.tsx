@@ -0,0 +1,136 @@
+import { getPostsByTag, getTagBySlug } from "@/modules/blog/lib/api";
+import { BlogCard } from "@/modules/blog/components/BlogCard";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Tag } from "lucide-react";
+import Link from "next/link";
+import { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { generateSEOMetadata } from "@/lib/utils/seo/seo-provider";
+import { getDynamicSEOConfig } from "@/lib/utils/seo/seo-config-loader";
+
+const PAGE_SIZE = 9;
+
+export async function generateMetadata({
+	params,
+}: {
+	params: Promise<{ slug: string }>;
+}): Promise<Metadata> {
+	const { slug } = await params;
+	const tag = await getTagBySlug(slug);
+	if (!tag) return {};
+
+	const config = await getDynamicSEOConfig();
+	const siteName = config.defaults.siteName;
+	const path = `/blog/tag/${tag.slug}`;
+
+	return generateSEOMetadata({
+		title: `${tag.name} | ${siteName} Blog`,
+		description: `Articles about ${tag.name} from the ${siteName} team.`,
+		keywords: [tag.name, `${siteName} blog`],
+		path,
+		nocanonical: false,
+		ogType: "website",
+		ogUrl: `${config.defaultDomain}${path}`,
+		ogImage: "/assets/seo/og.png",
+	});
+}
+
+export default async function BlogTagPage({
+	params,
+	searchParams,
+}: {
+	params: Promise<{ slug: string }>;
+	searchParams: Promise<{ page?: string }>;
+}) {
+	const { slug } = await params;
+	const { page: pageParam } = await searchParams;
+	const page = Number(pageParam) || 1;
+
+	const tag = await getTagBySlug(slug);
+	if (!tag) notFound();
+
+	const { posts, total, totalPages } = await getPostsByTag(
+		tag.slug,
+		page,
+		PAGE_SIZE
+	);
+
+	return (
+		<div className="min-h-screen bg-background">
+			<div className="relative overflow-hidden border-b bg-gradient-to-br from-background via-primary/5 to-background py-20">
+				<div className="absolute inset-0 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-primary/20 via-background to-background" />
+
+				<div className="container relative mx-auto px-4 text-center">
+					<div className="inline-flex items-center gap-2 rounded-full bg-primary/10 px-4 py-2 mb-6">
+						<Tag className="h-4 w-4 text-primary" />
+						<span className="text-sm font-medium text-primary">
+							Topic
+						</span>
+					</div>
+					<h1 className="mb-4 text-5xl font-extrabold tracking-tight sm:text-6xl">
+						{tag.name}
+					</h1>
+					<p className="text-muted-foreground">
+						{total} {total === 1 ? "Article" : "Articles"}
+					</p>
+				</div>
+			</div>
+
+			<div className="container mx-auto px-4 py-20">
+				<Button variant="ghost" asChild className="gap-2 mb-8">
+					<Link href="/blog">
+						<ArrowLeft className="h-4 w-4" />
+						Back to Blog
+					</Link>
+				</Button>
+
+				{posts.length > 0 ? (
+					<>
+						<div className="grid gap-8 sm:grid-cols-2 lg:grid-cols-3">
+							{posts.map((post, index) => (
+								<BlogCard
+									key={post.id}
+									post={post}
+									index={index}
+								/>
+							))}
+						</div>
+
+						{totalPages > 1 && (
+							<div className="mt-12 flex items-center justify-center gap-1">
+								{Array.from({ length: totalPages }, (_, i) => (
+									<Button
+										key={i}
+										variant={
+											page === i + 1 ? "default" : "ghost"
+										}
+										size="sm"
+										asChild
+									>
+										<Link
+											href={`/blog/tag/${tag.slug}?page=${i + 1}`}
+										>
+											{i + 1}
+										</Link>
+									</Button>
+								))}
+							</div>
+						)}
+					</>
+				) : (
+					<div className="flex flex-col items-center justify-center py-20 text-center">
+						<h3 className="text-xl font-semibold">
+							No posts found
+						</h3>
+						<p className="text-muted-foreground mb-4">
+							Nothing has been published under this topic yet.
+						</p>
+						<Button asChild>
+							<Link href="/blog">View All Posts</Link>
+						</Button>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,11 @@
+"use client";
+
+import { DiceGame } from "@/components/features/dice/dice-game";
+
+export default function DicePage() {
+	return (
+		<div className="container mx-auto consistent-padding-x consistent-padding-y">
+			<DiceGame />
+		</div>
+	);
+}
@@ -0,0 +1,52 @@
+import { Metadata } from "next";
+import { generateSEOMetadata } from "@/lib/utils/seo/seo-provider";
+import { getDynamicSEOConfig } from "@/lib/utils/seo/seo-config-loader";
+import {
+	generateOrganizationSchema,
+	generateWebPageSchema,
+} from "@/lib/utils/seo/schema-generator";
+
+export async function generateMetadata(): Promise<Metadata> {
+	const config = await getDynamicSEOConfig();
+
+	const siteName = config.defaults.siteName;
+	const siteDomain = config.defaultDomain;
+	return generateSEOMetadata({
+		title: `Provably Fair | ${siteDomain} – Verify Every Dice Roll`,
+		description: `Verify ${siteName} dice rounds yourself. Check the server seed hash, recompute the roll from the server seed, client seed and nonce, and follow every HMAC step.`,
+		keywords: [
+			`${siteName} provably fair`,
+			`${siteName} fairness verifier`,
+			"provably fair dice",
+			"verify crypto dice roll",
+			"server seed client seed nonce",
+			"HMAC-SHA256 dice",
+		],
+		path: "/fairness",
+		pageType: "fairness",
+		ogTitle: `Provably Fair | ${siteName} – Verify Every Dice Roll`,
+		ogDescription: `Every ${siteName} dice roll can be checked independently. Paste your seeds and nonce to recompute the result step by step.`,
+		ogType: "website",
+		ogImage: "/assets/seo/og.png",
+		ogUrl: `${siteDomain}/fairness`,
+		schemas: [
+			generateOrganizationSchema(config),
+			generateWebPageSchema(
+				{
+					title: `Provably Fair Verifier – ${siteName}`,
+					url: `${siteDomain}/fairness`,
+					description: `Every ${siteName} dice roll can be checked independently. Paste your seeds and nonce to recompute the result step by step.`,
+				},
+				config
+			),
+		],
+	});
+}
+
+export default function FairnessLayout({
+	children,
+}: {
+	children: React.ReactNode;
+}) {
+	return <>{children}</>;
+}
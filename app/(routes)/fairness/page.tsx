@@ -0,0 +1,12 @@
+"use client";
+
+import { Suspense } from "react";
+import { FairnessVerifier } from "@/components/features/fairness/fairness-verifier";
+
+export default function FairnessPage() {
+	return (
+		<Suspense>
+			<FairnessVerifier />
+		</Suspense>
+	);
+}
@@ -10,12 +10,28 @@ import ApiService from "@/services/apiService";
 import LocalStorageService from "@/services/localStorageService";
 import { useT } from "@/hooks/useI18n";
 import { getAuthToken } from "@dynamic-labs/sdk-react-core";
-
-const GameLaunchLoader = ({ message }: { message: string }) => (
+import { useLimitGuard } from "@/hooks/responsible-gambling/useLimitGuard";
+import { GameSessionFrame } from "@/components/features/responsible-gambling/game-session-frame";
+
+// How long a limit warning stays visible before the game is shown
+const LIMIT_WARNING_DELAY_MS = 3000;
+
+const GameLaunchLoader = ({
+	message,
+	warning,
+}: {
+	message: string;
+	warning?: string | null;
+}) => (
 	<div className="flex flex-col items-center justify-center min-h-screen bg-background text-foreground">
 		<div className="animate-spin rounded-full h-16 w-16 border-b-4 border-primary mb-4"></div>
 		<h1 className="text-2xl font-semibold">{message}</h1>
 		<p className="text-muted-foreground mt-2">{message}</p>
+		{warning && (
+			<p className="mt-6 max-w-md rounded-lg bg-warning/20 px-4 py-3 text-center text-sm text-warning">
+				{warning}
+			</p>
+		)}
 	</div>
 );
 
@@ -23,8 +39,15 @@ export default function PlayGamePage() {
 	const t = useT();
 	const params = useParams();
 	const searchParams = useSearchParams();
+	const { guardGameLaunch } = useLimitGuard();
 
 	const [error, setError] = useState<string | null>(null);
+	const [warning, setWarning] = useState<string | null>(null);
+	const [game, setGame] = useState<{
+		url: string;
+		gameId: string;
+		vendor: string;
+	} | null>(null);
 
 	// A ref to ensure the launch logic only ever runs once per page load.
 	const launchAttempted = useRef(false);
@@ -64,6 +87,13 @@ export default function PlayGamePage() {
 				return;
 			}
 
+			// --- RESPONSIBLE-GAMBLING LIMITS ---
+			const limitCheck = await guardGameLaunch(false);
+			if (!limitCheck.allowed) {
+				setError(limitCheck.message ?? t("errors.general"));
+				return;
+			}
+
 			try {
 				const api = ApiService.getInstance();
 				const requestBody: GetGameUrlRequestBody = {
@@ -80,7 +110,18 @@ export default function PlayGamePage() {
 				const response = await api.getGameUrl(requestBody, authToken);
 
 				if (response.error === false) {
-					window.location.replace(response.data.url);
+					if (limitCheck.message) {
+						setWarning(limitCheck.message);
+						await new Promise((resolve) =>
+							setTimeout(resolve, LIMIT_WARNING_DELAY_MS)
+						);
+					}
+					// Keep the session on our side so the reality check can run
+					setGame({
+						url: response.data.url,
+						gameId: game_id,
+						vendor: vendor_name,
+					});
 				} else {
 					setError(
 						`${t("errors.general")} ${
@@ -97,7 +138,7 @@ export default function PlayGamePage() {
 		launchGame();
 
 		// The dependency array is empty because this effect should only run once on mount.
-	}, [params.game_id, searchParams, t]);
+	}, [params.game_id, searchParams, t, guardGameLaunch]);
 
 	// --- Render UI ---
 	if (error) {
@@ -114,6 +155,18 @@ export default function PlayGamePage() {
 		);
 	}
 
+	if (game) {
+		return (
+			<GameSessionFrame
+				url={game.url}
+				gameId={game.gameId}
+				vendor={game.vendor}
+			/>
+		);
+	}
+
 	// Since data retrieval from localStorage is nearly instant, we can show a consistent message.
-	return <GameLaunchLoader message={t("play.connecting")} />;
+	return (
+		<GameLaunchLoader message={t("play.connecting")} warning={warning} />
+	);
 }
@@ -17,7 +17,10 @@ import {
 	Baby,
 	Lightbulb,
 	Target,
+	Gauge,
 } from "lucide-react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
 import { useT } from "@/hooks/useI18n";
 
 export default function ResponsibleGamblingPage() {
@@ -223,6 +226,16 @@ export default function ResponsibleGamblingPage() {
 							{para}
 						</p>
 					))}
+					<Button
+						asChild
+						variant="outline"
+						size="sm"
+						className="mt-1"
+					>
+						<Link href="/profile#self-exclusion">
+							{t("responsibleGambling.tools.selfExclusion.cta")}
+						</Link>
+					</Button>
 				</div>
 
 				{/* Cooling-Off Periods */}
@@ -262,6 +275,22 @@ export default function ResponsibleGamblingPage() {
 					</p>
 				</div>
 
+				{/* Deposit, Loss, Wager & Session Limits */}
+				<div className="mb-6">
+					<h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
+						<Gauge className="size-5" />
+						{t("responsibleGambling.tools.limits.title")}
+					</h3>
+					<p className="mb-3">
+						{t("responsibleGambling.tools.limits.description")}
+					</p>
+					<Button asChild variant="outline" size="sm">
+						<Link href="/profile#limits">
+							{t("responsibleGambling.tools.limits.cta")}
+						</Link>
+					</Button>
+				</div>
+
 				{/* Deposit & Loss Awareness */}
 				<div>
 					<h3 className="text-lg font-semibold mb-2 flex items-center gap-2">
@@ -0,0 +1,7 @@
+"use client";
+
+import { SelfExclusionScreen } from "@/components/features/responsible-gambling/self-exclusion-screen";
+
+export default function SelfExclusionPage() {
+	return <SelfExclusionScreen />;
+}
@@ -20,7 +20,7 @@ export default async function ProtectedAdminLayout({
 		>
 			{/* Sidebar - Fixed */}
 			<div className="fixed h-screen w-64 border-r bg-background">
-				<AdminSidebar />
+				<AdminSidebar role={session.role} />
 			</div>
 
 			{/* Main Content Area - Takes remaining space */}
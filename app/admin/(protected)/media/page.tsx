@@ -0,0 +1,33 @@
+import { getMedia } from "@/modules/media/lib/api";
+import { MediaLibrary } from "@/modules/media/components/media-library";
+import { getSession } from "@/modules/auth/lib/auth";
+import { hasCapability } from "@/modules/auth/lib/permissions";
+
+export default async function MediaPage({
+	searchParams,
+}: {
+	searchParams: Promise<{ page?: string; search?: string }>;
+}) {
+	const { page, search } = await searchParams;
+	const currentPage = Number(page) || 1;
+	const { items, totalPages } = await getMedia(currentPage, 48, search || "");
+	const session = await getSession();
+
+	return (
+		<div className="space-y-6">
+			<div>
+				<h1 className="text-3xl font-bold tracking-tight">Media</h1>
+				<p className="text-muted-foreground mt-1">
+					Uploaded images, their descriptions and where they are used
+				</p>
+			</div>
+			<MediaLibrary
+				items={items}
+				search={search || ""}
+				page={currentPage}
+				totalPages={totalPages}
+				canDelete={hasCapability(session?.role, "media.delete")}
+			/>
+		</div>
+	);
+}
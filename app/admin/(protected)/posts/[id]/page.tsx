@@ -1,6 +1,9 @@
-import { getPostById } from '@/modules/blog/lib/api'
+import { getPostById, getPostRevisions } from '@/modules/blog/lib/api'
 import { PostForm } from '@/modules/blog/components/PostForm'
+import { PostRevisions } from '@/modules/blog/components/PostRevisions'
 import { notFound } from 'next/navigation'
+import { getSession } from '@/modules/auth/lib/auth'
+import { canEditPost, hasCapability } from '@/modules/auth/lib/permissions'
 
 export default async function EditPostPage({ params }: { params: Promise<{ id: string }> }) {
     const { id } = await params
@@ -10,10 +13,36 @@ export default async function EditPostPage({ params }: { params: Promise<{ id: s
         notFound()
     }
 
+    const session = await getSession()
+    if (!session || !canEditPost(session, post.authorId)) {
+        return (
+            <div className="p-6 text-center text-muted-foreground">
+                You do not have permission to edit this post.
+            </div>
+        )
+    }
+
+    const revisions = await getPostRevisions(id)
+
     return (
-        <div>
-            <h1 className="text-2xl font-bold mb-6">Edit Post</h1>
-            <PostForm post={post} />
+        <div className="space-y-6">
+            <h1 className="text-2xl font-bold">Edit Post</h1>
+            <PostForm
+                post={post}
+                latestRevisionAt={revisions[0]?.createdAt ?? null}
+                canPublish={hasCapability(session.role, 'post.publish')}
+            />
+            <PostRevisions
+                current={{
+                    title: post.title,
+                    excerpt: post.excerpt,
+                    content: post.content,
+                    seoTitle: post.seoTitle,
+                    seoDescription: post.seoDescription,
+                    tags: post.tags.map((tag) => tag.name).join(', '),
+                }}
+                revisions={revisions}
+            />
         </div>
     )
 }
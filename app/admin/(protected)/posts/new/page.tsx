@@ -1,10 +1,14 @@
 import { PostForm } from '@/modules/blog/components/PostForm'
+import { getSession } from '@/modules/auth/lib/auth'
+import { hasCapability } from '@/modules/auth/lib/permissions'
+
+export default async function NewPostPage() {
+    const session = await getSession()
 
-export default function NewPostPage() {
     return (
         <div>
             <h1 className="text-2xl font-bold mb-6">Create New Post</h1>
-            <PostForm />
+            <PostForm canPublish={hasCapability(session?.role, 'post.publish')} />
         </div>
     )
 }
@@ -19,15 +19,30 @@ import {
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { DeletePostButton } from "@/modules/blog/components/DeletePostButton";
+import { getSession } from "@/modules/auth/lib/auth";
+import { canEditPost, hasCapability } from "@/modules/auth/lib/permissions";
+import {
+	getPublishStatus,
+	PUBLISH_STATUS_LABELS,
+	PublishStatus,
+} from "@/modules/admin/lib/publishing";
 // import { SearchInput } from "@/modules/blog/components/SearchInput";
 
 export default async function PostsPage({
 	searchParams,
 }: {
-	searchParams: Promise<{ page?: string; search?: string }>;
+	searchParams: Promise<{ page?: string; search?: string; status?: string }>;
 }) {
-	const { page, search } = await searchParams;
-	const { posts } = await getPosts(Number(page) || 1, 20, search || "");
+	const { page, search, status } = await searchParams;
+	const { posts } = await getPosts(
+		Number(page) || 1,
+		20,
+		search || "",
+		status
+	);
+	const session = await getSession();
+	const canCreate = hasCapability(session?.role, "post.create");
+	const canDelete = hasCapability(session?.role, "post.delete");
 
 	return (
 		<div className="space-y-6">
@@ -40,11 +55,40 @@ export default async function PostsPage({
 						Manage your blog content
 					</p>
 				</div>
-				<Button asChild>
-					<Link href="/admin/posts/new">
-						<Plus className="mr-2 h-4 w-4" /> New Post
-					</Link>
-				</Button>
+				{canCreate && (
+					<Button asChild>
+						<Link href="/admin/posts/new">
+							<Plus className="mr-2 h-4 w-4" /> New Post
+						</Link>
+					</Button>
+				)}
+			</div>
+
+			<div className="flex flex-wrap items-center gap-2">
+				{[undefined, "published", "scheduled", "draft"].map(
+					(filter) => (
+						<Button
+							key={filter ?? "all"}
+							variant={status === filter ? "default" : "outline"}
+							size="sm"
+							asChild
+						>
+							<Link
+								href={
+									filter
+										? `/admin/posts?status=${filter}`
+										: "/admin/posts"
+								}
+							>
+								{filter
+									? PUBLISH_STATUS_LABELS[
+											filter as PublishStatus
+										]
+									: "All"}
+							</Link>
+						</Button>
+					)
+				)}
 			</div>
 
 			{/* <div className="flex items-center gap-2">
@@ -86,15 +130,43 @@ export default async function PostsPage({
 									</div>
 								</TableCell>
 								<TableCell>
-									<Badge
-										variant={
-											post.published
-												? "default"
-												: "secondary"
-										}
-									>
-										{post.published ? "Published" : "Draft"}
-									</Badge>
+									<div className="flex flex-col items-start gap-1">
+										<Badge
+											variant={
+												post.published
+													? "default"
+													: "secondary"
+											}
+										>
+											{
+												PUBLISH_STATUS_LABELS[
+													getPublishStatus(post)
+												]
+											}
+										</Badge>
+										{post.publishAt && (
+											<span className="text-xs text-muted-foreground">
+												Publishes{" "}
+												{new Date(
+													post.publishAt
+												).toLocaleString("en-US", {
+													dateStyle: "medium",
+													timeStyle: "short",
+												})}
+											</span>
+										)}
+										{post.unpublishAt && (
+											<span className="text-xs text-muted-foreground">
+												Unpublishes{" "}
+												{new Date(
+													post.unpublishAt
+												).toLocaleString("en-US", {
+													dateStyle: "medium",
+													timeStyle: "short",
+												})}
+											</span>
+										)}
+									</div>
 								</TableCell>
 								<TableCell className="hidden md:table-cell">
 									{post.author.username}
@@ -122,13 +194,19 @@ export default async function PostsPage({
 											<DropdownMenuLabel>
 												Actions
 											</DropdownMenuLabel>
-											<DropdownMenuItem asChild>
-												<Link
-													href={`/admin/posts/${post.id}`}
-												>
-													Edit
-												</Link>
-											</DropdownMenuItem>
+											{session &&
+												canEditPost(
+													session,
+													post.authorId
+												) && (
+													<DropdownMenuItem asChild>
+														<Link
+															href={`/admin/posts/${post.id}`}
+														>
+															Edit
+														</Link>
+													</DropdownMenuItem>
+												)}
 											<DropdownMenuItem asChild>
 												<Link
 													href={`/blog/${post.slug}`}
@@ -137,10 +215,12 @@ export default async function PostsPage({
 													View Live
 												</Link>
 											</DropdownMenuItem>
-											<DeletePostButton
-												postId={post.id}
-												postTitle={post.title}
-											/>
+											{canDelete && (
+												<DeletePostButton
+													postId={post.id}
+													postTitle={post.title}
+												/>
+											)}
 										</DropdownMenuContent>
 									</DropdownMenu>
 								</TableCell>
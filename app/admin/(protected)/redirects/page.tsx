@@ -0,0 +1,34 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { getRedirects } from "@/modules/redirects/lib/redirects";
+import { RedirectList } from "@/modules/redirects/components/redirect-list";
+import { RedirectForm } from "@/modules/redirects/components/redirect-form";
+
+export default async function RedirectsPage() {
+	const redirects = await getRedirects();
+
+	return (
+		<div className="space-y-6">
+			<div>
+				<h1 className="text-3xl font-bold tracking-tight">Redirects</h1>
+				<p className="text-muted-foreground mt-1">
+					Send old URLs to their new home. Renamed posts and SEO pages
+					are redirected automatically.
+				</p>
+			</div>
+
+			<div className="grid gap-6 lg:grid-cols-3">
+				<div className="lg:col-span-2">
+					<RedirectList redirects={redirects} />
+				</div>
+				<Card className="h-fit">
+					<CardContent className="p-6">
+						<h2 className="text-xl font-semibold mb-4">
+							Create Redirect
+						</h2>
+						<RedirectForm />
+					</CardContent>
+				</Card>
+			</div>
+		</div>
+	);
+}
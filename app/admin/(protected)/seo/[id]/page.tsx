@@ -1,9 +1,10 @@
-import {
-	SeoPageForm,
-	type CarouselsState,
-} from "@/modules/seo/components/SeoPageForm";
+import { SeoPageForm } from "@/modules/seo/components/SeoPageForm";
 import { getSeoPageById } from "@/modules/seo/actions";
 import { notFound } from "next/navigation";
+import { getSession } from "@/modules/auth/lib/auth";
+import { hasCapability } from "@/modules/auth/lib/permissions";
+import { getContentBlocks } from "@/modules/seo/lib/content-blocks";
+import { getStructuredDataItems } from "@/modules/seo/lib/structured-data";
 
 export default async function SeoPageEdit({
 	params,
@@ -12,6 +13,15 @@ export default async function SeoPageEdit({
 }) {
 	const { id } = await params;
 
+	const session = await getSession();
+	if (!hasCapability(session?.role, "seo.edit")) {
+		return (
+			<div className="p-6 text-center text-muted-foreground">
+				You do not have permission to edit SEO pages.
+			</div>
+		);
+	}
+
 	if (id === "new") {
 		return (
 			<div className="max-w-5xl mx-auto">
@@ -20,39 +30,23 @@ export default async function SeoPageEdit({
 		);
 	}
 
-	const page = await getSeoPageById(id);
+	const result = await getSeoPageById(id);
+	if (!result.success) {
+		return (
+			<div className="p-6 text-center text-muted-foreground">
+				{result.error}
+			</div>
+		);
+	}
+	const { page } = result;
 	if (!page) {
 		notFound();
 	}
 
 	const initialData = {
 		...page,
-		carousels: (page.carousels as unknown as CarouselsState) || {
-			liveCasino: {
-				enabled: false,
-				position: "bottom" as const,
-				searchKeyword: "",
-				customTitle: "",
-			},
-			slots: {
-				enabled: false,
-				position: "bottom" as const,
-				searchKeyword: "",
-				customTitle: "",
-			},
-			sports: {
-				enabled: false,
-				position: "bottom" as const,
-				searchKeyword: "",
-				customTitle: "",
-			},
-			providers: {
-				enabled: false,
-				position: "bottom" as const,
-				searchKeyword: "",
-				customTitle: "",
-			},
-		},
+		blocks: getContentBlocks(page),
+		structuredDataItems: getStructuredDataItems(page),
 	};
 
 	return (
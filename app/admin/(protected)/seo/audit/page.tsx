@@ -0,0 +1,205 @@
+import Link from "next/link";
+import { format } from "date-fns";
+import { AlertCircle, AlertTriangle, ArrowLeft, Edit } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+import { runSeoAudit } from "@/modules/seo/lib/audit";
+
+const scoreClassName = (score: number) =>
+	score >= 80
+		? "text-green-600 dark:text-green-400"
+		: score >= 50
+			? "text-yellow-600 dark:text-yellow-400"
+			: "text-destructive";
+
+export default async function SeoAuditPage() {
+	const report = await runSeoAudit();
+	const { pages, orphanedTags } = report;
+
+	const averageScore = pages.length
+		? Math.round(
+				pages.reduce((total, page) => total + page.score, 0) /
+					pages.length
+			)
+		: 100;
+	const pagesWithErrors = pages.filter((page) =>
+		page.issues.some((issue) => issue.severity === "error")
+	).length;
+
+	return (
+		<div className="space-y-6">
+			<div className="flex items-center gap-4">
+				<Button variant="ghost" size="icon" asChild>
+					<Link href="/admin/seo">
+						<ArrowLeft className="h-4 w-4" />
+					</Link>
+				</Button>
+				<div>
+					<h1 className="text-3xl font-bold tracking-tight">
+						SEO Audit
+					</h1>
+					<p className="text-muted-foreground mt-1">
+						Blog posts and landing pages on {report.domain}, checked{" "}
+						{format(report.generatedAt, "MMM d, yyyy HH:mm")}
+					</p>
+				</div>
+			</div>
+
+			<div className="grid gap-4 md:grid-cols-3">
+				<Card>
+					<CardHeader className="pb-2">
+						<CardDescription>Average score</CardDescription>
+						<CardTitle
+							className={cn(
+								"text-3xl",
+								scoreClassName(averageScore)
+							)}
+						>
+							{averageScore}
+						</CardTitle>
+					</CardHeader>
+				</Card>
+				<Card>
+					<CardHeader className="pb-2">
+						<CardDescription>Pages with errors</CardDescription>
+						<CardTitle className="text-3xl">
+							{pagesWithErrors}
+							<span className="text-base font-normal text-muted-foreground">
+								{" "}
+								/ {pages.length}
+							</span>
+						</CardTitle>
+					</CardHeader>
+				</Card>
+				<Card>
+					<CardHeader className="pb-2">
+						<CardDescription>Tags without posts</CardDescription>
+						<CardTitle className="text-3xl">
+							{orphanedTags.length}
+						</CardTitle>
+					</CardHeader>
+					{orphanedTags.length > 0 && (
+						<CardContent className="space-y-2">
+							<div className="flex flex-wrap gap-1">
+								{orphanedTags.map((tag) => (
+									<Badge key={tag.id} variant="secondary">
+										{tag.name}
+									</Badge>
+								))}
+							</div>
+							<Link
+								href="/admin/tags"
+								className="text-sm text-primary hover:underline"
+							>
+								Manage tags
+							</Link>
+						</CardContent>
+					)}
+				</Card>
+			</div>
+
+			<div className="grid gap-4">
+				{pages.map((page) => (
+					<Card key={`${page.kind}-${page.id}`}>
+						<CardContent className="p-6">
+							<div className="flex items-start justify-between gap-4">
+								<div className="flex gap-4 min-w-0 flex-1">
+									<div
+										className={cn(
+											"text-2xl font-bold w-12 shrink-0 text-center",
+											scoreClassName(page.score)
+										)}
+									>
+										{page.score}
+									</div>
+									<div className="space-y-2 min-w-0 flex-1">
+										<div className="flex items-center gap-2 flex-wrap">
+											<h3 className="font-semibold truncate">
+												{page.title || "Untitled"}
+											</h3>
+											<Badge variant="outline">
+												{page.kind === "post"
+													? "Blog Post"
+													: "Landing Page"}
+											</Badge>
+											{!page.live && (
+												<Badge variant="secondary">
+													Not live
+												</Badge>
+											)}
+										</div>
+										<code className="bg-muted px-2 py-1 rounded font-mono text-xs">
+											{page.path}
+										</code>
+
+										{page.issues.length > 0 ? (
+											<ul className="space-y-1 text-sm">
+												{page.issues.map(
+													(issue, index) => (
+														<li
+															key={index}
+															className="flex items-start gap-2"
+														>
+															{issue.severity ===
+															"error" ? (
+																<AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+															) : (
+																<AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-yellow-600 dark:text-yellow-400" />
+															)}
+															{issue.message}
+														</li>
+													)
+												)}
+											</ul>
+										) : (
+											<p className="text-sm text-muted-foreground">
+												No issues found.
+											</p>
+										)}
+
+										{page.keywords.length > 0 && (
+											<div className="flex flex-wrap gap-1">
+												{page.keywords.map(
+													({ keyword, density }) => (
+														<Badge
+															key={keyword}
+															variant="outline"
+															className="font-normal"
+														>
+															{`${keyword}: ${density}%`}
+														</Badge>
+													)
+												)}
+											</div>
+										)}
+									</div>
+								</div>
+
+								<Button variant="outline" size="sm" asChild>
+									<Link href={page.editUrl}>
+										<Edit className="mr-2 h-4 w-4" />
+										Fix
+									</Link>
+								</Button>
+							</div>
+						</CardContent>
+					</Card>
+				))}
+
+				{pages.length === 0 && (
+					<div className="py-12 text-center border rounded-lg bg-muted/10 text-muted-foreground">
+						No posts or landing pages to audit yet.
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
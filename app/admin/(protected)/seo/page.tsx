@@ -1,14 +1,30 @@
 import { getSeoPages } from "@/modules/seo/actions";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Plus, Edit, ExternalLink } from "lucide-react";
+import { Plus, Edit, ExternalLink, BarChart3 } from "lucide-react";
 import Link from "next/link";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
 import { DeleteSeoPageButton } from "@/modules/seo/components/DeleteSeoPageButton";
+import { getSession } from "@/modules/auth/lib/auth";
+import { hasCapability } from "@/modules/auth/lib/permissions";
+import {
+	getPublishStatus,
+	PUBLISH_STATUS_LABELS,
+} from "@/modules/admin/lib/publishing";
 
 export default async function SeoPagesList() {
-	const pages = await getSeoPages();
+	const result = await getSeoPages();
+	if (!result.success) {
+		return (
+			<div className="p-6 text-center text-muted-foreground">
+				{result.error}
+			</div>
+		);
+	}
+	const { pages } = result;
+	const session = await getSession();
+	const canEdit = hasCapability(session?.role, "seo.edit");
 
 	return (
 		<div className="space-y-6">
@@ -21,12 +37,22 @@ export default async function SeoPagesList() {
 						Manage dynamic SEO pages for targeted keywords
 					</p>
 				</div>
-				<Button asChild>
-					<Link href="/admin/seo/new">
-						<Plus className="mr-2 h-4 w-4" />
-						Create Page
-					</Link>
-				</Button>
+				<div className="flex items-center gap-2">
+					<Button variant="outline" asChild>
+						<Link href="/admin/seo/audit">
+							<BarChart3 className="mr-2 h-4 w-4" />
+							SEO Audit
+						</Link>
+					</Button>
+					{canEdit && (
+						<Button asChild>
+							<Link href="/admin/seo/new">
+								<Plus className="mr-2 h-4 w-4" />
+								Create Page
+							</Link>
+						</Button>
+					)}
+				</div>
 			</div>
 
 			<div className="grid gap-4">
@@ -36,6 +62,7 @@ export default async function SeoPagesList() {
 						slug: string;
 						title: string;
 						published: boolean;
+						publishAt: Date | null;
 						updatedAt: Date;
 					}) => (
 						<Card key={page.id} className="overflow-hidden">
@@ -53,10 +80,23 @@ export default async function SeoPagesList() {
 														: "secondary"
 												}
 											>
-												{page.published
-													? "Published"
-													: "Draft"}
+												{
+													PUBLISH_STATUS_LABELS[
+														getPublishStatus(page)
+													]
+												}
 											</Badge>
+											{page.publishAt && (
+												<span className="text-xs text-muted-foreground">
+													Publishes{" "}
+													{format(
+														new Date(
+															page.publishAt
+														),
+														"MMM d, yyyy HH:mm"
+													)}
+												</span>
+											)}
 										</div>
 										<div className="flex items-center gap-2 text-sm text-muted-foreground flex-wrap">
 											<code className="bg-muted px-2 py-1 rounded font-mono text-xs">
@@ -88,21 +128,25 @@ export default async function SeoPagesList() {
 												<ExternalLink className="h-4 w-4" />
 											</Link>
 										</Button>
-										<Button
-											variant="outline"
-											size="icon"
-											asChild
-										>
-											<Link
-												href={`/admin/seo/${page.id}`}
-											>
-												<Edit className="h-4 w-4" />
-											</Link>
-										</Button>
-										<DeleteSeoPageButton
-											pageId={page.id}
-											pageTitle={page.title}
-										/>
+										{canEdit && (
+											<>
+												<Button
+													variant="outline"
+													size="icon"
+													asChild
+												>
+													<Link
+														href={`/admin/seo/${page.id}`}
+													>
+														<Edit className="h-4 w-4" />
+													</Link>
+												</Button>
+												<DeleteSeoPageButton
+													pageId={page.id}
+													pageTitle={page.title}
+												/>
+											</>
+										)}
 									</div>
 								</div>
 							</CardContent>
@@ -120,12 +164,14 @@ export default async function SeoPagesList() {
 							Create your first landing page to start ranking for
 							targeted keywords
 						</p>
-						<Button asChild>
-							<Link href="/admin/seo/new">
-								<Plus className="mr-2 h-4 w-4" />
-								Create Page
-							</Link>
-						</Button>
+						{canEdit && (
+							<Button asChild>
+								<Link href="/admin/seo/new">
+									<Plus className="mr-2 h-4 w-4" />
+									Create Page
+								</Link>
+							</Button>
+						)}
 					</div>
 				)}
 			</div>
@@ -1,11 +1,12 @@
 import prisma from "@/modules/admin/lib/db";
 import { getSession } from "@/modules/auth/lib/auth";
+import { hasCapability } from "@/modules/auth/lib/permissions";
 import { UserForm } from "@/modules/users/components/user-form";
 import { UserList } from "@/modules/users/components/user-list";
 
 export default async function UsersPage() {
 	const session = await getSession();
-	if (!session || session.role !== "SUPER_ADMIN") {
+	if (!session || !hasCapability(session.role, "user.manage")) {
 		return (
 			<div className="p-6 text-center text-muted-foreground">
 				You do not have permission to view this page.
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runPublishingSchedule } from "@/modules/admin/lib/scheduler";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Applies scheduled publishing. Call it every minute from a cron job with
+ * `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function GET(request: NextRequest) {
+	const secret = process.env.CRON_SECRET;
+	if (
+		!secret ||
+		request.headers.get("authorization") !== `Bearer ${secret}`
+	) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	try {
+		const result = await runPublishingSchedule();
+		return NextResponse.json({ success: true, ...result });
+	} catch (error) {
+		console.error("Publishing schedule failed:", error);
+		return NextResponse.json(
+			{ error: "Publishing schedule failed" },
+			{ status: 500 }
+		);
+	}
+}
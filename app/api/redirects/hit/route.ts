@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordRedirectHit } from "@/modules/redirects/lib/redirects";
+
+/**
+ * Counts a redirect middleware has served. Only middleware may call it, with
+ * `Authorization: Bearer $REDIRECT_HIT_SECRET`.
+ */
+export async function POST(request: NextRequest) {
+	const secret = process.env.REDIRECT_HIT_SECRET;
+	if (
+		!secret ||
+		request.headers.get("authorization") !== `Bearer ${secret}`
+	) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	const body = await request.json().catch(() => null);
+	const id = typeof body?.id === "string" ? body.id : null;
+	if (!id) {
+		return NextResponse.json({ error: "Missing id" }, { status: 400 });
+	}
+
+	try {
+		await recordRedirectHit(id);
+		return NextResponse.json({ success: true });
+	} catch (error) {
+		console.error("Error counting redirect hit:", error);
+		return NextResponse.json(
+			{ error: "Could not count the hit" },
+			{ status: 500 }
+		);
+	}
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { getRedirectRules } from "@/modules/redirects/lib/redirects";
+
+export const dynamic = "force-dynamic";
+
+/** Redirect rules for middleware, which caches them itself. */
+export async function GET() {
+	try {
+		const rules = await getRedirectRules();
+		return NextResponse.json({ rules });
+	} catch (error) {
+		console.error("Error loading redirects:", error);
+		return NextResponse.json(
+			{ error: "Could not load redirects" },
+			{ status: 500 }
+		);
+	}
+}
@@ -1,39 +1,139 @@
 import { NextRequest, NextResponse } from "next/server";
-import { readFile } from "fs/promises";
 import path from "path";
+import { ByteRange, getStorage } from "@/modules/media/lib/backends";
+
+// Upload names are timestamped and never overwritten, so they can be cached
+// for good
+const CACHE_CONTROL = "public, max-age=31536000, immutable";
+
+// How long a redirect to the storage service stays valid
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Parses a single "bytes=start-end" range. Multi-range requests are served
+ * in full, which the spec allows; null means the range can't be satisfied.
+ */
+function parseRange(header: string, size: number): ByteRange | "full" | null {
+	const match = header.match(/^bytes=(\d*)-(\d*)$/);
+	if (!match) return "full";
+	const [, startText, endText] = match;
+	if (!startText && !endText) return "full";
+
+	let start: number;
+	let end: number;
+	if (!startText) {
+		// "bytes=-500" is the last 500 bytes
+		start = Math.max(size - Number(endText), 0);
+		end = size - 1;
+	} else {
+		start = Number(startText);
+		end = endText ? Math.min(Number(endText), size - 1) : size - 1;
+	}
+	if (start > end || start >= size) return null;
+	return { start, end };
+}
+
+async function serve(request: NextRequest, filename: string, head: boolean) {
+	// basename keeps "../" in the name from reaching outside the folder
+	const key = path.basename(filename);
+	const storage = getStorage();
+
+	if (process.env.STORAGE_SIGNED_URLS === "true") {
+		const signedUrl = await storage.getSignedUrl(
+			key,
+			SIGNED_URL_TTL_SECONDS
+		);
+		if (signedUrl) {
+			return NextResponse.redirect(signedUrl, {
+				status: 307,
+				headers: { "Cache-Control": "private, max-age=300" },
+			});
+		}
+	}
+
+	const info = await storage.stat(key);
+	if (!info) {
+		return NextResponse.json({ error: "File not found" }, { status: 404 });
+	}
+
+	const headers = new Headers({
+		"Content-Type": info.contentType,
+		"Cache-Control": CACHE_CONTROL,
+		"Accept-Ranges": "bytes",
+		"Last-Modified": info.lastModified.toUTCString(),
+	});
+	if (info.etag) headers.set("ETag", info.etag);
+
+	const ifNoneMatch = request.headers.get("if-none-match");
+	if (
+		info.etag &&
+		ifNoneMatch &&
+		ifNoneMatch.split(",").some((tag) => tag.trim() === info.etag)
+	) {
+		return new NextResponse(null, { status: 304, headers });
+	}
+
+	// A range is only honoured while the client's copy is still current
+	const rangeHeader = request.headers.get("range");
+	const ifRange = request.headers.get("if-range");
+	const range =
+		rangeHeader && (!ifRange || ifRange === info.etag)
+			? parseRange(rangeHeader, info.size)
+			: "full";
+
+	if (range === null) {
+		headers.set("Content-Range", `bytes */${info.size}`);
+		return new NextResponse(null, { status: 416, headers });
+	}
+
+	if (range !== "full") {
+		headers.set(
+			"Content-Range",
+			`bytes ${range.start}-${range.end}/${info.size}`
+		);
+	}
+	headers.set(
+		"Content-Length",
+		String(range === "full" ? info.size : range.end - range.start + 1)
+	);
+	const status = range === "full" ? 200 : 206;
+
+	if (head) return new NextResponse(null, { status, headers });
+
+	const object = await storage.get(key, range === "full" ? undefined : range);
+	if (!object) {
+		return NextResponse.json({ error: "File not found" }, { status: 404 });
+	}
+	return new NextResponse(object.body, { status, headers });
+}
 
 export async function GET(
 	request: NextRequest,
 	{ params }: { params: Promise<{ filename: string }> }
 ) {
-	// 1. Get the filename from the URL
 	const { filename } = await params;
 
-	// 2. Define path to the root uploads folder
-	const filePath = path.join(process.cwd(), "uploads", filename);
+	try {
+		return await serve(request, filename, false);
+	} catch (error) {
+		console.error("Failed to serve upload:", error);
+		return NextResponse.json(
+			{ error: "Failed to read file" },
+			{ status: 500 }
+		);
+	}
+}
+
+export async function HEAD(
+	request: NextRequest,
+	{ params }: { params: Promise<{ filename: string }> }
+) {
+	const { filename } = await params;
 
 	try {
-		// 3. Read the file from disk
-		const fileBuffer = await readFile(filePath);
-
-		// 4. Determine content type (default to generic binary if unknown)
-		// You can simply stick to 'image/jpeg' or install 'mime' package: yarn add mime @types/mime
-		// For now, let's do basic detection or default:
-		const ext = path.extname(filename).toLowerCase();
-		let contentType = "application/octet-stream";
-		if (ext === ".jpg" || ext === ".jpeg") contentType = "image/jpeg";
-		else if (ext === ".png") contentType = "image/png";
-		else if (ext === ".webp") contentType = "image/webp";
-		else if (ext === ".gif") contentType = "image/gif";
-
-		// 5. Return the image
-		return new NextResponse(fileBuffer, {
-			headers: {
-				"Content-Type": contentType,
-				"Cache-Control": "public, max-age=31536000, immutable",
-			},
-		});
-	} catch {
-		return NextResponse.json({ error: "File not found" }, { status: 404 });
+		return await serve(request, filename, true);
+	} catch (error) {
+		console.error("Failed to serve upload:", error);
+		return new NextResponse(null, { status: 500 });
 	}
 }
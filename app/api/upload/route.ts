@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { writeFile, mkdir } from "fs/promises";
-import path from "path";
-import { getSession } from "@/modules/auth/lib/auth";
+import { authorize } from "@/modules/auth/lib/auth";
+import { saveUpload } from "@/modules/media/lib/storage";
+import { getPreferredMediaUrl } from "@/modules/media/lib/urls";
 
 export async function POST(request: NextRequest) {
-	const session = await getSession();
-	if (!session) {
-		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	const { session, error } = await authorize("media.manage");
+	if (error) {
+		return NextResponse.json(
+			{ error },
+			{ status: error === "Unauthorized" ? 401 : 403 }
+		);
 	}
 
 	const formData = await request.formData();
@@ -19,25 +22,20 @@ export async function POST(request: NextRequest) {
 		);
 	}
 
-	const buffer = Buffer.from(await file.arrayBuffer());
-
-	// Sanitize filename
-	const sanitizedName = file.name
-		.toLowerCase()
-		.replace(/[^a-z0-9.\-]/g, "-")
-		.replace(/-+/g, "-")
-		.replace(/^-|-$/g, "");
-	const filename = Date.now() + "-" + sanitizedName;
-
-	// CHANGE 1: Save to a persistent "uploads" directory in project root (not public)
-	const uploadDir = path.join(process.cwd(), "uploads");
-
 	try {
-		await mkdir(uploadDir, { recursive: true });
-		await writeFile(path.join(uploadDir, filename), buffer);
-
-		// CHANGE 2: Return a URL pointing to our new API route
-		return NextResponse.json({ url: `/api/upload/${filename}` });
+		const result = await saveUpload(file, session.id);
+		if ("error" in result) {
+			return NextResponse.json(
+				{ error: result.error },
+				{ status: result.status }
+			);
+		}
+
+		// Files are served by the [filename] route next to this one
+		return NextResponse.json({
+			url: getPreferredMediaUrl(result.media),
+			media: result.media,
+		});
 	} catch (error) {
 		console.error("Upload failed:", error);
 		return NextResponse.json({ error: "Upload failed" }, { status: 500 });
@@ -8,6 +8,7 @@
 
 import { MetadataRoute } from "next";
 import { headers } from "next/headers";
+import { isLive } from "@/modules/admin/lib/publishing";
 
 /**
  * Generate comprehensive sitemap optimized for both traditional SEO and GEO
@@ -172,6 +173,7 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 		{ path: "/terms-and-conditions", priority: 0.4 },
 		{ path: "/privacy-policy", priority: 0.4 },
 		{ path: "/responsible-gambling", priority: 0.4 },
+		{ path: "/fairness", priority: 0.4 },
 		{ path: "/faqs", priority: 0.5 },
 		{ path: "/about-us", priority: 0.4 },
 	];
@@ -190,18 +192,17 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 	// High-value landing pages for specific keywords
 	// ============================================
 	try {
-		const { getSeoPages } = await import('@/modules/seo/actions')
-		const seoPages = await getSeoPages()
+		const { getLiveSeoPages } = await import('@/modules/seo/lib/pages')
+		// Scheduled pages stay out until the scheduler publishes them
+		const seoPages = await getLiveSeoPages()
 
 		seoPages.forEach((page) => {
-			if (page.published) {
-				sitemapEntries.push({
-					url: `${baseUrl}/${page.slug}`,
-					lastModified: page.updatedAt,
-					changeFrequency: 'weekly',
-					priority: 0.9,
-				})
-			}
+			sitemapEntries.push({
+				url: `${baseUrl}/${page.slug}`,
+				lastModified: page.updatedAt,
+				changeFrequency: 'weekly',
+				priority: 0.9,
+			})
 		})
 	} catch (error) {
 		console.error('Error fetching SEO pages for sitemap:', error)
@@ -215,7 +216,7 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
 		const { getPosts } = await import('@/modules/blog/lib/api')
 		const { posts } = await getPosts(1, 1000, '', 'published') // Fetch all published posts
 
-		posts.forEach((post) => {
+		posts.filter((post) => isLive(post)).forEach((post) => {
 			sitemapEntries.push({
 				url: `${baseUrl}/blog/${post.slug}`,
 				lastModified: post.updatedAt,
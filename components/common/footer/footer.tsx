@@ -13,6 +13,7 @@ import {
 	HelpCircle,
 	FileText,
 	Info,
+	ShieldCheck,
 } from "lucide-react";
 import { SeoContentSection } from "./seo-content-section";
 import { interpolateSiteName } from "@/lib/utils/site-config";
@@ -191,6 +192,11 @@ export function Footer() {
 					href: "/responsible-gambling",
 					icon: Shield,
 				},
+				{
+					label: t("footer.sections.legal.links.fairness"),
+					href: "/fairness",
+					icon: ShieldCheck,
+				},
 				{
 					label: t("footer.sections.legal.links.faqs"),
 					href: "/faqs",
@@ -46,6 +46,7 @@ import {
 	faGift,
 } from "@fortawesome/pro-light-svg-icons";
 import MobileLoginDropdown from "./mobile-login-dropdown";
+import { PendingActivityTray } from "@/components/features/walletProvider/pending-activity-tray";
 
 export function PageHeader({ className }: { className?: string }) {
 	const tHeader = useTranslations("header");
@@ -425,6 +426,9 @@ export function PageHeader({ className }: { className?: string }) {
 					<LoadingSkeletons />
 				) : isLoggedIn ? (
 					<>
+						{/* Deposits, withdrawals and tips still in flight */}
+						<PendingActivityTray />
+
 						{/* Refresh Button */}
 						<Button
 							variant="outline"
@@ -6,6 +6,11 @@ import Image from "next/image";
 import { useTranslations } from "@/lib/locale-provider";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { faArrowRight, faX } from "@fortawesome/pro-light-svg-icons";
+import {
+	useBodyScrollLock,
+	useModalFocusTrap,
+	useModalStacking,
+} from "@/hooks/use-modal-primitives";
 
 interface ModalProps {
 	open: boolean;
@@ -27,66 +32,16 @@ export function IdleModal({
 	const t = useTranslations("modalsIdle");
 	const dialogRef = useRef<HTMLDivElement>(null);
 	const okBtnRef = useRef<HTMLButtonElement>(null);
-	const previousFocusRef = useRef<HTMLElement | null>(null);
 	const [countdown, setCountdown] = useState("23:45:12");
 	const [endTime, setEndTime] = useState<Date | null>(null);
-	const [shouldShowModal, setShouldShowModal] = useState(false);
+	// Wait for any other open modal to close before showing
+	const shouldShowModal = useModalStacking(open, "data-idle-modal");
 
 	// Handle button click based on login status
 	const handleMainButtonClick = () => {
 		onDepositCallback?.();
 	};
 
-	// Function to check if any other modals are currently open
-	const checkForOtherModals = () => {
-		// Check for various modal indicators in the DOM
-		const modalSelectors = [
-			'[role="dialog"]:not([data-idle-modal])', // Generic modal dialogs (excluding this one)
-			'[aria-modal="true"]:not([data-idle-modal])', // ARIA modals (excluding this one)
-			".modal", // Common modal class
-			'[data-state="open"]', // Radix UI modals
-			'[data-testid*="modal"]', // Test ID modals
-			// Specific modal classes/selectors for known modals
-			"[data-nickname-modal]",
-			"[data-transaction-modal]",
-			"[data-token-modal]",
-			"[data-email-verification-modal]",
-			"[data-small-bonus-modal]",
-		];
-
-		for (const selector of modalSelectors) {
-			const elements = document.querySelectorAll(selector);
-			if (elements.length > 0) {
-				return true;
-			}
-		}
-
-		return false;
-	};
-
-	// Check for other modals when the open prop changes
-	useEffect(() => {
-		if (open) {
-			const hasOtherModals = checkForOtherModals();
-			setShouldShowModal(!hasOtherModals);
-
-			// If there are other modals, set up a periodic check
-			if (hasOtherModals) {
-				const checkInterval = setInterval(() => {
-					const stillHasOtherModals = checkForOtherModals();
-					if (!stillHasOtherModals) {
-						setShouldShowModal(true);
-						clearInterval(checkInterval);
-					}
-				}, 500); // Check every 500ms
-
-				return () => clearInterval(checkInterval);
-			}
-		} else {
-			setShouldShowModal(false);
-		}
-	}, [open]);
-
 	// Dynamic countdown timer
 	useEffect(() => {
 		if (!shouldShowModal) return;
@@ -127,71 +82,12 @@ export function IdleModal({
 	}, [shouldShowModal, endTime]);
 
 	// Focus management and focus trap
-	useEffect(() => {
-		if (!shouldShowModal) return;
-
-		// Store previous focus
-		previousFocusRef.current = document.activeElement as HTMLElement;
-
-		// Get all focusable elements
-		const focusableElements =
-			dialogRef.current?.querySelectorAll<HTMLElement>(
-				'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
-			);
-
-		const firstFocusable = focusableElements?.[0];
-		const lastFocusable = focusableElements?.[focusableElements.length - 1];
+	useModalFocusTrap(shouldShowModal, dialogRef, okBtnRef, () =>
+		onClose("external")
+	); // Pass 'external' for escape key
 
-		// Focus trap handler
-		const handleTabKey = (e: KeyboardEvent) => {
-			if (e.key !== "Tab") return;
-			if (!focusableElements || focusableElements.length === 0) return;
-
-			if (e.shiftKey) {
-				// Shift + Tab
-				if (document.activeElement === firstFocusable) {
-					e.preventDefault();
-					lastFocusable?.focus();
-				}
-			} else {
-				// Tab
-				if (document.activeElement === lastFocusable) {
-					e.preventDefault();
-					firstFocusable?.focus();
-				}
-			}
-		};
-
-		// Escape key handler
-		const handleEscapeKey = (e: KeyboardEvent) => {
-			if (e.key === "Escape") {
-				onClose("external"); // Pass 'external' for escape key
-			}
-		};
-
-		// Add event listeners
-		document.addEventListener("keydown", handleTabKey);
-		document.addEventListener("keydown", handleEscapeKey);
-
-		// Focus the first focusable element (OK button)
-		setTimeout(() => {
-			okBtnRef.current?.focus();
-		}, 100);
-
-		// Cleanup
-		return () => {
-			document.removeEventListener("keydown", handleTabKey);
-			document.removeEventListener("keydown", handleEscapeKey);
-		};
-	}, [shouldShowModal, onClose]);
-
-	// Return focus when modal closes
+	// Reset countdown when modal closes
 	useEffect(() => {
-		if (!shouldShowModal && previousFocusRef.current) {
-			previousFocusRef.current.focus();
-			previousFocusRef.current = null;
-		}
-		// Reset countdown when modal closes
 		if (!shouldShowModal) {
 			setEndTime(null);
 			setCountdown("23:45:12");
@@ -199,14 +95,7 @@ export function IdleModal({
 	}, [shouldShowModal]);
 
 	// Prevent body scroll when modal is open
-	useEffect(() => {
-		if (shouldShowModal) {
-			document.body.style.overflow = "hidden";
-			return () => {
-				document.body.style.overflow = "unset";
-			};
-		}
-	}, [shouldShowModal]);
+	useBodyScrollLock(shouldShowModal);
 
 	if (!shouldShowModal) return null;
 
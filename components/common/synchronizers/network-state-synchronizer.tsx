@@ -9,6 +9,7 @@ import {
 } from "@dynamic-labs/sdk-react-core";
 import { useAppStore } from "@/store/store";
 import { useDynamicAuth } from "@/hooks/useDynamicAuth";
+import { getChain } from "@/lib/utils/wallet-provider/chain.utils";
 
 // Helper type to safely access evmNetworks from the generic connector
 export interface EvmWalletConnector {
@@ -57,7 +58,11 @@ export const NetworkStateSynchronizer = () => {
 					(net: EvmNetwork) => net.chainId === chainId
 				);
 
-				if (!currentNetworkConfig) {
+				// Chains in our registry are usable even when the wallet does not
+				// describe them itself.
+				const registryChain = getChain(Number(chainId));
+
+				if (!currentNetworkConfig && !registryChain) {
 					throw new Error(
 						`No network configuration found for chain ID ${chainId}.`
 					);
@@ -65,15 +70,16 @@ export const NetworkStateSynchronizer = () => {
 
 				// Use the vanityName if it exists, otherwise fall back to the name.
 				const networkName =
-					currentNetworkConfig.vanityName ||
-					currentNetworkConfig.name;
-				const chainLogo = currentNetworkConfig.iconUrls?.[0] || null;
+					currentNetworkConfig?.vanityName ||
+					currentNetworkConfig?.name ||
+					registryChain!.name;
+				const chainLogo = currentNetworkConfig?.iconUrls?.[0] || null;
 
 				// The "network" state will now hold a clean object with the best possible name.
 				setNetworkData({
 					network: {
 						name: networkName,
-						vanityName: currentNetworkConfig.vanityName,
+						vanityName: currentNetworkConfig?.vanityName,
 					},
 					chainId: Number(chainId),
 					chainLogo,
@@ -1,76 +1,28 @@
-// v1
-// "use client";
-
-// import { useEffect, useRef } from "react";
-// import { useAppStore } from "@/store/store";
-// import { useDynamicAuth } from "@/hooks/useDynamicAuth";
-// import WebSocketService from "@/services/webSocketService";
-
-// export const TransactionStateSynchronizer = () => {
-// 	const { user, isLoggedIn } = useDynamicAuth();
-// 	const { processWebSocketUpdate, _monitorPendingTransactions } = useAppStore(
-// 		(state) => state.blockchain.transaction
-// 	);
-
-// 	// A ref to ensure we only start monitoring once per mount
-// 	const didMount = useRef(false);
-
-// 	useEffect(() => {
-// 		if (isLoggedIn && user?.username) {
-// 			WebSocketService.connect(user.username);
-
-// 			const unsubscribeDeposits = WebSocketService.subscribeToDeposits(
-// 				processWebSocketUpdate
-// 			);
-// 			const unsubscribeWithdraws = WebSocketService.subscribeToWithdraws(
-// 				processWebSocketUpdate
-// 			);
-// 			// On initial mount for a logged-in user, check if we need to resume monitoring
-// 			if (!didMount.current) {
-// 				_monitorPendingTransactions();
-// 				didMount.current = true;
-// 			}
-
-// 			return () => {
-// 				unsubscribeDeposits();
-// 				unsubscribeWithdraws();
-// 				// We don't necessarily want to disconnect on every re-render,
-// 				// only when the user logs out.
-// 			};
-// 		} else {
-// 			// If user logs out, disconnect the socket.
-// 			WebSocketService.disconnect();
-// 			didMount.current = false; // Reset for next login
-// 		}
-// 	}, [
-// 		isLoggedIn,
-// 		user?.username,
-// 		processWebSocketUpdate,
-// 		_monitorPendingTransactions,
-// 	]);
-
-// 	return null;
-// };
-
 "use client";
 
 import { useEffect, useRef } from "react";
 import { useAppStore } from "@/store/store";
 import { useDynamicAuth } from "@/hooks/useDynamicAuth";
 import WebSocketService from "@/services/webSocketService";
+import { TransactionType } from "@/types/blockchain/transactions.types";
 
 /**
  * An invisible "bridge" component with two primary responsibilities:
  * 1. To initialize the transaction monitoring system on application startup.
- * 2. To manage the WebSocket connection based on the user's authentication state.
+ * 2. To manage the WebSocket connection and status polling based on the
+ *    user's authentication state.
  */
 export const TransactionStateSynchronizer = () => {
-	const { user, isLoggedIn } = useDynamicAuth();
+	const { user, isLoggedIn, authToken } = useDynamicAuth();
 
 	// Get all necessary actions from the transaction slice.
-	const { processWebSocketUpdate, initializeTransactions } = useAppStore(
-		(state) => state.blockchain.transaction
-	);
+	const {
+		processWebSocketUpdate,
+		setAutoStatus,
+		initializeTransactions,
+		startStatusPolling,
+		stopStatusPolling,
+	} = useAppStore((state) => state.blockchain.transaction);
 
 	// A ref to ensure initialization only ever runs once for the entire application lifecycle.
 	const didInitialize = useRef(false);
@@ -80,7 +32,7 @@ export const TransactionStateSynchronizer = () => {
 	useEffect(() => {
 		// The ref guard prevents this logic from ever running a second time.
 		if (!didInitialize.current) {
-			// This single action handles both loading from localStorage and resuming monitoring.
+			// Transactions are loaded from localStorage with the store; this resumes their failsafes.
 			initializeTransactions();
 			didInitialize.current = true;
 		}
@@ -94,23 +46,38 @@ export const TransactionStateSynchronizer = () => {
 			WebSocketService.connect(user.username);
 
 			const unsubscribeDeposits = WebSocketService.subscribeToDeposits(
-				processWebSocketUpdate
+				(data) => processWebSocketUpdate(data, TransactionType.DEPOSIT)
 			);
 			const unsubscribeWithdraws = WebSocketService.subscribeToWithdraws(
-				processWebSocketUpdate
+				(data) => processWebSocketUpdate(data, TransactionType.WITHDRAW)
 			);
-			// Add other subscriptions (like auto-status) here in the future.
+			const unsubscribeAutoStatus =
+				WebSocketService.subscribeToAutoStatus(setAutoStatus);
+
+			// Notifications sent while the page was closed are gone, so
+			// transactions restored from storage are re-checked by polling.
+			startStatusPolling(user.username, authToken);
 
 			// The cleanup function for this effect will run when the user logs out.
 			return () => {
 				unsubscribeDeposits();
 				unsubscribeWithdraws();
+				unsubscribeAutoStatus();
+				stopStatusPolling();
 			};
 		} else {
 			// If the user is not logged in, ensure the WebSocket is disconnected.
 			WebSocketService.disconnect();
 		}
-	}, [isLoggedIn, user?.username, processWebSocketUpdate]);
+	}, [
+		isLoggedIn,
+		user?.username,
+		authToken,
+		processWebSocketUpdate,
+		setAutoStatus,
+		startStatusPolling,
+		stopStatusPolling,
+	]);
 
 	return null;
 };
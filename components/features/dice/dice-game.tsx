@@ -0,0 +1,327 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Dices, ShieldCheck } from "lucide-react";
+import { useTranslations } from "@/lib/locale-provider";
+import { useAppStore } from "@/store/store";
+import { useDynamicAuth } from "@/hooks/useDynamicAuth";
+import { useLimitGuard } from "@/hooks/responsible-gambling/useLimitGuard";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { DiceDirection, DiceRound } from "@/types/games/dice.types";
+import {
+	DICE_MAX_TARGET,
+	DICE_MIN_TARGET,
+	FAIRNESS_PATH,
+	buildFairnessUrl,
+	clampDiceTarget,
+	getPayoutMultiplier,
+	getWinChance,
+} from "@/lib/utils/games/provably-fair.utils";
+
+const DEFAULT_BET_AMOUNT = "1.00";
+const DEFAULT_TARGET = 50;
+
+export function DiceGame() {
+	const t = useTranslations("dice");
+	const { isLoggedIn, setShowLoginModal, refreshUserData } = useDynamicAuth();
+	const { guardWager } = useLimitGuard();
+	const {
+		active,
+		revealed,
+		rounds,
+		isRolling,
+		fetchDiceSeeds,
+		placeDiceBet,
+	} = useAppStore((state) => state.game.dice);
+
+	const [betAmount, setBetAmount] = useState(DEFAULT_BET_AMOUNT);
+	const [target, setTarget] = useState(DEFAULT_TARGET);
+	const [direction, setDirection] = useState<DiceDirection>("over");
+	const [lastRound, setLastRound] = useState<DiceRound | null>(null);
+
+	useEffect(() => {
+		if (isLoggedIn) fetchDiceSeeds();
+	}, [isLoggedIn, fetchDiceSeeds]);
+
+	const amount = Number(betAmount);
+	const isAmountValid = Number.isFinite(amount) && amount > 0;
+	const winChance = getWinChance(target, direction);
+	const multiplier = getPayoutMultiplier(winChance);
+
+	const handleRoll = async () => {
+		if (!isLoggedIn) {
+			setShowLoginModal(true);
+			return;
+		}
+		if (!isAmountValid) {
+			toast.error(t("invalidAmount"));
+			return;
+		}
+		if (!(await guardWager(amount))) return;
+
+		const round = await placeDiceBet(amount, target, direction);
+		if (!round) {
+			toast.error(t("rollFailed"));
+			return;
+		}
+		setLastRound(round);
+		refreshUserData();
+	};
+
+	// Rounds of a rotated pair can be verified with the revealed server seed
+	const getVerifyUrl = (round: DiceRound) =>
+		buildFairnessUrl({
+			serverSeedHash: round.server_seed_hash,
+			serverSeed: revealed.find(
+				(seed) => seed.server_seed_hash === round.server_seed_hash
+			)?.server_seed,
+			clientSeed: round.client_seed,
+			nonce: round.nonce,
+		});
+
+	return (
+		<div className="grid gap-6 lg:grid-cols-[1fr_320px]">
+			<Card>
+				<CardHeader>
+					<h1 className="text-2xl font-semibold flex items-center gap-2">
+						<Dices className="h-6 w-6 text-primary" />
+						{t("title")}
+					</h1>
+					<p className="text-sm text-muted-foreground">
+						{t("subtitle")}
+					</p>
+				</CardHeader>
+				<CardContent className="space-y-6">
+					<div className="flex flex-col items-center gap-1 py-6">
+						<span
+							className={`text-6xl font-bold tabular-nums ${
+								lastRound
+									? lastRound.win
+										? "text-primary"
+										: "text-destructive"
+									: "text-muted-foreground"
+							}`}
+						>
+							{lastRound ? lastRound.roll.toFixed(2) : "--.--"}
+						</span>
+						{lastRound && (
+							<span className="text-sm text-muted-foreground">
+								{lastRound.win
+									? t("won", {
+											payout: lastRound.payout.toFixed(2),
+										})
+									: t("lost")}
+							</span>
+						)}
+					</div>
+
+					<div className="space-y-3">
+						<div className="flex items-center justify-between text-sm">
+							<Label>
+								{t(
+									direction === "over"
+										? "rollOver"
+										: "rollUnder",
+									{
+										target: target.toFixed(2),
+									}
+								)}
+							</Label>
+							<ToggleGroup
+								type="single"
+								size="sm"
+								variant="outline"
+								value={direction}
+								onValueChange={(value) =>
+									value &&
+									setDirection(value as DiceDirection)
+								}
+							>
+								<ToggleGroupItem value="under">
+									{t("under")}
+								</ToggleGroupItem>
+								<ToggleGroupItem value="over">
+									{t("over")}
+								</ToggleGroupItem>
+							</ToggleGroup>
+						</div>
+						<Slider
+							min={DICE_MIN_TARGET}
+							max={DICE_MAX_TARGET}
+							step={1}
+							value={[target]}
+							onValueChange={([value]) =>
+								setTarget(clampDiceTarget(value))
+							}
+						/>
+					</div>
+
+					<div className="grid grid-cols-3 gap-3 text-center">
+						<div className="rounded-lg bg-muted/30 p-3">
+							<p className="text-[11px] text-muted-foreground">
+								{t("winChance")}
+							</p>
+							<p className="font-semibold tabular-nums">
+								{winChance.toFixed(2)}%
+							</p>
+						</div>
+						<div className="rounded-lg bg-muted/30 p-3">
+							<p className="text-[11px] text-muted-foreground">
+								{t("multiplier")}
+							</p>
+							<p className="font-semibold tabular-nums">
+								{multiplier.toFixed(4)}×
+							</p>
+						</div>
+						<div className="rounded-lg bg-muted/30 p-3">
+							<p className="text-[11px] text-muted-foreground">
+								{t("payoutOnWin")}
+							</p>
+							<p className="font-semibold tabular-nums">
+								$
+								{isAmountValid
+									? (amount * multiplier).toFixed(2)
+									: "0.00"}
+							</p>
+						</div>
+					</div>
+
+					<div className="flex flex-col sm:flex-row gap-3 sm:items-end">
+						<div className="flex-1 space-y-1">
+							<Label htmlFor="dice-bet-amount">
+								{t("betAmount")}
+							</Label>
+							<Input
+								id="dice-bet-amount"
+								type="number"
+								inputMode="decimal"
+								min="0"
+								step="0.01"
+								value={betAmount}
+								onChange={(event) =>
+									setBetAmount(event.target.value)
+								}
+							/>
+						</div>
+						<Button
+							className="sm:w-40"
+							onClick={handleRoll}
+							disabled={isRolling}
+						>
+							{isRolling ? t("rolling") : t("roll")}
+						</Button>
+					</div>
+				</CardContent>
+			</Card>
+
+			<div className="space-y-6">
+				<Card>
+					<CardHeader>
+						<h2 className="text-lg font-semibold flex items-center gap-2">
+							<ShieldCheck className="h-5 w-5 text-primary" />
+							{t("fairness.title")}
+						</h2>
+					</CardHeader>
+					<CardContent className="space-y-3 text-xs">
+						{active ? (
+							<>
+								<div>
+									<p className="text-muted-foreground">
+										{t("fairness.serverSeedHash")}
+									</p>
+									<p className="font-mono break-all">
+										{active.server_seed_hash}
+									</p>
+								</div>
+								<div>
+									<p className="text-muted-foreground">
+										{t("fairness.clientSeed")}
+									</p>
+									<p className="font-mono break-all">
+										{active.client_seed}
+									</p>
+								</div>
+								<div>
+									<p className="text-muted-foreground">
+										{t("fairness.nextNonce")}
+									</p>
+									<p className="font-mono">{active.nonce}</p>
+								</div>
+							</>
+						) : (
+							<p className="text-muted-foreground">
+								{t("fairness.signInToView")}
+							</p>
+						)}
+						<div className="flex flex-wrap gap-2 pt-2">
+							<Button asChild variant="outline" size="sm">
+								<Link href="/profile#provably-fair">
+									{t("fairness.changeSeeds")}
+								</Link>
+							</Button>
+							<Button asChild variant="ghost" size="sm">
+								<Link href={FAIRNESS_PATH}>
+									{t("fairness.verifier")}
+								</Link>
+							</Button>
+						</div>
+					</CardContent>
+				</Card>
+
+				<Card>
+					<CardHeader>
+						<h2 className="text-lg font-semibold">{t("myBets")}</h2>
+					</CardHeader>
+					<CardContent>
+						{rounds.length === 0 ? (
+							<p className="text-xs text-muted-foreground">
+								{t("noBets")}
+							</p>
+						) : (
+							<ul className="space-y-1 text-xs">
+								{rounds.map((round) => (
+									<li
+										key={round.round_id}
+										className="flex items-center justify-between gap-2 rounded-md bg-muted/30 px-2 py-1"
+									>
+										<span
+											className={`font-semibold tabular-nums ${
+												round.win
+													? "text-primary"
+													: "text-destructive"
+											}`}
+										>
+											{round.roll.toFixed(2)}
+										</span>
+										<span className="text-muted-foreground tabular-nums">
+											{round.direction === "over"
+												? ">"
+												: "<"}{" "}
+											{round.target.toFixed(2)}
+										</span>
+										<span className="tabular-nums">
+											${round.payout.toFixed(2)}
+										</span>
+										<Link
+											href={getVerifyUrl(round)}
+											className="text-primary hover:underline"
+										>
+											{t("verify")}
+										</Link>
+									</li>
+								))}
+							</ul>
+						)}
+					</CardContent>
+				</Card>
+			</div>
+		</div>
+	);
+}
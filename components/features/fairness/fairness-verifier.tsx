@@ -0,0 +1,229 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { CheckCircle2, ShieldCheck, XCircle } from "lucide-react";
+import { useTranslations } from "@/lib/locale-provider";
+import { PageHeader, SectionCard } from "@/components/features/legal";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DiceVerificationResult } from "@/types/games/dice.types";
+import { verifyDiceRound } from "@/lib/utils/games/provably-fair.utils";
+
+interface VerifierFields {
+	serverSeedHash: string;
+	serverSeed: string;
+	clientSeed: string;
+	nonce: string;
+}
+
+const FIELD_KEYS: (keyof VerifierFields)[] = [
+	"serverSeedHash",
+	"serverSeed",
+	"clientSeed",
+	"nonce",
+];
+
+const BreakdownStep = ({
+	index,
+	label,
+	children,
+}: {
+	index: number;
+	label: string;
+	children: React.ReactNode;
+}) => (
+	<li className="flex gap-3">
+		<span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-primary/10 text-xs font-semibold text-primary">
+			{index}
+		</span>
+		<div className="min-w-0 flex-1 space-y-1">
+			<p className="text-sm font-medium">{label}</p>
+			<div className="rounded-md bg-muted/30 p-2 font-mono text-xs break-all">
+				{children}
+			</div>
+		</div>
+	</li>
+);
+
+export function FairnessVerifier() {
+	const t = useTranslations("fairness");
+	const searchParams = useSearchParams();
+
+	const [fields, setFields] = useState<VerifierFields>(() => ({
+		serverSeedHash: searchParams.get("hash") ?? "",
+		serverSeed: searchParams.get("serverSeed") ?? "",
+		clientSeed: searchParams.get("clientSeed") ?? "",
+		nonce: searchParams.get("nonce") ?? "0",
+	}));
+	const [result, setResult] = useState<DiceVerificationResult | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	const nonce = Number(fields.nonce);
+	const canVerify =
+		!!fields.serverSeed &&
+		!!fields.clientSeed &&
+		Number.isInteger(nonce) &&
+		nonce >= 0;
+
+	const handleVerify = useCallback(async () => {
+		setError(null);
+		try {
+			setResult(
+				await verifyDiceRound({
+					serverSeedHash: fields.serverSeedHash,
+					serverSeed: fields.serverSeed,
+					clientSeed: fields.clientSeed,
+					nonce,
+				})
+			);
+		} catch (err) {
+			console.error("Verification failed:", err);
+			setResult(null);
+			setError(t("verifyFailed"));
+		}
+	}, [fields, nonce, t]);
+
+	// Links from a settled round arrive with everything filled in
+	const autoVerified = useRef(false);
+	useEffect(() => {
+		if (autoVerified.current || !canVerify) return;
+		autoVerified.current = true;
+		handleVerify();
+	}, [canVerify, handleVerify]);
+
+	return (
+		<div className="container mx-auto space-y-8 consistent-padding-x consistent-padding-y">
+			<PageHeader title={t("title")} subtitle={t("subtitle")} />
+
+			<SectionCard
+				variant="primary"
+				title={t("howItWorks.title")}
+				icon={ShieldCheck}
+			>
+				<ol className="list-decimal pl-5 space-y-2 text-sm">
+					<li>{t("howItWorks.commit")}</li>
+					<li>{t("howItWorks.combine")}</li>
+					<li>{t("howItWorks.reveal")}</li>
+				</ol>
+			</SectionCard>
+
+			<SectionCard title={t("form.title")} icon={ShieldCheck}>
+				<div className="grid gap-4 md:grid-cols-2">
+					{FIELD_KEYS.map((key) => (
+						<div key={key} className="space-y-1">
+							<Label htmlFor={`fairness-${key}`}>
+								{t(`form.${key}`)}
+							</Label>
+							<Input
+								id={`fairness-${key}`}
+								className="font-mono text-xs"
+								inputMode={key === "nonce" ? "numeric" : "text"}
+								value={fields[key]}
+								onChange={(event) =>
+									setFields((current) => ({
+										...current,
+										[key]: event.target.value,
+									}))
+								}
+							/>
+						</div>
+					))}
+				</div>
+				<Button
+					className="mt-4"
+					onClick={handleVerify}
+					disabled={!canVerify}
+				>
+					{t("form.verify")}
+				</Button>
+				{error && (
+					<p className="mt-3 text-sm text-destructive">{error}</p>
+				)}
+			</SectionCard>
+
+			{result && (
+				<SectionCard title={t("result.title")} icon={ShieldCheck}>
+					<div className="flex flex-col items-center gap-1 pb-6">
+						<span className="text-5xl font-bold tabular-nums text-primary">
+							{result.breakdown.roll.toFixed(2)}
+						</span>
+						<span className="text-sm text-muted-foreground">
+							{t("result.roll")}
+						</span>
+					</div>
+
+					<ol className="space-y-4">
+						<BreakdownStep index={1} label={t("steps.hash")}>
+							<p>SHA-256({t("form.serverSeed")})</p>
+							<p>= {result.computedHash}</p>
+							{fields.serverSeedHash && (
+								<p
+									className={`mt-2 flex items-center gap-1 font-sans ${
+										result.hashMatches
+											? "text-primary"
+											: "text-destructive"
+									}`}
+								>
+									{result.hashMatches ? (
+										<CheckCircle2 className="h-4 w-4" />
+									) : (
+										<XCircle className="h-4 w-4" />
+									)}
+									{result.hashMatches
+										? t("result.hashMatches")
+										: t("result.hashMismatch")}
+								</p>
+							)}
+						</BreakdownStep>
+						<BreakdownStep index={2} label={t("steps.message")}>
+							{result.breakdown.message}
+						</BreakdownStep>
+						<BreakdownStep index={3} label={t("steps.hmac")}>
+							<p>
+								HMAC-SHA256({t("form.serverSeed")},{" "}
+								{result.breakdown.message})
+							</p>
+							<p>= {result.breakdown.hmac}</p>
+						</BreakdownStep>
+						<BreakdownStep index={4} label={t("steps.bytes")}>
+							<table className="w-full text-left">
+								<tbody>
+									{result.breakdown.bytes.map(
+										(byte, index) => (
+											<tr key={index}>
+												<td className="pr-3">
+													0x{byte.hex}
+												</td>
+												<td className="pr-3">
+													{byte.value}
+												</td>
+												<td className="pr-3">
+													÷ 256^{index + 1}
+												</td>
+												<td>
+													={" "}
+													{byte.contribution.toFixed(
+														12
+													)}
+												</td>
+											</tr>
+										)
+									)}
+								</tbody>
+							</table>
+						</BreakdownStep>
+						<BreakdownStep index={5} label={t("steps.float")}>
+							{result.breakdown.float.toFixed(12)}
+						</BreakdownStep>
+						<BreakdownStep index={6} label={t("steps.roll")}>
+							floor({result.breakdown.float.toFixed(12)} × 10001)
+							÷ 100 = {result.breakdown.roll.toFixed(2)}
+						</BreakdownStep>
+					</ol>
+				</SectionCard>
+			)}
+		</div>
+	);
+}
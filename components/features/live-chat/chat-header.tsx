@@ -9,20 +9,50 @@ import {
 	DropdownMenuItem,
 	DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { chatRooms } from "@/constants/features/live-chat/live-chat.constants";
+import {
+	DEFAULT_CHAT_ROOM,
+	chatRooms,
+} from "@/constants/features/live-chat/live-chat.constants";
 import { ChatRoom } from "@/types/features/live-chat.types";
+import { useTranslations } from "@/lib/locale-provider";
 
 interface ChatHeaderProps {
 	currentChatRoom: ChatRoom;
 	onChatRoomChange: (chatRoom: ChatRoom) => void;
 	onClose: () => void;
+	// Unread messages per room code, shown next to each room
+	unreadByRoom?: Record<string, number>;
 }
 
+const UnreadBadge = ({ count, label }: { count: number; label: string }) => (
+	<span
+		className="ml-auto min-w-5 h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-xs flex items-center justify-center"
+		aria-label={label}
+	>
+		{count > 99 ? "99+" : count}
+	</span>
+);
+
 export function ChatHeader({
 	currentChatRoom,
 	onChatRoomChange,
 	onClose,
+	unreadByRoom = {},
 }: ChatHeaderProps) {
+	const t = useTranslations("chat.rooms");
+
+	// Language rooms carry their native name; only Global is translated
+	const getRoomName = (room: ChatRoom) =>
+		room.code === DEFAULT_CHAT_ROOM.code ? t("global") : room.name;
+
+	const otherRoomsUnread = chatRooms.reduce(
+		(total, room) =>
+			room.code === currentChatRoom.code
+				? total
+				: total + (unreadByRoom[room.code] ?? 0),
+		0
+	);
+
 	return (
 		<div
 			className="flex items-center justify-between p-4 border-b border-sidebar-border
@@ -50,14 +80,23 @@ export function ChatHeader({
 								<span className="text-base">
 									{currentChatRoom.flag}
 								</span>
-								<span>{currentChatRoom.name}</span>
+								<span>{getRoomName(currentChatRoom)}</span>
+								{otherRoomsUnread > 0 && (
+									<UnreadBadge
+										count={otherRoomsUnread}
+										label={t("unreadElsewhere", {
+											count: otherRoomsUnread,
+										})}
+									/>
+								)}
 								<ChevronDown className="h-4 w-4 text-muted-foreground transition-transform group-hover:rotate-180 duration-200" />
 							</Button>
 						</DropdownMenuTrigger>
 						<DropdownMenuContent
 							align="start"
-							className="w-56 bg-card border-sidebar-border shadow-2xl backdrop-blur-xl
-                       rounded-lg overflow-hidden casino-dropdown"
+							className="w-56 max-h-96 overflow-y-auto bg-card border-sidebar-border shadow-2xl backdrop-blur-xl
+                       rounded-lg casino-dropdown"
+							aria-label={t("switch")}
 						>
 							{chatRooms.map((room) => (
 								<DropdownMenuItem
@@ -78,12 +117,23 @@ export function ChatHeader({
 									</span>
 									<div className="flex flex-col">
 										<span className="font-medium">
-											{room.name}
+											{getRoomName(room)}
 										</span>
 										<span className="text-xs text-muted-foreground">
 											{room.code}
 										</span>
 									</div>
+									{(unreadByRoom[room.code] ?? 0) > 0 &&
+										room.code !== currentChatRoom.code && (
+											<UnreadBadge
+												count={unreadByRoom[room.code]}
+												label={t("unread", {
+													count: unreadByRoom[
+														room.code
+													],
+												})}
+											/>
+										)}
 								</DropdownMenuItem>
 							))}
 						</DropdownMenuContent>
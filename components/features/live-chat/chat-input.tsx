@@ -34,8 +34,29 @@ interface ChatInputProps {
 	currentUsername?: string;
 	disabled?: boolean; // Disable input while chat socket is not ready
 	inputRef?: React.RefObject<HTMLInputElement | null>; // external ref for focusing
+	// Moderation restrictions on the current user (epoch ms, enforced client-side too)
+	mutedUntil?: number;
+	slowModeUntil?: number;
+	isBanned?: boolean;
 }
 
+// Seconds left until a timestamp, re-rendering every second while it runs
+const useSecondsUntil = (until?: number) => {
+	const [now, setNow] = React.useState(() => Date.now());
+	const isRunning = !!until && until > now;
+
+	React.useEffect(() => {
+		if (!isRunning) return;
+		const interval = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(interval);
+	}, [isRunning, until]);
+
+	return until ? Math.max(0, Math.ceil((until - now) / 1000)) : 0;
+};
+
+const formatCountdown = (seconds: number) =>
+	`${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
 export function ChatInput({
 	inputValue,
 	onInputChange,
@@ -47,10 +68,18 @@ export function ChatInput({
 	replyingTo,
 	onCancelReply,
 	currentUsername,
-	disabled = false,
+	disabled: isDisconnected = false,
 	inputRef,
+	mutedUntil,
+	slowModeUntil,
+	isBanned = false,
 }: ChatInputProps) {
 	const t = useTranslations("chat");
+	const mutedSeconds = useSecondsUntil(mutedUntil);
+	const slowModeSeconds = useSecondsUntil(slowModeUntil);
+	// Muted and banned users can't type; slow mode only holds back sending
+	const disabled = isDisconnected || isBanned || mutedSeconds > 0;
+	const canSend = !disabled && slowModeSeconds === 0;
 	const fileInputRef = React.useRef<HTMLInputElement>(null);
 	const tagSuggestionsRef = React.useRef<HTMLDivElement>(null);
 
@@ -254,7 +283,7 @@ export function ChatInput({
 			}
 		} else if (e.key === "Enter" && inputValue.trim() !== "") {
 			e.preventDefault();
-			onSendMessage();
+			if (canSend) onSendMessage();
 		}
 	};
 
@@ -341,8 +370,14 @@ export function ChatInput({
 							disabled={disabled}
 							ref={inputRef}
 							placeholder={
-								disabled
+								isDisconnected
 									? "Connecting…"
+									: isBanned
+									? t("moderation.input.banned")
+									: mutedSeconds > 0
+									? t("moderation.input.muted", {
+											time: formatCountdown(mutedSeconds),
+									  })
 									: replyingTo
 									? t("input.replyPlaceholder", {
 											username: replyingTo.username,
@@ -414,7 +449,7 @@ export function ChatInput({
 
 					<Button
 						onClick={onSendMessage}
-						disabled={disabled || !inputValue.trim()}
+						disabled={!canSend || !inputValue.trim()}
 						className="bg-primary hover:bg-primary/90 text-foreground 
                        disabled:opacity-50 disabled:cursor-not-allowed 
                        transition-all duration-200 hover:scale-105 active:scale-95 
@@ -425,6 +460,14 @@ export function ChatInput({
 					</Button>
 				</div>
 
+				{slowModeSeconds > 0 && !disabled && (
+					<p className="relative z-10 mt-2 text-xs text-muted-foreground">
+						{t("moderation.input.slowMode", {
+							seconds: slowModeSeconds,
+						})}
+					</p>
+				)}
+
 				{/* Image Upload Dialog */}
 				{featureFlags.imageUpload && (
 					<ImageUploadDialog
@@ -0,0 +1,183 @@
+"use client";
+
+import { Loader2 } from "lucide-react";
+import { useTranslations } from "@/lib/locale-provider";
+import {
+	AlertDialog,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { sanitizeAmountInput } from "@/lib/utils";
+import { Token } from "@/types/blockchain/swap.types";
+import { ChatTipIntent } from "@/types/features/chat-tip.types";
+
+// Recipients listed by name before the rest are summarised
+const VISIBLE_RECIPIENTS = 8;
+
+interface ChatTipConfirmDialogProps {
+	intent: ChatTipIntent | null;
+	tokens: Token[];
+	selectedToken: Token | null;
+	validationError: string | null;
+	isSending: boolean;
+	isAwaitingAck: boolean;
+	onSelectToken: (token: Token) => void;
+	onCancel: () => void;
+	onConfirm: () => void;
+}
+
+export function ChatTipConfirmDialog({
+	intent,
+	tokens,
+	selectedToken,
+	validationError,
+	isSending,
+	isAwaitingAck,
+	onSelectToken,
+	onCancel,
+	onConfirm,
+}: ChatTipConfirmDialogProps) {
+	const t = useTranslations("chat.tips.confirm");
+	const isBusy = isSending || isAwaitingAck;
+	const symbol = selectedToken?.symbol ?? "";
+	const recipients = intent?.recipients ?? [];
+	const hiddenRecipients = recipients.length - VISIBLE_RECIPIENTS;
+
+	return (
+		<AlertDialog
+			open={!!intent}
+			onOpenChange={(open) => {
+				if (!open) onCancel();
+			}}
+		>
+			<AlertDialogContent>
+				<AlertDialogHeader>
+					<AlertDialogTitle>
+						{intent?.kind === "rain"
+							? t("titleRain")
+							: t("titleTip")}
+					</AlertDialogTitle>
+					<AlertDialogDescription>
+						{t("description", {
+							amount: intent?.amount ?? 0,
+							symbol,
+						})}
+					</AlertDialogDescription>
+				</AlertDialogHeader>
+
+				<div className="space-y-4 text-sm">
+					<div className="space-y-1">
+						<p className="text-muted-foreground">
+							{t("recipients", { count: recipients.length })}
+						</p>
+						<div className="flex flex-wrap gap-1">
+							{recipients
+								.slice(0, VISIBLE_RECIPIENTS)
+								.map((recipient) => (
+									<span
+										key={recipient}
+										className="rounded-md bg-muted/50 px-2 py-0.5 text-xs"
+									>
+										@{recipient}
+									</span>
+								))}
+							{hiddenRecipients > 0 && (
+								<span className="px-2 py-0.5 text-xs text-muted-foreground">
+									{t("moreRecipients", {
+										count: hiddenRecipients,
+									})}
+								</span>
+							)}
+						</div>
+						{intent?.kind === "rain" && recipients.length > 1 && (
+							<p className="text-xs text-muted-foreground">
+								{t("eachRecipient", {
+									amount: sanitizeAmountInput(
+										String(
+											intent.amount / recipients.length
+										)
+									),
+									symbol,
+								})}
+							</p>
+						)}
+					</div>
+
+					<div className="space-y-1">
+						<p className="text-muted-foreground">{t("token")}</p>
+						{tokens.length === 0 ? (
+							<p className="text-xs text-muted-foreground">
+								{t("noTokens")}
+							</p>
+						) : (
+							<Select
+								value={selectedToken?.address}
+								disabled={isBusy}
+								onValueChange={(address) => {
+									const token = tokens.find(
+										(item) => item.address === address
+									);
+									if (token) onSelectToken(token);
+								}}
+							>
+								<SelectTrigger className="w-full">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{tokens.map((token) => (
+										<SelectItem
+											key={token.address}
+											value={token.address}
+										>
+											{t("tokenOption", {
+												symbol: token.symbol,
+												balance: sanitizeAmountInput(
+													token.balance
+												),
+											})}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						)}
+						{validationError && (
+							<p className="text-xs text-destructive">
+								{validationError}
+							</p>
+						)}
+					</div>
+				</div>
+
+				<AlertDialogFooter>
+					<AlertDialogCancel disabled={isBusy}>
+						{t("cancel")}
+					</AlertDialogCancel>
+					<Button
+						className="gap-2"
+						onClick={onConfirm}
+						disabled={!selectedToken || !!validationError || isBusy}
+					>
+						{isBusy && <Loader2 className="h-4 w-4 animate-spin" />}
+						{isAwaitingAck
+							? t("awaitingServer")
+							: isSending
+								? t("sending")
+								: t("confirm")}
+					</Button>
+				</AlertDialogFooter>
+			</AlertDialogContent>
+		</AlertDialog>
+	);
+}
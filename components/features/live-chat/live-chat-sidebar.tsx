@@ -4,22 +4,52 @@ import { Button } from "@/components/ui/button";
 import { ChatHeader } from "./chat-header";
 import { MessagesArea } from "./messages-area";
 import { ChatInput } from "./chat-input";
-import { chatRooms } from "@/constants/features/live-chat/live-chat.constants";
+import {
+	DEFAULT_CHAT_ROOM,
+	findChatRoom,
+	findChatRoomByWsKey,
+} from "@/constants/features/live-chat/live-chat.constants";
 import {
 	GifMessage,
 	ImageMessage,
 	ChatRoom,
 	Message,
+	RainMessage,
 	ReplyMessage,
 	TextMessage,
 } from "@/types/features/live-chat.types";
 import { useAppStore } from "@/store/store";
 import { RainAnimation } from "./rain-animation";
-import { createErrorSystemMessage } from "@/lib/utils/features/live-chat/slash-commands";
+import { ChatTipConfirmDialog } from "./chat-tip-confirm-dialog";
+import {
+	MODERATION_COMMANDS,
+	SLASH_COMMANDS,
+	createErrorSystemMessage,
+	createModerationSystemMessage,
+	createRainSystemMessage,
+	createTipSystemMessage,
+	isModerationCommand,
+	parseModerationCommand,
+	parseRainCommand,
+	parseTipCommand,
+} from "@/lib/utils/features/live-chat/slash-commands";
+import { getAllUsernames } from "@/lib/utils/features/live-chat/live-chat.utils";
+import {
+	EMPTY_ROOM_MODERATION,
+	getMuteRemaining,
+	getSlowModeRemaining,
+	isChatBanned,
+	isChatModerator,
+} from "@/lib/utils/features/live-chat/chat-moderation.utils";
+import {
+	ChatModerationCommand,
+	ChatModerationEvent,
+} from "@/types/features/chat-moderation.types";
 import {
 	sanitizeMessageContent,
 	validateMessageContent,
 	validateImageUpload,
+	validateSlashCommand,
 	messageRateLimiter,
 } from "@/lib/utils/features/live-chat/input-validation";
 import { processImageForChat } from "@/lib/utils/features/live-chat/image-persistence";
@@ -29,34 +59,61 @@ import {
 	convertWebSocketMessageToMessage,
 	validateChatMessage,
 } from "@/lib/utils/features/live-chat/websocket-message-converter";
-import { useEffect, useState, useRef, useMemo } from "react";
+import { useCallback, useEffect, useState, useRef, useMemo } from "react";
 import { useTranslations } from "@/lib/locale-provider";
 import LocalStorageService from "@/services/localStorageService";
 import { useDynamicAuth } from "@/hooks/useDynamicAuth";
+import {
+	ChatTipConfirmation,
+	useChatTip,
+} from "@/hooks/walletProvider/tip/useChatTip";
+import { sanitizeAmountInput } from "@/lib/utils";
 import { toast } from "sonner";
 
+// Stable fallback so rooms without a buffer don't re-render on every store change
+const EMPTY_MESSAGES: Message[] = [];
+
 export function LiveChatSidebar() {
 	const tChat = useTranslations("chat");
 	const tCommon = useTranslations("commonExtra");
-	const { isOpen, closeChat, resetUnreadCount } = useAppStore(
-		(state) => state.uiDefinition.chat
-	);
-
-	const [currentChatRoom, setCurrentChatRoom] = useState<ChatRoom>(
-		chatRooms[0] // Default to "Global"
+	const {
+		isOpen,
+		closeChat,
+		resetUnreadCount,
+		currentRoomCode,
+		messagesByRoom,
+		unreadByRoom,
+		historyLoadedRooms,
+		setCurrentRoom,
+		restoreLastRoom,
+		setRoomHistory,
+		updateRoomMessages,
+		receiveRoomMessage,
+	} = useAppStore((state) => state.uiDefinition.chat);
+	const {
+		rooms: moderationByRoom,
+		lastSentAtByRoom,
+		applyModerationState,
+		applyModerationEvent,
+		recordMessageSent,
+	} = useAppStore((state) => state.uiDefinition.chatModeration);
+
+	const currentChatRoom = findChatRoom(currentRoomCode) ?? DEFAULT_CHAT_ROOM;
+	// Messages are not persisted; each room keeps its own in-memory buffer
+	const messages = messagesByRoom[currentChatRoom.code] ?? EMPTY_MESSAGES;
+	const setMessages = useCallback(
+		(updater: (prev: Message[]) => Message[]) =>
+			updateRoomMessages(currentChatRoom.code, updater),
+		[currentChatRoom.code, updateRoomMessages]
 	);
-	// Initialize messages with empty array - no localStorage persistence
-	const initializeMessages = (): Message[] => {
-		// Always return empty array - no message persistence
-		return [];
-	};
-	const [messages, setMessages] = useState<Message[]>(initializeMessages);
 	const [inputValue, setInputValue] = useState("");
 	const [replyingTo, setReplyingTo] = useState<Message | null>(null);
 	const [focusedMessageId, setFocusedMessageId] = useState<
 		string | undefined
 	>();
-	const [historyLoaded, setHistoryLoaded] = useState(false);
+	const historyLoaded = historyLoadedRooms.includes(currentChatRoom.code);
+	// Room whose history request is in flight, so re-renders don't refetch it
+	const loadingHistoryRoomRef = useRef<string | null>(null);
 	const { isLoggedIn, login } = useDynamicAuth();
 
 	// Rain animation state
@@ -121,6 +178,18 @@ export function LiveChatSidebar() {
 		return `User_${Math.floor(Math.random() * 10000)}`;
 	});
 
+	// Moderation state of the open room and the current user's standing in it
+	const moderation =
+		moderationByRoom[currentChatRoom.code] ?? EMPTY_ROOM_MODERATION;
+	const isModerator = isChatModerator(moderation, currentUsername);
+	const isBanned = isChatBanned(moderation, currentUsername);
+	const mutedUntil = moderation.muted[currentUsername];
+	const lastSentAt = lastSentAtByRoom[currentChatRoom.code];
+	const slowModeUntil =
+		moderation.slowModeSeconds && lastSentAt && !isModerator
+			? lastSentAt + moderation.slowModeSeconds * 1000
+			: undefined;
+
 	// Chat history hook
 	const {
 		isLoading: isLoadingHistory,
@@ -134,9 +203,11 @@ export function LiveChatSidebar() {
 		// connect,
 		// disconnect,
 		sendMessage: sendWebSocketMessage,
+		sendModerationAction,
 		isConnected,
 	} = useLiveChatWebSocket({
 		username: currentUsername,
+		room: currentChatRoom.wsKey,
 		autoConnect: true,
 		onMessageReceived: (wsMessage) => {
 			// console.log("📨 Received WebSocket message:", wsMessage);
@@ -148,19 +219,20 @@ export function LiveChatSidebar() {
 					currentUsername
 				);
 
-				// Add to messages list (avoid duplicates by checking if message already exists)
-				setMessages((prev) => {
-					const exists = prev.some((m) => m.id === message.id);
-					if (exists) {
-						console.log(
-							"Duplicate message received, ignoring:",
-							message.id
-						);
-						return prev;
-					}
-					// console.log("Adding new message from WebSocket:", message);
-					return [...prev, message];
-				});
+				// Add to the buffer of the room it arrived on (duplicates are ignored there)
+				const room =
+					findChatRoomByWsKey(wsMessage.room) ?? DEFAULT_CHAT_ROOM;
+				const roomModeration =
+					useAppStore.getState().uiDefinition.chatModeration.rooms[
+						room.code
+					];
+				if (
+					roomModeration &&
+					isChatModerator(roomModeration, message.username)
+				) {
+					message.badge = "moderator";
+				}
+				receiveRoomMessage(room.code, message);
 			} catch (error) {
 				console.error(
 					"Error processing received WebSocket message:",
@@ -168,42 +240,46 @@ export function LiveChatSidebar() {
 				);
 			}
 		},
+		onModerationState: (snapshot) => {
+			const room =
+				findChatRoomByWsKey(snapshot.room) ?? DEFAULT_CHAT_ROOM;
+			applyModerationState(room.code, snapshot);
+		},
+		onModerationEvent: (event) => {
+			const room = findChatRoomByWsKey(event.room) ?? DEFAULT_CHAT_ROOM;
+			applyModerationEvent(room.code, event);
+			const announcement = describeModerationEvent(event);
+			if (announcement) {
+				updateRoomMessages(room.code, (prev) => [
+					...prev,
+					createModerationSystemMessage(announcement),
+				]);
+			}
+		},
 		onConnectionStatusChange: (status) => {
 			// console.log("🔌 WebSocket status changed:", status);
 			setConnectionStatus(status);
 		},
 	});
 
-	// Track the message count when sidebar was last opened
-	const [lastOpenMessageCount, setLastOpenMessageCount] = useState(0);
+	// Pick up the room the visitor had open last time
+	useEffect(() => {
+		restoreLastRoom();
+	}, [restoreLastRoom]);
 
-	// Effect to reset message count when sidebar opens and track current message count
+	// Unread counts are kept per room by the chat slice; the open room is read
 	useEffect(() => {
 		if (isOpen) {
 			resetUnreadCount();
-			setLastOpenMessageCount(messages.length);
 		}
-	}, [isOpen, resetUnreadCount, messages.length]);
+	}, [isOpen, currentRoomCode, resetUnreadCount]);
 
-	// Effect to calculate unread messages when sidebar is closed
-	useEffect(() => {
-		if (!isOpen) {
-			const unreadCount = Math.max(
-				0,
-				messages.length - lastOpenMessageCount
-			);
-			// Use timeout to prevent infinite loops and ensure stable updates
-			const timeoutId = setTimeout(() => {
-				useAppStore.setState((state) => {
-					if (state.uiDefinition.chat.messageCount !== unreadCount) {
-						state.uiDefinition.chat.messageCount = unreadCount;
-					}
-				});
-			}, 0);
-
-			return () => clearTimeout(timeoutId);
-		}
-	}, [isOpen, messages.length, lastOpenMessageCount]);
+	const handleChatRoomChange = (room: ChatRoom) => {
+		if (room.code === currentChatRoom.code) return;
+		setReplyingTo(null);
+		setFocusedMessageId(undefined);
+		setCurrentRoom(room.code);
+	};
 
 	// Store username in localStorage
 	// useEffect(() => {
@@ -349,27 +425,32 @@ export function LiveChatSidebar() {
 		};
 	}, [isHovering, isOpen]);
 
-	// Load chat history when chat opens or component mounts
+	// Load the open room's history the first time it is shown
 	useEffect(() => {
-		if (isOpen && !historyLoaded && messages.length === 0) {
-			loadChatHistory()
-				.then((historyMessages) => {
-					if (historyMessages.length > 0) {
-						setMessages(historyMessages);
-					}
-					setHistoryLoaded(true);
-				})
-				.catch((error) => {
-					console.error("Failed to load chat history:", error);
-					setHistoryLoaded(true); // Mark as loaded even on error to prevent retries
-				});
-		}
+		const { code, wsKey } = currentChatRoom;
+		if (!isOpen || historyLoaded || loadingHistoryRoomRef.current === code)
+			return;
+
+		loadingHistoryRoomRef.current = code;
+		loadChatHistory(wsKey)
+			.then((historyMessages) => {
+				setRoomHistory(code, historyMessages);
+			})
+			.catch((error) => {
+				console.error("Failed to load chat history:", error);
+				setRoomHistory(code, []); // Mark as loaded even on error to prevent retries
+			})
+			.finally(() => {
+				if (loadingHistoryRoomRef.current === code) {
+					loadingHistoryRoomRef.current = null;
+				}
+			});
 	}, [
-		currentUsername,
+		currentChatRoom,
 		historyLoaded,
 		isOpen,
 		loadChatHistory,
-		messages.length,
+		setRoomHistory,
 	]);
 
 	// Clear history error when it exists
@@ -383,6 +464,180 @@ export function LiveChatSidebar() {
 		}
 	}, [historyError, clearHistoryError]);
 
+	// Deletions and pins change the room silently; the rest are announced
+	const describeModerationEvent = (event: ChatModerationEvent) => {
+		const names = {
+			moderator: event.moderator,
+			target: event.target ?? "",
+		};
+		switch (event.action) {
+			case "mute":
+				return event.durationSeconds
+					? tChat("moderation.events.muted", {
+							...names,
+							minutes: Math.ceil(event.durationSeconds / 60),
+					  })
+					: tChat("moderation.events.unmuted", names);
+			case "ban":
+				return tChat("moderation.events.banned", names);
+			case "slow":
+				return event.durationSeconds
+					? tChat("moderation.events.slowOn", {
+							seconds: event.durationSeconds,
+					  })
+					: tChat("moderation.events.slowOff");
+			default:
+				return null;
+		}
+	};
+
+	const handleModerate = (command: ChatModerationCommand) => {
+		if (!isModerator) return;
+		if (!sendModerationAction(command)) {
+			setMessages((prev) => [
+				...prev,
+				createErrorSystemMessage(tChat("moderation.errors.sendFailed")),
+			]);
+		}
+	};
+
+	const handleModerationCommand = (input: string) => {
+		if (!isModerator) {
+			return tChat("moderation.errors.notModerator");
+		}
+		const result = parseModerationCommand(input, currentUsername);
+		if (!result.success || !result.command) {
+			const name = input.trim().split(/\s+/)[0].toLowerCase();
+			const usage =
+				MODERATION_COMMANDS.find((cmd) => cmd.name === name)?.usage ??
+				"";
+			return tChat(`moderation.errors.${result.error ?? "usage"}`, {
+				usage,
+			});
+		}
+		handleModerate(result.command);
+		return null;
+	};
+
+	// Parses /tip and /rain and opens the confirmation step; returns an
+	// error to show in the chat instead
+	const handleTipCommand = (input: string) => {
+		const name = input.split(/\s+/)[0].toLowerCase();
+		const command = SLASH_COMMANDS.find((cmd) => cmd.name === name);
+		if (!command) {
+			return tChat("tips.errors.unknownCommand", {
+				commands: SLASH_COMMANDS.map((cmd) => cmd.usage).join(", "),
+			});
+		}
+		const availableUsers = getAllUsernames(messages, currentUsername);
+		const result =
+			name === "/rain"
+				? parseRainCommand(input, currentUsername, availableUsers)
+				: parseTipCommand(input, currentUsername, availableUsers);
+		if (!result.success || !result.intent) {
+			return tChat(`tips.errors.${result.error ?? "usage"}`, {
+				usage: command.usage,
+				username: result.username ?? "",
+			});
+		}
+		requestTip(result.intent);
+		return null;
+	};
+
+	// Tips and rain only show up once the server has credited them
+	const handleTipConfirmed = ({
+		intent,
+		ack,
+		token,
+		txHash,
+	}: ChatTipConfirmation) => {
+		const recipients = ack.recipients ?? intent.recipients;
+		if (intent.kind === "tip") {
+			const tipMessage = createTipSystemMessage(
+				tChat("tips.messages.tipSent", {
+					sender: currentUsername,
+					amount: intent.amount,
+					symbol: token.symbol,
+					recipient: recipients[0],
+				}),
+				{
+					sender: currentUsername,
+					recipient: recipients[0],
+					amount: intent.amount,
+					currency: token.symbol,
+					txHash,
+				}
+			);
+			setMessages((prev) => [...prev, tipMessage]);
+		} else {
+			const distributedAmount = ack.distributedAmount
+				? parseFloat(ack.distributedAmount)
+				: intent.amount / recipients.length;
+			const rainMessage: RainMessage = {
+				id: `rain_${txHash}`,
+				type: "rain",
+				userId: "current",
+				username: currentUsername,
+				avatar: generateTextAvatar(currentUsername),
+				timestamp: new Date(),
+				country: "🌧️",
+				ringColor: "ring-yellow-500",
+				isCurrentUser: true,
+				amount: intent.amount,
+				currency: token.symbol,
+				target: intent.target,
+				recipients,
+				distributedAmount,
+			};
+			const systemMessage = createRainSystemMessage(
+				rainMessage,
+				tChat("tips.messages.rainSent", {
+					sender: currentUsername,
+					amount: intent.amount,
+					symbol: token.symbol,
+					recipients:
+						recipients.length === 1
+							? `@${recipients[0]}`
+							: intent.target === "all"
+							? tChat("tips.messages.everyone")
+							: tChat("tips.messages.users", {
+									count: recipients.length,
+							  }),
+					each: sanitizeAmountInput(String(distributedAmount)),
+				})
+			);
+			setMessages((prev) => [...prev, rainMessage, systemMessage]);
+			setRainData({
+				amount: intent.amount,
+				currency: token.symbol,
+			});
+			setIsRainActive(true);
+		}
+		messageRateLimiter.recordMessage();
+	};
+
+	const handleTipFailed = (error: string) => {
+		setMessages((prev) => [...prev, createErrorSystemMessage(error)]);
+	};
+
+	const {
+		pendingIntent: pendingTip,
+		tokens: tipTokens,
+		selectedToken: tipToken,
+		selectToken: selectTipToken,
+		validationError: tipValidationError,
+		isSending: isSendingTip,
+		isAwaitingAck: isAwaitingTipAck,
+		requestTip,
+		cancel: cancelTip,
+		confirm: confirmTip,
+	} = useChatTip({
+		username: currentUsername,
+		room: currentChatRoom.wsKey,
+		onConfirmed: handleTipConfirmed,
+		onFailed: handleTipFailed,
+	});
+
 	const extractTaggedUsers = (content: string): string[] => {
 		const tagRegex = /@(\w+)/g;
 		const matches = content.match(tagRegex);
@@ -428,6 +683,45 @@ export function LiveChatSidebar() {
 			login();
 			return;
 		}
+		// Client-side enforcement of bans, mutes and slow mode; the server
+		// rejects these messages as well
+		const muteRemaining = getMuteRemaining(moderation, currentUsername);
+		if (isBanned || muteRemaining > 0) {
+			const errorMessage = createErrorSystemMessage(
+				isBanned
+					? tChat("moderation.errors.banned")
+					: tChat("moderation.errors.muted", {
+							minutes: Math.ceil(muteRemaining / 60000),
+					  })
+			);
+			setMessages((prev) => [...prev, errorMessage]);
+			return;
+		}
+		if (inputValue.startsWith("/") && isModerationCommand(inputValue)) {
+			const error = handleModerationCommand(inputValue);
+			if (error) {
+				setMessages((prev) => [
+					...prev,
+					createErrorSystemMessage(error),
+				]);
+			}
+			setInputValue("");
+			return;
+		}
+		const slowModeRemaining = getSlowModeRemaining(
+			moderation,
+			lastSentAt,
+			currentUsername
+		);
+		if (slowModeRemaining > 0) {
+			const errorMessage = createErrorSystemMessage(
+				tChat("moderation.errors.slowMode", {
+					seconds: Math.ceil(slowModeRemaining / 1000),
+				})
+			);
+			setMessages((prev) => [...prev, errorMessage]);
+			return;
+		}
 		if (!messageRateLimiter.canSendMessage()) {
 			const timeUntil = messageRateLimiter.getTimeUntilNextMessage();
 			const errorMessage = createErrorSystemMessage(
@@ -439,86 +733,21 @@ export function LiveChatSidebar() {
 			return;
 		}
 		if (inputValue.startsWith("/")) {
-			// [FEATURE COMMENTED OUT] Slash commands (tip/rain functionality temporarily disabled)
-			/*
-      const validation = validateSlashCommand(inputValue);
-      if (!validation.isValid) {
-        const errorMessage = createErrorSystemMessage(
-          validation.error!
-        );
-        setMessages((prev) => [...prev, errorMessage]);
-        return;
-      }
-
-      const sanitizedInput = validation.sanitized!;
-      const availableUsers = getAllUsernames(messages);
-
-      if (sanitizedInput.startsWith("/rain")) {
-        const result = parseRainCommand(
-          sanitizedInput,
-          "You",
-          availableUsers
-        );
-
-        if (result.success && result.message) {
-          if (result.message.type === "rain") {
-            // Add the rain message
-            setMessages((prev) => [...prev, result.message!]);
-
-            // Add system announcement
-            const systemMessage = createRainSystemMessage(
-              result.message
-            );
-            setMessages((prev) => [...prev, systemMessage]);
-
-            // Trigger rain animation
-            setRainData({
-              amount: result.message.amount,
-              currency: result.message.currency,
-            });
-            setIsRainActive(true);
-
-            // Record message for rate limiting
-            messageRateLimiter.recordMessage();
-          }
-        } else if (result.error) {
-          // Add error message
-          const errorMessage = createErrorSystemMessage(result.error);
-          setMessages((prev) => [...prev, errorMessage]);
-        }
-      } else if (sanitizedInput.startsWith("/tip")) {
-        const result = parseTipCommand(
-          sanitizedInput,
-          "You",
-          availableUsers
-        );
-
-        if (result.success && result.message) {
-          // Add tip system message
-          setMessages((prev) => [...prev, result.message!]);
-
-          // Record message for rate limiting
-          messageRateLimiter.recordMessage();
-        } else if (result.error) {
-          // Add error message
-          const errorMessage = createErrorSystemMessage(result.error);
-          setMessages((prev) => [...prev, errorMessage]);
-        }
-      } else {
-        // Unknown slash command
-        const errorMessage = createErrorSystemMessage(
-          "Unknown command. Available commands: /rain <amount> <target>, /tip <amount> <username>"
-        );
-        setMessages((prev) => [...prev, errorMessage]);
-      }
-      */
-
-			// For now, treat slash commands as regular messages
-			const errorMessage = createErrorSystemMessage(
-				tChat("system.slashDisabled")
-			);
-			setMessages((prev) => [...prev, errorMessage]);
-
+			const validation = validateSlashCommand(inputValue);
+			if (!validation.isValid) {
+				const errorMessage = createErrorSystemMessage(
+					validation.error!
+				);
+				setMessages((prev) => [...prev, errorMessage]);
+				return;
+			}
+			const error = handleTipCommand(validation.sanitized!);
+			if (error) {
+				setMessages((prev) => [
+					...prev,
+					createErrorSystemMessage(error),
+				]);
+			}
 			setInputValue("");
 			return;
 		}
@@ -687,6 +916,7 @@ export function LiveChatSidebar() {
 
 		// Record message for rate limiting
 		messageRateLimiter.recordMessage();
+		recordMessageSent(currentChatRoom.code);
 		setInputValue("");
 	};
 
@@ -696,21 +926,6 @@ export function LiveChatSidebar() {
 		setRainData(null);
 	};
 
-	// Helper function to get all unique usernames from messages (for rain command validation)
-	// const getAllUsernames = (messages: Message[]): string[] => {
-	// 	const usernames = new Set<string>();
-	// 	messages.forEach((msg) => {
-	// 		if (
-	// 			msg.username &&
-	// 			msg.username !== "You" &&
-	// 			msg.username !== "System"
-	// 		) {
-	// 			usernames.add(msg.username);
-	// 		}
-	// 	});
-	// 	return Array.from(usernames);
-	// };
-
 	const handleEmojiSelect = (emoji: string) => {
 		setInputValue((prev) => prev + emoji);
 	};
@@ -840,8 +1055,9 @@ export function LiveChatSidebar() {
 		>
 			<ChatHeader
 				currentChatRoom={currentChatRoom}
-				onChatRoomChange={setCurrentChatRoom}
+				onChatRoomChange={handleChatRoomChange}
 				onClose={closeChat}
+				unreadByRoom={unreadByRoom}
 			/>
 			<div className="flex-1 flex flex-col min-h-0 overflow-hidden ">
 				<MessagesArea
@@ -852,6 +1068,9 @@ export function LiveChatSidebar() {
 					focusedMessageId={focusedMessageId}
 					isLoadingHistory={isLoadingHistory}
 					historyError={historyError}
+					pinnedMessageId={moderation.pinnedMessageId}
+					canModerate={isModerator}
+					onModerate={handleModerate}
 				/>
 			</div>
 			<div className="flex-shrink-0 relative z-20 overflow-visible">
@@ -872,6 +1091,9 @@ export function LiveChatSidebar() {
 						currentUsername={currentUsername}
 						disabled={connectionStatus !== "connected"}
 						inputRef={inputRef}
+						mutedUntil={mutedUntil}
+						slowModeUntil={slowModeUntil}
+						isBanned={isBanned}
 					/>
 				) : (
 					<div
@@ -956,6 +1178,18 @@ export function LiveChatSidebar() {
 				</div>
 			</div>
 
+			<ChatTipConfirmDialog
+				intent={pendingTip}
+				tokens={tipTokens}
+				selectedToken={tipToken}
+				validationError={tipValidationError}
+				isSending={isSendingTip}
+				isAwaitingAck={isAwaitingTipAck}
+				onSelectToken={selectTipToken}
+				onCancel={cancelTip}
+				onConfirm={confirmTip}
+			/>
+
 			{/* Rain Animation Overlay */}
 			{isRainActive && rainData && (
 				<RainAnimation
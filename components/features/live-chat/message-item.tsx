@@ -5,6 +5,14 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import {
+	ContextMenu,
+	ContextMenuContent,
+	ContextMenuItem,
+	ContextMenuSeparator,
+	ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import { Ban, MicOff, Pin, PinOff, Trash2 } from "lucide-react";
 import {
 	Message,
 	ReplyMessage,
@@ -15,6 +23,9 @@ import {
 	processMessageContent,
 } from "@/lib/utils/features/live-chat/live-chat.utils";
 import { generateUserAvatarAsync } from "@/lib/utils/features/live-chat/avatar-generator";
+import { DEFAULT_MUTE_MINUTES } from "@/lib/utils/features/live-chat/slash-commands";
+import { ChatModerationCommand } from "@/types/features/chat-moderation.types";
+import { useTranslations } from "@/lib/locale-provider";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import {
 	faChevronRight,
@@ -31,6 +42,10 @@ interface MessageItemProps {
 	onTip?: (message: Message) => void;
 	currentUsername?: string;
 	isFocused?: boolean;
+	// Moderators get a context menu with moderation actions on each message
+	canModerate?: boolean;
+	isPinned?: boolean;
+	onModerate?: (command: ChatModerationCommand) => void;
 }
 
 export function MessageItem({
@@ -39,7 +54,11 @@ export function MessageItem({
 	onTip,
 	currentUsername,
 	isFocused = false,
+	canModerate = false,
+	isPinned = false,
+	onModerate,
 }: MessageItemProps) {
+	const tModeration = useTranslations("chat.moderation.menu");
 	const [isAnimating, setIsAnimating] = React.useState(false);
 	const [avatarUrl, setAvatarUrl] = React.useState<string>("");
 	const [replyAvatarUrl, setReplyAvatarUrl] = React.useState<string>("");
@@ -181,7 +200,7 @@ export function MessageItem({
 		}
 	};
 
-	return (
+	const messageContent = (
 		<div
 			className={cn(
 				"relative px-4 py-2 transition-colors duration-150 w-full max-w-full overflow-hidden",
@@ -535,4 +554,70 @@ export function MessageItem({
 			</div>
 		</div>
 	);
+
+	if (!canModerate || !onModerate || message.type === "system") {
+		return messageContent;
+	}
+
+	const canTargetAuthor = !message.isCurrentUser;
+
+	return (
+		<ContextMenu>
+			<ContextMenuTrigger asChild>{messageContent}</ContextMenuTrigger>
+			<ContextMenuContent className="w-48">
+				<ContextMenuItem
+					onSelect={() =>
+						onModerate({
+							action: "pin",
+							messageId: isPinned ? undefined : message.id,
+						})
+					}
+				>
+					{isPinned ? <PinOff /> : <Pin />}
+					{isPinned ? tModeration("unpin") : tModeration("pin")}
+				</ContextMenuItem>
+				<ContextMenuItem
+					variant="destructive"
+					onSelect={() =>
+						onModerate({ action: "delete", messageId: message.id })
+					}
+				>
+					<Trash2 />
+					{tModeration("delete")}
+				</ContextMenuItem>
+				{canTargetAuthor && (
+					<>
+						<ContextMenuSeparator />
+						<ContextMenuItem
+							onSelect={() =>
+								onModerate({
+									action: "mute",
+									target: message.username,
+									durationSeconds: DEFAULT_MUTE_MINUTES * 60,
+								})
+							}
+						>
+							<MicOff />
+							{tModeration("mute", {
+								username: message.username,
+								minutes: DEFAULT_MUTE_MINUTES,
+							})}
+						</ContextMenuItem>
+						<ContextMenuItem
+							variant="destructive"
+							onSelect={() =>
+								onModerate({
+									action: "ban",
+									target: message.username,
+								})
+							}
+						>
+							<Ban />
+							{tModeration("ban", { username: message.username })}
+						</ContextMenuItem>
+					</>
+				)}
+			</ContextMenuContent>
+		</ContextMenu>
+	);
 }
@@ -1,10 +1,11 @@
 "use client";
 
 import * as React from "react";
-import { MessageCircle } from "lucide-react";
+import { MessageCircle, Pin } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { MessageItem } from "./message-item";
 import { Message } from "@/types/features/live-chat.types";
+import { ChatModerationCommand } from "@/types/features/chat-moderation.types";
 import { useTranslations } from "@/lib/locale-provider";
 
 interface MessagesAreaProps {
@@ -15,8 +16,29 @@ interface MessagesAreaProps {
 	currentUsername?: string;
 	isLoadingHistory?: boolean;
 	historyError?: string | null;
+	pinnedMessageId?: string | null;
+	canModerate?: boolean;
+	onModerate?: (command: ChatModerationCommand) => void;
 }
 
+// Short text version of a pinned message for the bar above the list
+const getPinnedPreview = (message: Message) => {
+	switch (message.type) {
+		case "text":
+		case "reply":
+		case "share":
+		case "system":
+			return message.content;
+		case "emoji":
+			return message.emoji;
+		case "gif":
+		case "image":
+			return message.caption ?? "";
+		default:
+			return "";
+	}
+};
+
 export function MessagesArea({
 	messages,
 	onReply,
@@ -25,10 +47,17 @@ export function MessagesArea({
 	currentUsername,
 	isLoadingHistory = false,
 	historyError = null,
+	pinnedMessageId = null,
+	canModerate = false,
+	onModerate,
 }: MessagesAreaProps) {
 	const t = useTranslations("chat");
 	const scrollAreaRef = React.useRef<HTMLDivElement>(null);
 
+	const pinnedMessage = pinnedMessageId
+		? messages.find((message) => message.id === pinnedMessageId)
+		: undefined;
+
 	// Auto-scroll to bottom when new messages arrive
 	React.useEffect(() => {
 		const scrollToBottom = () => {
@@ -62,6 +91,21 @@ export function MessagesArea({
 
 	return (
 		<div className="h-full flex flex-col bg-gradient-to-b from-background/50 to-card/30 overflow-hidden">
+			{pinnedMessage && (
+				<div className="flex items-start gap-2 px-4 py-2 border-b border-sidebar-border bg-primary/5 text-xs">
+					<Pin className="h-3.5 w-3.5 mt-0.5 text-primary flex-shrink-0" />
+					<div className="min-w-0">
+						<span className="font-semibold text-foreground">
+							{t("moderation.pinnedFrom", {
+								username: pinnedMessage.username,
+							})}
+						</span>
+						<p className="text-muted-foreground line-clamp-2 break-words">
+							{getPinnedPreview(pinnedMessage)}
+						</p>
+					</div>
+				</div>
+			)}
 			<ScrollArea
 				ref={scrollAreaRef}
 				className="flex-1 h-full messages-scrollable scrollbar-hide overflow-auto"
@@ -126,6 +170,9 @@ export function MessagesArea({
 									onTip={onTip}
 									currentUsername={currentUsername}
 									isFocused={message.id === focusedMessageId}
+									canModerate={canModerate}
+									isPinned={message.id === pinnedMessageId}
+									onModerate={onModerate}
 								/>
 							))}
 						</div>
@@ -0,0 +1,173 @@
+"use client";
+
+import { useTranslations } from "@/lib/locale-provider";
+import { useAppStore } from "@/store/store";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import {
+	faFileExport,
+	faFileCsv,
+	faFileExcel,
+	faFilePdf,
+	faXmark,
+} from "@fortawesome/pro-light-svg-icons";
+import {
+	BetHistoryExportFormat,
+	BetHistoryExportLabels,
+	MAX_EXPORT_RECORDS,
+} from "@/lib/utils/features/bet-history/bet-history-export.utils";
+
+const EXPORT_OPTIONS = [
+	{ format: "csv", icon: faFileCsv, labelKey: "export.csv" },
+	{ format: "xlsx", icon: faFileExcel, labelKey: "export.xlsx" },
+	{ format: "pdf", icon: faFilePdf, labelKey: "export.pdf" },
+] as const satisfies ReadonlyArray<{
+	format: BetHistoryExportFormat;
+	icon: unknown;
+	labelKey: string;
+}>;
+
+interface BetHistoryExportButtonProps {
+	disabled?: boolean;
+}
+
+/**
+ * Dropdown that starts an export of every page matching the active filters.
+ */
+export function BetHistoryExportButton({
+	disabled = false,
+}: BetHistoryExportButtonProps) {
+	const t = useTranslations("profile.betHistory");
+	const status = useAppStore(
+		(state) => state.history.betHistoryExport.status
+	);
+	const exportHistory = useAppStore(
+		(state) => state.history.betHistoryExport.exportHistory
+	);
+
+	const isRunning = status === "running";
+
+	const handleExport = (format: BetHistoryExportFormat) => {
+		const labels: BetHistoryExportLabels = {
+			betId: t("betId"),
+			date: t("date"),
+			game: t("game"),
+			gameType: t("gameType"),
+			provider: t("provider"),
+			amount: t("amount"),
+			payout: t("payout"),
+			net: t("export.net"),
+			status: t("status"),
+			statementTitle: t("export.statementTitle"),
+			player: t("player"),
+			period: t("export.period"),
+			allProviders: t("export.allProviders"),
+			allStatuses: t("export.allStatuses"),
+			generatedAt: t("export.generatedAt"),
+			totalRecords: t("export.totalRecords"),
+			totalBets: t("totalBets"),
+			totalProfitLoss: t("totalProfitLoss"),
+			truncated: t("export.truncated", {
+				count: MAX_EXPORT_RECORDS.toLocaleString(),
+			}),
+		};
+		exportHistory(format, labels);
+	};
+
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					disabled={disabled || isRunning}
+					className="rounded-lg border-border/50 bg-background/50 text-muted-foreground backdrop-blur-sm transition-all duration-300 hover:border-border hover:bg-primary/10"
+				>
+					<FontAwesomeIcon
+						icon={faFileExport}
+						className="mr-1.5 h-3 w-3"
+					/>
+					{t("export.button")}
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align="end">
+				<DropdownMenuLabel className="text-xs text-muted-foreground">
+					{t("export.allPagesHint")}
+				</DropdownMenuLabel>
+				<DropdownMenuSeparator />
+				{EXPORT_OPTIONS.map((option) => (
+					<DropdownMenuItem
+						key={option.format}
+						onSelect={() => handleExport(option.format)}
+					>
+						<FontAwesomeIcon
+							icon={option.icon}
+							className="h-3.5 w-3.5"
+						/>
+						{t(option.labelKey)}
+					</DropdownMenuItem>
+				))}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
+
+/**
+ * Progress bar with a cancel button, shown while an export is walking pages.
+ */
+export function BetHistoryExportProgress() {
+	const t = useTranslations("profile.betHistory");
+	const status = useAppStore(
+		(state) => state.history.betHistoryExport.status
+	);
+	const progress = useAppStore(
+		(state) => state.history.betHistoryExport.progress
+	);
+	const cancelExport = useAppStore(
+		(state) => state.history.betHistoryExport.cancelExport
+	);
+
+	if (status !== "running") return null;
+
+	const percent =
+		progress.totalPages > 0
+			? Math.round((progress.pages / progress.totalPages) * 100)
+			: 0;
+
+	return (
+		<div className="mb-3 flex items-center gap-3 rounded-lg border border-border/50 bg-background/30 p-3 backdrop-blur-sm">
+			<div className="flex-1 space-y-1.5">
+				<div className="flex items-center justify-between text-xs text-muted-foreground">
+					<span>{t("export.preparing")}</span>
+					<span>
+						{t("export.progress", {
+							records: progress.records,
+							total: progress.totalRecords,
+						})}
+					</span>
+				</div>
+				<Progress value={percent} />
+			</div>
+			<Button
+				type="button"
+				variant="ghost"
+				size="sm"
+				onClick={cancelExport}
+				className="text-muted-foreground hover:text-foreground"
+			>
+				<FontAwesomeIcon icon={faXmark} className="mr-1.5 h-3 w-3" />
+				{t("export.cancel")}
+			</Button>
+		</div>
+	);
+}
@@ -9,6 +9,7 @@ import {
 	faFilter,
 } from "@fortawesome/pro-light-svg-icons";
 import { BetHistoryFilters } from "@/store/slices/history/betHistory.slice";
+import { BetHistoryExportButton } from "./bet-history-export";
 
 interface BetHistoryHeaderProps {
 	showFilters: boolean;
@@ -18,6 +19,7 @@ interface BetHistoryHeaderProps {
 	onRefresh: () => void;
 	canRefresh?: boolean;
 	isRefreshing?: boolean;
+	canExport?: boolean;
 }
 
 export function BetHistoryHeader({
@@ -28,6 +30,7 @@ export function BetHistoryHeader({
 	onRefresh,
 	canRefresh = true,
 	isRefreshing = false,
+	canExport = true,
 }: BetHistoryHeaderProps) {
 	const t = useTranslations("profile.betHistory");
 
@@ -108,6 +111,9 @@ export function BetHistoryHeader({
 							/>
 							{t("refresh")}
 						</Button>
+						<BetHistoryExportButton
+							disabled={isLoading || !canExport}
+						/>
 					</div>
 				</div>
 			</div>
@@ -11,6 +11,7 @@ import { BetHistoryPagination } from "./bet-history-pagination";
 import { BetHistoryContent } from "./bet-history-content";
 import { BetHistoryFilters } from "./bet-history-filters";
 import { BetHistoryHeader } from "./bet-history-header";
+import { BetHistoryExportProgress } from "./bet-history-export";
 import { BetHistoryStats } from "./bet-history-stats";
 import BetHistoryActiveFiltersDisplay from "./bet-history-active-filters";
 
@@ -126,8 +127,11 @@ export default function BetHistorySection() {
 					onRefresh={handleRefresh}
 					canRefresh={canRefresh}
 					isRefreshing={isRefreshing}
+					canExport={totalCount > 0}
 				/>
 				<div className="p-2">
+					<BetHistoryExportProgress />
+
 					{showFilters && (
 						<BetHistoryFilters
 							localFilters={localFilters}
@@ -26,6 +26,10 @@ import { toast } from "sonner";
 import { useTranslations } from "@/lib/locale-provider";
 import { DynamicWidget } from "@dynamic-labs/sdk-react-core";
 import { useRouter } from "next/navigation";
+import { ResponsibleGamblingLimitsSection } from "./responsible-gambling-limits-section";
+import { SelfExclusionSection } from "./self-exclusion-section";
+import { RealityCheckSettingsSection } from "./reality-check-settings-section";
+import { ProvablyFairSection } from "./provably-fair-section";
 
 export function ProfilePage() {
 	const { user, isLoading, logout, accountStatus } = useDynamicAuth();
@@ -549,6 +553,18 @@ export function ProfilePage() {
 						</CardContent>
 					</Card>
 				</div>
+
+				{/* Responsible Gambling Limits */}
+				<ResponsibleGamblingLimitsSection />
+
+				{/* Reality Check */}
+				<RealityCheckSettingsSection />
+
+				{/* Self-Exclusion */}
+				<SelfExclusionSection />
+
+				{/* Provably Fair Seeds */}
+				<ProvablyFairSection />
 			</div>
 		</div>
 	);
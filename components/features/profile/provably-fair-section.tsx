@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { RefreshCw, ShieldCheck, Shuffle } from "lucide-react";
+import { useTranslations } from "@/lib/locale-provider";
+import { useAppStore } from "@/store/store";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	buildFairnessUrl,
+	generateClientSeed,
+} from "@/lib/utils/games/provably-fair.utils";
+
+// Only the latest revealed pairs are listed
+const VISIBLE_REVEALED_SEEDS = 5;
+
+export function ProvablyFairSection() {
+	const t = useTranslations("fairness.seeds");
+	const { active, revealed, isRotating, fetchDiceSeeds, rotateDiceSeed } =
+		useAppStore((state) => state.game.dice);
+	const [clientSeed, setClientSeed] = useState("");
+
+	useEffect(() => {
+		fetchDiceSeeds();
+	}, [fetchDiceSeeds]);
+
+	// Keep the input in step with the active pair after loads and rotations
+	const activeClientSeed = active?.client_seed;
+	useEffect(() => {
+		if (activeClientSeed) setClientSeed(activeClientSeed);
+	}, [activeClientSeed]);
+
+	const trimmedSeed = clientSeed.trim();
+
+	const handleRotate = async () => {
+		const rotated = await rotateDiceSeed(trimmedSeed || undefined);
+		if (rotated) toast.success(t("rotated"));
+		else toast.error(t("rotateFailed"));
+	};
+
+	return (
+		<Card id="provably-fair" className="scroll-mt-24">
+			<CardHeader>
+				<h3 className="text-lg font-semibold flex items-center gap-2">
+					<ShieldCheck className="h-5 w-5 text-primary" />
+					{t("title")}
+				</h3>
+				<p className="text-sm text-muted-foreground mt-1">
+					{t("subtitle")}
+				</p>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{active ? (
+					<div className="grid gap-3 sm:grid-cols-[1fr_auto] text-xs">
+						<div>
+							<p className="text-muted-foreground">
+								{t("serverSeedHash")}
+							</p>
+							<p className="font-mono break-all">
+								{active.server_seed_hash}
+							</p>
+						</div>
+						<div>
+							<p className="text-muted-foreground">
+								{t("nonce")}
+							</p>
+							<p className="font-mono">{active.nonce}</p>
+						</div>
+					</div>
+				) : (
+					<p className="text-xs text-muted-foreground">
+						{t("unavailable")}
+					</p>
+				)}
+
+				<div className="space-y-1">
+					<Label htmlFor="provably-fair-client-seed">
+						{t("clientSeed")}
+					</Label>
+					<div className="flex gap-2">
+						<Input
+							id="provably-fair-client-seed"
+							className="font-mono text-xs"
+							value={clientSeed}
+							onChange={(event) =>
+								setClientSeed(event.target.value)
+							}
+						/>
+						<Button
+							variant="outline"
+							size="icon"
+							aria-label={t("randomise")}
+							onClick={() => setClientSeed(generateClientSeed())}
+						>
+							<Shuffle className="h-4 w-4" />
+						</Button>
+					</div>
+					<p className="text-xs text-muted-foreground">
+						{t("clientSeedHint")}
+					</p>
+				</div>
+
+				<Button
+					className="gap-2"
+					onClick={handleRotate}
+					disabled={!active || isRotating}
+				>
+					<RefreshCw
+						className={`h-4 w-4 ${isRotating ? "animate-spin" : ""}`}
+					/>
+					{t("rotate")}
+				</Button>
+
+				<div className="space-y-2 border-t border-border/50 pt-4">
+					<p className="text-sm font-semibold">
+						{t("revealedTitle")}
+					</p>
+					{revealed.length === 0 ? (
+						<p className="text-xs text-muted-foreground">
+							{t("noRevealed")}
+						</p>
+					) : (
+						<ul className="space-y-2 text-xs">
+							{revealed
+								.slice(0, VISIBLE_REVEALED_SEEDS)
+								.map((seed) => (
+									<li
+										key={seed.server_seed_hash}
+										className="space-y-1 rounded-md bg-muted/30 p-2"
+									>
+										<p className="font-mono break-all">
+											{seed.server_seed}
+										</p>
+										<div className="flex items-center justify-between gap-2 text-muted-foreground">
+											<span>
+												{t("revealedMeta", {
+													clientSeed:
+														seed.client_seed,
+													rounds: seed.rounds,
+												})}
+											</span>
+											<Link
+												href={buildFairnessUrl({
+													serverSeedHash:
+														seed.server_seed_hash,
+													serverSeed:
+														seed.server_seed,
+													clientSeed:
+														seed.client_seed,
+													nonce: 0,
+												})}
+												className="text-primary hover:underline shrink-0"
+											>
+												{t("verify")}
+											</Link>
+										</div>
+									</li>
+								))}
+						</ul>
+					)}
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
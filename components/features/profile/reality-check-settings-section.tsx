@@ -0,0 +1,132 @@
+"use client";
+
+import { useEffect } from "react";
+import { AlarmClock } from "lucide-react";
+import { useTranslations } from "@/lib/locale-provider";
+import { useAppStore } from "@/store/store";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	REALITY_CHECK_INTERVALS,
+	formatSignedUsd,
+} from "@/lib/utils/features/responsible-gambling/reality-check.utils";
+
+// Only the latest answers are listed; the full log stays in storage
+const VISIBLE_LOG_ENTRIES = 5;
+
+export function RealityCheckSettingsSection() {
+	const t = useTranslations("responsibleGambling.realityCheck.settings");
+	const { settings, log, loadRealityCheck, updateRealityCheckSettings } =
+		useAppStore((state) => state.responsibleGambling.realityCheck);
+
+	useEffect(() => {
+		loadRealityCheck();
+	}, [loadRealityCheck]);
+
+	return (
+		<Card id="reality-check" className="scroll-mt-24">
+			<CardHeader>
+				<h3 className="text-lg font-semibold flex items-center gap-2">
+					<AlarmClock className="h-5 w-5 text-primary" />
+					{t("title")}
+				</h3>
+				<p className="text-sm text-muted-foreground mt-1">
+					{t("subtitle")}
+				</p>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				<div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+					<div className="flex items-center gap-3">
+						<Switch
+							id="reality-check-enabled"
+							checked={settings.enabled}
+							onCheckedChange={(enabled) =>
+								updateRealityCheckSettings({ enabled })
+							}
+						/>
+						<Label htmlFor="reality-check-enabled">
+							{t("enabled")}
+						</Label>
+					</div>
+					<div className="flex items-center gap-3">
+						<Label className="text-xs text-muted-foreground">
+							{t("interval")}
+						</Label>
+						<Select
+							value={String(settings.intervalMinutes)}
+							onValueChange={(value) =>
+								updateRealityCheckSettings({
+									intervalMinutes: Number(value),
+								})
+							}
+							disabled={!settings.enabled}
+						>
+							<SelectTrigger className="w-40">
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{REALITY_CHECK_INTERVALS.map((minutes) => (
+									<SelectItem
+										key={minutes}
+										value={String(minutes)}
+									>
+										{t("intervalOption", { minutes })}
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+				</div>
+
+				<div className="space-y-2 border-t border-border/50 pt-4">
+					<p className="text-sm font-semibold">{t("recentTitle")}</p>
+					{log.length === 0 ? (
+						<p className="text-xs text-muted-foreground">
+							{t("noAcknowledgements")}
+						</p>
+					) : (
+						<ul className="space-y-1 text-xs">
+							{log.slice(0, VISIBLE_LOG_ENTRIES).map((entry) => (
+								<li
+									key={entry.at}
+									className="flex items-center justify-between gap-2 rounded-md bg-muted/30 px-2 py-1"
+								>
+									<span className="text-muted-foreground">
+										{t("logEntry", {
+											date: new Date(
+												entry.at
+											).toLocaleString(),
+											minutes: entry.elapsedMinutes,
+										})}
+									</span>
+									<span className="flex items-center gap-2">
+										<span
+											className={`tabular-nums ${
+												entry.net < 0
+													? "text-destructive"
+													: "text-primary"
+											}`}
+										>
+											{formatSignedUsd(entry.net)}
+										</span>
+										<span className="font-medium">
+											{t(`actions.${entry.action}`)}
+										</span>
+									</span>
+								</li>
+							))}
+						</ul>
+					)}
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Clock, Gauge, RefreshCw, Undo2 } from "lucide-react";
+import { useTranslations } from "@/lib/locale-provider";
+import { useAppStore } from "@/store/store";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+	LimitPeriod,
+	LimitType,
+	PendingLimitChange,
+	ResponsibleGamblingLimits,
+} from "@/types/responsible-gambling/limits.types";
+import {
+	LIMIT_PERIODS,
+	SPEND_LIMIT_TYPES,
+	getLimitValue,
+	isSamePendingTarget,
+} from "@/lib/utils/features/responsible-gambling/limits.utils";
+
+type DraftKey = `${LimitType}.${LimitPeriod}` | "session";
+
+const toDraftKey = (type: LimitType, period?: LimitPeriod): DraftKey =>
+	type === "session" ? "session" : `${type}.${period as LimitPeriod}`;
+
+const LIMIT_TARGETS: { type: LimitType; period?: LimitPeriod }[] = [
+	...SPEND_LIMIT_TYPES.flatMap((type) =>
+		LIMIT_PERIODS.map((period) => ({ type, period }))
+	),
+	{ type: "session" },
+];
+
+const createDraft = (limits: ResponsibleGamblingLimits) =>
+	Object.fromEntries(
+		LIMIT_TARGETS.map(({ type, period }) => {
+			const value = getLimitValue(limits, type, period);
+			return [
+				toDraftKey(type, period),
+				value === null ? "" : String(value),
+			];
+		})
+	) as Record<DraftKey, string>;
+
+const parseDraftValue = (raw: string): number | null | undefined => {
+	const trimmed = raw.trim();
+	if (!trimmed) return null;
+	const value = Number(trimmed);
+	return Number.isFinite(value) && value >= 0 ? value : undefined;
+};
+
+export function ResponsibleGamblingLimitsSection() {
+	const t = useTranslations("responsibleGambling.limits");
+	const {
+		limits,
+		usage,
+		usageStatus,
+		sessionStartedAt,
+		loadLimits,
+		updateLimit,
+		cancelPendingChange,
+		refreshUsage,
+	} = useAppStore((state) => state.responsibleGambling.limits);
+
+	const [draft, setDraft] = useState(() => createDraft(limits));
+	const [isSaving, setIsSaving] = useState(false);
+
+	useEffect(() => {
+		loadLimits();
+		refreshUsage();
+	}, [loadLimits, refreshUsage]);
+
+	// Re-sync the form whenever the stored limits change
+	useEffect(() => {
+		setDraft(createDraft(limits));
+	}, [limits]);
+
+	const sessionMinutes = sessionStartedAt
+		? Math.floor((Date.now() - sessionStartedAt) / 60000)
+		: 0;
+
+	const hasChanges = useMemo(() => {
+		const saved = createDraft(limits);
+		return (Object.keys(saved) as DraftKey[]).some(
+			(key) => saved[key] !== draft[key]
+		);
+	}, [draft, limits]);
+
+	const findPending = (type: LimitType, period?: LimitPeriod) =>
+		limits.pending.find((change) =>
+			isSamePendingTarget(change, type, period)
+		);
+
+	const formatPendingValue = (change: PendingLimitChange) => {
+		if (change.value === null) return t("noLimit");
+		return change.type === "session"
+			? t("minutes", { count: change.value })
+			: `$${change.value.toFixed(2)}`;
+	};
+
+	const handleSave = async () => {
+		const saved = createDraft(limits);
+		const changes = LIMIT_TARGETS.filter(
+			({ type, period }) =>
+				draft[toDraftKey(type, period)] !==
+				saved[toDraftKey(type, period)]
+		).map((target) => ({
+			...target,
+			value: parseDraftValue(
+				draft[toDraftKey(target.type, target.period)]
+			),
+		}));
+
+		if (changes.some((change) => change.value === undefined)) {
+			toast.error(t("invalidValue"));
+			return;
+		}
+
+		let applied = 0;
+		let scheduled = 0;
+		let failed = 0;
+		setIsSaving(true);
+		// One at a time: each answer carries the full limits and replaces the last
+		for (const { type, period, value } of changes) {
+			const result = await updateLimit(type, period, value ?? null);
+			if (result === "applied") applied += 1;
+			if (result === "scheduled") scheduled += 1;
+			if (result === "failed") failed += 1;
+		}
+		setIsSaving(false);
+
+		if (applied > 0) toast.success(t("saved"));
+		if (scheduled > 0) toast.info(t("scheduled"));
+		if (failed > 0) toast.error(t("saveFailed"));
+		refreshUsage(true);
+	};
+
+	const handleCancelPending = async (
+		type: LimitType,
+		period?: LimitPeriod
+	) => {
+		if (!(await cancelPendingChange(type, period))) {
+			toast.error(t("saveFailed"));
+		}
+	};
+
+	const renderPending = (type: LimitType, period?: LimitPeriod) => {
+		const pending = findPending(type, period);
+		if (!pending) return null;
+
+		return (
+			<div className="flex items-center justify-between gap-2 rounded-md bg-warning/20 px-2 py-1 text-[11px] text-warning">
+				<span>
+					{t("pendingChange", {
+						value: formatPendingValue(pending),
+						date: new Date(pending.effectiveAt).toLocaleString(),
+					})}
+				</span>
+				<Button
+					type="button"
+					variant="ghost"
+					size="sm"
+					className="h-6 px-2 text-[11px]"
+					onClick={() => handleCancelPending(type, period)}
+				>
+					<Undo2 className="h-3 w-3" />
+					{t("cancelChange")}
+				</Button>
+			</div>
+		);
+	};
+
+	return (
+		<Card id="limits" className="scroll-mt-24">
+			<CardHeader className="flex flex-row items-start justify-between gap-4">
+				<div>
+					<h3 className="text-lg font-semibold flex items-center gap-2">
+						<Gauge className="h-5 w-5 text-primary" />
+						{t("title")}
+					</h3>
+					<p className="text-sm text-muted-foreground mt-1">
+						{t("subtitle")}
+					</p>
+				</div>
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					onClick={() => refreshUsage(true)}
+					disabled={usageStatus === "loading"}
+					className="gap-2 shrink-0"
+				>
+					<RefreshCw
+						className={`h-4 w-4 ${
+							usageStatus === "loading" ? "animate-spin" : ""
+						}`}
+					/>
+					{t("refreshUsage")}
+				</Button>
+			</CardHeader>
+			<CardContent className="space-y-6">
+				{SPEND_LIMIT_TYPES.map((type) => (
+					<div key={type} className="space-y-3">
+						<div>
+							<p className="text-sm font-semibold">
+								{t(`types.${type}`)}
+							</p>
+							<p className="text-xs text-muted-foreground">
+								{t(`descriptions.${type}`)}
+							</p>
+						</div>
+						<div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+							{LIMIT_PERIODS.map((period) => {
+								const key = toDraftKey(type, period);
+								const limit = limits.spend[type][period];
+								const used = usage[type][period];
+								return (
+									<div
+										key={period}
+										className="space-y-2 rounded-lg border border-border/50 bg-muted/30 p-3"
+									>
+										<Label
+											htmlFor={`limit-${key}`}
+											className="text-xs text-muted-foreground"
+										>
+											{t(`periods.${period}`)}
+										</Label>
+										<Input
+											id={`limit-${key}`}
+											type="number"
+											inputMode="decimal"
+											min={0}
+											placeholder={t("noLimit")}
+											value={draft[key]}
+											onChange={(event) =>
+												setDraft((prev) => ({
+													...prev,
+													[key]: event.target.value,
+												}))
+											}
+										/>
+										{limit !== null && (
+											<div className="space-y-1">
+												<Progress
+													value={
+														limit > 0
+															? Math.min(
+																	100,
+																	(used /
+																		limit) *
+																		100
+																)
+															: 100
+													}
+												/>
+												<p className="text-[11px] text-muted-foreground">
+													{t("usage", {
+														used: `$${used.toFixed(2)}`,
+														limit: `$${limit.toFixed(2)}`,
+													})}
+												</p>
+											</div>
+										)}
+										{renderPending(type, period)}
+									</div>
+								);
+							})}
+						</div>
+					</div>
+				))}
+
+				<div className="space-y-3">
+					<div>
+						<p className="text-sm font-semibold">
+							{t("types.session")}
+						</p>
+						<p className="text-xs text-muted-foreground">
+							{t("descriptions.session")}
+						</p>
+					</div>
+					<div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+						<div className="space-y-2 rounded-lg border border-border/50 bg-muted/30 p-3">
+							<Label
+								htmlFor="limit-session"
+								className="text-xs text-muted-foreground"
+							>
+								{t("sessionMinutesLabel")}
+							</Label>
+							<Input
+								id="limit-session"
+								type="number"
+								inputMode="numeric"
+								min={0}
+								placeholder={t("noLimit")}
+								value={draft.session}
+								onChange={(event) =>
+									setDraft((prev) => ({
+										...prev,
+										session: event.target.value,
+									}))
+								}
+							/>
+							<p className="text-[11px] text-muted-foreground flex items-center gap-1">
+								<Clock className="h-3 w-3" />
+								{t("sessionElapsed", {
+									minutes: sessionMinutes,
+								})}
+							</p>
+							{renderPending("session")}
+						</div>
+					</div>
+				</div>
+
+				<div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 border-t border-border/50 pt-4">
+					<p className="text-xs text-muted-foreground">
+						{t("cooldownNotice")}
+					</p>
+					<div className="flex gap-2">
+						<Button
+							type="button"
+							variant="outline"
+							disabled={!hasChanges || isSaving}
+							onClick={() => setDraft(createDraft(limits))}
+						>
+							{t("reset")}
+						</Button>
+						<Button
+							type="button"
+							disabled={!hasChanges || isSaving}
+							onClick={handleSave}
+						>
+							{t("save")}
+						</Button>
+					</div>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,157 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import Link from "next/link";
+import { ShieldOff, ShieldAlert } from "lucide-react";
+import { useTranslations } from "@/lib/locale-provider";
+import { useAppStore } from "@/store/store";
+import { useDynamicAuth } from "@/hooks/useDynamicAuth";
+import { broadcastSelfExclusion } from "@/hooks/use-cross-tab-logout";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { SelfExclusionDuration } from "@/types/responsible-gambling/self-exclusion.types";
+import {
+	SELF_EXCLUSION_DURATIONS,
+	SELF_EXCLUSION_PATH,
+} from "@/lib/utils/features/responsible-gambling/self-exclusion.utils";
+
+export function SelfExclusionSection() {
+	const t = useTranslations("responsibleGambling.selfExclusion");
+	const router = useRouter();
+	const { selfExclusion } = useDynamicAuth();
+	const startSelfExclusion = useAppStore(
+		(state) => state.responsibleGambling.selfExclusion.startSelfExclusion
+	);
+
+	const [duration, setDuration] = useState<SelfExclusionDuration>("24h");
+	const [acknowledged, setAcknowledged] = useState(false);
+	const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+	const handleConfirm = async () => {
+		const isSaved = await startSelfExclusion(duration);
+		if (!isSaved) toast.error(t("saveFailed"));
+		broadcastSelfExclusion();
+		setIsConfirmOpen(false);
+		router.push(SELF_EXCLUSION_PATH);
+	};
+
+	return (
+		<Card id="self-exclusion" className="scroll-mt-24">
+			<CardHeader>
+				<h3 className="text-lg font-semibold flex items-center gap-2">
+					<ShieldOff className="h-5 w-5 text-primary" />
+					{t("title")}
+				</h3>
+				<p className="text-sm text-muted-foreground mt-1">
+					{t("subtitle")}
+				</p>
+			</CardHeader>
+			<CardContent className="space-y-4">
+				{selfExclusion ? (
+					<div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 rounded-lg bg-warning/20 p-3 text-sm text-warning">
+						<span className="flex items-center gap-2">
+							<ShieldAlert className="h-4 w-4 shrink-0" />
+							{selfExclusion.endsAt === null
+								? t("activePermanent")
+								: t("activeUntil", {
+										date: new Date(
+											selfExclusion.endsAt
+										).toLocaleString(),
+									})}
+						</span>
+						<Button asChild variant="outline" size="sm">
+							<Link href={SELF_EXCLUSION_PATH}>
+								{t("viewStatus")}
+							</Link>
+						</Button>
+					</div>
+				) : (
+					<>
+						<RadioGroup
+							value={duration}
+							onValueChange={(value) =>
+								setDuration(value as SelfExclusionDuration)
+							}
+							className="grid grid-cols-2 md:grid-cols-5 gap-3"
+						>
+							{SELF_EXCLUSION_DURATIONS.map((option) => (
+								<Label
+									key={option}
+									htmlFor={`self-exclusion-${option}`}
+									className="flex items-center gap-2 rounded-lg border border-border/50 bg-muted/30 p-3 cursor-pointer"
+								>
+									<RadioGroupItem
+										id={`self-exclusion-${option}`}
+										value={option}
+									/>
+									{t(`durations.${option}`)}
+								</Label>
+							))}
+						</RadioGroup>
+
+						<div className="flex items-start gap-2">
+							<Checkbox
+								id="self-exclusion-acknowledge"
+								checked={acknowledged}
+								onCheckedChange={(checked) =>
+									setAcknowledged(checked === true)
+								}
+							/>
+							<Label
+								htmlFor="self-exclusion-acknowledge"
+								className="text-xs text-muted-foreground leading-relaxed"
+							>
+								{t("acknowledge")}
+							</Label>
+						</div>
+
+						<div className="flex justify-end border-t border-border/50 pt-4">
+							<Button
+								type="button"
+								variant="destructive"
+								disabled={!acknowledged}
+								onClick={() => setIsConfirmOpen(true)}
+							>
+								{t("start")}
+							</Button>
+						</div>
+					</>
+				)}
+			</CardContent>
+
+			<AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>{t("confirmTitle")}</AlertDialogTitle>
+						<AlertDialogDescription>
+							{t("confirmDescription", {
+								duration: t(`durations.${duration}`),
+							})}
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+						<AlertDialogAction onClick={handleConfirm}>
+							{t("confirm")}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</Card>
+	);
+}
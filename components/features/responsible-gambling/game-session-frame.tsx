@@ -0,0 +1,167 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import { useRouter } from "next/navigation";
+import { Clock, ExternalLink, Square } from "lucide-react";
+import { useTranslations } from "@/lib/locale-provider";
+import { useAppStore } from "@/store/store";
+import { useRealityCheck } from "@/hooks/responsible-gambling/useRealityCheck";
+import { Button } from "@/components/ui/button";
+import { RealityCheckModal } from "./reality-check-modal";
+import {
+	formatSessionDuration,
+	formatSignedUsd,
+} from "@/lib/utils/features/responsible-gambling/reality-check.utils";
+
+const BET_HISTORY_PATH = "/history?section=bet";
+
+interface GameSessionFrameProps {
+	url: string;
+	gameId: string;
+	vendor: string;
+}
+
+/**
+ * Keeps a play session open on our side: the game runs in a frame (or in a
+ * companion tab for providers that refuse framing) under a bar showing the
+ * session clock and result, and the reality check interrupts on schedule.
+ */
+export function GameSessionFrame({
+	url,
+	gameId,
+	vendor,
+}: GameSessionFrameProps) {
+	const t = useTranslations("play.session");
+	const router = useRouter();
+	const { session, elapsedMs, isPromptOpen, totalsStatus, acknowledge } =
+		useRealityCheck();
+	const startGameSession = useAppStore(
+		(state) => state.responsibleGambling.realityCheck.startGameSession
+	);
+	const endGameSession = useAppStore(
+		(state) => state.responsibleGambling.realityCheck.endGameSession
+	);
+	const setGameSessionMode = useAppStore(
+		(state) => state.responsibleGambling.realityCheck.setGameSessionMode
+	);
+	const gameWindowRef = useRef<Window | null>(null);
+
+	useEffect(() => {
+		startGameSession(gameId, vendor);
+		return () => endGameSession();
+	}, [gameId, vendor, startGameSession, endGameSession]);
+
+	const openCompanionTab = useCallback(() => {
+		if (gameWindowRef.current && !gameWindowRef.current.closed) {
+			gameWindowRef.current.focus();
+			return;
+		}
+		gameWindowRef.current = window.open(url, "_blank");
+	}, [url]);
+
+	const handleOpenInNewTab = () => {
+		setGameSessionMode("companion");
+		openCompanionTab();
+	};
+
+	const handleStop = useCallback(() => {
+		gameWindowRef.current?.close();
+		endGameSession();
+		router.push("/");
+	}, [endGameSession, router]);
+
+	const totals = session?.totals ?? { wagered: 0, net: 0 };
+	const isFrame = session?.mode !== "companion";
+
+	return (
+		<div className="flex flex-col h-[calc(100dvh-8rem)] min-h-[480px] rounded-lg border border-border/50 overflow-hidden">
+			<div className="flex flex-wrap items-center justify-between gap-2 border-b border-border/50 bg-card px-3 py-2 text-xs">
+				<div className="flex items-center gap-4">
+					<span className="flex items-center gap-1 tabular-nums">
+						<Clock className="h-3.5 w-3.5 text-primary" />
+						{formatSessionDuration(elapsedMs)}
+					</span>
+					<span className="text-muted-foreground">
+						{t("wagered")}{" "}
+						<span className="text-foreground tabular-nums">
+							${totals.wagered.toFixed(2)}
+						</span>
+					</span>
+					<span className="text-muted-foreground">
+						{t("net")}{" "}
+						<span
+							className={`tabular-nums ${
+								totals.net < 0
+									? "text-destructive"
+									: "text-primary"
+							}`}
+						>
+							{formatSignedUsd(totals.net)}
+						</span>
+					</span>
+				</div>
+				<div className="flex items-center gap-2">
+					{isFrame && (
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-7 gap-1 text-xs"
+							onClick={handleOpenInNewTab}
+						>
+							<ExternalLink className="h-3.5 w-3.5" />
+							{t("openInNewTab")}
+						</Button>
+					)}
+					<Button
+						variant="outline"
+						size="sm"
+						className="h-7 gap-1 text-xs"
+						onClick={handleStop}
+					>
+						<Square className="h-3.5 w-3.5" />
+						{t("stop")}
+					</Button>
+				</div>
+			</div>
+
+			{isFrame ? (
+				<iframe
+					src={url}
+					title={t("frameTitle")}
+					className="flex-1 w-full border-0 bg-background"
+					allow="autoplay; fullscreen; clipboard-write; encrypted-media"
+					allowFullScreen
+				/>
+			) : (
+				<div className="flex flex-1 flex-col items-center justify-center gap-4 p-6 text-center">
+					<h2 className="text-xl font-semibold">
+						{t("companionTitle")}
+					</h2>
+					<p className="max-w-md text-sm text-muted-foreground">
+						{t("companionDescription")}
+					</p>
+					<Button className="gap-2" onClick={openCompanionTab}>
+						<ExternalLink className="h-4 w-4" />
+						{t("openGame")}
+					</Button>
+				</div>
+			)}
+
+			<RealityCheckModal
+				open={isPromptOpen}
+				elapsedMs={elapsedMs}
+				totals={totals}
+				totalsUnavailable={totalsStatus === "error"}
+				onContinue={() => acknowledge("continue")}
+				onViewHistory={() => {
+					acknowledge("view_history");
+					window.open(BET_HISTORY_PATH, "_blank");
+				}}
+				onStop={() => {
+					acknowledge("stop");
+					handleStop();
+				}}
+			/>
+		</div>
+	);
+}
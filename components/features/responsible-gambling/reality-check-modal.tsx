@@ -0,0 +1,141 @@
+"use client";
+
+import { useRef } from "react";
+import { Clock, History, Square } from "lucide-react";
+import { useTranslations } from "@/lib/locale-provider";
+import { Button } from "@/components/ui/button";
+import {
+	useBodyScrollLock,
+	useModalFocusTrap,
+} from "@/hooks/use-modal-primitives";
+import { PlaySessionTotals } from "@/types/responsible-gambling/reality-check.types";
+import {
+	formatSessionDuration,
+	formatSignedUsd,
+} from "@/lib/utils/features/responsible-gambling/reality-check.utils";
+
+interface RealityCheckModalProps {
+	open: boolean;
+	elapsedMs: number;
+	totals: PlaySessionTotals;
+	totalsUnavailable?: boolean;
+	onContinue: () => void;
+	onViewHistory: () => void;
+	onStop: () => void;
+}
+
+/**
+ * Periodic interruption during play. It has no close button and ignores
+ * Escape and backdrop clicks: the player has to pick one of the actions.
+ */
+export function RealityCheckModal({
+	open,
+	elapsedMs,
+	totals,
+	totalsUnavailable = false,
+	onContinue,
+	onViewHistory,
+	onStop,
+}: RealityCheckModalProps) {
+	const t = useTranslations("responsibleGambling.realityCheck");
+	const dialogRef = useRef<HTMLDivElement>(null);
+	const continueBtnRef = useRef<HTMLButtonElement>(null);
+
+	useModalFocusTrap(open, dialogRef, continueBtnRef);
+	useBodyScrollLock(open);
+
+	if (!open) return null;
+
+	return (
+		<div
+			className="fixed inset-0 z-[9999] flex items-center justify-center bg-background/80 backdrop-blur-md p-4"
+			role="dialog"
+			aria-modal="true"
+			aria-labelledby="reality-check-title"
+			data-reality-check-modal="true"
+		>
+			<div
+				ref={dialogRef}
+				className="relative w-full max-w-md rounded-2xl border border-border/50 bg-card shadow-2xl p-6 space-y-5 animate-in zoom-in-95 duration-300"
+			>
+				<div className="space-y-2 text-center">
+					<div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-primary/10">
+						<Clock className="h-6 w-6 text-primary" />
+					</div>
+					<h2
+						id="reality-check-title"
+						className="text-xl font-semibold"
+					>
+						{t("title")}
+					</h2>
+					<p className="text-sm text-muted-foreground">
+						{t("description", {
+							duration: formatSessionDuration(elapsedMs),
+						})}
+					</p>
+				</div>
+
+				<div className="grid grid-cols-3 gap-3 text-center">
+					<div className="rounded-lg bg-muted/30 p-3">
+						<p className="text-[11px] text-muted-foreground">
+							{t("elapsed")}
+						</p>
+						<p className="font-semibold tabular-nums">
+							{formatSessionDuration(elapsedMs)}
+						</p>
+					</div>
+					<div className="rounded-lg bg-muted/30 p-3">
+						<p className="text-[11px] text-muted-foreground">
+							{t("wagered")}
+						</p>
+						<p className="font-semibold tabular-nums">
+							${totals.wagered.toFixed(2)}
+						</p>
+					</div>
+					<div className="rounded-lg bg-muted/30 p-3">
+						<p className="text-[11px] text-muted-foreground">
+							{t("net")}
+						</p>
+						<p
+							className={`font-semibold tabular-nums ${
+								totals.net < 0
+									? "text-destructive"
+									: "text-primary"
+							}`}
+						>
+							{formatSignedUsd(totals.net)}
+						</p>
+					</div>
+				</div>
+
+				{totalsUnavailable && (
+					<p className="text-xs text-center text-muted-foreground">
+						{t("totalsUnavailable")}
+					</p>
+				)}
+
+				<div className="flex flex-col gap-2">
+					<Button ref={continueBtnRef} onClick={onContinue}>
+						{t("continue")}
+					</Button>
+					<Button
+						variant="outline"
+						className="gap-2"
+						onClick={onViewHistory}
+					>
+						<History className="h-4 w-4" />
+						{t("viewHistory")}
+					</Button>
+					<Button
+						variant="destructive"
+						className="gap-2"
+						onClick={onStop}
+					>
+						<Square className="h-4 w-4" />
+						{t("stop")}
+					</Button>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import Link from "next/link";
+import { Ban, ShieldCheck, ShieldOff } from "lucide-react";
+import { useTranslations } from "@/lib/locale-provider";
+import { useAppStore } from "@/store/store";
+import { useDynamicAuth } from "@/hooks/useDynamicAuth";
+import { Button } from "@/components/ui/button";
+import {
+	PageHeader,
+	SectionCard,
+	ListSection,
+} from "@/components/features/legal";
+
+/**
+ * Where self-excluded players land when they try to launch a game, deposit,
+ * swap or tip. Withdrawals stay available from here.
+ */
+export function SelfExclusionScreen() {
+	const t = useTranslations("responsibleGambling.selfExclusion.screen");
+	const { selfExclusion, isLoggedIn } = useDynamicAuth();
+	const isLoaded = useAppStore(
+		(state) => state.responsibleGambling.selfExclusion.isLoaded
+	);
+	const openTransactionModal = useAppStore(
+		(state) => state.uiDefinition.modal.openTransactionModal
+	);
+
+	if (!isLoaded) return null;
+
+	if (!selfExclusion) {
+		return (
+			<div className="container mx-auto space-y-8 consistent-padding-x consistent-padding-y">
+				<PageHeader title={t("inactiveTitle")} />
+				<SectionCard icon={ShieldCheck}>
+					<p className="mb-4">{t("inactiveDescription")}</p>
+					<div className="flex flex-wrap gap-2">
+						<Button asChild>
+							<Link href="/">{t("home")}</Link>
+						</Button>
+						<Button asChild variant="outline">
+							<Link href="/profile#self-exclusion">
+								{t("manage")}
+							</Link>
+						</Button>
+					</div>
+				</SectionCard>
+			</div>
+		);
+	}
+
+	return (
+		<div className="container mx-auto space-y-8 consistent-padding-x consistent-padding-y">
+			<PageHeader title={t("title")} subtitle={t("subtitle")} />
+
+			<SectionCard variant="warning" icon={ShieldOff}>
+				<p className="text-base font-semibold mb-2">
+					{selfExclusion.endsAt === null
+						? t("permanent")
+						: t("until", {
+								date: new Date(
+									selfExclusion.endsAt
+								).toLocaleString(),
+							})}
+				</p>
+				<p className="text-sm text-muted-foreground">
+					{t("noEarlyEnd")}
+				</p>
+			</SectionCard>
+
+			<SectionCard title={t("lockedTitle")} icon={Ban}>
+				<ListSection
+					items={[
+						{ content: t("locked.games") },
+						{ content: t("locked.deposit") },
+						{ content: t("locked.swap") },
+						{ content: t("locked.tip") },
+					]}
+				/>
+				<p className="mt-4 text-sm">{t("withdrawNote")}</p>
+				<div className="flex flex-wrap gap-2 mt-4">
+					{isLoggedIn && (
+						<Button
+							onClick={() => openTransactionModal("withdraw")}
+						>
+							{t("withdraw")}
+						</Button>
+					)}
+					<Button asChild variant="outline">
+						<Link href="/responsible-gambling">{t("help")}</Link>
+					</Button>
+					<Button asChild variant="ghost">
+						<Link href="/">{t("home")}</Link>
+					</Button>
+				</div>
+			</SectionCard>
+		</div>
+	);
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { CheckCircle, Loader2, X, XCircle } from "lucide-react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faClockRotateLeft } from "@fortawesome/pro-light-svg-icons";
+import { Button } from "@/components/ui/button";
+import {
+	Popover,
+	PopoverContent,
+	PopoverTrigger,
+} from "@/components/ui/popover";
+import { useAppStore } from "@/store/store";
+import { useTranslations } from "@/lib/locale-provider";
+import { useBlockExplorerUrl } from "@/hooks/walletProvider/useBlockExplorerUrl";
+import { getExplorerTxUrl } from "@/lib/utils/wallet-provider/chain.utils";
+import {
+	AppTransaction,
+	TransactionStatus,
+	TransactionType,
+} from "@/types/blockchain/transactions.types";
+
+const StatusIcon = ({ status }: { status: TransactionStatus }) => {
+	if (status === TransactionStatus.CONFIRMED) {
+		return <CheckCircle className="h-4 w-4 shrink-0 text-green-500" />;
+	}
+	if (status === TransactionStatus.FAILED) {
+		return <XCircle className="h-4 w-4 shrink-0 text-red-500" />;
+	}
+	return <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" />;
+};
+
+/**
+ * Header tray listing the user's recent deposits, withdrawals and tips,
+ * including ones started before the page was reloaded.
+ */
+export const PendingActivityTray = () => {
+	const t = useTranslations("walletProvider.pendingActivity");
+	const {
+		transactions,
+		pendingCount,
+		autoStatus,
+		dismissTransaction,
+		clearFinishedTransactions,
+	} = useAppStore((state) => state.blockchain.transaction);
+	const chainId = useAppStore((state) => state.blockchain.network.chainId);
+	const { getTransactionUrl } = useBlockExplorerUrl();
+
+	// Wallet swaps show their own progress in the swap panel
+	const items = transactions.filter((tx) => tx.type !== TransactionType.SWAP);
+	if (items.length === 0) return null;
+
+	const hasFinished = items.some(
+		(tx) => tx.status !== TransactionStatus.PENDING
+	);
+
+	// Transactions from another chain link to that chain's registry explorer
+	const explorerUrl = (tx: AppTransaction) => {
+		if (!tx.hash?.startsWith("0x")) return null;
+		return String(tx.network) === String(chainId)
+			? getTransactionUrl(tx.hash)
+			: getExplorerTxUrl(tx.network, tx.hash);
+	};
+
+	return (
+		<Popover>
+			<PopoverTrigger asChild>
+				<Button
+					variant="outline"
+					size="icon"
+					className="relative"
+					aria-label={`${t("title")}${
+						pendingCount > 0
+							? ` - ${t("pendingCount", { count: pendingCount })}`
+							: ""
+					}`}
+				>
+					<FontAwesomeIcon
+						icon={faClockRotateLeft}
+						className={
+							pendingCount > 0
+								? "w-5 h-5 text-primary"
+								: "w-5 h-5"
+						}
+						aria-hidden="true"
+					/>
+					{pendingCount > 0 && (
+						<span className="absolute -top-1 -right-1 bg-primary text-foreground text-xs rounded-full h-5 w-5 flex items-center justify-center">
+							{pendingCount > 9 ? "9+" : pendingCount}
+						</span>
+					)}
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent align="end" className="w-80 p-0">
+				<div className="flex items-center justify-between border-b px-4 py-3">
+					<h4 className="font-semibold text-sm">{t("title")}</h4>
+					{hasFinished && (
+						<Button
+							variant="ghost"
+							size="sm"
+							className="h-7 text-xs"
+							onClick={clearFinishedTransactions}
+						>
+							{t("clearFinished")}
+						</Button>
+					)}
+				</div>
+
+				{autoStatus?.status === "disabled" && (
+					<p className="border-b bg-muted/50 px-4 py-2 text-xs text-muted-foreground">
+						{autoStatus.reason
+							? t("autoPausedReason", {
+									reason: autoStatus.reason,
+								})
+							: t("autoPaused")}
+					</p>
+				)}
+
+				<ul className="max-h-80 overflow-y-auto divide-y">
+					{items.map((tx) => {
+						const url = explorerUrl(tx);
+						const awaitingApproval =
+							tx.status === TransactionStatus.PENDING &&
+							tx.hash === "manual_approval_pending";
+
+						return (
+							<li
+								key={tx.id}
+								className="flex items-start gap-3 px-4 py-3"
+							>
+								<StatusIcon status={tx.status} />
+								<div className="min-w-0 flex-1 space-y-0.5">
+									<p className="text-sm font-medium">
+										{t(`types.${tx.type}`)} · {tx.amount}{" "}
+										{tx.tokenSymbol}
+									</p>
+									<p className="text-xs text-muted-foreground">
+										{awaitingApproval
+											? t("awaitingApproval")
+											: t(`status.${tx.status}`)}{" "}
+										·{" "}
+										{new Date(
+											tx.timestamp
+										).toLocaleTimeString([], {
+											hour: "2-digit",
+											minute: "2-digit",
+										})}
+									</p>
+									{url && (
+										<a
+											href={url}
+											target="_blank"
+											rel="noopener noreferrer"
+											className="text-xs text-primary underline"
+										>
+											{t("viewOnExplorer")}
+										</a>
+									)}
+								</div>
+								{tx.status !== TransactionStatus.PENDING && (
+									<Button
+										variant="ghost"
+										size="icon"
+										className="h-6 w-6 shrink-0"
+										aria-label={t("dismiss")}
+										onClick={() =>
+											dismissTransaction(tx.id)
+										}
+									>
+										<X className="h-3 w-3" />
+									</Button>
+								)}
+							</li>
+						);
+					})}
+				</ul>
+			</PopoverContent>
+		</Popover>
+	);
+};
@@ -14,11 +14,12 @@ import {
 	Zap,
 	ChevronDown,
 	Loader2,
-	// AlertTriangle,
+	AlertTriangle,
 	Info,
 	TrendingUp,
 	CircleCheck,
 	RotateCcw,
+	RefreshCw,
 } from "lucide-react";
 import {
 	Popover,
@@ -59,9 +60,22 @@ import {
 } from "@/components/ui/tooltip";
 import { useAppStore } from "@/store/store";
 import { useTokens } from "@/hooks/walletProvider/useTokens";
+import {
+	AUTO_SLIPPAGE,
+	AUTO_SLIPPAGE_PERCENT,
+	HIGH_SLIPPAGE_PERCENT,
+	MAX_SLIPPAGE_PERCENT,
+	MIN_SLIPPAGE_PERCENT,
+	SLIPPAGE_PRESETS,
+} from "@/constants/blockchain/swap.constants";
+import { isValidSlippage } from "@/lib/utils/wallet-provider/swap.utils";
+import { SwapPriceImpactDialog } from "./swap-price-impact-dialog";
 
-// Slippage presets
-const slippagePresets = ["0.1", "0.5", "1.0", "2.0"];
+const PRICE_IMPACT_COLORS = {
+	low: "text-muted-foreground",
+	medium: "text-amber-500",
+	high: "text-destructive",
+};
 
 export const SwapPanel = memo(
 	({
@@ -102,6 +116,11 @@ export const SwapPanel = memo(
 			isFetching,
 			getExchangeRate,
 			estimatedGas,
+			quoteSecondsLeft,
+			fetchQuote,
+			minReceived,
+			priceImpact,
+			priceImpactLevel,
 
 			// Transaction state
 			slippage,
@@ -144,8 +163,18 @@ export const SwapPanel = memo(
 		const [toTokenModalOpen, setToTokenModalOpen] = useState(false);
 		const [showTransactionDetails, setShowTransactionDetails] =
 			useState(false);
-		const [customSlippage, setCustomSlippage] = useState("1.0");
+		const [customSlippage, setCustomSlippage] = useState("");
 		const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+		const [isImpactDialogOpen, setIsImpactDialogOpen] = useState(false);
+
+		const isCustomSlippageValid = isValidSlippage(customSlippage);
+		const isSlippageHigh =
+			slippage !== AUTO_SLIPPAGE &&
+			parseFloat(slippage) > HIGH_SLIPPAGE_PERCENT;
+		const slippageLabel =
+			slippage === AUTO_SLIPPAGE
+				? `${t("auto")} (${AUTO_SLIPPAGE_PERCENT}%)`
+				: `${slippage}%`;
 
 		// const toolTipText = t("maxButtonToolTipText", {
 		// 	gasReservationAmount,
@@ -182,11 +211,19 @@ export const SwapPanel = memo(
 		const handleSwapExecution = async () => {
 			if (!isTokenAllowed) {
 				await approveToken();
+			} else if (priceImpactLevel === "high") {
+				// High-impact swaps wait for an explicit confirmation
+				setIsImpactDialogOpen(true);
 			} else {
 				await executeSwap();
 			}
 		};
 
+		const handleImpactConfirm = async () => {
+			setIsImpactDialogOpen(false);
+			await executeSwap();
+		};
+
 		const dynamicExchangeFontClass = useMemo(() => {
 			const textLength = exchangeAmount.length;
 
@@ -286,7 +323,20 @@ export const SwapPanel = memo(
 											{t("slippageTolerance")}
 										</Label>
 										<div className="flex gap-2 mt-2">
-											{slippagePresets.map((preset) => (
+											<Button
+												variant={
+													slippage === AUTO_SLIPPAGE
+														? "default"
+														: "outline"
+												}
+												size="sm"
+												onClick={() =>
+													setSlippage(AUTO_SLIPPAGE)
+												}
+											>
+												{t("auto")}
+											</Button>
+											{SLIPPAGE_PRESETS.map((preset) => (
 												<Button
 													key={preset}
 													variant={
@@ -306,17 +356,23 @@ export const SwapPanel = memo(
 										<div className="flex gap-2 mt-2">
 											<Input
 												type="number"
+												inputMode="decimal"
 												placeholder={t("custom")}
 												value={customSlippage}
 												onChange={(e) =>
 													setCustomSlippage(
-														e.target.value
+														sanitizeDecimalInput(
+															e.target.value
+														)
 													)
 												}
 												className="flex-1"
 											/>
 											<Button
 												size="sm"
+												disabled={
+													!isCustomSlippageValid
+												}
 												onClick={() =>
 													setSlippage(customSlippage)
 												}
@@ -324,10 +380,27 @@ export const SwapPanel = memo(
 												{t("set")}
 											</Button>
 										</div>
+										{customSlippage &&
+											!isCustomSlippageValid && (
+												<p className="text-xs text-destructive mt-2">
+													{t("slippageOutOfRange", {
+														min: MIN_SLIPPAGE_PERCENT,
+														max: MAX_SLIPPAGE_PERCENT,
+													})}
+												</p>
+											)}
 									</div>
 									<div className="text-sm text-muted-foreground">
-										{t("currentSlippage")}: {slippage}%
+										{t("currentSlippage")}: {slippageLabel}
 									</div>
+									{isSlippageHigh && (
+										<div className="flex items-start gap-2 text-xs text-amber-500">
+											<AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+											<span>
+												{t("slippageHighWarning")}
+											</span>
+										</div>
+									)}
 								</div>
 							</PopoverContent>
 						</Popover>
@@ -869,6 +942,32 @@ export const SwapPanel = memo(
 															</span>
 														</div>
 														<div className="flex items-center gap-2 text-xs text-muted-foreground">
+															<button
+																type="button"
+																onClick={(
+																	e
+																) => {
+																	e.stopPropagation();
+																	fetchQuote(
+																		true
+																	);
+																}}
+																className="flex items-center gap-1 hover:text-foreground"
+																aria-label={t(
+																	"refreshQuote"
+																)}
+															>
+																<RefreshCw className="h-3 w-3" />
+																<span>
+																	{t(
+																		"quoteRefreshIn",
+																		{
+																			seconds:
+																				quoteSecondsLeft,
+																		}
+																	)}
+																</span>
+															</button>
 															<Zap className="h-3 w-3" />
 															<span>
 																{t("gas")}:{" "}
@@ -900,7 +999,7 @@ export const SwapPanel = memo(
 														</span>
 														<span>
 															{formatAmount(
-																receivedAmount
+																minReceived
 															)}{" "}
 															{toToken.symbol}
 														</span>
@@ -911,7 +1010,29 @@ export const SwapPanel = memo(
 																"slippageToleranceLabel"
 															)}
 														</span>
-														<span>{slippage}%</span>
+														<span>
+															{slippageLabel}
+														</span>
+													</div>
+													<div className="flex justify-between">
+														<span className="text-muted-foreground">
+															{t("priceImpact")}
+														</span>
+														<span
+															className={
+																PRICE_IMPACT_COLORS[
+																	priceImpactLevel
+																]
+															}
+														>
+															{priceImpact ===
+															null
+																? "-"
+																: priceImpact <
+																	  0.01
+																	? "< 0.01%"
+																	: `${priceImpact.toFixed(2)}%`}
+														</span>
 													</div>
 													<div className="flex justify-between">
 														<span className="text-muted-foreground">
@@ -948,12 +1069,30 @@ export const SwapPanel = memo(
 						)} */}
 
 						{/* Price Impact Warning */}
-						{conversion && fromToken && toToken && (
-							<div className="flex items-center gap-2 text-xs text-muted-foreground mt-3">
-								<Info className="h-3 w-3" />
-								<span>{t("priceWarning")}</span>
-							</div>
-						)}
+						{conversion &&
+							fromToken &&
+							toToken &&
+							(priceImpactLevel === "low" ||
+							priceImpact === null ? (
+								<div className="flex items-center gap-2 text-xs text-muted-foreground mt-3">
+									<Info className="h-3 w-3" />
+									<span>{t("priceWarning")}</span>
+								</div>
+							) : (
+								<div
+									className={cn(
+										"flex items-center gap-2 text-xs mt-3",
+										PRICE_IMPACT_COLORS[priceImpactLevel]
+									)}
+								>
+									<AlertTriangle className="h-3 w-3" />
+									<span>
+										{t("priceImpactWarning", {
+											impact: priceImpact.toFixed(2),
+										})}
+									</span>
+								</div>
+							))}
 
 						{/* Wallet Address Copy Section */}
 						{!isLobbyPage && isEmbeddedWallet && walletAddress && (
@@ -1012,6 +1151,19 @@ export const SwapPanel = memo(
 					</div>
 				)}
 
+				{fromToken && toToken && priceImpact !== null && (
+					<SwapPriceImpactDialog
+						open={isImpactDialogOpen}
+						priceImpact={priceImpact}
+						exchangeAmount={exchangeAmount}
+						fromSymbol={fromToken.symbol}
+						minReceived={formatAmount(minReceived)}
+						toSymbol={toToken.symbol}
+						onCancel={() => setIsImpactDialogOpen(false)}
+						onConfirm={handleImpactConfirm}
+					/>
+				)}
+
 				{/* Token Selection Modals */}
 				<TokenListModal
 					isOpen={fromTokenModalOpen}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { useTranslations } from "@/lib/locale-provider";
+import {
+	AlertDialog,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+
+interface SwapPriceImpactDialogProps {
+	open: boolean;
+	priceImpact: number;
+	exchangeAmount: string;
+	fromSymbol: string;
+	minReceived: string;
+	toSymbol: string;
+	onCancel: () => void;
+	onConfirm: () => void;
+}
+
+/**
+ * Stops a swap that would lose a large share of its value until the player
+ * acknowledges the loss.
+ */
+export function SwapPriceImpactDialog({
+	open,
+	priceImpact,
+	exchangeAmount,
+	fromSymbol,
+	minReceived,
+	toSymbol,
+	onCancel,
+	onConfirm,
+}: SwapPriceImpactDialogProps) {
+	const t = useTranslations("walletProvider.swapPanel.priceImpactDialog");
+	const [acknowledged, setAcknowledged] = useState(false);
+
+	// Every high-impact swap needs a fresh acknowledgement
+	useEffect(() => {
+		if (open) setAcknowledged(false);
+	}, [open]);
+
+	return (
+		<AlertDialog
+			open={open}
+			onOpenChange={(isOpen) => {
+				if (!isOpen) onCancel();
+			}}
+		>
+			<AlertDialogContent>
+				<AlertDialogHeader>
+					<AlertDialogTitle className="flex items-center gap-2">
+						<AlertTriangle className="h-5 w-5 text-destructive" />
+						{t("title")}
+					</AlertDialogTitle>
+					<AlertDialogDescription>
+						{t("description", {
+							impact: priceImpact.toFixed(2),
+						})}
+					</AlertDialogDescription>
+				</AlertDialogHeader>
+
+				<div className="space-y-2 rounded-lg border border-border bg-muted/20 p-3 text-sm">
+					<div className="flex justify-between">
+						<span className="text-muted-foreground">
+							{t("youPay")}
+						</span>
+						<span>
+							{exchangeAmount} {fromSymbol}
+						</span>
+					</div>
+					<div className="flex justify-between">
+						<span className="text-muted-foreground">
+							{t("minimumReceived")}
+						</span>
+						<span>
+							{minReceived} {toSymbol}
+						</span>
+					</div>
+					<div className="flex justify-between">
+						<span className="text-muted-foreground">
+							{t("priceImpact")}
+						</span>
+						<span className="font-semibold text-destructive">
+							{priceImpact.toFixed(2)}%
+						</span>
+					</div>
+				</div>
+
+				<div className="flex items-start gap-2">
+					<Checkbox
+						id="swap-price-impact-ack"
+						checked={acknowledged}
+						onCheckedChange={(checked) =>
+							setAcknowledged(checked === true)
+						}
+					/>
+					<Label
+						htmlFor="swap-price-impact-ack"
+						className="text-sm font-normal leading-snug"
+					>
+						{t("acknowledge")}
+					</Label>
+				</div>
+
+				<AlertDialogFooter>
+					<AlertDialogCancel>{t("cancel")}</AlertDialogCancel>
+					<Button
+						variant="destructive"
+						disabled={!acknowledged}
+						onClick={onConfirm}
+					>
+						{t("confirm")}
+					</Button>
+				</AlertDialogFooter>
+			</AlertDialogContent>
+		</AlertDialog>
+	);
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { Loader2, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAppStore } from "@/store/store";
+import { useTranslations } from "@/lib/locale-provider";
+import { useChainBalances } from "@/hooks/walletProvider/useChainBalances";
+import { getChainName } from "@/lib/utils/wallet-provider/chain.utils";
+
+const formatUsd = (value: number) =>
+	`$${value.toLocaleString(undefined, {
+		minimumFractionDigits: 2,
+		maximumFractionDigits: 2,
+	})}`;
+
+/**
+ * Shows the player's platform balance next to what their wallet holds on each
+ * supported chain, so they can see where funds are before depositing.
+ */
+export const ChainBalanceOverview = () => {
+	const t = useTranslations("walletProvider.balanceOverview");
+	const chainId = useAppStore((state) => state.blockchain.network.chainId);
+	const { holdings, totalWalletUsd, platformBalance, isLoading, refresh } =
+		useChainBalances();
+
+	// Empty chains are hidden, except the one the wallet is connected to
+	const rows = holdings.filter(
+		(row) =>
+			row.chainId === chainId ||
+			row.status !== "success" ||
+			row.usdValue > 0
+	);
+
+	return (
+		<div className="bg-card/95 backdrop-blur-sm rounded-lg border border-border p-6 space-y-4">
+			<div className="flex items-center justify-between">
+				<h3 className="font-semibold text-foreground">{t("title")}</h3>
+				<Button
+					variant="ghost"
+					size="icon"
+					className="h-8 w-8"
+					onClick={refresh}
+					disabled={isLoading}
+					aria-label={t("refresh")}
+				>
+					<RefreshCw
+						className={`h-4 w-4 ${isLoading ? "animate-spin" : ""}`}
+					/>
+				</Button>
+			</div>
+
+			<div className="grid grid-cols-2 gap-4">
+				<div className="bg-muted/30 border border-border rounded-lg p-4">
+					<p className="text-xs text-muted-foreground uppercase tracking-wide">
+						{t("platformBalance")}
+					</p>
+					<p className="text-lg font-semibold text-primary">
+						{formatUsd(platformBalance)}
+					</p>
+				</div>
+				<div className="bg-muted/30 border border-border rounded-lg p-4">
+					<p className="text-xs text-muted-foreground uppercase tracking-wide">
+						{t("walletHoldings")}
+					</p>
+					{isLoading && totalWalletUsd === 0 ? (
+						<Skeleton className="mt-1 h-7 w-24" />
+					) : (
+						<p className="text-lg font-semibold text-foreground">
+							{formatUsd(totalWalletUsd)}
+						</p>
+					)}
+				</div>
+			</div>
+
+			{rows.length === 0 ? (
+				<p className="text-sm text-muted-foreground text-center py-2">
+					{t("noHoldings")}
+				</p>
+			) : (
+				<ul className="divide-y divide-border">
+					{rows.map((row) => (
+						<li
+							key={row.chainId}
+							className="flex items-center justify-between gap-3 py-2"
+						>
+							<div className="flex min-w-0 items-center gap-2">
+								<span className="truncate text-sm font-medium">
+									{getChainName(row.chainId)}
+								</span>
+								{row.chainId === chainId && (
+									<Badge
+										variant="secondary"
+										className="bg-primary/15 text-primary border-primary/25"
+									>
+										{t("currentNetwork")}
+									</Badge>
+								)}
+							</div>
+							{row.status === "loading" ? (
+								<Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+							) : row.status === "error" ? (
+								<span className="text-xs text-destructive">
+									{t("loadFailed")}
+								</span>
+							) : (
+								<div className="text-right">
+									<p className="text-sm font-semibold">
+										{formatUsd(row.usdValue)}
+									</p>
+									<p className="text-xs text-muted-foreground">
+										{t("tokenCount", { count: row.tokens })}
+									</p>
+								</div>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+};
@@ -6,6 +6,7 @@ import {
 } from "@dynamic-labs/sdk-react-core";
 import { ProfileInfoCard } from "../../profile/profile-info-card";
 import { WalletInfoSkeleton } from "./wallet-info-skeleton";
+import { ChainBalanceOverview } from "./chain-balance-overview";
 
 /**
  * A beautifully redesigned, feature-rich UI Panel that provides a comprehensive
@@ -27,12 +28,13 @@ export const WalletInfoPanel = ({
 
 	// --- 4. Render the UI ---
 	return (
-		<>
+		<div className="space-y-4">
 			{primaryWallet?.connector?.isEmbeddedWallet ? (
 				<DynamicEmbeddedWidget background="with-border" />
 			) : (
 				<ProfileInfoCard onNavigate={onNavigate} />
 			)}
-		</>
+			<ChainBalanceOverview />
+		</div>
 	);
 };
@@ -0,0 +1,284 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useTranslations } from "@/lib/locale-provider";
+import { CHAINS } from "@/constants/blockchain/chains.constants";
+import {
+	ADDRESS_COOLDOWN_HOURS,
+	ADDRESS_LABEL_MAX_LENGTH,
+	WHITELIST_DISABLE_DELAY_HOURS,
+} from "@/constants/blockchain/withdraw.constants";
+import { getChainName } from "@/lib/utils/wallet-provider/chain.utils";
+import {
+	isAddressCoolingDown,
+	shortenAddress,
+} from "@/lib/utils/wallet-provider/withdraw.utils";
+import { useWithdrawAddressBook } from "@/hooks/walletProvider/withdrawal/useWithdrawAddressBook";
+import { AddWithdrawAddressError } from "@/types/walletProvider/transaction-service.types";
+
+interface WithdrawAddressBookDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	addressBook: ReturnType<typeof useWithdrawAddressBook>;
+	defaultNetwork: number | null;
+}
+
+/**
+ * Adds and removes saved withdrawal addresses and switches whitelist-only
+ * withdrawals on, or schedules switching them off.
+ */
+export const WithdrawAddressBookDialog = ({
+	open,
+	onOpenChange,
+	addressBook,
+	defaultNetwork,
+}: WithdrawAddressBookDialogProps) => {
+	const t = useTranslations("walletProvider.addressBook");
+	const {
+		addresses,
+		whitelistOnly,
+		whitelistDisableAt,
+		isLoading,
+		isSaving,
+		addAddress,
+		removeAddress,
+		setWhitelistOnly,
+	} = addressBook;
+
+	const [label, setLabel] = useState("");
+	const [network, setNetwork] = useState(
+		String(defaultNetwork ?? CHAINS[0].chainId)
+	);
+	const [address, setAddress] = useState("");
+	const [addError, setAddError] = useState<AddWithdrawAddressError | null>(
+		null
+	);
+
+	// New addresses default to the network the wallet is on
+	useEffect(() => {
+		if (open && defaultNetwork) setNetwork(String(defaultNetwork));
+	}, [open, defaultNetwork]);
+
+	const handleAdd = async () => {
+		const error = await addAddress({
+			label,
+			network: Number(network),
+			address,
+		});
+		setAddError(error);
+		if (error) return;
+
+		setLabel("");
+		setAddress("");
+		toast.success(t("added", { hours: ADDRESS_COOLDOWN_HOURS }));
+	};
+
+	const handleRemove = async (id: string) => {
+		if (!(await removeAddress(id))) toast.error(t("removeFailed"));
+	};
+
+	const handleWhitelistChange = async (enabled: boolean) => {
+		if (!(await setWhitelistOnly(enabled))) {
+			toast.error(t("whitelistFailed"));
+			return;
+		}
+		if (!enabled) {
+			toast.success(
+				t("whitelistDisableRequested", {
+					hours: WHITELIST_DISABLE_DELAY_HOURS,
+				})
+			);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-lg">
+				<DialogHeader>
+					<DialogTitle>{t("title")}</DialogTitle>
+					<DialogDescription>
+						{t("description", { hours: ADDRESS_COOLDOWN_HOURS })}
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex items-start justify-between gap-4 rounded-lg border border-border bg-muted/20 p-3">
+					<div className="space-y-1">
+						<Label htmlFor="withdraw-whitelist-only">
+							{t("whitelistOnly")}
+						</Label>
+						<p className="text-xs text-muted-foreground">
+							{t("whitelistOnlyHint")}
+						</p>
+						{whitelistDisableAt && (
+							<div className="flex flex-wrap items-center gap-2 pt-1">
+								<p className="text-xs text-warning">
+									{t("whitelistDisablePending", {
+										date: new Date(
+											whitelistDisableAt
+										).toLocaleString(),
+									})}
+								</p>
+								<Button
+									variant="outline"
+									size="sm"
+									className="h-7"
+									onClick={() => handleWhitelistChange(true)}
+									disabled={isSaving}
+								>
+									{t("keepWhitelist")}
+								</Button>
+							</div>
+						)}
+					</div>
+					<Switch
+						id="withdraw-whitelist-only"
+						checked={whitelistOnly}
+						onCheckedChange={handleWhitelistChange}
+						// A pending switch-off is cancelled with "keep it on"
+						disabled={isSaving || !!whitelistDisableAt}
+					/>
+				</div>
+
+				<div className="space-y-2">
+					<p className="text-sm font-semibold">{t("savedTitle")}</p>
+					{isLoading ? (
+						<div className="flex justify-center py-4">
+							<Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+						</div>
+					) : addresses.length === 0 ? (
+						<p className="text-xs text-muted-foreground">
+							{t("empty")}
+						</p>
+					) : (
+						<ul className="max-h-56 space-y-2 overflow-y-auto">
+							{addresses.map((entry) => (
+								<li
+									key={entry.id}
+									className="flex items-center justify-between gap-3 rounded-md bg-muted/30 px-3 py-2"
+								>
+									<div className="min-w-0">
+										<p className="truncate text-sm font-medium">
+											{entry.label}
+										</p>
+										<p className="truncate text-xs text-muted-foreground">
+											{getChainName(entry.network)} ·{" "}
+											{entry.ens_name
+												? `${entry.ens_name} (${shortenAddress(entry.address)})`
+												: shortenAddress(entry.address)}
+										</p>
+									</div>
+									<div className="flex shrink-0 items-center gap-2">
+										{isAddressCoolingDown(entry) && (
+											<Badge variant="secondary">
+												{t("coolingDown")}
+											</Badge>
+										)}
+										<Button
+											variant="ghost"
+											size="icon"
+											className="h-8 w-8"
+											onClick={() =>
+												handleRemove(entry.id)
+											}
+											disabled={isSaving}
+											aria-label={t("remove")}
+										>
+											<Trash2 className="h-4 w-4" />
+										</Button>
+									</div>
+								</li>
+							))}
+						</ul>
+					)}
+				</div>
+
+				<div className="space-y-3 border-t border-border/50 pt-4">
+					<p className="text-sm font-semibold">{t("addTitle")}</p>
+					<div className="grid gap-3 sm:grid-cols-2">
+						<div className="space-y-1">
+							<Label htmlFor="withdraw-address-label">
+								{t("label")}
+							</Label>
+							<Input
+								id="withdraw-address-label"
+								value={label}
+								maxLength={ADDRESS_LABEL_MAX_LENGTH}
+								placeholder={t("labelPlaceholder")}
+								onChange={(e) => setLabel(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-1">
+							<Label>{t("network")}</Label>
+							<Select value={network} onValueChange={setNetwork}>
+								<SelectTrigger className="w-full">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{CHAINS.map((chain) => (
+										<SelectItem
+											key={chain.chainId}
+											value={String(chain.chainId)}
+										>
+											{chain.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+						</div>
+					</div>
+					<div className="space-y-1">
+						<Label htmlFor="withdraw-address-value">
+							{t("address")}
+						</Label>
+						<Input
+							id="withdraw-address-value"
+							value={address}
+							placeholder={t("addressPlaceholder")}
+							className="font-mono text-sm"
+							onChange={(e) => {
+								setAddress(e.target.value);
+								setAddError(null);
+							}}
+						/>
+					</div>
+					{addError && (
+						<p className="text-xs text-destructive">
+							{t(`errors.${addError}`)}
+						</p>
+					)}
+					<Button
+						className="w-full"
+						onClick={handleAdd}
+						disabled={isSaving || !label.trim() || !address.trim()}
+					>
+						{isSaving && (
+							<Loader2 className="h-4 w-4 animate-spin" />
+						)}
+						{t("add")}
+					</Button>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+};
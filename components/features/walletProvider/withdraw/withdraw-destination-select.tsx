@@ -0,0 +1,160 @@
+"use client";
+
+import { BookUser, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { useTranslations } from "@/lib/locale-provider";
+import {
+	getAddressAvailableAt,
+	isAddressCoolingDown,
+	shortenAddress,
+} from "@/lib/utils/wallet-provider/withdraw.utils";
+import {
+	WithdrawAddressEntry,
+	WithdrawAddressRestriction,
+} from "@/types/walletProvider/transaction-service.types";
+
+interface WithdrawDestinationSelectProps {
+	connectedAddress?: string;
+	savedAddresses: WithdrawAddressEntry[];
+	selectedSavedAddress: WithdrawAddressEntry | null;
+	isCustomDestination: boolean;
+	withdrawAddress: string;
+	isAddressValid: boolean;
+	addressRestriction: WithdrawAddressRestriction | null;
+	whitelistOnly: boolean;
+	disabled?: boolean;
+	onSelect: (destination: string) => void;
+	onAddressChange: (value: string) => void;
+	onManage: () => void;
+}
+
+// Whole hours left before a saved address can receive withdrawals
+const getHoursLeft = (entry: WithdrawAddressEntry) =>
+	Math.max(
+		1,
+		Math.ceil(
+			(getAddressAvailableAt(entry) - Date.now()) / (60 * 60 * 1000)
+		)
+	);
+
+/**
+ * Lets the player send a withdrawal to the connected wallet, a saved address
+ * or, unless whitelist-only mode is on, an address typed in.
+ */
+export const WithdrawDestinationSelect = ({
+	connectedAddress,
+	savedAddresses,
+	selectedSavedAddress,
+	isCustomDestination,
+	withdrawAddress,
+	isAddressValid,
+	addressRestriction,
+	whitelistOnly,
+	disabled = false,
+	onSelect,
+	onAddressChange,
+	onManage,
+}: WithdrawDestinationSelectProps) => {
+	const t = useTranslations("walletProvider.withdrawPanel.destination");
+
+	const value = isCustomDestination
+		? "custom"
+		: (selectedSavedAddress?.id ?? "wallet");
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center justify-between">
+				<Label className="text-muted-foreground text-sm font-normal">
+					{t("sendTo")}
+				</Label>
+				<Button
+					variant="link"
+					size="sm"
+					onClick={onManage}
+					className="text-primary hover:text-primary/80 p-0 h-auto font-medium"
+				>
+					<BookUser className="h-4 w-4" />
+					{t("manage")}
+				</Button>
+			</div>
+
+			<Select value={value} onValueChange={onSelect} disabled={disabled}>
+				<SelectTrigger className="w-full">
+					<SelectValue />
+				</SelectTrigger>
+				<SelectContent>
+					<SelectItem value="wallet">
+						{t("connectedWallet")}
+						{connectedAddress &&
+							` · ${shortenAddress(connectedAddress)}`}
+					</SelectItem>
+					{savedAddresses.map((entry) => {
+						const isCoolingDown = isAddressCoolingDown(entry);
+						return (
+							<SelectItem
+								key={entry.id}
+								value={entry.id}
+								disabled={isCoolingDown}
+							>
+								{entry.label} ·{" "}
+								{entry.ens_name ??
+									shortenAddress(entry.address)}
+								{isCoolingDown &&
+									` (${t("availableIn", {
+										hours: getHoursLeft(entry),
+									})})`}
+							</SelectItem>
+						);
+					})}
+					<SelectItem value="custom" disabled={whitelistOnly}>
+						{t("otherAddress")}
+					</SelectItem>
+				</SelectContent>
+			</Select>
+
+			{isCustomDestination && (
+				<Input
+					type="text"
+					placeholder="0x..."
+					value={withdrawAddress}
+					onChange={(e) => onAddressChange(e.target.value.trim())}
+					disabled={disabled}
+					className="font-mono text-sm"
+				/>
+			)}
+
+			{isCustomDestination && withdrawAddress && !isAddressValid && (
+				<p className="text-xs text-destructive">
+					{t("invalidAddress")}
+				</p>
+			)}
+			{addressRestriction === "cooldown" && selectedSavedAddress && (
+				<p className="text-xs text-destructive">
+					{t("cooldown", {
+						hours: getHoursLeft(selectedSavedAddress),
+					})}
+				</p>
+			)}
+			{addressRestriction === "notWhitelisted" && (
+				<p className="text-xs text-destructive">
+					{t("notWhitelisted")}
+				</p>
+			)}
+			{whitelistOnly && (
+				<p className="flex items-center gap-1 text-xs text-muted-foreground">
+					<ShieldCheck className="h-3 w-3" />
+					{t("whitelistActive")}
+				</p>
+			)}
+		</div>
+	);
+};
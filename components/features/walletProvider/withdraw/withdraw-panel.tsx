@@ -14,12 +14,16 @@ import { useWalletAddress } from "@/hooks/walletProvider/useWalletAddress";
 import { Label } from "@/components/ui/label";
 import { NetworkSelector } from "@/components/common/walletProvider/network-selector";
 import { useWithdraw } from "@/hooks/walletProvider/withdrawal/useWithdraw";
-// import { WithdrawSummary } from "@/components/features/walletProvider/withdraw/withdraw-summary";
+import { WithdrawSummary } from "@/components/features/walletProvider/withdraw/withdraw-summary";
 import { WithdrawTransactionPending } from "@/components/features/walletProvider/withdraw/withdraw-transaction-pending";
 import { WithdrawalSuccessModal } from "@/components/features/walletProvider/withdraw/withdrawal-success-modal";
+import { WithdrawDestinationSelect } from "@/components/features/walletProvider/withdraw/withdraw-destination-select";
+import { WithdrawAddressBookDialog } from "@/components/features/walletProvider/withdraw/withdraw-address-book-dialog";
+import { useAppStore } from "@/store/store";
 import { useTranslations } from "@/lib/locale-provider";
 import { cn, sanitizeAmountInput } from "@/lib/utils";
 import { sanitizeDecimalInput } from "@/lib/utils";
+import { formatFeeAmount } from "@/lib/utils/wallet-provider/withdraw.utils";
 
 export const WithdrawPanel = memo(
 	({
@@ -39,14 +43,22 @@ export const WithdrawPanel = memo(
 			// State
 			withdrawAmount,
 			selectedToken,
-			fee,
+			feeBreakdown,
+			withdrawalFee,
+			isFeeUnavailable,
 			// totalPayout,
 			maxWithdrawAmount,
 			pendingStatus,
 			timeLeft,
 			isWithdrawalSuccessful,
 			withdrawTxHash,
-			// withdrawAddress,
+			withdrawAddress,
+			isAddressValid,
+			addressBook,
+			savedAddresses,
+			selectedSavedAddress,
+			isCustomDestination,
+			addressRestriction,
 			isBalanceInsufficient,
 			isBelowMinimum,
 			isNetworkSupported,
@@ -56,6 +68,8 @@ export const WithdrawPanel = memo(
 			isFetchingMinWithdrawAmount,
 			// Actions
 			handleAmountChange,
+			handleAddressChange,
+			selectDestination,
 			setMaxAmount,
 			executeWithdraw,
 			resetPage,
@@ -67,6 +81,10 @@ export const WithdrawPanel = memo(
 		} = useWithdraw();
 		// --- 2. ADDITIONAL STATE FOR UI ---
 		const [isMaxed, setIsMaxed] = useState(false);
+		const [isAddressBookOpen, setIsAddressBookOpen] = useState(false);
+		const chainId = useAppStore(
+			(state) => state.blockchain.network.chainId
+		);
 		// Local state to store withdraw amount for success modal
 		const [successWithdrawAmount, setSuccessWithdrawAmount] = useState("");
 
@@ -270,7 +288,13 @@ export const WithdrawPanel = memo(
 														•
 													</span>
 													<span className="block sm:inline">
-														Fee: {fee} USDT
+														{isFeeUnavailable
+															? t("feeUnavailable")
+															: feeBreakdown
+															? `${t("feeLabel")} ${formatFeeAmount(
+																	feeBreakdown.totalFee
+															  )} ${selectedToken?.token_symbol}`
+															: t("calculating")}
 													</span>
 												</>
 											)}
@@ -336,11 +360,32 @@ export const WithdrawPanel = memo(
 									)} */}
 								</div>
 
+								{/* Withdrawal destination, from the address book or typed in */}
+								<WithdrawDestinationSelect
+									connectedAddress={walletAddress}
+									savedAddresses={savedAddresses}
+									selectedSavedAddress={selectedSavedAddress}
+									isCustomDestination={isCustomDestination}
+									withdrawAddress={withdrawAddress}
+									isAddressValid={isAddressValid}
+									addressRestriction={addressRestriction}
+									whitelistOnly={addressBook.whitelistOnly}
+									disabled={!isNetworkSupported}
+									onSelect={selectDestination}
+									onAddressChange={handleAddressChange}
+									onManage={() => setIsAddressBookOpen(true)}
+								/>
+
 								{/* Withdraw Summary (equivalent to additional info in deposit) */}
-								{/* <WithdrawSummary
-								totalPayout={totalPayout}
-								tokenSymbol={selectedToken?.token_symbol}
-							/> */}
+								{feeBreakdown &&
+									parseFloat(withdrawAmount) > 0 && (
+										<WithdrawSummary
+											feeBreakdown={feeBreakdown}
+											tokenSymbol={
+												selectedToken?.token_symbol
+											}
+										/>
+									)}
 
 								{/* Wallet Address Copy Section */}
 								{!isLobbyPage &&
@@ -395,6 +440,13 @@ export const WithdrawPanel = memo(
 					)}
 				</div>
 
+				<WithdrawAddressBookDialog
+					open={isAddressBookOpen}
+					onOpenChange={setIsAddressBookOpen}
+					addressBook={addressBook}
+					defaultNetwork={chainId}
+				/>
+
 				{/* Withdrawal Success Modal */}
 				<WithdrawalSuccessModal
 					isOpen={showSuccessModal}
@@ -405,6 +457,8 @@ export const WithdrawPanel = memo(
 						resetPage(); // Reset the form when modal is closed
 					}}
 					withdrawAmount={successWithdrawAmount}
+					feeAmount={withdrawalFee?.totalFee}
+					receivedAmount={withdrawalFee?.payout}
 					tokenSymbol={selectedToken?.token_symbol || ""}
 					transactionHash={withdrawTxHash || undefined}
 				/>
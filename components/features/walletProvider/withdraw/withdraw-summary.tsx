@@ -1,31 +1,52 @@
 "use client";
 
 import { useTranslations } from "@/lib/locale-provider";
+import { formatFeeAmount } from "@/lib/utils/wallet-provider/withdraw.utils";
+import { WithdrawFeeBreakdown } from "@/types/walletProvider/transaction-service.types";
 
 interface WithdrawSummaryProps {
-  // fee: number;
-  totalPayout: number;
+  feeBreakdown: WithdrawFeeBreakdown;
   tokenSymbol?: string;
 }
 
 export const WithdrawSummary = ({
-  // fee,
-  totalPayout,
+  feeBreakdown,
   tokenSymbol,
 }: WithdrawSummaryProps) => {
   const t = useTranslations("walletProvider.withdrawSummary");
+
+  // Fee parts the schedule does not charge are left out
+  const feeRows = [
+    {
+      label: t("percentFee", {
+        percent: formatFeeAmount(feeBreakdown.feePercent),
+      }),
+      value: feeBreakdown.percentFee,
+    },
+    { label: t("flatFee"), value: feeBreakdown.flatFee },
+    { label: t("gasFee"), value: feeBreakdown.gasFee },
+  ].filter((row) => parseFloat(row.value) > 0);
+
   return (
     <div className="space-y-2 rounded-md border bg-muted/50 p-4 text-sm">
-      {/* <div className="flex justify-between">
-				<span className="text-muted-foreground">Withdrawal Fee (1%)</span>
-				<span>
-					{fee.toFixed(4)} {tokenSymbol}
-				</span>
-			</div> */}
+      {feeRows.map((row) => (
+        <div key={row.label} className="flex justify-between">
+          <span className="text-muted-foreground">{row.label}</span>
+          <span>
+            {formatFeeAmount(row.value)} {tokenSymbol}
+          </span>
+        </div>
+      ))}
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">{t("totalFee")}</span>
+        <span>
+          {formatFeeAmount(feeBreakdown.totalFee)} {tokenSymbol}
+        </span>
+      </div>
       <div className="flex justify-between font-semibold">
         <span className="text-muted-foreground">{t("youWillReceive")}</span>
         <span>
-          {totalPayout.toFixed(4)} {tokenSymbol}
+          {formatFeeAmount(feeBreakdown.payout)} {tokenSymbol}
         </span>
       </div>
     </div>
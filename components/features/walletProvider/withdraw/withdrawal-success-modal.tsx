@@ -21,18 +21,28 @@ import {
 } from "react-share";
 import { toast } from "sonner";
 import { useDynamicAuth } from "@/hooks/useDynamicAuth";
+import { formatFeeAmount } from "@/lib/utils/wallet-provider/withdraw.utils";
 
 interface WithdrawalSuccessModalProps {
 	isOpen: boolean;
 	onClose: () => void;
 	withdrawAmount: string;
+	feeAmount?: string;
+	receivedAmount?: string;
 	tokenSymbol: string;
 	transactionHash?: string;
 }
 
 export const WithdrawalSuccessModal = (props: WithdrawalSuccessModalProps) => {
 	const { user } = useDynamicAuth();
-	const { isOpen, onClose, withdrawAmount, tokenSymbol } = props;
+	const {
+		isOpen,
+		onClose,
+		withdrawAmount,
+		feeAmount,
+		receivedAmount,
+		tokenSymbol,
+	} = props;
 	const t = useTranslations("walletProvider.withdrawSuccess");
 	const screenshotRef = useRef<HTMLDivElement>(null);
 	const [image, setImage] = useState<Blob | null>(null);
@@ -204,7 +214,10 @@ export const WithdrawalSuccessModal = (props: WithdrawalSuccessModalProps) => {
 							{/* Amount - Big and Bold */}
 							<div>
 								<h3 className="text-6xl sm:text-7xl md:text-8xl font-black text-emerald-400 leading-none tracking-tight">
-									+{Number(withdrawAmount).toFixed(2)}
+									+
+									{Number(
+										receivedAmount ?? withdrawAmount
+									).toFixed(2)}
 								</h3>
 							</div>
 
@@ -230,6 +243,30 @@ export const WithdrawalSuccessModal = (props: WithdrawalSuccessModalProps) => {
 										{tokenSymbol}
 									</p>
 								</div>
+								{feeAmount !== undefined && (
+									<div>
+										<p className="text-xs sm:text-sm text-gray-500 mb-1">
+											{t("fee", {
+												defaultValue: "Fees",
+											})}
+										</p>
+										<p className="text-lg sm:text-xl font-bold">
+											{formatFeeAmount(feeAmount)}
+										</p>
+									</div>
+								)}
+								{receivedAmount !== undefined && (
+									<div>
+										<p className="text-xs sm:text-sm text-gray-500 mb-1">
+											{t("received", {
+												defaultValue: "Received",
+											})}
+										</p>
+										<p className="text-lg sm:text-xl font-bold">
+											{formatFeeAmount(receivedAmount)}
+										</p>
+									</div>
+								)}
 							</div>
 						</div>
 
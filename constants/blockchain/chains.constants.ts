@@ -0,0 +1,137 @@
+import { ChainConfig, NativeCurrency } from "@/types/blockchain/chain.types";
+
+const ETH: NativeCurrency = { symbol: "ETH", name: "Ether", decimals: 18 };
+
+// Tokens the deposit contract credits 1:1 without a swap
+const STABLE_DEPOSIT_TOKENS = ["USDT", "USDC", "55Swap", "USD₮0", "USDT0"];
+
+// Used for networks that are not in the registry
+export const DEFAULT_GAS_RESERVE = 0.0025;
+
+// The network the API assumes when no wallet is connected yet
+export const DEFAULT_CHAIN_ID: number | null =
+	Number(process.env.NEXT_PUBLIC_NETWORK_ID) || null;
+
+// Every network the platform accepts deposits and pays withdrawals on. The
+// public RPCs are rate-limited fallbacks; set NEXT_PUBLIC_<NETWORK>_RPC_URL to
+// a provider endpoint in production. Next only inlines env vars it can see
+// spelled out, so each one is read by its literal name.
+export const CHAINS: ChainConfig[] = [
+	{
+		chainId: 1,
+		name: "Ethereum",
+		rpcUrl:
+			process.env.NEXT_PUBLIC_ETHEREUM_RPC_URL ||
+			"https://cloudflare-eth.com",
+		explorerUrl: "https://etherscan.io",
+		nativeToken: ETH,
+		depositTokens: STABLE_DEPOSIT_TOKENS,
+		minWithdraw: 50,
+		gasReserve: 0.015,
+	},
+	{
+		chainId: 10,
+		name: "Optimism",
+		rpcUrl:
+			process.env.NEXT_PUBLIC_OPTIMISM_RPC_URL ||
+			"https://mainnet.optimism.io",
+		explorerUrl: "https://optimistic.etherscan.io",
+		nativeToken: ETH,
+		depositTokens: STABLE_DEPOSIT_TOKENS,
+		minWithdraw: 10,
+		gasReserve: 0.0012,
+	},
+	{
+		chainId: 56,
+		name: "BNB Smart Chain",
+		rpcUrl:
+			process.env.NEXT_PUBLIC_BSC_RPC_URL ||
+			"https://bsc-dataseed.bnbchain.org",
+		explorerUrl: "https://bscscan.com",
+		nativeToken: { symbol: "BNB", name: "BNB", decimals: 18 },
+		depositTokens: STABLE_DEPOSIT_TOKENS,
+		minWithdraw: 10,
+		gasReserve: 0.0015,
+	},
+	{
+		chainId: 137,
+		name: "Polygon",
+		rpcUrl:
+			process.env.NEXT_PUBLIC_POLYGON_RPC_URL ||
+			"https://polygon-rpc.com",
+		explorerUrl: "https://polygonscan.com",
+		nativeToken: { symbol: "POL", name: "Polygon", decimals: 18 },
+		depositTokens: STABLE_DEPOSIT_TOKENS,
+		minWithdraw: 10,
+		gasReserve: 0.1,
+	},
+	{
+		chainId: 324,
+		name: "zkSync Era",
+		rpcUrl:
+			process.env.NEXT_PUBLIC_ZKSYNC_RPC_URL ||
+			"https://mainnet.era.zksync.io",
+		explorerUrl: "https://explorer.zksync.io",
+		nativeToken: ETH,
+		depositTokens: STABLE_DEPOSIT_TOKENS,
+		minWithdraw: 10,
+		gasReserve: 0.0015,
+	},
+	{
+		chainId: 8453,
+		name: "Base",
+		rpcUrl:
+			process.env.NEXT_PUBLIC_BASE_RPC_URL || "https://mainnet.base.org",
+		explorerUrl: "https://basescan.org",
+		nativeToken: ETH,
+		depositTokens: STABLE_DEPOSIT_TOKENS,
+		minWithdraw: 10,
+		gasReserve: 0.0012,
+	},
+	{
+		chainId: 42161,
+		name: "Arbitrum",
+		rpcUrl:
+			process.env.NEXT_PUBLIC_ARBITRUM_RPC_URL ||
+			"https://arb1.arbitrum.io/rpc",
+		explorerUrl: "https://arbiscan.io",
+		nativeToken: ETH,
+		depositTokens: STABLE_DEPOSIT_TOKENS,
+		minWithdraw: 10,
+		gasReserve: 0.0012,
+	},
+	{
+		chainId: 43114,
+		name: "Avalanche",
+		rpcUrl:
+			process.env.NEXT_PUBLIC_AVALANCHE_RPC_URL ||
+			"https://api.avax.network/ext/bc/C/rpc",
+		explorerUrl: "https://snowtrace.io",
+		nativeToken: { symbol: "AVAX", name: "Avalanche", decimals: 18 },
+		depositTokens: STABLE_DEPOSIT_TOKENS,
+		minWithdraw: 10,
+		gasReserve: 0.003,
+	},
+	{
+		chainId: 59144,
+		name: "Linea",
+		rpcUrl:
+			process.env.NEXT_PUBLIC_LINEA_RPC_URL || "https://rpc.linea.build",
+		explorerUrl: "https://lineascan.build",
+		nativeToken: ETH,
+		depositTokens: STABLE_DEPOSIT_TOKENS,
+		minWithdraw: 10,
+		gasReserve: 0.0015,
+	},
+	{
+		chainId: 534352,
+		name: "Scroll",
+		rpcUrl:
+			process.env.NEXT_PUBLIC_SCROLL_RPC_URL || "https://rpc.scroll.io",
+		explorerUrl: "https://scrollscan.com",
+		nativeToken: ETH,
+		depositTokens: STABLE_DEPOSIT_TOKENS,
+		minWithdraw: 10,
+		gasReserve: DEFAULT_GAS_RESERVE,
+	},
+];
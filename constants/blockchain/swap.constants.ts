@@ -0,0 +1,24 @@
+// Stored when the player leaves slippage on "Auto"
+export const AUTO_SLIPPAGE = "Auto";
+
+// What "Auto" resolves to when the swap is built, in percent
+export const AUTO_SLIPPAGE_PERCENT = 1;
+
+// Preset buttons in the swap settings, in percent
+export const SLIPPAGE_PRESETS = ["0.1", "0.5", "1"];
+
+// Custom slippage is accepted within these bounds, and flagged above the warning
+export const MIN_SLIPPAGE_PERCENT = 0.01;
+export const MAX_SLIPPAGE_PERCENT = 50;
+export const HIGH_SLIPPAGE_PERCENT = 5;
+
+// Price impact thresholds, in percent. Above the blocking threshold the swap
+// needs an explicit confirmation.
+export const PRICE_IMPACT_WARNING_PERCENT = 3;
+export const PRICE_IMPACT_BLOCKING_PERCENT = 10;
+
+// A quote is refreshed once it is this old
+export const QUOTE_TTL_SECONDS = 30;
+
+// Remembers the player's slippage choice between visits
+export const SLIPPAGE_STORAGE_KEY = "swap_slippage";
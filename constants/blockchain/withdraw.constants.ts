@@ -0,0 +1,12 @@
+// A newly saved withdrawal address cannot receive funds for this long
+export const ADDRESS_COOLDOWN_HOURS = 24;
+
+// Switching whitelist-only mode off takes effect this long after it is
+// requested; the backend enforces the delay
+export const WHITELIST_DISABLE_DELAY_HOURS = 24;
+
+// Longest label accepted for a saved address
+export const ADDRESS_LABEL_MAX_LENGTH = 32;
+
+// ENS names are resolved on Ethereum mainnet, whatever the withdrawal network
+export const ENS_CHAIN_ID = 1;
@@ -24,20 +24,27 @@ export const languages: Language[] = [
 	{ code: "vi", name: "Tiếng Việt", flag: "🇻🇳", dir: "ltr" },
 ];
 
-// Chat room options
+// Chat room options: one global room plus a room per supported language
+export const DEFAULT_CHAT_ROOM: ChatRoom = {
+	code: "GLOBAL",
+	name: "Global",
+	flag: "🌍",
+	wsKey: "global",
+};
+
 export const chatRooms: ChatRoom[] = [
-	{ code: "GLOBAL", name: "Global", flag: "🌍" },
-	// { code: "VIP", name: "VIP", flag: "👑" },
-	// { code: "SPORT", name: "Sport", flag: "⚽" },
-	// { code: "PH", name: "Filipino", flag: "🇵🇭" },
-	// { code: "RU", name: "Русский", flag: "🇷🇺" },
-	// { code: "ES", name: "Español", flag: "🇪🇸" },
-	// { code: "IT", name: "Italiana", flag: "🇮🇹" },
-	// { code: "ID", name: "Indonesian", flag: "🇮🇩" },
-	// { code: "IN", name: "Indian", flag: "🇮🇳" },
-	// { code: "TR", name: "Türkçe", flag: "🇹🇷" },
-	// { code: "FR", name: "Français", flag: "🇫🇷" },
-	// { code: "DE", name: "Deutsch", flag: "🇩🇪" },
-	// { code: "PL", name: "Polski", flag: "🇵🇱" },
-	// { code: "PT", name: "Português", flag: "🇵🇹" },
+	DEFAULT_CHAT_ROOM,
+	...languages.map((language) => ({
+		code: language.code.toUpperCase(),
+		name: language.name,
+		flag: language.flag,
+		wsKey: language.code,
+		language: language.code,
+	})),
 ];
+
+export const findChatRoom = (code: string | null | undefined) =>
+	chatRooms.find((room) => room.code === code);
+
+export const findChatRoomByWsKey = (wsKey: string) =>
+	chatRooms.find((room) => room.wsKey === wsKey);
@@ -82,6 +82,15 @@ const isBonusActive = (pathname: string) => {
 	return pathname === "/bonus";
 };
 
+/**
+ * Checks if the current path is the in-house dice game.
+ * @param pathname - The current pathname from usePathname()
+ * @returns True if the current path is "/dice", false otherwise.
+ */
+const isDiceActive = (pathname: string) => {
+	return pathname === "/dice";
+};
+
 /**
  * Create SEO-friendly URL for games filtered by provider
  * @param providerName - The provider name (e.g., "PG Soft")
@@ -200,6 +209,12 @@ export const getNavData = ({
 				// badgeVariant: "destructive" as const,
 				isActive: isBonusActive(pathname),
 			},
+			{
+				title: "navigation.dice",
+				url: "/dice",
+				icon: faDice,
+				isActive: isDiceActive(pathname),
+			},
 		],
 
 		// --- Static Quick Actions ---
@@ -0,0 +1,187 @@
+"use client";
+
+import { useCallback, useEffect, useMemo } from "react";
+import { toast } from "sonner";
+import { useTranslations } from "@/lib/locale-provider";
+import { useAppStore } from "@/store/store";
+import {
+	LimitCheckResult,
+	SpendLimitType,
+} from "@/types/responsible-gambling/limits.types";
+import {
+	LIMIT_PERIODS,
+	checkSessionLimit,
+	checkSpendLimit,
+	combineLimitChecks,
+} from "@/lib/utils/features/responsible-gambling/limits.utils";
+
+const formatUsd = (value = 0) => `$${value.toFixed(2)}`;
+
+const useLimitGuardI18n = () => {
+	const t = useTranslations("responsibleGambling.limits");
+	return useMemo(
+		() => ({
+			describe: (result: LimitCheckResult) =>
+				result.type === "session"
+					? t("guard.sessionLimit", { limit: result.limit ?? 0 })
+					: t("guard.spendLimit", {
+							period: t(`guard.periods.${result.period}`),
+							type: t(`guard.types.${result.type}`),
+							limit: formatUsd(result.limit),
+						}),
+			blocked: (result: LimitCheckResult, limitName: string) =>
+				result.type === "session"
+					? t("guard.sessionBlocked", { limitName })
+					: t("guard.blocked", {
+							limitName,
+							remaining: formatUsd(result.remaining),
+						}),
+			warning: (result: LimitCheckResult, limitName: string) =>
+				result.type === "session"
+					? t("guard.sessionWarning", {
+							limitName,
+							remaining: result.remaining ?? 0,
+						})
+					: t("guard.warning", {
+							limitName,
+							remaining: formatUsd(result.remaining),
+						}),
+			usageUnavailable: () => t("guard.usageUnavailable"),
+		}),
+		[t]
+	);
+};
+
+/**
+ * Enforces the player's responsible-gambling limits before money moves or a
+ * game starts. Every guard resolves to `true` when the action may go ahead
+ * (possibly after a warning toast) and `false` when a limit blocks it.
+ */
+export const useLimitGuard = () => {
+	const i18n = useLimitGuardI18n();
+	const loadLimits = useAppStore(
+		(state) => state.responsibleGambling.limits.loadLimits
+	);
+	const refreshUsage = useAppStore(
+		(state) => state.responsibleGambling.limits.refreshUsage
+	);
+
+	useEffect(() => {
+		loadLimits();
+	}, [loadLimits]);
+
+	/**
+	 * Surfaces a check result to the player and turns it into a go/no-go.
+	 * Returns the message so callers without toasts (the launcher) can show it.
+	 */
+	const report = useCallback(
+		(result: LimitCheckResult, notify = true) => {
+			if (result.verdict === "ok") return { allowed: true };
+
+			// A block without a limit type means usage could not be verified
+			const limitName = result.type ? i18n.describe(result) : "";
+			if (result.verdict === "block") {
+				const message = result.type
+					? i18n.blocked(result, limitName)
+					: i18n.usageUnavailable();
+				if (notify) toast.error(message);
+				return { allowed: false, message };
+			}
+
+			const message = i18n.warning(result, limitName);
+			if (notify) toast.warning(message);
+			return { allowed: true, message };
+		},
+		[i18n]
+	);
+
+	/**
+	 * Checks `amount` (USD) against every period of the given spend limits,
+	 * fetching fresh usage first when any of them is set.
+	 */
+	const checkSpend = useCallback(
+		async (types: SpendLimitType[], amount: number) => {
+			await loadLimits();
+			const { limits, limitsStatus } =
+				useAppStore.getState().responsibleGambling.limits;
+			// Without the backend's limits we can't prove none are set
+			if (limitsStatus === "error") {
+				return { verdict: "block" } as LimitCheckResult;
+			}
+			const hasLimit = types.some((type) =>
+				LIMIT_PERIODS.some(
+					(period) => limits.spend[type][period] !== null
+				)
+			);
+			if (!hasLimit) return { verdict: "ok" } as LimitCheckResult;
+
+			await refreshUsage();
+			const { usage, usageStatus } =
+				useAppStore.getState().responsibleGambling.limits;
+			// Without usage we can't prove the action is within the limit
+			if (usageStatus === "error") {
+				return { verdict: "block" } as LimitCheckResult;
+			}
+
+			return combineLimitChecks(
+				...types.map((type) =>
+					checkSpendLimit(limits, usage, type, amount)
+				)
+			);
+		},
+		[loadLimits, refreshUsage]
+	);
+
+	const guardDeposit = useCallback(
+		async (amountUsd: number) =>
+			report(await checkSpend(["deposit"], amountUsd)).allowed,
+		[checkSpend, report]
+	);
+
+	// A tip never comes back to the player, so it counts as a loss
+	const guardTip = useCallback(
+		async (amountUsd: number) =>
+			report(await checkSpend(["loss"], amountUsd)).allowed,
+		[checkSpend, report]
+	);
+
+	/**
+	 * Checks the wager, loss and session limits before a game is launched.
+	 */
+	const guardGameLaunch = useCallback(
+		async (notify = true) => {
+			const spend = await checkSpend(["wager", "loss"], 0);
+			const { limits, sessionStartedAt } =
+				useAppStore.getState().responsibleGambling.limits;
+			return report(
+				combineLimitChecks(
+					spend,
+					checkSessionLimit(limits, sessionStartedAt)
+				),
+				notify
+			);
+		},
+		[checkSpend, report]
+	);
+
+	/**
+	 * Checks a single in-house bet of `amountUsd` against the wager, loss and
+	 * session limits.
+	 */
+	const guardWager = useCallback(
+		async (amountUsd: number) => {
+			const spend = await checkSpend(["wager", "loss"], amountUsd);
+			const { limits, sessionStartedAt } =
+				useAppStore.getState().responsibleGambling.limits;
+			return report(
+				combineLimitChecks(
+					spend,
+					checkSessionLimit(limits, sessionStartedAt)
+				)
+			).allowed;
+		},
+		[checkSpend, report]
+	);
+
+	return { guardDeposit, guardTip, guardGameLaunch, guardWager };
+};
@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAppStore } from "@/store/store";
+import { SESSION_TOTALS_POLL_MS } from "@/lib/utils/features/responsible-gambling/reality-check.utils";
+
+/**
+ * Drives the open play session: ticks the session clock, keeps the session
+ * totals fresh from bet history and raises the reality-check prompt every
+ * configured interval.
+ */
+export const useRealityCheck = () => {
+	const {
+		settings,
+		session,
+		isPromptOpen,
+		totalsStatus,
+		loadRealityCheck,
+		refreshSessionTotals,
+		openRealityCheck,
+		acknowledgeRealityCheck,
+	} = useAppStore((state) => state.responsibleGambling.realityCheck);
+	const [now, setNow] = useState(() => Date.now());
+
+	useEffect(() => {
+		loadRealityCheck();
+	}, [loadRealityCheck]);
+
+	const isActive = session !== null;
+
+	// Session clock
+	useEffect(() => {
+		if (!isActive) return;
+		const interval = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(interval);
+	}, [isActive]);
+
+	// Session totals from bet-history deltas
+	useEffect(() => {
+		if (!isActive) return;
+		const interval = setInterval(
+			refreshSessionTotals,
+			SESSION_TOTALS_POLL_MS
+		);
+		return () => clearInterval(interval);
+	}, [isActive, refreshSessionTotals]);
+
+	const isCheckDue =
+		!!session &&
+		settings.enabled &&
+		now - session.lastCheckAt >= settings.intervalMinutes * 60 * 1000;
+
+	useEffect(() => {
+		if (!isCheckDue || isPromptOpen) return;
+		// Show the freshest numbers we can in the prompt
+		refreshSessionTotals();
+		openRealityCheck();
+	}, [isCheckDue, isPromptOpen, refreshSessionTotals, openRealityCheck]);
+
+	return {
+		session,
+		settings,
+		elapsedMs: session ? now - session.startedAt : 0,
+		isPromptOpen,
+		totalsStatus,
+		acknowledge: acknowledgeRealityCheck,
+	};
+};
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useAppStore } from "@/store/store";
+import { TransactionModalTab } from "@/store/slices/ui/walletProvider/modal.slice";
+import {
+	SELF_EXCLUSION_PATH,
+	isExcludedPath,
+	isSelfExclusionActive,
+} from "@/lib/utils/features/responsible-gambling/self-exclusion.utils";
+
+// Withdrawals stay open so excluded players can still take their funds out
+const EXCLUDED_MODAL_TABS: TransactionModalTab[] = ["deposit", "swap", "tip"];
+
+// setTimeout overflows past ~24.8 days, so long exclusions re-check daily
+const MAX_EXPIRY_TIMER_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Loads the self-exclusion for this device and the logged-in account, and
+ * keeps the player out of game launch, deposit, swap and tip while it is
+ * active. Used by the auth provider so every page is covered, including
+ * client-side navigations that middleware has already let through.
+ */
+export const useSelfExclusionGuard = (username?: string) => {
+	const router = useRouter();
+	const pathname = usePathname();
+	const { exclusion, loadSelfExclusion } = useAppStore(
+		(state) => state.responsibleGambling.selfExclusion
+	);
+	const isTransactionModalOpen = useAppStore(
+		(state) => state.uiDefinition.modal.isTransactionModalOpen
+	);
+	const activeTransactionModalTab = useAppStore(
+		(state) => state.uiDefinition.modal.activeTransactionModalTab
+	);
+	const closeTransactionModal = useAppStore(
+		(state) => state.uiDefinition.modal.closeTransactionModal
+	);
+
+	const isSelfExcluded = isSelfExclusionActive(exclusion);
+
+	// Reloaded on login so an exclusion started elsewhere applies here too
+	useEffect(() => {
+		loadSelfExclusion();
+	}, [loadSelfExclusion, username]);
+
+	// Lift the exclusion as soon as it runs out
+	useEffect(() => {
+		if (!exclusion || exclusion.endsAt === null) return;
+
+		const timer = setTimeout(
+			loadSelfExclusion,
+			Math.min(
+				Math.max(0, exclusion.endsAt - Date.now()),
+				MAX_EXPIRY_TIMER_MS
+			)
+		);
+		return () => clearTimeout(timer);
+	}, [exclusion, loadSelfExclusion]);
+
+	useEffect(() => {
+		if (isSelfExcluded && pathname && isExcludedPath(pathname)) {
+			router.replace(SELF_EXCLUSION_PATH);
+		}
+	}, [isSelfExcluded, pathname, router]);
+
+	useEffect(() => {
+		if (
+			isSelfExcluded &&
+			isTransactionModalOpen &&
+			EXCLUDED_MODAL_TABS.includes(activeTransactionModalTab)
+		) {
+			closeTransactionModal();
+			router.push(SELF_EXCLUSION_PATH);
+		}
+	}, [
+		isSelfExcluded,
+		isTransactionModalOpen,
+		activeTransactionModalTab,
+		closeTransactionModal,
+		router,
+	]);
+
+	return { selfExclusion: isSelfExcluded ? exclusion : null, isSelfExcluded };
+};
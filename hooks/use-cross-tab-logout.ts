@@ -1,8 +1,13 @@
 import { useEffect, useCallback, useRef } from "react";
+import {
+	SELF_EXCLUSION_PATH,
+	SELF_EXCLUSION_STORAGE_KEY,
+} from "@/lib/utils/features/responsible-gambling/self-exclusion.utils";
 
 /**
  * Custom hook to handle cross-tab logout synchronization
- * When a user logs out in one tab, all other tabs will be redirected to home
+ * When a user logs out in one tab, all other tabs will be redirected to home.
+ * A self-exclusion started in one tab sends the others to the exclusion screen.
  */
 export function useCrossTabLogout(isLoggedIn: boolean) {
 	const previousLoginState = useRef<boolean>(isLoggedIn);
@@ -21,6 +26,17 @@ export function useCrossTabLogout(isLoggedIn: boolean) {
 			// Use window.location.href for full redirect (clears all params and routes)
 			window.location.href = "/";
 		}
+
+		// A self-exclusion was started in another tab
+		if (
+			event.key === SELF_EXCLUSION_STORAGE_KEY &&
+			event.newValue !== null
+		) {
+			console.log(
+				"Self-exclusion detected in another tab, redirecting..."
+			);
+			window.location.href = SELF_EXCLUSION_PATH;
+		}
 	}, []);
 
 	useEffect(() => {
@@ -54,6 +70,13 @@ export function useCrossTabLogout(isLoggedIn: boolean) {
 				// Use window.location.href for full redirect (clears all params and routes)
 				window.location.href = "/";
 			}
+
+			if (event.data.type === "SELF_EXCLUDED") {
+				console.log(
+					"Self-exclusion broadcast received, redirecting..."
+				);
+				window.location.href = SELF_EXCLUSION_PATH;
+			}
 		};
 
 		return () => {
@@ -75,3 +98,17 @@ export function broadcastLogout() {
 		console.error("Failed to broadcast logout:", error);
 	}
 }
+
+/**
+ * Broadcast a self-exclusion to all tabs
+ * Call this function right after an exclusion is started
+ */
+export function broadcastSelfExclusion() {
+	try {
+		const channel = new BroadcastChannel("auth_channel");
+		channel.postMessage({ type: "SELF_EXCLUDED", timestamp: Date.now() });
+		channel.close();
+	} catch (error) {
+		console.error("Failed to broadcast self-exclusion:", error);
+	}
+}
@@ -0,0 +1,145 @@
+import { RefObject, useEffect, useRef, useState } from "react";
+
+/**
+ * Shared building blocks for the hand-rolled (non-Radix) modals such as
+ * IdleModal and the reality-check prompt.
+ */
+
+const FOCUSABLE_SELECTOR =
+	'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Checks whether any other modal is currently open. `ownAttribute` is the
+ * data attribute the calling modal puts on its own dialog so it does not
+ * count itself.
+ */
+export function hasOtherOpenModals(ownAttribute: string) {
+	// Check for various modal indicators in the DOM
+	const modalSelectors = [
+		`[role="dialog"]:not([${ownAttribute}])`, // Generic modal dialogs (excluding this one)
+		`[aria-modal="true"]:not([${ownAttribute}])`, // ARIA modals (excluding this one)
+		".modal", // Common modal class
+		'[data-state="open"]', // Radix UI modals
+		'[data-testid*="modal"]', // Test ID modals
+		// Specific modal classes/selectors for known modals
+		"[data-nickname-modal]",
+		"[data-transaction-modal]",
+		"[data-token-modal]",
+		"[data-email-verification-modal]",
+		"[data-small-bonus-modal]",
+	];
+
+	return modalSelectors.some(
+		(selector) => document.querySelectorAll(selector).length > 0
+	);
+}
+
+/**
+ * Defers showing a modal until no other modal is open, so promotional
+ * modals never stack on top of another dialog.
+ */
+export function useModalStacking(open: boolean, ownAttribute: string) {
+	const [shouldShow, setShouldShow] = useState(false);
+
+	useEffect(() => {
+		if (!open) {
+			setShouldShow(false);
+			return;
+		}
+
+		const hasOtherModals = hasOtherOpenModals(ownAttribute);
+		setShouldShow(!hasOtherModals);
+		if (!hasOtherModals) return;
+
+		// If there are other modals, set up a periodic check
+		const checkInterval = setInterval(() => {
+			if (!hasOtherOpenModals(ownAttribute)) {
+				setShouldShow(true);
+				clearInterval(checkInterval);
+			}
+		}, 500); // Check every 500ms
+
+		return () => clearInterval(checkInterval);
+	}, [open, ownAttribute]);
+
+	return shouldShow;
+}
+
+/**
+ * Traps Tab focus inside `dialogRef` while active, focuses `initialFocusRef`
+ * on open, calls `onEscape` for the Escape key and returns focus to the
+ * previously focused element once the modal closes.
+ */
+export function useModalFocusTrap(
+	active: boolean,
+	dialogRef: RefObject<HTMLElement | null>,
+	initialFocusRef: RefObject<HTMLElement | null>,
+	onEscape?: () => void
+) {
+	// Kept in a ref so a new callback identity doesn't re-run the trap
+	const onEscapeRef = useRef(onEscape);
+	onEscapeRef.current = onEscape;
+
+	useEffect(() => {
+		if (!active) return;
+
+		// Store previous focus
+		const previousFocus = document.activeElement as HTMLElement | null;
+
+		const handleKeyDown = (e: KeyboardEvent) => {
+			if (e.key === "Escape") {
+				onEscapeRef.current?.();
+				return;
+			}
+			if (e.key !== "Tab") return;
+
+			const focusableElements =
+				dialogRef.current?.querySelectorAll<HTMLElement>(
+					FOCUSABLE_SELECTOR
+				);
+			if (!focusableElements || focusableElements.length === 0) return;
+
+			const firstFocusable = focusableElements[0];
+			const lastFocusable =
+				focusableElements[focusableElements.length - 1];
+
+			if (e.shiftKey && document.activeElement === firstFocusable) {
+				e.preventDefault();
+				lastFocusable.focus();
+			} else if (
+				!e.shiftKey &&
+				document.activeElement === lastFocusable
+			) {
+				e.preventDefault();
+				firstFocusable.focus();
+			}
+		};
+
+		document.addEventListener("keydown", handleKeyDown);
+
+		// Focus the primary action once the modal has rendered
+		const focusTimer = setTimeout(() => {
+			initialFocusRef.current?.focus();
+		}, 100);
+
+		return () => {
+			clearTimeout(focusTimer);
+			document.removeEventListener("keydown", handleKeyDown);
+			previousFocus?.focus();
+		};
+	}, [active, dialogRef, initialFocusRef]);
+}
+
+/**
+ * Prevents the page behind a modal from scrolling while it is open.
+ */
+export function useBodyScrollLock(active: boolean) {
+	useEffect(() => {
+		if (!active) return;
+
+		document.body.style.overflow = "hidden";
+		return () => {
+			document.body.style.overflow = "unset";
+		};
+	}, [active]);
+}
@@ -32,6 +32,7 @@ import { TransactionStateSynchronizer } from "@/components/common/synchronizers/
 import { WebSocketStateSynchronizer } from "@/components/common/synchronizers/websocket-state-synchronizer";
 import { generateUserAvatarAsync } from "@/lib/utils/features/live-chat/avatar-generator";
 import { broadcastLogout } from "@/hooks/use-cross-tab-logout";
+import { useSelfExclusionGuard } from "@/hooks/responsible-gambling/useSelfExclusionGuard";
 
 // 1. CREATE THE CONTEXT
 // The context is created with an undefined initial value.
@@ -56,6 +57,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 	const [accountStatus, setAccountStatus] = useState<AccountStatus>("guest");
 	const storageService = useMemo(() => LocalStorageService.getInstance(), []);
 	const apiService = useMemo(() => ApiService.getInstance(), []);
+	const { selfExclusion, isSelfExcluded } = useSelfExclusionGuard(
+		user?.username
+	);
 
 	const initializeGameList = useAppStore(
 		(state) => state.game.list.initializeGameList
@@ -277,6 +281,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 			isLoading,
 			isAuthCheckComplete,
 			authToken: authToken as string,
+			selfExclusion,
+			isSelfExcluded,
 			login,
 			logout,
 			refreshUserData,
@@ -291,10 +297,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 			isAuthCheckComplete,
 			isLoading,
 			isLoggedIn,
+			isSelfExcluded,
 			login,
 			logout,
 			onRegisterSubmit,
 			refreshUserData,
+			selfExclusion,
 			setShowLoginModal,
 			showLoginModal,
 			user,
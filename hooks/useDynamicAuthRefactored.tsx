@@ -39,6 +39,7 @@ import { TokenStateSynchronizer } from "@/components/common/synchronizers/token-
 import { TransactionStateSynchronizer } from "@/components/common/synchronizers/transactions-state-synchronizer";
 import { WebSocketStateSynchronizer } from "@/components/common/synchronizers/websocket-state-synchronizer";
 import { generateUserAvatarAsync } from "@/lib/utils/features/live-chat/avatar-generator";
+import { isSelfExclusionActive } from "@/lib/utils/features/responsible-gambling/self-exclusion.utils";
 
 // Import split contexts
 import { AuthStatusProvider, useAuthStatus } from "./auth/useAuthStatus";
@@ -221,19 +222,26 @@ export const useDynamicAuth = (): AuthContextType => {
 	const authStatus = useAuthStatus();
 	const wallet = useWallet();
 	const userData = useUserData();
+	// Loaded and enforced by the guard in the main AuthProvider
+	const exclusion = useAppStore(
+		(state) => state.responsibleGambling.selfExclusion.exclusion
+	);
+	const isSelfExcluded = isSelfExclusionActive(exclusion);
 
 	return useMemo(
 		() => ({
 			...authStatus,
 			...wallet,
 			...userData,
+			selfExclusion: isSelfExcluded ? exclusion : null,
+			isSelfExcluded,
 			isWalletConnected: authStatus.isLoggedIn,
 			setShowLoginModal: (value: boolean | ((prev: boolean) => boolean)) => {
 				const newValue = typeof value === 'function' ? value(userData.showLoginModal) : value;
 				userData.setShowLoginModal(newValue);
 			},
 		}),
-		[authStatus, wallet, userData]
+		[authStatus, wallet, userData, exclusion, isSelfExcluded]
 	);
 };
 
@@ -0,0 +1,31 @@
+import { useEffect } from "react";
+import WebSocketService from "@/services/webSocketService";
+import { useAppStore } from "@/store/store";
+
+/**
+ * Keeps the live bets buffer in the store fed from the public "bet_settled"
+ * socket for as long as the calling component is mounted.
+ */
+export const useLiveBetsFeed = () => {
+	const addSettledBet = useAppStore(
+		(state) => state.history.liveBets.addSettledBet
+	);
+	const setFeedStatus = useAppStore(
+		(state) => state.history.liveBets.setFeedStatus
+	);
+
+	useEffect(() => {
+		const unsubscribeStatus =
+			WebSocketService.subscribeToBetFeedStatus(setFeedStatus);
+		const unsubscribe =
+			WebSocketService.subscribeToBetSettled(addSettledBet);
+		WebSocketService.connectToBetFeed();
+		setFeedStatus(WebSocketService.getBetFeedStatus());
+
+		return () => {
+			unsubscribe();
+			WebSocketService.disconnectFromBetFeed();
+			unsubscribeStatus();
+		};
+	}, [addSettledBet, setFeedStatus]);
+};
@@ -1,18 +1,30 @@
 import { useEffect, useCallback, useRef } from "react";
 import WebSocketService from "@/services/webSocketService";
 import { ReceivedChatMessage } from "@/types/websockets/websockets.types";
+import {
+	ChatModerationCommand,
+	ChatModerationEvent,
+	ChatModerationSnapshot,
+} from "@/types/features/chat-moderation.types";
 
 interface UseLiveChatWebSocketOptions {
 	onMessageReceived?: (message: ReceivedChatMessage) => void;
 	onConnectionStatusChange?: (status: string) => void;
+	onModerationEvent?: (event: ChatModerationEvent) => void;
+	onModerationState?: (snapshot: ChatModerationSnapshot) => void;
 	username?: string;
+	// wsKey of the room to join; switching it moves the connection over
+	room?: string;
 	autoConnect?: boolean;
 }
 
 export const useLiveChatWebSocket = ({
 	onMessageReceived,
 	onConnectionStatusChange,
+	onModerationEvent,
+	onModerationState,
 	username,
+	room,
 	autoConnect = true,
 }: UseLiveChatWebSocketOptions = {}) => {
 	const unsubscribeRef = useRef<(() => void) | null>(null);
@@ -21,9 +33,9 @@ export const useLiveChatWebSocket = ({
 	// Connect to chat WebSocket
 	const connect = useCallback(() => {
 		if (username) {
-			WebSocketService.connectToChat(username);
+			WebSocketService.connectToChat(username, room);
 		}
-	}, [username]);
+	}, [username, room]);
 
 	// Disconnect from chat WebSocket
 	const disconnect = useCallback(() => {
@@ -39,6 +51,18 @@ export const useLiveChatWebSocket = ({
 		});
 	}, []);
 
+	// Send a moderation action as the current user
+	const sendModerationAction = useCallback(
+		(command: ChatModerationCommand) => {
+			if (!username) return false;
+			return WebSocketService.sendModerationAction({
+				...command,
+				moderator: username,
+			});
+		},
+		[username]
+	);
+
 	// Get connection status
 	const isConnected = useCallback(() => {
 		return WebSocketService.isChatConnected();
@@ -51,6 +75,19 @@ export const useLiveChatWebSocket = ({
 				WebSocketService.subscribeToChatMessages(onMessageReceived);
 		}
 
+		// Subscribe to moderation actions and room snapshots
+		const moderationUnsubscribes: (() => void)[] = [];
+		if (onModerationEvent) {
+			moderationUnsubscribes.push(
+				WebSocketService.subscribeToModerationEvents(onModerationEvent)
+			);
+		}
+		if (onModerationState) {
+			moderationUnsubscribes.push(
+				WebSocketService.subscribeToModerationState(onModerationState)
+			);
+		}
+
 		// Subscribe to connection status changes
 		if (onConnectionStatusChange) {
 			WebSocketService.onChatStatusChange = onConnectionStatusChange;
@@ -69,11 +106,14 @@ export const useLiveChatWebSocket = ({
 			if (statusUnsubscribeRef.current) {
 				statusUnsubscribeRef.current();
 			}
+			moderationUnsubscribes.forEach((unsubscribe) => unsubscribe());
 		};
 	}, [
 		username,
 		onMessageReceived,
 		onConnectionStatusChange,
+		onModerationEvent,
+		onModerationState,
 		autoConnect,
 		connect,
 	]);
@@ -82,6 +122,7 @@ export const useLiveChatWebSocket = ({
 		connect,
 		disconnect,
 		sendMessage,
+		sendModerationAction,
 		isConnected,
 	};
 };
@@ -93,6 +93,7 @@ import { useDepositTransaction } from "./useDepositTransaction";
 import { useDynamicAuth } from "@/hooks/useDynamicAuth";
 import { useAppStore } from "@/store/store";
 import { sanitizeAmountInput } from "@/lib/utils";
+import { useLimitGuard } from "@/hooks/responsible-gambling/useLimitGuard";
 
 export const useDeposit = () => {
 	// i18n accessors for messages and labels
@@ -103,6 +104,7 @@ export const useDeposit = () => {
 	const { user } = useDynamicAuth(); // Get accInfo for pendingDepo checks
 	const { isTokensLoading } = useTokens();
 	const { dstSwapInfo } = useSwapInfo();
+	const { guardDeposit } = useLimitGuard();
 
 	// Get current chainId from store to monitor network changes
 	const chainId = useAppStore((state) => state.blockchain.network.chainId);
@@ -276,6 +278,9 @@ export const useDeposit = () => {
 			return;
 		}
 
+		// Deposit limits are checked last so the player only sees them for a valid deposit
+		if (!(await guardDeposit(usdtConversionAmount))) return;
+
 		// If all checks pass, call the actual transaction execution logic.
 		await executeTransaction();
 	}, [
@@ -286,6 +291,8 @@ export const useDeposit = () => {
 		gasReservationAmount,
 		validateDeposit,
 		minRequiredAmount,
+		guardDeposit,
+		usdtConversionAmount,
 		executeTransaction,
 	]);
 
@@ -14,6 +14,7 @@ import { useDynamicAuth } from "@/hooks/useDynamicAuth";
 import { useDynamicContext } from "@dynamic-labs/sdk-react-core";
 import confetti from "canvas-confetti";
 import { PrimaryWalletWithClient } from "@/types/walletProvider/transaction-service.types";
+import { isDirectDepositToken } from "@/lib/utils/wallet-provider/chain.utils";
 
 // --- HOOK'S "CONTRACT" (What it needs to receive) ---
 interface UseDepositTransactionProps {
@@ -87,9 +88,7 @@ export const useDepositTransaction = ({
 			return;
 		}
 
-		const isDirect = ["USDT", "USDC", "55Swap", "USD₮0", "USDT0"].includes(
-			selectedToken.symbol
-		);
+		const isDirect = isDirectDepositToken(chainId, selectedToken.symbol);
 
 		if (isDirect) {
 			setIsApproved(true);
@@ -272,6 +271,7 @@ export const useDepositTransaction = ({
 
 		setIsLoading(true);
 		let depositSuccess = false;
+		let isSwapDeposit = false;
 		try {
 			const isAutoDepositOn = user.autodepo?.toUpperCase() !== "OFF";
 			let txResult: {
@@ -326,13 +326,10 @@ export const useDepositTransaction = ({
 				});
 				depositSuccess = true;
 			} else {
-				const isStablecoin = [
-					"USDT",
-					"USDC",
-					"55Swap",
-					"USD₮0",
-					"USDT0",
-				].includes(selectedToken.symbol);
+				const isStablecoin = isDirectDepositToken(
+					chainId,
+					selectedToken.symbol
+				);
 				if (isStablecoin || depositType === "direct") {
 					txResult = await transactionService.executeTokenTransfer({
 						tokenAddress: selectedToken.address,
@@ -342,6 +339,7 @@ export const useDepositTransaction = ({
 					});
 					depositSuccess = txResult.success;
 				} else if (depositType === "swap" && dstSwapInfo) {
+					isSwapDeposit = true;
 					txResult = await transactionService.executeSwap({
 						network: network.name,
 						fromToken: selectedToken.address,
@@ -372,10 +370,13 @@ export const useDepositTransaction = ({
 			setTimeLeft(90);
 			addTransaction({
 				hash: txResult.txHash,
-				type: TransactionType.DEPOSIT,
+				type: isSwapDeposit
+					? TransactionType.SWAP_DEPOSIT
+					: TransactionType.DEPOSIT,
 				amount: depositAmount,
 				tokenSymbol: selectedToken.symbol,
 				network: chainId,
+				username: user.username,
 			});
 		} catch (error) {
 			console.error("Error details:", {
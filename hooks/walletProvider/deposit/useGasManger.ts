@@ -3,6 +3,7 @@
 import { useState, useEffect, useMemo } from "react";
 import { useAppStore } from "@/store/store";
 import { Token } from "@/types/blockchain/swap.types";
+import { getGasReserve } from "@/lib/utils/wallet-provider/chain.utils";
 
 // --- HOOK'S "CONTRACT" ---
 // We define the props this hook needs to receive from the main useDeposit hook.
@@ -34,21 +35,8 @@ export const useGasManager = ({ selectedToken }: UseGasManagerProps) => {
 	// This is a faithful implementation of your original getGasReservationAmount.
 	// It is now a simple function within the hook, not an async callback.
 	useEffect(() => {
-		const getGasAmount = () => {
-			const feeMap: Record<number, number> = {
-				1: 0.015, // Ethereum
-				137: 0.1, // Polygon
-				42161: 0.0012, // Arbitrum
-				10: 0.0012, // Optimism
-				324: 0.0015, // zkSync Era
-				8453: 0.0012, // Base
-				56: 0.0015, // BNB Chain
-				43114: 0.003, // Avalanche
-				59144: 0.0015, // Linea
-			};
-			return feeMap[chainId || 0] || 0.0025; // Default fallback
-		};
-		setGasReservationAmount(getGasAmount());
+		// Per-chain reserves live in the chain registry
+		setGasReservationAmount(getGasReserve(chainId));
 	}, [chainId]);
 
 	// --- LOGIC IMPLEMENTATION (Tooltip and Low Balance Checks) ---
@@ -5,6 +5,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useAppStore } from "@/store/store";
+import { getGasReserve } from "@/lib/utils/wallet-provider/chain.utils";
 import {
 	UseSwapGasManagerParams,
 	UseSwapGasManagerReturn,
@@ -27,47 +28,8 @@ export const useSwapGasManager = ({
 	 * @returns {Promise<number>} Gas fee reservation amount
 	 */
 	const getGasReservationAmount = useCallback(async (): Promise<number> => {
-		// Set default fee
-		let fee = 0.0025; // Default gas reservation for other networks
-
-		try {
-			switch (Number(chainId)) {
-				case 1: // Ethereum
-					fee = 0.015;
-					break;
-				case 137: // Polygon
-					fee = 0.1;
-					break;
-				case 42161: // Arbitrum
-					fee = 0.0012;
-					break;
-				case 10: // Optimism
-					fee = 0.0012;
-					break;
-				case 324: // zkSync Era
-					fee = 0.0015;
-					break;
-				case 8453: // Base
-					fee = 0.0012;
-					break;
-				case 56: // BNB Chain
-					fee = 0.0015;
-					break;
-				case 43114: // Avalanche
-					fee = 0.003;
-					break;
-				case 59144: // Linea
-					fee = 0.0015;
-					break;
-				default:
-					fee = 0.0025; // Default gas reservation for other networks
-					break;
-			}
-		} catch (error) {
-			console.error("Error getting network ID:", error);
-		}
-
-		return fee;
+		// Per-chain reserves live in the chain registry
+		return getGasReserve(chainId);
 	}, [chainId]);
 
 	/**
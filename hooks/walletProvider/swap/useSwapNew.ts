@@ -13,8 +13,8 @@
  *                 setFromToken, setToToken, handleAmountChanges, resetFormState, etc. }
  *
  * 2. `useSwapQuote`
- *    - RESPONSIBILITY: Manages token conversion calculations and quote fetching
- *    - RETURNS: { conversion, isFetching, getExchangeRate, fetchQuote }
+ *    - RESPONSIBILITY: Manages token conversion calculations, quote fetching and quote expiry
+ *    - RETURNS: { conversion, isFetching, quoteSecondsLeft, isQuoteExpired, getExchangeRate, fetchQuote }
  *
  * 3. `useSwapGasManager`
  *    - RESPONSIBILITY: Manages gas fees, tooltips, and native currency logic
@@ -34,11 +34,24 @@
  *      returns a unified API for the UI component.
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { toast } from "sonner";
 import { useTokens } from "@/hooks/walletProvider/useTokens";
 import { Token } from "@/types/blockchain/swap.types";
 import { useAppStore } from "@/store/store";
 import { useTranslations } from "@/lib/locale-provider";
+import { useLimitGuard } from "@/hooks/responsible-gambling/useLimitGuard";
+import { safeLocalStorage } from "@/lib/utils/safe-storage";
+import {
+	AUTO_SLIPPAGE,
+	SLIPPAGE_STORAGE_KEY,
+} from "@/constants/blockchain/swap.constants";
+import {
+	calculatePriceImpact,
+	getMinimumReceived,
+	getPriceImpactLevel,
+	isValidSlippage,
+} from "@/lib/utils/wallet-provider/swap.utils";
 
 // Import all specialized child hooks
 import { useSwapFormState } from "./useSwapFormState";
@@ -68,6 +81,7 @@ const useSwapI18n = () => {
 		swap: () => t("swap"),
 		insufficientBalance: () => t("insufficientBalance"),
 		sameToken: () => t("sameToken"),
+		quoteExpired: () => t("quoteExpired"),
 	};
 };
 
@@ -80,8 +94,17 @@ const useSwap = (options: UseSwapOptions = {}): UseSwapReturn => {
 	// Get chainId from store to listen for network changes
 	const { chainId } = useAppStore((state) => state.blockchain.network);
 
-	// Additional state for slippage and other settings
-	const [slippage, setSlippage] = useState<string>("Auto");
+	// Additional state for slippage and other settings. The player's last
+	// slippage choice is remembered between visits.
+	const [slippage, setSlippageState] = useState<string>(() => {
+		const stored = safeLocalStorage.getItem(SLIPPAGE_STORAGE_KEY);
+		return stored && isValidSlippage(stored) ? stored : AUTO_SLIPPAGE;
+	});
+	const setSlippage = useCallback((value: string) => {
+		const next = isValidSlippage(value) ? value : AUTO_SLIPPAGE;
+		safeLocalStorage.setItem(SLIPPAGE_STORAGE_KEY, next);
+		setSlippageState(next);
+	}, []);
 	const [isTokenPermit, setIsTokenPermit] = useState<boolean>(true);
 	const [allowanceAddress] = useState<string>(
 		options.allowanceAddress || "0x111111125421ca6dc452d289314280a0f8842a65"
@@ -113,6 +136,8 @@ const useSwap = (options: UseSwapOptions = {}): UseSwapReturn => {
 		isFetching,
 		minRequiredAmount,
 		estimatedGas,
+		quoteSecondsLeft,
+		isQuoteExpired,
 		getExchangeRate,
 		fetchQuote,
 		setMinRequiredAmount,
@@ -126,6 +151,12 @@ const useSwap = (options: UseSwapOptions = {}): UseSwapReturn => {
 		_setReceivedAmount,
 	});
 
+	// The least the swap may return before the router reverts it
+	const minReceived = useMemo(
+		() => getMinimumReceived(receivedAmount, slippage, toToken?.decimals),
+		[receivedAmount, slippage, toToken?.decimals]
+	);
+
 	// C. Gas and Native Currency Management
 	const {
 		gasReservationAmount,
@@ -172,6 +203,7 @@ const useSwap = (options: UseSwapOptions = {}): UseSwapReturn => {
 		exchangeAmount,
 		receivedAmount,
 		slippage,
+		minReceived,
 		onTransactionComplete: resetFormState,
 	});
 
@@ -186,6 +218,22 @@ const useSwap = (options: UseSwapOptions = {}): UseSwapReturn => {
 		fetchTokenPrices,
 	} = useSwapTokenPrices({ fromToken, toToken });
 
+	// H. Responsible-gambling limits
+	const { guardDeposit } = useLimitGuard();
+
+	// I. Price impact, measured against the market prices rather than the quote
+	const priceImpact = useMemo(
+		() =>
+			calculatePriceImpact(
+				exchangeAmount,
+				receivedAmount,
+				fromTokenUsdPrice,
+				toTokenUsdPrice
+			),
+		[exchangeAmount, receivedAmount, fromTokenUsdPrice, toTokenUsdPrice]
+	);
+	const priceImpactLevel = getPriceImpactLevel(priceImpact);
+
 	// --- 2. ORCHESTRATION & HELPER LOGIC ---
 
 	/**
@@ -197,6 +245,26 @@ const useSwap = (options: UseSwapOptions = {}): UseSwapReturn => {
 				return { success: false, error: "Validation failed" };
 			}
 
+			// Never sign against a stale quote; fetch a fresh one for the
+			// player to review instead
+			if (isQuoteExpired) {
+				toast.info(i18n.quoteExpired());
+				fetchQuote(true);
+				return { success: false, error: "Quote expired" };
+			}
+
+			// Swapped funds land in the casino wallet, so they count as a deposit
+			const swapUsdValue =
+				parseFloat(exchangeAmount) *
+				parseFloat(fromTokenUsdPrice || "0");
+			if (
+				!(await guardDeposit(
+					Number.isFinite(swapUsdValue) ? swapUsdValue : 0
+				))
+			) {
+				return { success: false, error: "Limit exceeded" };
+			}
+
 			// Check if approval is needed for non-native tokens
 			if (!isTokenAllowed && !isNativeCurrency()) {
 				const approvalResult = await approveToken();
@@ -209,12 +277,38 @@ const useSwap = (options: UseSwapOptions = {}): UseSwapReturn => {
 			return await executeSwapTransaction();
 		}, [
 			validateSwap,
+			isQuoteExpired,
+			i18n,
+			fetchQuote,
+			exchangeAmount,
+			fromTokenUsdPrice,
+			guardDeposit,
 			isTokenAllowed,
 			isNativeCurrency,
 			approveToken,
 			executeSwapTransaction,
 		]);
 
+	// Refresh an expired quote, unless a swap or approval is in flight
+	useEffect(() => {
+		if (
+			isQuoteExpired &&
+			!isFetching &&
+			!isLoading &&
+			!isApproveLoading &&
+			!isPending
+		) {
+			fetchQuote(true);
+		}
+	}, [
+		isQuoteExpired,
+		isFetching,
+		isLoading,
+		isApproveLoading,
+		isPending,
+		fetchQuote,
+	]);
+
 	/**
 	 * Reset the entire swap state
 	 */
@@ -386,6 +480,11 @@ const useSwap = (options: UseSwapOptions = {}): UseSwapReturn => {
 		estimatedGas,
 		slippage,
 		setSlippage,
+		minReceived,
+		priceImpact,
+		priceImpactLevel,
+		quoteSecondsLeft,
+		isQuoteExpired,
 		isLoading,
 		isFetching,
 		isApproveLoading,
@@ -1,6 +1,7 @@
 /**
  * useSwapQuote.ts
- * Manages token conversion calculations and quote fetching
+ * Manages token conversion calculations and quote fetching, and counts down
+ * until the current quote is too old to swap against
  */
 
 import { useState, useEffect, useCallback } from "react";
@@ -12,6 +13,7 @@ import {
 } from "@/types/walletProvider/swap-hooks.types";
 import LocalStorageService from "@/services/localStorageService";
 import { useAppStore } from "@/store/store";
+import { QUOTE_TTL_SECONDS } from "@/constants/blockchain/swap.constants";
 import { useDebounce } from "../useDebounce";
 
 export const useSwapQuote = ({
@@ -33,6 +35,10 @@ export const useSwapQuote = ({
 	const [isFetching, setIsFetching] = useState<boolean>(false);
 	const [minRequiredAmount, setMinRequiredAmount] = useState<string>("0.01");
 	const [estimatedGas, setEstimatedGas] = useState<string>("0");
+	// When the current quote was received, and a clock ticking once a second
+	// while it is shown
+	const [quotedAt, setQuotedAt] = useState<number | null>(null);
+	const [now, setNow] = useState<number>(() => Date.now());
 
 	// --- DEPENDENCIES ---
 	const { chainId } = useAppStore((state) => state.blockchain.network);
@@ -60,8 +66,9 @@ export const useSwapQuote = ({
 
 	/**
 	 * Fetch quote from the conversion service (using debounced amounts)
+	 * @param {boolean} forceRefresh - Bypass the cached rate, e.g. for an expired quote
 	 */
-	const fetchQuote = useCallback(async (): Promise<void> => {
+	const fetchQuote = useCallback(async (forceRefresh?: boolean) => {
 		if (!fromToken || !toToken || !username) {
 			return;
 		}
@@ -94,10 +101,13 @@ export const useSwapQuote = ({
 				toToken: isReversedQuote ? fromToken.address : toToken.address,
 				amount: parseFloat(sourceAmount),
 				username,
+				skipCache: forceRefresh,
 			});
 
 			if (response.success && response.conversion) {
 				setConversion(response.conversion);
+				setQuotedAt(Date.now());
+				setNow(Date.now());
 
 				// Set estimated gas if available
 				setEstimatedGas(
@@ -120,10 +130,15 @@ export const useSwapQuote = ({
 					).toFixed(decimalValue);
 					_setReceivedAmount(formattedAmount);
 				}
+			} else {
+				// Without a quote there is nothing to count down or refresh
+				setConversion(null);
+				setQuotedAt(null);
 			}
 		} catch (error) {
 			console.error("Error fetching swap quote:", error);
 			setConversion(null);
+			setQuotedAt(null);
 		} finally {
 			setIsFetching(false);
 		}
@@ -146,12 +161,28 @@ export const useSwapQuote = ({
 		fetchQuote();
 	}, [fetchQuote]);
 
+	/**
+	 * Effect to tick the quote countdown while a quote is shown
+	 */
+	useEffect(() => {
+		if (!quotedAt) return;
+		const timer = setInterval(() => setNow(Date.now()), 1000);
+		return () => clearInterval(timer);
+	}, [quotedAt]);
+
+	const quoteSecondsLeft = quotedAt
+		? Math.max(0, QUOTE_TTL_SECONDS - Math.floor((now - quotedAt) / 1000))
+		: 0;
+	const isQuoteExpired = !!conversion && !!quotedAt && quoteSecondsLeft === 0;
+
 	return {
 		// State
 		conversion,
 		isFetching,
 		minRequiredAmount,
 		estimatedGas, // Export the estimated gas value
+		quoteSecondsLeft,
+		isQuoteExpired,
 
 		// Actions
 		getExchangeRate,
@@ -22,6 +22,7 @@ import {
 } from "@/types/walletProvider/swap-hooks.types";
 import { PrimaryWalletWithClient } from "@/types/walletProvider/transaction-service.types";
 import { Token } from "@/types/blockchain/swap.types";
+import { resolveSlippage } from "@/lib/utils/wallet-provider/swap.utils";
 import { toast } from "sonner";
 import confetti from "canvas-confetti";
 
@@ -31,6 +32,7 @@ export const useSwapTransaction = ({
 	exchangeAmount,
 	receivedAmount,
 	slippage,
+	minReceived,
 	onTransactionComplete,
 }: UseSwapTransactionParams): UseSwapTransactionReturn => {
 	// --- STATE ---
@@ -262,7 +264,8 @@ export const useSwapTransaction = ({
 					toToken: toToken!.address,
 					amount: exchangeAmount,
 					walletAddress: userWalletAddress,
-					slippage: slippage === "Auto" ? "1" : slippage,
+					slippage: String(resolveSlippage(slippage)),
+					minReceived,
 					username: user?.username as string,
 					primaryWallet:
 						primaryWallet as unknown as PrimaryWalletWithClient,
@@ -345,6 +348,7 @@ export const useSwapTransaction = ({
 			exchangeAmount,
 			receivedAmount,
 			slippage,
+			minReceived,
 			primaryWallet,
 			network,
 			addTransaction,
@@ -0,0 +1,308 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useTranslations } from "@/lib/locale-provider";
+import { useTipTransaction } from "./useTipTransaction";
+import { useAppStore } from "@/store/store";
+import { useDynamicAuth } from "@/hooks/useDynamicAuth";
+import { useLimitGuard } from "@/hooks/responsible-gambling/useLimitGuard";
+import TransactionService from "@/services/walletProvider/TransactionService";
+import WebSocketService from "@/services/webSocketService";
+import LocalStorageService from "@/services/localStorageService";
+import { Token } from "@/types/blockchain/swap.types";
+import {
+	ChatTipAck,
+	ChatTipIntent,
+	PendingChatTip,
+} from "@/types/features/chat-tip.types";
+
+// How often unacknowledged tips are resent while the chat is connected
+const PENDING_TIP_RESEND_INTERVAL_MS = 15000;
+
+export interface ChatTipConfirmation {
+	intent: ChatTipIntent;
+	ack: ChatTipAck;
+	token: Token;
+	txHash: string;
+}
+
+interface UseChatTipOptions {
+	username: string;
+	// wsKey of the room the command was sent in
+	room: string;
+	onConfirmed: (confirmation: ChatTipConfirmation) => void;
+	onFailed: (message: string) => void;
+}
+
+/**
+ * Runs a chat /tip or /rain: the sender confirms the intent, the amount is
+ * transferred to the tip wallet, and the chat server is asked to credit the
+ * recipients. `onConfirmed` only fires once the server has acknowledged it.
+ * A transfer whose ack is lost is stored and resent until the server answers.
+ */
+export const useChatTip = ({
+	username,
+	room,
+	onConfirmed,
+	onFailed,
+}: UseChatTipOptions) => {
+	const t = useTranslations("chat.tips");
+	const { guardTip } = useLimitGuard();
+	const { user, authToken, isSelfExcluded } = useDynamicAuth();
+	const chainId = useAppStore((state) => state.blockchain.network.chainId);
+	const tokens = useAppStore((state) => state.blockchain.token.tokens);
+	const fetchTokens = useAppStore(
+		(state) => state.blockchain.token.fetchTokens
+	);
+
+	const [pendingIntent, setPendingIntent] = useState<ChatTipIntent | null>(
+		null
+	);
+	const [selectedToken, setSelectedToken] = useState<Token | null>(null);
+	const [tipWalletAddress, setTipWalletAddress] = useState<string | null>(
+		null
+	);
+	const [minTipAmount, setMinTipAmount] = useState(0);
+	const [isAwaitingAck, setIsAwaitingAck] = useState(false);
+
+	// The resend loop outlives renders, so it reads the latest callbacks
+	const onConfirmedRef = useRef(onConfirmed);
+	const onFailedRef = useRef(onFailed);
+	useEffect(() => {
+		onConfirmedRef.current = onConfirmed;
+		onFailedRef.current = onFailed;
+	}, [onConfirmed, onFailed]);
+
+	const fetchTipWallet = useCallback(async () => {
+		if (!chainId) return null;
+		const result =
+			await TransactionService.getInstance().getTipWallet(chainId);
+		if (!result.success || !result.tipWallet) return null;
+		setTipWalletAddress(result.tipWallet);
+		const parsedMin = parseFloat(result.tipMinimum ?? "0");
+		setMinTipAmount(Number.isFinite(parsedMin) ? parsedMin : 0);
+		return result.tipWallet;
+	}, [chainId]);
+
+	// The tip wallet is per network
+	useEffect(() => {
+		setTipWalletAddress(null);
+		setSelectedToken(null);
+	}, [chainId]);
+
+	const tipAmount = pendingIntent ? String(pendingIntent.amount) : "";
+
+	const { isLoading, executeTransaction } = useTipTransaction({
+		selectedToken,
+		tipAmount,
+		tipWalletAddress,
+		fetchTipWallet,
+		notify: false,
+	});
+
+	// Opens the confirmation step for a parsed command
+	const requestTip = useCallback(
+		(intent: ChatTipIntent) => {
+			if (isSelfExcluded) {
+				onFailed(t("errors.selfExcluded"));
+				return;
+			}
+			setPendingIntent(intent);
+			fetchTokens(false, { user, authToken });
+			if (!tipWalletAddress) fetchTipWallet();
+		},
+		[
+			isSelfExcluded,
+			onFailed,
+			t,
+			fetchTokens,
+			user,
+			authToken,
+			tipWalletAddress,
+			fetchTipWallet,
+		]
+	);
+
+	// Default to the first token that covers the amount
+	useEffect(() => {
+		if (!pendingIntent || selectedToken || tokens.length === 0) return;
+		setSelectedToken(
+			tokens.find(
+				(token) => parseFloat(token.balance) >= pendingIntent.amount
+			) ?? tokens[0]
+		);
+	}, [pendingIntent, selectedToken, tokens]);
+
+	const validationError = useMemo(() => {
+		if (!pendingIntent || !selectedToken) return null;
+		if (pendingIntent.amount > parseFloat(selectedToken.balance)) {
+			return t("errors.insufficientBalance", {
+				symbol: selectedToken.symbol,
+			});
+		}
+		if (minTipAmount > 0 && pendingIntent.amount < minTipAmount) {
+			return t("errors.belowMinimum", {
+				min: `${minTipAmount} ${selectedToken.symbol}`,
+			});
+		}
+		return null;
+	}, [pendingIntent, selectedToken, minTipAmount, t]);
+
+	const cancel = useCallback(() => {
+		if (isLoading || isAwaitingAck) return;
+		setPendingIntent(null);
+	}, [isLoading, isAwaitingAck]);
+
+	const confirm = useCallback(async () => {
+		if (!pendingIntent || !selectedToken || validationError) return;
+		const intent = pendingIntent;
+		const token = selectedToken;
+
+		const price = parseFloat(token.usd_price ?? "0");
+		const usdEstimate = Number.isFinite(price) ? price * intent.amount : 0;
+		if (!(await guardTip(usdEstimate))) return;
+
+		// Never move funds while the server can't be told about them
+		if (!WebSocketService.canSendChatMessage()) {
+			onFailed(t("errors.chatOffline"));
+			return;
+		}
+
+		if (!tipWalletAddress && !(await fetchTipWallet())) {
+			setPendingIntent(null);
+			onFailed(t("errors.missingWallet"));
+			return;
+		}
+
+		const transfer = await executeTransaction();
+		if (!transfer.success || !transfer.txHash) {
+			setPendingIntent(null);
+			onFailed(
+				t("errors.transferFailed", {
+					reason: transfer.error ?? t("errors.unknown"),
+				})
+			);
+			return;
+		}
+
+		const payload = {
+			kind: intent.kind,
+			room,
+			sender: username,
+			recipients: intent.recipients,
+			amount: tipAmount,
+			tokenSymbol: token.symbol,
+			tokenAddress: token.address,
+			network: chainId ?? "",
+			txHash: transfer.txHash,
+		};
+		setIsAwaitingAck(true);
+		const ack = await WebSocketService.sendChatTip(payload);
+		setIsAwaitingAck(false);
+		setPendingIntent(null);
+
+		if (!ack.success && ack.retryable) {
+			LocalStorageService.getInstance().savePendingChatTip(username, {
+				payload,
+				intent,
+				token,
+			});
+			onFailed(
+				t("errors.creditPending", {
+					reason: ack.error ?? t("errors.unknown"),
+					txHash: transfer.txHash,
+				})
+			);
+			return;
+		}
+
+		if (!ack.success) {
+			// The funds have left the wallet, so keep the hash for support
+			onFailed(
+				t("errors.notCredited", {
+					reason: ack.error ?? t("errors.unknown"),
+					txHash: transfer.txHash,
+				})
+			);
+			return;
+		}
+
+		onConfirmed({ intent, ack, token, txHash: transfer.txHash });
+	}, [
+		pendingIntent,
+		selectedToken,
+		validationError,
+		guardTip,
+		tipWalletAddress,
+		fetchTipWallet,
+		onFailed,
+		t,
+		executeTransaction,
+		room,
+		username,
+		tipAmount,
+		chainId,
+		onConfirmed,
+	]);
+
+	// Resends settled tips whose ack was lost, on mount and then periodically
+	useEffect(() => {
+		if (!username) return;
+		const storage = LocalStorageService.getInstance();
+		let isResending = false;
+
+		const resendPending = async () => {
+			if (isResending || !WebSocketService.canSendChatMessage()) return;
+			const pending: PendingChatTip[] = Object.values(
+				storage.getPendingChatTips(username)
+			);
+			if (pending.length === 0) return;
+
+			isResending = true;
+			try {
+				for (const { payload, intent, token } of pending) {
+					const ack = await WebSocketService.sendChatTip(payload);
+					if (!ack.success && ack.retryable) break;
+					storage.removePendingChatTip(username, payload.txHash);
+					if (ack.success) {
+						onConfirmedRef.current({
+							intent,
+							ack,
+							token,
+							txHash: payload.txHash,
+						});
+					} else {
+						onFailedRef.current(
+							t("errors.notCredited", {
+								reason: ack.error ?? t("errors.unknown"),
+								txHash: payload.txHash,
+							})
+						);
+					}
+				}
+			} finally {
+				isResending = false;
+			}
+		};
+
+		resendPending();
+		const interval = setInterval(
+			resendPending,
+			PENDING_TIP_RESEND_INTERVAL_MS
+		);
+		return () => clearInterval(interval);
+	}, [username, t]);
+
+	return {
+		pendingIntent,
+		tokens,
+		selectedToken,
+		selectToken: setSelectedToken,
+		validationError,
+		isSending: isLoading,
+		isAwaitingAck,
+		requestTip,
+		cancel,
+		confirm,
+	};
+};
@@ -9,6 +9,7 @@ import { useGasManager } from "@/hooks/walletProvider/deposit/useGasManger";
 import { useAppStore } from "@/store/store";
 import TransactionService from "@/services/walletProvider/TransactionService";
 import { sanitizeAmountInput } from "@/lib/utils";
+import { useLimitGuard } from "@/hooks/responsible-gambling/useLimitGuard";
 
 const useTipI18n = () => {
 	const t = useTranslations("walletProvider.tipPanel");
@@ -46,6 +47,7 @@ const useTipI18n = () => {
 export const useTip = () => {
 	const i18n = useTipI18n();
 	const chainId = useAppStore((state) => state.blockchain.network.chainId);
+	const { guardTip } = useLimitGuard();
 
 	const {
 		selectedToken,
@@ -180,6 +182,13 @@ export const useTip = () => {
 		setIsBalanceInsufficient,
 	]);
 
+	const usdEstimate = useMemo(() => {
+		if (!selectedToken || !tipAmount) return 0;
+		const price = parseFloat(selectedToken.usd_price ?? "0");
+		if (!Number.isFinite(price) || price <= 0) return 0;
+		return price * parseFloat(tipAmount);
+	}, [selectedToken, tipAmount]);
+
 	const executeTip = useCallback(async () => {
 		if (!tipWalletAddress) {
 			const address = await fetchTipWallet();
@@ -194,12 +203,16 @@ export const useTip = () => {
 			return;
 		}
 
+		if (!(await guardTip(usdEstimate))) return;
+
 		await executeTransaction();
 	}, [
 		tipWalletAddress,
 		fetchTipWallet,
 		i18n.errors,
 		validateTip,
+		guardTip,
+		usdEstimate,
 		executeTransaction,
 	]);
 
@@ -208,13 +221,6 @@ export const useTip = () => {
 		resetTransactionState();
 	}, [resetFormState, resetTransactionState]);
 
-	const usdEstimate = useMemo(() => {
-		if (!selectedToken || !tipAmount) return 0;
-		const price = parseFloat(selectedToken.usd_price ?? "0");
-		if (!Number.isFinite(price) || price <= 0) return 0;
-		return price * parseFloat(tipAmount);
-	}, [selectedToken, tipAmount]);
-
 	const getButtonText = useCallback(() => {
 		if (isLoading) return i18n.status.processing();
 		if (isApproving) return i18n.status.awaitingApproval();
@@ -12,7 +12,10 @@ import { toast } from "sonner";
 import { useDynamicAuth } from "@/hooks/useDynamicAuth";
 import { useDynamicContext } from "@dynamic-labs/sdk-react-core";
 import confetti from "canvas-confetti";
-import { PrimaryWalletWithClient } from "@/types/walletProvider/transaction-service.types";
+import {
+	PrimaryWalletWithClient,
+	TipTransactionResult,
+} from "@/types/walletProvider/transaction-service.types";
 
 interface UseTipTransactionProps {
 	selectedToken: Token | null;
@@ -20,8 +23,17 @@ interface UseTipTransactionProps {
 	tipWalletAddress: string | null;
 	fetchTipWallet?: () => Promise<string | null>;
 	onTransactionComplete?: () => void;
+	// When false the caller reports the outcome itself instead of toasting
+	notify?: boolean;
 }
 
+// Returned when the form is incomplete and nothing was attempted
+const NOT_STARTED: TipTransactionResult = {
+	success: false,
+	txHash: null,
+	error: null,
+};
+
 const spenderAddress =
 	process.env.NEXT_PUBLIC_ALLOWANCE_ADDRESS ||
 	"0x111111125421ca6dc452d289314280a0f8842a65";
@@ -32,6 +44,7 @@ export const useTipTransaction = ({
 	tipWalletAddress,
 	fetchTipWallet,
 	onTransactionComplete,
+	notify = true,
 }: UseTipTransactionProps) => {
 	const [isLoading, setIsLoading] = useState(false);
 	const [isApproving, setIsApproving] = useState(false);
@@ -85,7 +98,7 @@ export const useTipTransaction = ({
 
 	const executeTransaction = useCallback(async () => {
 		if (!selectedToken || !tipAmount || !user || !chainId || !network) {
-			return;
+			return NOT_STARTED;
 		}
 
 		setIsLoading(true);
@@ -135,6 +148,7 @@ export const useTipTransaction = ({
 				amount: tipAmount,
 				tokenSymbol: selectedToken.symbol,
 				network: chainId,
+				username: user?.username,
 			});
 
 			// Immediately mark the tip as confirmed without polling any API
@@ -153,11 +167,14 @@ export const useTipTransaction = ({
 
 			refreshUserData();
 			await fetchTokens(true, { user, authToken });
-			toast.success("Tip sent successfully!");
-			confetti();
+			if (notify) {
+				toast.success("Tip sent successfully!");
+				confetti();
+			}
 			if (onTransactionComplete) {
 				onTransactionComplete();
 			}
+			return { success: true, txHash: txResult.txHash, error: null };
 		} catch (error) {
 			console.error("Tip transaction failed:", error);
 
@@ -177,7 +194,8 @@ export const useTipTransaction = ({
 				}
 			}
 
-			toast.error(message);
+			if (notify) toast.error(message);
+			return { success: false, txHash: null, error: message };
 		} finally {
 			setIsLoading(false);
 		}
@@ -196,6 +214,7 @@ export const useTipTransaction = ({
 		refreshUserData,
 		authToken,
 		user,
+		notify,
 	]);
 
 	const resetTransactionState = useCallback(() => {
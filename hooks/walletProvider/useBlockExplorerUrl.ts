@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { useDynamicContext } from "@dynamic-labs/sdk-react-core";
 import { useAppStore } from "@/store/store";
+import { getChain } from "@/lib/utils/wallet-provider/chain.utils";
 
 /**
  * @hook useBlockExplorerUrl
@@ -10,7 +11,10 @@ import { useAppStore } from "@/store/store";
  * for the currently connected network. Fetches the explorer URL from the
  * Dynamic SDK's `primaryWallet.connector.getBlockExplorerUrlsForCurrentNetwork()`
  * and automatically re-fetches whenever the connected chain changes.
+ * Falls back to the chain registry when the wallet has no explorer, and
+ * uses the registry directly for a chain other than the connected one.
  *
+ * @param {number | string | null} [targetChainId] - Chain to build links for; defaults to the connected chain
  * @returns {Object} Block explorer utilities
  * @returns {string | null} blockExplorerUrl - The base explorer URL for the current network
  * @returns {boolean} isLoading - Whether the explorer URL is currently being fetched
@@ -24,12 +28,20 @@ import { useAppStore } from "@/store/store";
  * // => "https://polygonscan.com/tx/0xabc..."
  * ```
  */
-export const useBlockExplorerUrl = () => {
+export const useBlockExplorerUrl = (targetChainId?: number | string | null) => {
 	const { primaryWallet } = useDynamicContext();
 	const { chainId } = useAppStore((state) => state.blockchain.network);
-	const [blockExplorerUrl, setBlockExplorerUrl] = useState<string | null>(
+	const [walletExplorerUrl, setWalletExplorerUrl] = useState<string | null>(
 		null
 	);
+
+	const isOtherChain =
+		targetChainId != null && Number(targetChainId) !== Number(chainId);
+	const registryExplorerUrl =
+		getChain(isOtherChain ? targetChainId : chainId)?.explorerUrl || null;
+	const blockExplorerUrl = isOtherChain
+		? registryExplorerUrl
+		: walletExplorerUrl || registryExplorerUrl;
 	const [isLoading, setIsLoading] = useState(true);
 
 	/**
@@ -43,7 +55,7 @@ export const useBlockExplorerUrl = () => {
 
 		const fetchExplorerUrl = async () => {
 			if (!primaryWallet?.connector) {
-				setBlockExplorerUrl(null);
+				setWalletExplorerUrl(null);
 				setIsLoading(false);
 				return;
 			}
@@ -54,7 +66,7 @@ export const useBlockExplorerUrl = () => {
 					await primaryWallet.connector.getBlockExplorerUrlsForCurrentNetwork();
 				if (!cancelled && urls && urls.length > 0) {
 					// Remove trailing slash for consistency
-					setBlockExplorerUrl(urls[0].replace(/\/+$/, ""));
+					setWalletExplorerUrl(urls[0].replace(/\/+$/, ""));
 				}
 			} catch (error) {
 				console.warn(
@@ -62,7 +74,7 @@ export const useBlockExplorerUrl = () => {
 					error
 				);
 				if (!cancelled) {
-					setBlockExplorerUrl(null);
+					setWalletExplorerUrl(null);
 				}
 			} finally {
 				if (!cancelled) {
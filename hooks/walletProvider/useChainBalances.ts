@@ -0,0 +1,126 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useAppStore } from "@/store/store";
+import { useDynamicAuth } from "@/hooks/useDynamicAuth";
+import ApiService from "@/services/apiService";
+import { CHAINS } from "@/constants/blockchain/chains.constants";
+import { ChainHoldings } from "@/types/blockchain/chain.types";
+import { Token } from "@/types/blockchain/swap.types";
+
+const sumUsdValue = (tokens: Token[]) =>
+	tokens.reduce((total, token) => {
+		const value =
+			parseFloat(token.balance || "0") *
+			parseFloat(token.usd_price || "0");
+		return isNaN(value) ? total : total + value;
+	}, 0);
+
+/**
+ * Loads the player's wallet holdings on every registered chain so they can be
+ * compared with the platform balance. Each chain's row updates as soon as its
+ * token list arrives; a failing chain does not hold up the others.
+ */
+export const useChainBalances = () => {
+	const { user, authToken } = useDynamicAuth();
+	const chainId = useAppStore((state) => state.blockchain.network.chainId);
+	const [holdings, setHoldings] = useState<ChainHoldings[]>([]);
+	// Results from an older refresh are dropped once a newer one starts
+	const requestIdRef = useRef(0);
+
+	const username = user?.username;
+	const walletAddress = user?.walletAddress;
+
+	const refresh = useCallback(async () => {
+		if (!username || !walletAddress || !authToken) {
+			setHoldings([]);
+			return;
+		}
+
+		const requestId = ++requestIdRef.current;
+		const api = ApiService.getInstance();
+
+		setHoldings(
+			CHAINS.map((chain) => ({
+				chainId: chain.chainId,
+				tokens: 0,
+				usdValue: 0,
+				status: "loading",
+			}))
+		);
+
+		const updateChain = (next: ChainHoldings) => {
+			if (requestId !== requestIdRef.current) return;
+			setHoldings((current) =>
+				current.map((row) =>
+					row.chainId === next.chainId ? next : row
+				)
+			);
+		};
+
+		await Promise.all(
+			CHAINS.map(async (chain) => {
+				try {
+					const response = await api.getTokenList(
+						{
+							network: String(chain.chainId),
+							walletAddress,
+							username,
+						},
+						authToken
+					);
+					if (response.error) throw new Error(response.message);
+
+					const held = (response.data || []).filter(
+						(token) => parseFloat(token.balance || "0") > 0
+					);
+					updateChain({
+						chainId: chain.chainId,
+						tokens: held.length,
+						usdValue: sumUsdValue(held),
+						status: "success",
+					});
+				} catch (error) {
+					console.error(
+						`Failed to load balances for chain ${chain.chainId}:`,
+						error
+					);
+					updateChain({
+						chainId: chain.chainId,
+						tokens: 0,
+						usdValue: 0,
+						status: "error",
+					});
+				}
+			})
+		);
+	}, [username, walletAddress, authToken]);
+
+	useEffect(() => {
+		refresh();
+	}, [refresh]);
+
+	// The connected chain first, then the largest holdings
+	const sortedHoldings = useMemo(
+		() =>
+			[...holdings].sort((a, b) => {
+				if (a.chainId === chainId) return -1;
+				if (b.chainId === chainId) return 1;
+				return b.usdValue - a.usdValue;
+			}),
+		[holdings, chainId]
+	);
+
+	const totalWalletUsd = useMemo(
+		() => holdings.reduce((total, row) => total + row.usdValue, 0),
+		[holdings]
+	);
+
+	return {
+		holdings: sortedHoldings,
+		totalWalletUsd,
+		platformBalance: user?.balance ?? 0,
+		isLoading: holdings.some((row) => row.status === "loading"),
+		refresh,
+	};
+};
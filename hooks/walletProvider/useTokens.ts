@@ -2,6 +2,7 @@
 
 import { useAppStore } from "@/store/store";
 import {
+	selectActiveChain,
 	selectNativeToken,
 	selectUsdtToken,
 	selectUsdxToken,
@@ -36,6 +37,8 @@ export const useTokens = () => {
 	const nativeToken = useAppStore(selectNativeToken);
 	const usdt = useAppStore(selectUsdtToken);
 	const usdx = useAppStore(selectUsdxToken);
+	// Registry entry for the wallet's network (null on unsupported chains)
+	const chain = useAppStore(selectActiveChain);
 
 	// --- 3. Compute Derived UI State ---
 	// Create the `isTokensLoading` boolean for easy use in UI components.
@@ -57,6 +60,7 @@ export const useTokens = () => {
 		nativeToken,
 		usdt,
 		usdx,
+		chain,
 		isTokensLoading,
 		fetchTokens,
 		refreshTokens,
@@ -46,7 +46,7 @@
  * =============================================================================
  */
 
-import { useCallback, useState, useEffect } from "react";
+import { useCallback, useMemo, useState, useEffect } from "react";
 import { toast } from "sonner";
 import { useDynamicAuth } from "@/hooks/useDynamicAuth";
 // Localization: import the translation hook
@@ -64,11 +64,14 @@ const useWithdrawI18n = () => {
 			invalidAddress: () => t("errors.invalidAddress"),
 			enterAmount: () => t("errors.enterAmount"),
 			networkNotSupported: () => t("errors.networkNotSupported"),
+			addressCooldown: () => t("errors.addressCooldown"),
+			addressNotWhitelisted: () => t("errors.addressNotWhitelisted"),
 		},
 		status: {
 			processing: () => t("status.processing"),
 			insufficientBalance: () => t("status.insufficientBalance"),
 			pendingWithdrawal: () => t("status.pendingWithdrawal"),
+			feeUnavailable: () => t("status.feeUnavailable"),
 		},
 		buttons: {
 			withdraw: (amount: string, symbol: string) =>
@@ -107,8 +110,14 @@ export const useWithdraw = () => {
 		isBalanceInsufficient,
 		isBelowMinimum,
 		maxWithdrawAmount,
+		addressBook,
+		savedAddresses,
+		selectedSavedAddress,
+		isCustomDestination,
+		addressRestriction,
 		handleAmountChange,
 		handleAddressChange,
+		selectDestination,
 		setMaxAmount,
 		updateSelectedToken,
 		resetFormState,
@@ -116,18 +125,37 @@ export const useWithdraw = () => {
 	} = useWithdrawFormState();
 
 	// C. Call the "Calculator" hooks
-	const { fee, totalPayout, minWithdrawAmount, isFetchingMinWithdrawAmount } =
-		useWithdrawCalculations({
-			withdrawAmount,
-		});
+	const {
+		fee,
+		totalPayout,
+		feeBreakdown,
+		isFetchingFees,
+		isFeeUnavailable,
+		refetchFees,
+		minWithdrawAmount,
+		isFetchingMinWithdrawAmount,
+	} = useWithdrawCalculations({
+		withdrawAmount,
+		selectedToken,
+	});
 
 	// D. Call the "Executor" hook
+	const cooldownMessage = i18n.errors.addressCooldown();
+	const notWhitelistedMessage = i18n.errors.addressNotWhitelisted();
+	const addressRestrictionMessages = useMemo(
+		() => ({
+			cooldown: cooldownMessage,
+			notWhitelisted: notWhitelistedMessage,
+		}),
+		[cooldownMessage, notWhitelistedMessage]
+	);
 	const {
 		isLoading: isTransactionLoading,
 		isPending,
 		transactionHash,
 		timeLeft,
 		isWithdrawalSuccessful,
+		withdrawalFee,
 		showReservedModal,
 		setShowReservedModal,
 		executeWithdrawTransaction,
@@ -137,7 +165,11 @@ export const useWithdraw = () => {
 	} = useWithdrawTransaction({
 		selectedToken,
 		withdrawAmount,
+		withdrawAddress,
+		feeBreakdown,
+		addressRestrictionMessages,
 		onTransactionComplete: resetFormState, // Reset form when transaction completes
+		onFeesChanged: refetchFees, // Reload the schedule so the preview catches up
 	});
 
 	// E. Manage Final UI State that is local to this hook
@@ -188,7 +220,12 @@ export const useWithdraw = () => {
 				selectedToken?.token_symbol || ""
 			);
 		if (isBalanceInsufficient) return i18n.status.insufficientBalance();
+		if (isFeeUnavailable) return i18n.status.feeUnavailable();
 		if (!isAddressValid) return i18n.errors.invalidAddress();
+		if (addressRestriction === "cooldown")
+			return i18n.errors.addressCooldown();
+		if (addressRestriction === "notWhitelisted")
+			return i18n.errors.addressNotWhitelisted();
 		if (!isNetworkSupported) return i18n.errors.networkNotSupported();
 		return i18n.buttons.withdraw(
 			withdrawAmount,
@@ -200,7 +237,9 @@ export const useWithdraw = () => {
 		withdrawAmount,
 		isBelowMinimum,
 		isBalanceInsufficient,
+		isFeeUnavailable,
 		isAddressValid,
+		addressRestriction,
 		isNetworkSupported,
 		selectedToken,
 		minWithdrawAmount,
@@ -219,7 +258,9 @@ export const useWithdraw = () => {
 			parseFloat(withdrawAmount) <= 0 ||
 			isBalanceInsufficient ||
 			isBelowMinimum ||
-			!isAddressValid
+			!feeBreakdown ||
+			!isAddressValid ||
+			addressRestriction !== null
 		);
 	}, [
 		isNetworkSupported,
@@ -230,7 +271,9 @@ export const useWithdraw = () => {
 		withdrawAmount,
 		isBalanceInsufficient,
 		isBelowMinimum,
+		feeBreakdown,
 		isAddressValid,
+		addressRestriction,
 	]);
 
 	// --- 3. RETURN THE COMPLETE, UNIFIED API ---
@@ -243,6 +286,9 @@ export const useWithdraw = () => {
 		withdrawTokenSymbol: selectedToken?.token_symbol,
 		fee,
 		totalPayout,
+		feeBreakdown,
+		withdrawalFee,
+		isFeeUnavailable,
 		maxWithdrawAmount,
 		pendingStatus: isPending,
 		timeLeft,
@@ -250,9 +296,15 @@ export const useWithdraw = () => {
 		isLoading:
 			isTransactionLoading ||
 			isLoadingTokens ||
-			isFetchingMinWithdrawAmount,
+			isFetchingMinWithdrawAmount ||
+			isFetchingFees,
 		isAmountValid: !isBelowMinimum && !isBalanceInsufficient,
 		isAddressValid,
+		addressBook,
+		savedAddresses,
+		selectedSavedAddress,
+		isCustomDestination,
+		addressRestriction,
 		isWithdrawalSuccessful,
 		minWithdrawAmount,
 		withdrawTxHash: transactionHash,
@@ -268,10 +320,12 @@ export const useWithdraw = () => {
 		tokenWD: selectedToken,
 
 		isFetchingMinWithdrawAmount,
+		isFetchingFees,
 
 		// Actions
 		handleAmountChange,
 		handleAddressChange,
+		selectDestination,
 		setMaxAmount,
 		// selectWithdrawToken: updateSelectedToken, // Alias for clarity
 		updateSelectedToken,
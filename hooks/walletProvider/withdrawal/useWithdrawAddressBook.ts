@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useDynamicAuth } from "@/hooks/useDynamicAuth";
+import TransactionService from "@/services/walletProvider/TransactionService";
+import {
+	AddWithdrawAddressError,
+	NewWithdrawAddress,
+	WithdrawAddressEntry,
+} from "@/types/walletProvider/transaction-service.types";
+import {
+	isEnsName,
+	isSameAddress,
+	isValidWithdrawAddress,
+	resolveEnsName,
+} from "@/lib/utils/wallet-provider/withdraw.utils";
+import { getAddress } from "ethers";
+
+/**
+ * Loads and edits the user's saved withdrawal addresses. The backend owns the
+ * list, the whitelist switch and each entry's creation time, so cooldowns
+ * cannot be reset from the client. Switching the whitelist off only takes
+ * effect after a delay, so it can't be lifted and abused in one session.
+ */
+export const useWithdrawAddressBook = () => {
+	const { user, authToken } = useDynamicAuth();
+	const username = user?.username;
+
+	const [addresses, setAddresses] = useState<WithdrawAddressEntry[]>([]);
+	const [whitelistOnly, setWhitelistOnlyState] = useState(false);
+	const [whitelistDisableAt, setWhitelistDisableAt] = useState<string | null>(
+		null
+	);
+	const [isLoading, setIsLoading] = useState(false);
+	const [isSaving, setIsSaving] = useState(false);
+
+	const fetchAddressBook = useCallback(async () => {
+		if (!username || !authToken) {
+			setAddresses([]);
+			setWhitelistOnlyState(false);
+			setWhitelistDisableAt(null);
+			return;
+		}
+
+		setIsLoading(true);
+		try {
+			const response =
+				await TransactionService.getInstance().getWithdrawAddressBook(
+					{ username },
+					authToken
+				);
+			if (response.error) throw new Error(response.message);
+			setAddresses(response.data.addresses || []);
+			setWhitelistOnlyState(response.data.whitelist_only === true);
+			setWhitelistDisableAt(response.data.whitelist_disable_at ?? null);
+		} catch (error) {
+			console.error("Failed to load withdrawal address book:", error);
+		} finally {
+			setIsLoading(false);
+		}
+	}, [username, authToken]);
+
+	useEffect(() => {
+		fetchAddressBook();
+	}, [fetchAddressBook]);
+
+	/**
+	 * Validates, resolves and saves a new address. Returns the reason on failure.
+	 */
+	const addAddress = useCallback(
+		async ({
+			label,
+			network,
+			address,
+		}: NewWithdrawAddress): Promise<AddWithdrawAddressError | null> => {
+			if (!username || !authToken) return "failed";
+
+			setIsSaving(true);
+			try {
+				let resolved: string;
+				let ensName: string | undefined;
+				if (isEnsName(address)) {
+					const ensAddress = await resolveEnsName(address);
+					if (!ensAddress) return "ensNotFound";
+					resolved = ensAddress;
+					ensName = address.trim().toLowerCase();
+				} else if (isValidWithdrawAddress(address)) {
+					resolved = getAddress(address.trim());
+				} else {
+					return "invalidAddress";
+				}
+
+				if (
+					addresses.some(
+						(entry) =>
+							entry.network === network &&
+							isSameAddress(entry.address, resolved)
+					)
+				)
+					return "duplicate";
+
+				const response =
+					await TransactionService.getInstance().addWithdrawAddress(
+						{
+							username,
+							label: label.trim(),
+							network,
+							address: resolved,
+							...(ensName && { ens_name: ensName }),
+						},
+						authToken
+					);
+				if (response.error) throw new Error(response.message);
+				setAddresses((current) => [...current, response.data]);
+				return null;
+			} catch (error) {
+				console.error("Failed to save withdrawal address:", error);
+				return "failed";
+			} finally {
+				setIsSaving(false);
+			}
+		},
+		[username, authToken, addresses]
+	);
+
+	const removeAddress = useCallback(
+		async (id: string): Promise<boolean> => {
+			if (!username || !authToken) return false;
+
+			setIsSaving(true);
+			try {
+				const response =
+					await TransactionService.getInstance().removeWithdrawAddress(
+						{ username, id },
+						authToken
+					);
+				if (response.error) throw new Error(response.message);
+				setAddresses((current) =>
+					current.filter((entry) => entry.id !== id)
+				);
+				return true;
+			} catch (error) {
+				console.error("Failed to remove withdrawal address:", error);
+				return false;
+			} finally {
+				setIsSaving(false);
+			}
+		},
+		[username, authToken]
+	);
+
+	const setWhitelistOnly = useCallback(
+		async (enabled: boolean): Promise<boolean> => {
+			if (!username || !authToken) return false;
+
+			setIsSaving(true);
+			try {
+				const response =
+					await TransactionService.getInstance().setWithdrawWhitelist(
+						{ username, whitelist_only: enabled },
+						authToken
+					);
+				if (response.error) throw new Error(response.message);
+				// Switching off is only scheduled; the backend says when
+				setWhitelistOnlyState(response.data.whitelist_only === true);
+				setWhitelistDisableAt(
+					response.data.whitelist_disable_at ?? null
+				);
+				return true;
+			} catch (error) {
+				console.error("Failed to update withdrawal whitelist:", error);
+				return false;
+			} finally {
+				setIsSaving(false);
+			}
+		},
+		[username, authToken]
+	);
+
+	return {
+		addresses,
+		whitelistOnly,
+		whitelistDisableAt,
+		isLoading,
+		isSaving,
+		addAddress,
+		removeAddress,
+		setWhitelistOnly,
+		refresh: fetchAddressBook,
+	};
+};
@@ -1,54 +1,106 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { useAppStore } from "@/store/store";
 import { useDynamicAuth } from "@/hooks/useDynamicAuth";
 import TransactionService from "@/services/walletProvider/TransactionService";
-import { useDebounce } from "../useDebounce";
+import { getChain } from "@/lib/utils/wallet-provider/chain.utils";
+import { calculateWithdrawFee } from "@/lib/utils/wallet-provider/withdraw.utils";
+import {
+	WithdrawFeeData,
+	WithdrawToken,
+} from "@/types/walletProvider/transaction-service.types";
 
 // --- HOOK'S "CONTRACT" ---
 interface UseWithdrawCalculationsProps {
 	withdrawAmount: string;
+	selectedToken: WithdrawToken | null;
 }
 
 /**
  * The definitive, feature-complete hook for all off-chain withdrawal calculations.
  *
  * It is responsible for:
- * 1. Fetching the DYNAMIC minimum withdrawal amount from the /getWalletAgent API.
- * 2. Calculating the withdrawal fee based on the user's input.
- * 3. Calculating the final total payout.
+ * 1. Fetching the DYNAMIC minimum withdrawal amount from the /getWalletAgent API,
+ *    starting from the chain registry's minimum until the API answers.
+ * 2. Fetching the fee schedule for the selected token from /getWithdrawFee.
+ * 3. Applying that schedule to the user's input, with the same rounding the
+ *    backend uses for /preWithdraw, to get the fee breakdown and final payout.
  */
 export const useWithdrawCalculations = ({
 	withdrawAmount,
+	selectedToken,
 }: UseWithdrawCalculationsProps) => {
 	// --- 1. Get Dependencies from State and Context ---
 	const { chainId } = useAppStore((state) => state.blockchain.network);
 	const { authToken } = useDynamicAuth();
 
-	// Debounce the withdrawal amount to prevent excessive calculations (300ms)
-	const debouncedWithdrawAmount = useDebounce(withdrawAmount, 300);
-
 	// --- 2. Manage the Hook's Own State ---
-	const [fee, setFee] = useState<number>(0);
-	const [totalPayout, setTotalPayout] = useState(0);
+	const [feeSchedule, setFeeSchedule] = useState<WithdrawFeeData | null>(
+		null
+	);
+	const [isFetchingFees, setIsFetchingFees] = useState(false);
+	const [isFeeUnavailable, setIsFeeUnavailable] = useState(false);
+	// A schedule for a previously selected token is dropped when it arrives late
+	const feeRequestIdRef = useRef(0);
 	const [minWithdrawAmount, setMinWithdrawAmount] = useState<number>(0);
 	const [isFetchingMinWithdrawAmount, setIsFetchingMinWithdrawAmount] =
 		useState(false);
 
+	const tokenAddress = selectedToken?.token_address;
+	const tokenSymbol = selectedToken?.token_symbol;
+
 	// --- 3. The Core Logic Effects ---
 
-	// Effect 1: Synchronous Fee and Payout calculation (debounced)
-	useEffect(() => {
-		const amount = parseFloat(debouncedWithdrawAmount);
-		if (isNaN(amount) || amount <= 0) {
-			setTotalPayout(0);
+	// Fee breakdown for the current input. Recomputed synchronously so it never
+	// lags behind the amount that will be submitted.
+	const feeBreakdown = useMemo(() => {
+		if (!feeSchedule || !selectedToken) return null;
+		return calculateWithdrawFee(
+			withdrawAmount || "0",
+			feeSchedule,
+			selectedToken.decimals
+		);
+	}, [feeSchedule, selectedToken, withdrawAmount]);
+
+	// Effect 1: Asynchronous fetching of the fee schedule for the selected token
+	const fetchFeeSchedule = useCallback(async () => {
+		if (!chainId || !tokenAddress || !tokenSymbol) {
+			setFeeSchedule(null);
 			return;
 		}
-		const calculatedFee = amount * 0.01; // 1% fee
-		const calculatedPayout = amount - calculatedFee;
-		setTotalPayout(calculatedPayout);
-	}, [debouncedWithdrawAmount]);
+
+		const requestId = ++feeRequestIdRef.current;
+		setFeeSchedule(null);
+		setIsFetchingFees(true);
+		setIsFeeUnavailable(false);
+		try {
+			const transactionService = TransactionService.getInstance();
+			const response = await transactionService.getWithdrawFee(
+				{
+					network: chainId,
+					token_address: tokenAddress,
+					token_type: tokenSymbol,
+				},
+				authToken
+			);
+
+			if (response.error) throw new Error(response.message);
+			if (requestId !== feeRequestIdRef.current) return;
+			setFeeSchedule(response.data);
+		} catch (error) {
+			if (requestId !== feeRequestIdRef.current) return;
+			// Without the backend's schedule no payout can be promised
+			setIsFeeUnavailable(true);
+			console.error("Failed to fetch withdrawal fees:", error);
+		} finally {
+			if (requestId === feeRequestIdRef.current) setIsFetchingFees(false);
+		}
+	}, [chainId, tokenAddress, tokenSymbol, authToken]);
+
+	useEffect(() => {
+		fetchFeeSchedule();
+	}, [fetchFeeSchedule]);
 
 	// Effect 2: Asynchronous fetching of the DYNAMIC Minimum Withdrawal Amount
 	useEffect(() => {
@@ -60,18 +112,12 @@ export const useWithdrawCalculations = ({
 					authToken
 				);
 
-				if (
-					!response.error &&
-					response.data?.setting?.withdraw &&
-					response.data?.setting?.fee
-				) {
+				if (!response.error && response.data?.setting?.withdraw) {
 					const minAmount = parseFloat(
 						response.data.setting.withdraw
 					);
-					const feeAmount = parseFloat(response.data.setting.fee);
 
 					setMinWithdrawAmount(Number(minAmount));
-					setFee(Number(feeAmount));
 				}
 				setIsFetchingMinWithdrawAmount(false);
 			} catch (error) {
@@ -80,14 +126,19 @@ export const useWithdrawCalculations = ({
 			}
 		};
 
+		setMinWithdrawAmount(getChain(chainId)?.minWithdraw ?? 0);
 		setIsFetchingMinWithdrawAmount(true);
 		fetchWithdrawConfig();
 	}, [chainId]);
 
 	// --- 4. Return the Final, Public API ---
 	return {
-		fee: fee as number, // The calculated fee
-		totalPayout,
+		fee: feeBreakdown ? parseFloat(feeBreakdown.totalFee) : 0, // Total fee for the current input
+		totalPayout: feeBreakdown ? parseFloat(feeBreakdown.payout) : 0,
+		feeBreakdown, // Itemised fees, as strings in token units
+		isFetchingFees,
+		isFeeUnavailable,
+		refetchFees: fetchFeeSchedule,
 		minWithdrawAmount: minWithdrawAmount as number, // The dynamic, API-driven value
 		isFetchingMinWithdrawAmount, // A loading state for the UI to consume
 	};
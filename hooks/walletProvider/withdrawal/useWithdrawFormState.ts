@@ -1,17 +1,21 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { WithdrawToken } from "@/types/walletProvider/transaction-service.types";
+import {
+	WithdrawAddressRestriction,
+	WithdrawToken,
+} from "@/types/walletProvider/transaction-service.types";
 import { useDynamicAuth } from "@/hooks/useDynamicAuth";
 import { useAppStore } from "@/store/store";
 import TransactionService from "@/services/walletProvider/TransactionService";
 import { toast } from "sonner";
 import { sanitizeAmountInput } from "@/lib/utils";
-
-// A simple utility for basic address format validation.
-const validateAddress = (address: string): boolean => {
-	return /^0x[a-fA-F0-9]{40}$/.test(address);
-};
+import {
+	isAddressCoolingDown,
+	isSameAddress,
+	isValidWithdrawAddress,
+} from "@/lib/utils/wallet-provider/withdraw.utils";
+import { useWithdrawAddressBook } from "./useWithdrawAddressBook";
 
 /**
  * A specialized hook with a single responsibility: to manage all user inputs
@@ -46,6 +50,11 @@ export const useWithdrawFormState = () => {
 	);
 	const [withdrawTokenSymbol, setWithdrawTokenSymbol] = useState("USDT"); // Default symbol
 
+	// The saved destinations, and whether the user is typing an address instead.
+	// An empty withdrawAddress means the connected wallet.
+	const addressBook = useWithdrawAddressBook();
+	const [isCustomDestination, setIsCustomDestination] = useState(false);
+
 	// State for input validation
 	const [isAddressValid, setIsAddressValid] = useState(true);
 	const [isBalanceInsufficient, setIsBalanceInsufficient] = useState(false);
@@ -144,9 +153,79 @@ export const useWithdrawFormState = () => {
 	 */
 	const handleAddressChange = useCallback((value: string) => {
 		setWithdrawAddress(value);
-		setIsAddressValid(validateAddress(value));
+		setIsAddressValid(isValidWithdrawAddress(value));
 	}, []);
 
+	// Saved addresses usable on the current network
+	const savedAddresses = useMemo(
+		() =>
+			addressBook.addresses.filter((entry) => entry.network === chainId),
+		[addressBook.addresses, chainId]
+	);
+
+	const selectedSavedAddress = useMemo(
+		() =>
+			withdrawAddress
+				? (savedAddresses.find((entry) =>
+						isSameAddress(entry.address, withdrawAddress)
+					) ?? null)
+				: null,
+		[savedAddresses, withdrawAddress]
+	);
+
+	/**
+	 * Pick where the withdrawal goes: "wallet" for the connected wallet,
+	 * "custom" for a typed address, or the id of a saved address.
+	 */
+	const selectDestination = useCallback(
+		(destination: string) => {
+			if (destination === "wallet" || destination === "custom") {
+				setIsCustomDestination(destination === "custom");
+				setWithdrawAddress("");
+				setIsAddressValid(destination === "wallet");
+				return;
+			}
+			const entry = savedAddresses.find(
+				(saved) => saved.id === destination
+			);
+			if (!entry) return;
+			setIsCustomDestination(false);
+			setWithdrawAddress(entry.address);
+			setIsAddressValid(true);
+		},
+		[savedAddresses]
+	);
+
+	// A saved address that is removed, or belongs to another network, stops
+	// being the destination
+	useEffect(() => {
+		if (!isCustomDestination && withdrawAddress && !selectedSavedAddress) {
+			selectDestination("wallet");
+		}
+	}, [
+		isCustomDestination,
+		withdrawAddress,
+		selectedSavedAddress,
+		selectDestination,
+	]);
+
+	// A saved address is unusable until its cooldown ends. In whitelist-only mode
+	// only saved addresses and the connected wallet are accepted.
+	let addressRestriction: WithdrawAddressRestriction | null = null;
+	if (selectedSavedAddress && isAddressCoolingDown(selectedSavedAddress)) {
+		addressRestriction = "cooldown";
+	} else if (
+		addressBook.whitelistOnly &&
+		withdrawAddress &&
+		!selectedSavedAddress &&
+		!(
+			user?.walletAddress &&
+			isSameAddress(withdrawAddress, user.walletAddress)
+		)
+	) {
+		addressRestriction = "notWhitelisted";
+	}
+
 	/**
 	 * Handle changes to the withdrawal amount
 	 */
@@ -218,12 +297,13 @@ export const useWithdrawFormState = () => {
 			isBalanceInsufficient ||
 			isBelowMinimum ||
 			!isAddressValid ||
+			addressRestriction !== null ||
 			amount <= 0
 		) {
 			return false;
 		}
 		return true;
-	}, [withdrawAmount]);
+	}, [withdrawAmount, addressRestriction]);
 
 	// --- 5. Return the Final, Public API ---
 	return {
@@ -238,10 +318,16 @@ export const useWithdrawFormState = () => {
 		maxWithdrawAmount,
 		availableTokens,
 		isLoadingTokens,
+		addressBook,
+		savedAddresses,
+		selectedSavedAddress,
+		isCustomDestination,
+		addressRestriction,
 
 		// Actions
 		handleAmountChange,
 		handleAddressChange,
+		selectDestination,
 		setMaxAmount,
 		// selectWithdrawToken,
 		setWithdrawTokenSymbol,
@@ -7,6 +7,8 @@ import {
 	WithdrawToken,
 	PreWithdrawData,
 	PrimaryWalletWithClient,
+	WithdrawFeeBreakdown,
+	WithdrawAddressRestriction,
 } from "@/types/walletProvider/transaction-service.types";
 import {
 	TransactionType,
@@ -17,13 +19,24 @@ import confetti from "canvas-confetti";
 import pandaABI from "@/abi/pandaByteCore.json";
 import { useDynamicContext } from "@dynamic-labs/sdk-react-core";
 import TransactionService from "@/services/walletProvider/TransactionService";
+import { isSameAmount } from "@/lib/utils/wallet-provider/withdraw.utils";
 import { ethers } from "ethers";
 
+// Risk check statuses for a destination the address book does not allow yet
+const ADDRESS_RISK_STATUSES: Record<string, WithdrawAddressRestriction> = {
+	address_cooldown: "cooldown",
+	address_not_whitelisted: "notWhitelisted",
+};
+
 // --- HOOK'S "CONTRACT" (What it needs to receive) ---
 interface UseWithdrawTransactionProps {
 	selectedToken: WithdrawToken | null;
 	withdrawAmount: string;
+	withdrawAddress: string; // Destination; empty means the connected wallet
+	feeBreakdown: WithdrawFeeBreakdown | null; // The fees previewed to the user
+	addressRestrictionMessages: Record<WithdrawAddressRestriction, string>; // Shown when the risk check refuses the destination
 	onTransactionComplete?: () => void; // Callback when transaction completes (success or failure)
+	onFeesChanged?: () => void; // Callback when the backend quotes different fees than the preview
 }
 
 /**
@@ -33,7 +46,11 @@ interface UseWithdrawTransactionProps {
 export const useWithdrawTransaction = ({
 	selectedToken,
 	withdrawAmount,
+	withdrawAddress,
+	feeBreakdown,
+	addressRestrictionMessages,
 	onTransactionComplete,
+	onFeesChanged,
 }: UseWithdrawTransactionProps) => {
 	// --- Withdrawal Transaction State ---
 
@@ -43,6 +60,9 @@ export const useWithdrawTransaction = ({
 	const [transactionHash, setTransactionHash] = useState<string | null>(null);
 	const [timeLeft, setTimeLeft] = useState(0);
 	const [isWithdrawalSuccessful, setIsWithdrawalSuccessful] = useState(false);
+	// Fees of the submitted withdrawal, kept after the form resets
+	const [withdrawalFee, setWithdrawalFee] =
+		useState<WithdrawFeeBreakdown | null>(null);
 	// eslint-disable-next-line
 	const [preWithdrawData, setPreWithdrawData] =
 		useState<PreWithdrawData | null>(null);
@@ -277,6 +297,7 @@ export const useWithdrawTransaction = ({
 						amount: withdrawAmount,
 						tokenSymbol: selectedToken!.token_symbol,
 						network: chainId!,
+						username: user?.username,
 					});
 				}, 500);
 				return hash;
@@ -316,6 +337,7 @@ export const useWithdrawTransaction = ({
 			chainId,
 			startTimer,
 			primaryWallet,
+			user?.username,
 		]
 	);
 
@@ -340,35 +362,48 @@ export const useWithdrawTransaction = ({
 
 		setIsLoading(true);
 		setIsWithdrawalSuccessful(false);
+		setWithdrawalFee(feeBreakdown);
 
 		try {
 			const isAutoWithdrawOn = user.autowd?.toUpperCase() !== "OFF";
 			let finalTxHash: string | null = null;
+			const destination =
+				withdrawAddress || (user.walletAddress as string);
+
+			// Both flows pass the risk check, which also applies the address
+			// book rules to the destination
+			const riskResult = await transactionService.performRiskCheck(
+				{
+					username: user.username,
+					amount: withdrawAmount,
+					to_address: destination,
+					network: chainId,
+				},
+				authToken
+			);
 
-			if (isAutoWithdrawOn) {
-				// --- AUTO WITHDRAW FLOW ---
-				// Performs risk check, pre-withdrawal data fetch, contract simulation, and execution.
-				const riskResult = await transactionService.performRiskCheck(
-					{
-						username: user.username,
-						amount: withdrawAmount,
-					},
-					authToken
-				);
+			// console.log("Risk Check Result:", riskResult);
 
-				// console.log("Risk Check Result:", riskResult);
+			const addressRestriction =
+				ADDRESS_RISK_STATUSES[riskResult.status?.toLowerCase() ?? ""];
+			if (addressRestriction)
+				throw new Error(addressRestrictionMessages[addressRestriction]);
 
-				if (
-					riskResult.error ||
-					riskResult.status?.toLowerCase() === "critical"
-				) {
-					handleSpecialMessages(riskResult.status?.toLowerCase());
+			if (
+				riskResult.error ||
+				riskResult.status?.toLowerCase() === "critical"
+			) {
+				handleSpecialMessages(riskResult.status?.toLowerCase());
 
-					setIsLoading(false);
-					throw new Error(
-						riskResult.status || "Withdrawal failed risk check."
-					);
-				}
+				setIsLoading(false);
+				throw new Error(
+					riskResult.status || "Withdrawal failed risk check."
+				);
+			}
+
+			if (isAutoWithdrawOn) {
+				// --- AUTO WITHDRAW FLOW ---
+				// Performs pre-withdrawal data fetch, contract simulation, and execution.
 
 				// console.log({
 				// 	username: user.username,
@@ -383,7 +418,7 @@ export const useWithdrawTransaction = ({
 					await transactionService.fetchPreWithdrawData(
 						{
 							username: user.username,
-							to_address: user.walletAddress as string,
+							to_address: destination,
 							token_address: selectedToken.token_address,
 							amount: withdrawAmount,
 							network: chainId,
@@ -394,6 +429,30 @@ export const useWithdrawTransaction = ({
 
 				if (preWithdrawResult.error)
 					throw new Error(preWithdrawResult.message);
+
+				// The backend's figures are final. If they differ from the preview the
+				// fee schedule changed after it was fetched, so nothing is sent on-chain.
+				const { fee_amount, payout_amount } = preWithdrawResult.data;
+				if (
+					feeBreakdown &&
+					((fee_amount !== undefined &&
+						!isSameAmount(
+							fee_amount,
+							feeBreakdown.totalFee,
+							selectedToken.decimals
+						)) ||
+						(payout_amount !== undefined &&
+							!isSameAmount(
+								payout_amount,
+								feeBreakdown.payout,
+								selectedToken.decimals
+							)))
+				) {
+					onFeesChanged?.();
+					throw new Error(
+						"Withdrawal fees have changed. Please review the new payout and try again."
+					);
+				}
 				setPreWithdrawData(preWithdrawResult.data);
 
 				// This is a short delay to allow the `useSimulateContract` hook to react to the new `preWithdrawData`
@@ -414,7 +473,7 @@ export const useWithdrawTransaction = ({
 							amount: withdrawAmount,
 							token_type: selectedToken.token_symbol,
 							token_address: selectedToken.token_address,
-							dst_wallet: user?.walletAddress as string,
+							dst_wallet: destination,
 						},
 						authToken
 					);
@@ -474,6 +533,7 @@ export const useWithdrawTransaction = ({
 				amount: withdrawAmount,
 				tokenSymbol: selectedToken.token_symbol,
 				network: chainId,
+				username: user?.username,
 			});
 		} catch (error) {
 			let message = "Withdrawal failed.";
@@ -506,6 +566,9 @@ export const useWithdrawTransaction = ({
 	}, [
 		selectedToken,
 		withdrawAmount,
+		withdrawAddress,
+		feeBreakdown,
+		addressRestrictionMessages,
 		user,
 		authToken,
 		chainId,
@@ -517,6 +580,7 @@ export const useWithdrawTransaction = ({
 		processWithdraw,
 		startTimer,
 		onTransactionComplete,
+		onFeesChanged,
 	]);
 
 	/**
@@ -529,6 +593,7 @@ export const useWithdrawTransaction = ({
 		setTransactionHash(null);
 		setTimeLeft(0);
 		setIsWithdrawalSuccessful(false);
+		setWithdrawalFee(null);
 		setPreWithdrawData(null);
 		setShowReservedModal(false);
 		if (pollingIntervalRef.current)
@@ -545,6 +610,7 @@ export const useWithdrawTransaction = ({
 		timeLeft,
 		showReservedModal,
 		isWithdrawalSuccessful,
+		withdrawalFee,
 
 		handleSpecialMessages,
 		startTimer,
@@ -8,6 +8,7 @@ import {
 	getAuthToken,
 } from "@dynamic-labs/sdk-react-core";
 import TransactionService from "@/services/walletProvider/TransactionService";
+import { getChainName } from "@/lib/utils/wallet-provider/chain.utils";
 
 /**
  * A specialized, self-contained hook that actively listens for network changes
@@ -17,22 +18,6 @@ import TransactionService from "@/services/walletProvider/TransactionService";
  *
  * @returns An object containing a boolean flag `isNetworkSupported`.
  */
-/**
- * Map of chain IDs to human-readable network names.
- */
-const CHAIN_ID_TO_NAME: Record<number, string> = {
-	1: "Ethereum",
-	10: "Optimism",
-	56: "BNB Smart Chain",
-	137: "Polygon",
-	8453: "Base",
-	42161: "Arbitrum",
-	43114: "Avalanche",
-	324: "zkSync Era",
-	59144: "Linea",
-	534352: "Scroll",
-};
-
 export const useWithdrawalNetworkCheck = () => {
 	const { primaryWallet } = useDynamicContext();
 	const [isNetworkSupported, setIsNetworkSupported] = useState(true); // Default to true to prevent initial UI flicker
@@ -117,7 +102,7 @@ export const useWithdrawalNetworkCheck = () => {
 	}, [checkNetworkSupport]);
 
 	const supportedNetworkNames = supportedNetworks
-		.map((id) => CHAIN_ID_TO_NAME[id] || `Chain ${id}`)
+		.map((id) => getChainName(id))
 		.join(", ");
 
 	return {
@@ -0,0 +1,419 @@
+import ApiService from "@/services/apiService";
+import { BetHistoryItem } from "@/types/games/betHistory.types";
+import {
+	BetHistoryFilters,
+	buildBetHistoryRequestBody,
+} from "@/store/slices/history/betHistory.slice";
+
+// --- CONSTANTS ---
+/** Records requested per page while walking the history for an export. */
+export const EXPORT_PAGE_SIZE = 100;
+
+/** Hard stop so a misbehaving total_data can never loop forever. */
+const MAX_EXPORT_PAGES = 1000;
+
+/** Most records a single export can hold before it is cut short. */
+export const MAX_EXPORT_RECORDS = MAX_EXPORT_PAGES * EXPORT_PAGE_SIZE;
+
+// --- TYPES ---
+export type BetHistoryExportFormat = "csv" | "xlsx" | "pdf";
+
+export interface BetHistoryExportProgress {
+	pages: number; // Pages fetched so far
+	totalPages: number; // 0 until the first page tells us total_data
+	records: number;
+	totalRecords: number;
+}
+
+export interface BetHistoryExportTotals {
+	totalRecords: number;
+	grandTotalBet: number;
+	grandTotalWinLose: number;
+	truncated: boolean; // True when the walk hit MAX_EXPORT_PAGES with pages left
+}
+
+/**
+ * Translated strings used for column headers and the PDF statement. Passed in
+ * by the caller because the export runs outside of React.
+ */
+export interface BetHistoryExportLabels {
+	betId: string;
+	date: string;
+	game: string;
+	gameType: string;
+	provider: string;
+	amount: string;
+	payout: string;
+	net: string;
+	status: string;
+	statementTitle: string;
+	player: string;
+	period: string;
+	allProviders: string;
+	allStatuses: string;
+	generatedAt: string;
+	totalRecords: string;
+	totalBets: string;
+	totalProfitLoss: string;
+	truncated: string;
+}
+
+export interface BetHistoryExportContext {
+	username: string;
+	filters: BetHistoryFilters;
+	labels: BetHistoryExportLabels;
+}
+
+/**
+ * Receives pages as they are fetched and turns them into a file once the walk
+ * is complete.
+ */
+interface BetHistoryExportSink {
+	addRows: (items: BetHistoryItem[]) => void;
+	finish: (totals: BetHistoryExportTotals) => Promise<Blob>;
+}
+
+// --- HELPER FUNCTIONS ---
+const toAmount = (value: string | number | undefined) => {
+	const amount = typeof value === "number" ? value : parseFloat(value ?? "");
+	return Number.isFinite(amount) ? amount : 0;
+};
+
+const formatAmount = (value: number) => value.toFixed(2);
+
+const getColumnHeaders = (labels: BetHistoryExportLabels) => [
+	labels.betId,
+	labels.date,
+	labels.game,
+	labels.gameType,
+	labels.provider,
+	labels.amount,
+	labels.payout,
+	labels.net,
+	labels.status,
+];
+
+const toRowValues = (item: BetHistoryItem) => {
+	const bet = toAmount(item.bet_amount);
+	const payout = toAmount(item.win_amount);
+	return [
+		item.bet_id,
+		item.bet_date,
+		item.game_name,
+		item.game_type,
+		item.provider_name,
+		bet,
+		payout,
+		payout - bet,
+		item.status,
+	] as const;
+};
+
+const describeFilters = ({ filters, labels }: BetHistoryExportContext) => ({
+	period: `${filters.fromDate} – ${filters.toDate}`,
+	provider: filters.vendorName || labels.allProviders,
+	status: filters.status === "ALL" ? labels.allStatuses : filters.status,
+});
+
+/**
+ * Builds the download file name, e.g. "bet-history_2025-01-01_2025-01-31.csv".
+ */
+export const getExportFileName = (
+	filters: BetHistoryFilters,
+	format: BetHistoryExportFormat
+) => `bet-history_${filters.fromDate}_${filters.toDate}.${format}`;
+
+// --- PAGINATION WALK ---
+/**
+ * Fetches every page of the bet history for the given filters, handing each
+ * page to `onPage` as soon as it arrives. Grand totals are taken from the
+ * first response since the API repeats them on every page.
+ */
+export async function walkBetHistoryPages({
+	username,
+	filters,
+	authToken,
+	signal,
+	onPage,
+}: {
+	username: string;
+	filters: BetHistoryFilters;
+	authToken: string;
+	signal: AbortSignal;
+	onPage: (
+		items: BetHistoryItem[],
+		progress: BetHistoryExportProgress
+	) => void;
+}): Promise<BetHistoryExportTotals> {
+	const api = ApiService.getInstance();
+	const totals: BetHistoryExportTotals = {
+		totalRecords: 0,
+		grandTotalBet: 0,
+		grandTotalWinLose: 0,
+		truncated: false,
+	};
+
+	let page = 1;
+	let totalPages = 1;
+	let records = 0;
+
+	while (page <= totalPages && page <= MAX_EXPORT_PAGES) {
+		signal.throwIfAborted();
+
+		const response = await api.getBetHistory(
+			buildBetHistoryRequestBody(
+				username,
+				filters,
+				page,
+				EXPORT_PAGE_SIZE
+			),
+			authToken,
+			signal
+		);
+		if (response.error) throw new Error(response.message);
+
+		if (page === 1) {
+			totals.totalRecords = response.total_data || 0;
+			totals.grandTotalBet = response.grand_total_bet ?? 0;
+			totals.grandTotalWinLose = response.grand_total_winlose ?? 0;
+			totalPages = Math.max(
+				1,
+				Math.ceil(totals.totalRecords / EXPORT_PAGE_SIZE)
+			);
+		}
+
+		const items = response.data || [];
+		records += items.length;
+		onPage(items, {
+			pages: page,
+			totalPages,
+			records,
+			totalRecords: totals.totalRecords,
+		});
+
+		// A short page means the server has nothing more, whatever total_data says
+		if (items.length < EXPORT_PAGE_SIZE) break;
+		page += 1;
+	}
+
+	// Only reachable by leaving the loop on the page cap with pages still to go
+	totals.truncated = page > MAX_EXPORT_PAGES && page <= totalPages;
+	return totals;
+}
+
+// --- CSV ---
+const escapeCsvValue = (value: string | number) => {
+	if (typeof value === "number") return formatAmount(value);
+	// Spreadsheet apps run cells starting with these as formulas
+	const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvLine = (values: ReadonlyArray<string | number>) =>
+	values.map(escapeCsvValue).join(",") + "\r\n";
+
+/**
+ * Streams rows into Blob parts so large exports never build one huge string.
+ */
+function createCsvSink({ labels }: BetHistoryExportContext) {
+	// BOM so Excel opens the file as UTF-8
+	const parts: string[] = ["\uFEFF", toCsvLine(getColumnHeaders(labels))];
+
+	const sink: BetHistoryExportSink = {
+		addRows: (items) => {
+			parts.push(
+				items.map((item) => toCsvLine(toRowValues(item))).join("")
+			);
+		},
+		finish: async (totals) => {
+			if (totals.truncated)
+				parts.push("\r\n", toCsvLine([labels.truncated]));
+			return new Blob(parts, { type: "text/csv;charset=utf-8" });
+		},
+	};
+	return sink;
+}
+
+// --- XLSX ---
+// Worksheet names are capped at 31 chars and may not contain \ / * ? : [ ]
+const toSheetName = (name: string) =>
+	name.replace(/[\\/*?:[\]]/g, " ").slice(0, 31);
+
+async function createXlsxSink(context: BetHistoryExportContext) {
+	const { labels } = context;
+	const ExcelJS = (await import("exceljs")).default;
+	const workbook = new ExcelJS.Workbook();
+	const sheet = workbook.addWorksheet(toSheetName(labels.statementTitle));
+
+	sheet.columns = getColumnHeaders(labels).map((header, index) => ({
+		header,
+		width: index === 0 || index === 2 ? 28 : 16,
+		style: index >= 5 && index <= 7 ? { numFmt: "0.00" } : undefined,
+	}));
+	sheet.getRow(1).font = { bold: true };
+	sheet.views = [{ state: "frozen", ySplit: 1 }];
+
+	const sink: BetHistoryExportSink = {
+		addRows: (items) => {
+			items.forEach((item) => sheet.addRow([...toRowValues(item)]));
+		},
+		finish: async (totals) => {
+			const summary = describeFilters(context);
+			const summarySheet = workbook.addWorksheet(
+				toSheetName(labels.totalBets)
+			);
+			summarySheet.columns = [{ width: 24 }, { width: 32 }];
+			summarySheet.addRows([
+				[labels.player, context.username],
+				[labels.period, summary.period],
+				[labels.provider, summary.provider],
+				[labels.status, summary.status],
+				[labels.totalRecords, totals.totalRecords],
+				[labels.totalBets, totals.grandTotalBet],
+				[labels.totalProfitLoss, totals.grandTotalWinLose],
+			]);
+			if (totals.truncated) summarySheet.addRow([labels.truncated]);
+
+			const buffer = await workbook.xlsx.writeBuffer();
+			return new Blob([buffer], {
+				type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+			});
+		},
+	};
+	return sink;
+}
+
+// --- PDF ---
+/**
+ * Printable statement: a header with the player and filters, the full bet
+ * table, then the grand totals reported by the server.
+ */
+async function createPdfSink(context: BetHistoryExportContext) {
+	const { labels } = context;
+	const [{ jsPDF }, { default: autoTable }] = await Promise.all([
+		import("jspdf"),
+		import("jspdf-autotable"),
+	]);
+	const rows: string[][] = [];
+
+	const sink: BetHistoryExportSink = {
+		addRows: (items) => {
+			items.forEach((item) => {
+				rows.push(
+					toRowValues(item).map((value) =>
+						typeof value === "number" ? formatAmount(value) : value
+					)
+				);
+			});
+		},
+		finish: async (totals) => {
+			const doc = new jsPDF({ orientation: "landscape", unit: "pt" });
+			const summary = describeFilters(context);
+			const marginX = 40;
+
+			doc.setFontSize(16);
+			doc.text(labels.statementTitle, marginX, 48);
+			doc.setFontSize(9);
+			[
+				`${labels.player}: ${context.username}`,
+				`${labels.period}: ${summary.period}`,
+				`${labels.provider}: ${summary.provider}`,
+				`${labels.status}: ${summary.status}`,
+				`${labels.generatedAt}: ${new Date().toLocaleString()}`,
+			].forEach((line, index) => {
+				doc.text(line, marginX, 68 + index * 12);
+			});
+
+			autoTable(doc, {
+				head: [getColumnHeaders(labels)],
+				body: rows,
+				startY: 136,
+				margin: { left: marginX, right: marginX },
+				styles: { fontSize: 7 },
+				headStyles: { fillColor: [30, 30, 40] },
+				columnStyles: {
+					5: { halign: "right" },
+					6: { halign: "right" },
+					7: { halign: "right" },
+				},
+				didDrawPage: () => {
+					const pageSize = doc.internal.pageSize;
+					doc.setFontSize(8);
+					doc.text(
+						`${doc.getNumberOfPages()}`,
+						pageSize.getWidth() - marginX,
+						pageSize.getHeight() - 20,
+						{ align: "right" }
+					);
+				},
+			});
+
+			const finalY =
+				(doc as unknown as { lastAutoTable?: { finalY: number } })
+					.lastAutoTable?.finalY ?? 136;
+			autoTable(doc, {
+				body: [
+					[labels.totalRecords, String(totals.totalRecords)],
+					[labels.totalBets, formatAmount(totals.grandTotalBet)],
+					[
+						labels.totalProfitLoss,
+						formatAmount(totals.grandTotalWinLose),
+					],
+				],
+				startY: finalY + 20,
+				margin: { left: marginX },
+				tableWidth: 260,
+				theme: "plain",
+				styles: { fontSize: 9 },
+				columnStyles: {
+					0: { fontStyle: "bold" },
+					1: { halign: "right" },
+				},
+			});
+			if (totals.truncated) {
+				const notesY =
+					(doc as unknown as { lastAutoTable?: { finalY: number } })
+						.lastAutoTable?.finalY ?? finalY;
+				doc.setFontSize(9);
+				doc.text(labels.truncated, marginX, notesY + 20);
+			}
+
+			return doc.output("blob");
+		},
+	};
+	return sink;
+}
+
+/**
+ * Creates the sink for the requested format. XLSX and PDF writers are loaded
+ * on demand to keep them out of the main bundle.
+ */
+export async function createBetHistoryExportSink(
+	format: BetHistoryExportFormat,
+	context: BetHistoryExportContext
+): Promise<BetHistoryExportSink> {
+	switch (format) {
+		case "xlsx":
+			return createXlsxSink(context);
+		case "pdf":
+			return createPdfSink(context);
+		case "csv":
+		default:
+			return createCsvSink(context);
+	}
+}
+
+/**
+ * Triggers a browser download for the given blob.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+	const url = URL.createObjectURL(blob);
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = fileName;
+	document.body.appendChild(link);
+	link.click();
+	link.remove();
+	// Give the browser a tick to start the download before revoking
+	setTimeout(() => URL.revokeObjectURL(url), 0);
+};
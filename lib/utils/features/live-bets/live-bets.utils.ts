@@ -0,0 +1,98 @@
+import {
+	BetSettledPayload,
+	LiveBet,
+	LiveBetsTab,
+} from "@/types/games/liveBets.types";
+
+// --- CONSTANTS ---
+export const LIVE_BETS_BUFFER_SIZE = 50;
+export const HIGH_ROLLER_MIN_BET = 100;
+export const LUCKY_WIN_MIN_MULTIPLIER = 10;
+
+/**
+ * A small, stable FNV-1a hash. Used to derive the nickname tag so the
+ * same player always gets the same mask across sessions and devices.
+ */
+const hashNickname = (value: string): string => {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0").slice(0, 4);
+};
+
+/**
+ * Masks a player's nickname for public display.
+ * Keeps the first and last characters and appends a short hash tag so two
+ * different players with a similar mask can still be told apart.
+ *
+ * @example
+ * maskNickname("CryptoKing"); // "Cr******ng#" + 4-char tag
+ * maskNickname("Bob"); // "B**#" + 4-char tag
+ */
+export const maskNickname = (nickname: string): string => {
+	const trimmed = (nickname || "").trim();
+	if (!trimmed) return "Hidden";
+
+	const tag = hashNickname(trimmed.toLowerCase());
+	const visible = trimmed.length > 5 ? 2 : 1;
+	const head = trimmed.slice(0, visible);
+	const tail = trimmed.length > 5 ? trimmed.slice(-visible) : "";
+	const hidden = Math.max(trimmed.length - head.length - tail.length, 2);
+
+	return `${head}${"*".repeat(hidden)}${tail}#${tag}`;
+};
+
+const toNumber = (value: string | number | undefined): number => {
+	const parsed = typeof value === "number" ? value : parseFloat(value ?? "0");
+	return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const toTimestamp = (value: string | number): number => {
+	if (typeof value === "number") return value;
+	// The API uses "YYYY-MM-DD HH:mm:ss", which Safari refuses to parse without the "T".
+	const parsed = Date.parse(value.replace(" ", "T"));
+	return Number.isNaN(parsed) ? Date.now() : parsed;
+};
+
+/**
+ * Converts a raw "bet_settled" payload into the shape the live bets table renders.
+ * The nickname is masked here, so the unmasked value never reaches the store.
+ */
+export const toLiveBet = (payload: BetSettledPayload): LiveBet => {
+	const bet = toNumber(payload.bet_amount);
+	const payout = toNumber(payload.win_amount);
+	const profit = parseFloat((payout - bet).toFixed(2));
+
+	return {
+		id: payload.bet_id,
+		gameName: payload.game_name || "-",
+		provider: payload.provider_name || "-",
+		nickname: maskNickname(payload.nickname),
+		bet,
+		payout,
+		profit,
+		multiplier: bet > 0 ? parseFloat((payout / bet).toFixed(2)) : 0,
+		outcome: profit > 0 ? "win" : "lose",
+		currency: payload.currency || "USDT",
+		timestamp: toTimestamp(payload.settled_at),
+	};
+};
+
+/**
+ * Decides whether a settled bet belongs on a given tab of the live bets table.
+ */
+export const matchesLiveBetsTab = (bet: LiveBet, tab: LiveBetsTab): boolean => {
+	switch (tab) {
+		case "highRollers":
+			return bet.bet >= HIGH_ROLLER_MIN_BET;
+		case "luckyWins":
+			return (
+				bet.outcome === "win" &&
+				bet.multiplier >= LUCKY_WIN_MIN_MULTIPLIER
+			);
+		default:
+			return true;
+	}
+};
@@ -0,0 +1,55 @@
+import { ChatRoomModeration } from "@/types/features/chat-moderation.types";
+
+// Rooms start unmoderated until the server sends their state. Returns a new
+// object each time, so the store can edit it in place.
+export const createEmptyRoomModeration = (): ChatRoomModeration => ({
+	moderators: [],
+	muted: {},
+	banned: [],
+	slowModeSeconds: 0,
+	pinnedMessageId: null,
+});
+
+// Read-only fallback for rooms without state; frozen all the way down so a
+// stray write fails loudly instead of leaking into every room
+const emptyRoomModeration = createEmptyRoomModeration();
+Object.freeze(emptyRoomModeration.moderators);
+Object.freeze(emptyRoomModeration.muted);
+Object.freeze(emptyRoomModeration.banned);
+export const EMPTY_ROOM_MODERATION: Readonly<ChatRoomModeration> =
+	Object.freeze(emptyRoomModeration);
+
+export const isChatModerator = (
+	moderation: ChatRoomModeration,
+	username?: string
+) => !!username && moderation.moderators.includes(username);
+
+export const isChatBanned = (
+	moderation: ChatRoomModeration,
+	username?: string
+) => !!username && moderation.banned.includes(username);
+
+/** Milliseconds left on a user's mute, 0 when they may chat. */
+export const getMuteRemaining = (
+	moderation: ChatRoomModeration,
+	username: string | undefined,
+	now: number = Date.now()
+) => {
+	const mutedUntil = username ? moderation.muted[username] : undefined;
+	return mutedUntil ? Math.max(0, mutedUntil - now) : 0;
+};
+
+/**
+ * Milliseconds until the user may send again under slow mode. Moderators are
+ * never slowed down.
+ */
+export const getSlowModeRemaining = (
+	moderation: ChatRoomModeration,
+	lastSentAt: number | undefined,
+	username: string | undefined,
+	now: number = Date.now()
+) => {
+	if (!moderation.slowModeSeconds || !lastSentAt) return 0;
+	if (isChatModerator(moderation, username)) return 0;
+	return Math.max(0, lastSentAt + moderation.slowModeSeconds * 1000 - now);
+};
@@ -1,14 +1,9 @@
+import { RainMessage, SystemMessage } from "@/types/features/live-chat.types";
+import { ChatTipCommandResult } from "@/types/features/chat-tip.types";
 import {
-	Message,
-	RainMessage,
-	SystemMessage,
-} from "@/types/features/live-chat.types";
-
-export interface SlashCommandResult {
-	success: boolean;
-	message?: RainMessage | SystemMessage;
-	error?: string;
-}
+	ChatModerationAction,
+	ModerationCommandResult,
+} from "@/types/features/chat-moderation.types";
 
 export interface SlashCommand {
 	name: string;
@@ -36,422 +31,229 @@ export const SLASH_COMMANDS: SlashCommand[] = [
 	},
 ];
 
-// Filter commands based on input
-export const filterCommands = (input: string): SlashCommand[] => {
-	if (!input.startsWith("/")) return [];
+// Commands only moderators can run
+export const MODERATION_COMMANDS: SlashCommand[] = [
+	{
+		name: "/mute",
+		description: "Stop a user from chatting for a number of minutes",
+		usage: "/mute <username> [minutes]",
+		template: "/mute @<username> <minutes>",
+		example: "/mute @JohnDoe 10",
+	},
+	{
+		name: "/ban",
+		description: "Remove a user and their messages from this room",
+		usage: "/ban <username> [reason]",
+		template: "/ban @<username>",
+		example: "/ban @JohnDoe spam",
+	},
+	{
+		name: "/slow",
+		description: "Require a pause between messages (0 turns it off)",
+		usage: "/slow <seconds>",
+		template: "/slow <seconds>",
+		example: "/slow 30",
+	},
+	{
+		name: "/delete",
+		description: "Delete a message for everyone",
+		usage: "/delete <messageId>",
+		template: "/delete <messageId>",
+		example: "/delete msg_123",
+	},
+	{
+		name: "/pin",
+		description: "Pin a message to the top of the room (no id unpins)",
+		usage: "/pin [messageId]",
+		template: "/pin <messageId>",
+		example: "/pin msg_123",
+	},
+];
 
-	const searchTerm = input.toLowerCase().trim();
+export const DEFAULT_MUTE_MINUTES = 10;
+// Longest slow mode a moderator can set, in seconds
+export const MAX_SLOW_MODE_SECONDS = 600;
 
-	// If user just types "/", show all commands
-	if (searchTerm === "/") {
-		return SLASH_COMMANDS;
-	}
+const MODERATION_ACTIONS = MODERATION_COMMANDS.map((cmd) =>
+	cmd.name.slice(1)
+) as ChatModerationAction[];
 
-	// Filter by partial matches
-	return SLASH_COMMANDS.filter((cmd) =>
-		cmd.name.toLowerCase().startsWith(searchTerm)
-	);
+export const isModerationCommand = (input: string): boolean => {
+	const name = input.trim().split(/\s+/)[0].slice(1).toLowerCase();
+	return MODERATION_ACTIONS.includes(name as ChatModerationAction);
 };
 
-export interface UserBalance {
-	balance: number;
-	currency: string;
-	isValid: boolean;
-}
-
-// Enhanced user balance with better validation and error handling
-export const getUserBalance = (username: string): UserBalance => {
-	try {
-		// Check if we're on the client side
-		if (typeof window === "undefined") {
-			// Return default balance for SSR
+// Parse /mute, /ban, /slow, /delete and /pin into a moderation command
+export const parseModerationCommand = (
+	input: string,
+	senderUsername: string
+): ModerationCommandResult => {
+	const [name, ...args] = input.trim().split(/\s+/);
+	const action = name.slice(1).toLowerCase() as ChatModerationAction;
+	const target = args[0]?.replace(/^@/, "");
+
+	switch (action) {
+		case "mute":
+		case "ban": {
+			if (!target) return { success: false, error: "usage" };
+			if (target === senderUsername) {
+				return { success: false, error: "cannotTargetSelf" };
+			}
+			if (action === "ban") {
+				const reason = args.slice(1).join(" ") || undefined;
+				return { success: true, command: { action, target, reason } };
+			}
+			const minutes =
+				args[1] === undefined ? DEFAULT_MUTE_MINUTES : Number(args[1]);
+			if (!Number.isInteger(minutes) || minutes < 0) {
+				return { success: false, error: "invalidDuration" };
+			}
 			return {
-				balance: 1000,
-				currency: "BFG",
-				isValid: true,
+				success: true,
+				command: { action, target, durationSeconds: minutes * 60 },
 			};
 		}
-
-		// Mock implementation with localStorage fallback for demo purposes
-		// TODO: Replace with actual API call to backend
-		const savedBalance = localStorage.getItem(`userBalance_${username}`);
-
-		if (savedBalance) {
-			const parsed = JSON.parse(savedBalance);
+		case "slow": {
+			const seconds = Number(args[0]);
+			if (
+				!args[0] ||
+				!Number.isInteger(seconds) ||
+				seconds < 0 ||
+				seconds > MAX_SLOW_MODE_SECONDS
+			) {
+				return { success: false, error: "invalidDuration" };
+			}
 			return {
-				balance: parseFloat(parsed.balance) || 0,
-				currency: parsed.currency || "BFG",
-				isValid: true,
+				success: true,
+				command: { action, durationSeconds: seconds },
 			};
 		}
-
-		// Default mock balance for new users
-		const defaultBalance = {
-			balance: 1000,
-			currency: "BFG",
-			isValid: true,
-		};
-
-		// Save default balance
-		localStorage.setItem(
-			`userBalance_${username}`,
-			JSON.stringify(defaultBalance)
-		);
-		return defaultBalance;
-	} catch (error) {
-		console.error(`Error getting balance for ${username}:`, error);
-		return {
-			balance: 0,
-			currency: "BFG",
-			isValid: false,
-		};
+		case "delete":
+			if (!args[0]) return { success: false, error: "usage" };
+			return { success: true, command: { action, messageId: args[0] } };
+		case "pin":
+			return {
+				success: true,
+				command: { action, messageId: args[0] || undefined },
+			};
+		default:
+			return { success: false, error: "usage" };
 	}
 };
 
-// Enhanced balance update with error handling and validation
-export const updateUserBalance = (
-	username: string,
-	newBalance: number
-): boolean => {
-	try {
-		if (!username || isNaN(newBalance) || newBalance < 0) {
-			console.error("Invalid parameters for balance update");
-			return false;
-		}
-
-		// Check if we're on the client side
-		if (typeof window === "undefined") {
-			console.log(
-				`[SSR] Would update ${username} balance to ${newBalance}`
-			);
-			return true;
-		}
+// Filter commands based on input
+export const filterCommands = (input: string): SlashCommand[] => {
+	if (!input.startsWith("/")) return [];
 
-		const currentBalance = getUserBalance(username);
-		const updatedBalance = {
-			balance: newBalance,
-			currency: currentBalance.currency,
-			isValid: true,
-		};
+	const searchTerm = input.toLowerCase().trim();
 
-		// TODO: Replace with actual API call to backend
-		localStorage.setItem(
-			`userBalance_${username}`,
-			JSON.stringify(updatedBalance)
-		);
-		console.log(
-			`Updated ${username} balance to ${newBalance} ${currentBalance.currency}`
-		);
-		return true;
-	} catch (error) {
-		console.error(`Error updating balance for ${username}:`, error);
-		return false;
+	// If user just types "/", show all commands
+	if (searchTerm === "/") {
+		return SLASH_COMMANDS;
 	}
-};
 
-// Get all usernames from messages for targeting
-export const getAllUsernames = (messages: Message[]): string[] => {
-	const usernames = new Set<string>();
-	messages.forEach((message) => {
-		if (
-			message.username &&
-			message.username !== "You" &&
-			message.username !== "System"
-		) {
-			usernames.add(message.username);
-		}
-	});
-	return Array.from(usernames);
+	// Filter by partial matches
+	return SLASH_COMMANDS.filter((cmd) =>
+		cmd.name.toLowerCase().startsWith(searchTerm)
+	);
 };
 
-// Parse and validate rain command
+// Most users a "random" rain picks from the room
+export const RAIN_RANDOM_RECIPIENTS = 3;
+
+// Parse /rain into an intent; nothing is sent until the sender confirms it
 export const parseRainCommand = (
 	input: string,
 	senderUsername: string,
 	availableUsers: string[]
-): SlashCommandResult => {
-	// Remove the /rain prefix and trim
-	const commandParts = input.replace("/rain", "").trim().split(" ");
-
-	if (commandParts.length < 2) {
-		return {
-			success: false,
-			error: "Usage: /rain <amount> <target> (target can be @username, all, or random)",
-		};
-	}
+): ChatTipCommandResult => {
+	const [, amountStr, ...targetParts] = input.trim().split(/\s+/);
+	const target = targetParts.join(" ");
 
-	const amountStr = commandParts[0];
-	const target = commandParts.slice(1).join(" ");
-
-	// Validate amount
-	const amount = parseFloat(amountStr);
-	if (isNaN(amount) || amount <= 0) {
-		return {
-			success: false,
-			error: "Amount must be a positive number",
-		};
-	}
-
-	// Check user balance
-	const userBalance = getUserBalance(senderUsername);
-	if (!userBalance.isValid) {
-		return {
-			success: false,
-			error: "Unable to verify your balance. Please try again later.",
-		};
+	if (!amountStr || !target) {
+		return { success: false, error: "usage" };
 	}
 
-	if (amount > userBalance.balance) {
-		return {
-			success: false,
-			error: `Insufficient balance. You have ${userBalance.balance} ${userBalance.currency}`,
-		};
+	const amount = Number(amountStr);
+	if (!Number.isFinite(amount) || amount <= 0) {
+		return { success: false, error: "invalidAmount" };
 	}
 
-	// Determine recipients
-	let recipients: string[] = [];
-	// let targetDisplay = target;
+	const others = availableUsers.filter((user) => user !== senderUsername);
+	let recipients: string[];
 
 	if (target === "all") {
-		recipients = availableUsers.filter((user) => user !== senderUsername);
-		// targetDisplay = "everyone";
+		recipients = others;
 	} else if (target === "random") {
-		const availableForRandom = availableUsers.filter(
-			(user) => user !== senderUsername
-		);
-		const randomCount = Math.min(3, availableForRandom.length); // Random select up to 3 users
-		recipients = availableForRandom
+		recipients = [...others]
 			.sort(() => 0.5 - Math.random())
-			.slice(0, randomCount);
-		// targetDisplay = `${randomCount} random users`;
+			.slice(0, RAIN_RANDOM_RECIPIENTS);
 	} else if (target.startsWith("@")) {
 		const username = target.substring(1);
 		if (username === senderUsername) {
-			return {
-				success: false,
-				error: "You cannot rain on yourself!",
-			};
+			return { success: false, error: "cannotTargetSelf" };
 		}
 		if (!availableUsers.includes(username)) {
-			return {
-				success: false,
-				error: `User @${username} not found in chat`,
-			};
+			return { success: false, error: "userNotFound", username };
 		}
 		recipients = [username];
-		// targetDisplay = `@${username}`;
 	} else {
-		return {
-			success: false,
-			error: "Invalid target. Use @username, all, or random",
-		};
+		return { success: false, error: "invalidTarget" };
 	}
 
 	if (recipients.length === 0) {
-		return {
-			success: false,
-			error: "No valid recipients found",
-		};
-	}
-
-	// Calculate distribution
-	const distributedAmount = amount / recipients.length;
-
-	// Update sender balance
-	const newSenderBalance = userBalance.balance - amount;
-	const balanceUpdateSuccess = updateUserBalance(
-		senderUsername,
-		newSenderBalance
-	);
-
-	if (!balanceUpdateSuccess) {
-		return {
-			success: false,
-			error: "Failed to process transaction. Please try again.",
-		};
+		return { success: false, error: "noRecipients" };
 	}
 
-	// Update recipients' balances (in a real app)
-	recipients.forEach((recipient) => {
-		const recipientBalance = getUserBalance(recipient);
-		if (recipientBalance.isValid) {
-			updateUserBalance(
-				recipient,
-				recipientBalance.balance + distributedAmount
-			);
-		}
-	});
-
-	// Create rain message
-	const rainMessage: RainMessage = {
-		id: Date.now().toString(),
-		type: "rain",
-		userId: "current",
-		username: senderUsername,
-		avatar: "/your-avatar.png",
-		timestamp: new Date(),
-		country: "🌧️", // Rain emoji as country for system messages
-		ringColor: "ring-yellow-500",
-		isCurrentUser: true,
-		amount: amount,
-		currency: userBalance.currency,
-		target: target,
-		recipients: recipients,
-		distributedAmount: distributedAmount,
-	};
-
 	return {
 		success: true,
-		message: rainMessage,
+		intent: { kind: "rain", amount, target, recipients },
 	};
 };
 
-// Parse and validate tip command
+// Parse /tip into an intent; nothing is sent until the sender confirms it
 export const parseTipCommand = (
 	input: string,
 	senderUsername: string,
 	availableUsers: string[]
-): SlashCommandResult => {
-	// Remove /tip prefix and trim
-	const commandContent = input.replace("/tip", "").trim();
-
-	if (!commandContent) {
-		return {
-			success: false,
-			error: "Usage: /tip <amount> <username>",
-		};
-	}
-
-	const commandParts = commandContent.split(/\s+/);
-
-	if (commandParts.length < 2) {
-		return {
-			success: false,
-			error: "Usage: /tip <amount> <username>",
-		};
-	}
-
-	const amountStr = commandParts[0];
-	const targetUsername = commandParts[1].replace("@", ""); // Remove @ if present
-
-	// Validate amount
-	const amount = parseFloat(amountStr);
-	if (isNaN(amount) || amount <= 0) {
-		return {
-			success: false,
-			error: "Amount must be a positive number",
-		};
-	}
-
-	// Check if trying to tip themselves
-	if (targetUsername === senderUsername) {
-		return {
-			success: false,
-			error: "You cannot tip yourself!",
-		};
-	}
+): ChatTipCommandResult => {
+	const [, amountStr, targetStr] = input.trim().split(/\s+/);
 
-	// Check if user exists
-	if (!availableUsers.includes(targetUsername)) {
-		return {
-			success: false,
-			error: `User @${targetUsername} not found in chat`,
-		};
+	if (!amountStr || !targetStr) {
+		return { success: false, error: "usage" };
 	}
 
-	// Check sender balance
-	const userBalance = getUserBalance(senderUsername);
-	if (!userBalance.isValid) {
-		return {
-			success: false,
-			error: "Unable to verify your balance. Please try again later.",
-		};
+	const amount = Number(amountStr);
+	if (!Number.isFinite(amount) || amount <= 0) {
+		return { success: false, error: "invalidAmount" };
 	}
 
-	if (amount > userBalance.balance) {
-		return {
-			success: false,
-			error: `Insufficient balance. You have ${userBalance.balance} ${userBalance.currency}`,
-		};
+	const username = targetStr.replace(/^@/, "");
+	if (username === senderUsername) {
+		return { success: false, error: "cannotTargetSelf" };
 	}
-
-	// Update balances
-	const newSenderBalance = userBalance.balance - amount;
-	const senderUpdateSuccess = updateUserBalance(
-		senderUsername,
-		newSenderBalance
-	);
-
-	if (!senderUpdateSuccess) {
-		return {
-			success: false,
-			error: "Failed to process transaction. Please try again.",
-		};
-	}
-
-	const recipientBalance = getUserBalance(targetUsername);
-	if (!recipientBalance.isValid) {
-		// Rollback sender balance
-		updateUserBalance(senderUsername, userBalance.balance);
-		return {
-			success: false,
-			error: "Unable to verify recipient balance. Transaction cancelled.",
-		};
-	}
-
-	const recipientUpdateSuccess = updateUserBalance(
-		targetUsername,
-		recipientBalance.balance + amount
-	);
-
-	if (!recipientUpdateSuccess) {
-		// Rollback sender balance
-		updateUserBalance(senderUsername, userBalance.balance);
-		return {
-			success: false,
-			error: "Failed to complete transaction. Please try again.",
-		};
+	if (!availableUsers.includes(username)) {
+		return { success: false, error: "userNotFound", username };
 	}
 
-	// Create tip system message (we'll use SystemMessage for tips)
-	const tipMessage: SystemMessage = {
-		id: Date.now().toString(),
-		type: "system",
-		userId: "system",
-		username: "System",
-		avatar: "/system-avatar.png",
-		timestamp: new Date(),
-		country: "💰",
-		ringColor: "ring-green-500",
-		content: `💰 @${senderUsername} tipped ${amount} ${userBalance.currency} to @${targetUsername}!`,
-		systemType: "tip",
-		relatedData: {
-			sender: senderUsername,
-			recipient: targetUsername,
-			amount: amount,
-			currency: userBalance.currency,
-		},
-	};
-
 	return {
 		success: true,
-		message: tipMessage,
+		intent: {
+			kind: "tip",
+			amount,
+			target: `@${username}`,
+			recipients: [username],
+		},
 	};
 };
 
 // Create system message for rain announcement
 export const createRainSystemMessage = (
-	rainMessage: RainMessage
+	rainMessage: RainMessage,
+	content: string
 ): SystemMessage => {
-	const recipientsText =
-		rainMessage.recipients.length === 1
-			? `@${rainMessage.recipients[0]}`
-			: rainMessage.target === "all"
-			? "everyone"
-			: `${rainMessage.recipients.length} users`;
-
 	return {
-		id: (Date.now() + 1).toString(),
+		id: `${rainMessage.id}_announcement`,
 		type: "system",
 		userId: "system",
 		username: "System",
@@ -459,11 +261,7 @@ export const createRainSystemMessage = (
 		timestamp: new Date(),
 		country: "💸",
 		ringColor: "ring-green-500",
-		content: `💸 @${rainMessage.username} rained ${rainMessage.amount} ${
-			rainMessage.currency
-		} on ${recipientsText}! (${rainMessage.distributedAmount.toFixed(
-			2
-		)} each)`,
+		content: `💸 ${content}`,
 		systemType: "rain",
 		relatedData: {
 			animation: true,
@@ -474,6 +272,32 @@ export const createRainSystemMessage = (
 	};
 };
 
+// Create system message for a tip the server has confirmed
+export const createTipSystemMessage = (
+	content: string,
+	relatedData: {
+		sender: string;
+		recipient: string;
+		amount: number;
+		currency: string;
+		txHash: string;
+	}
+): SystemMessage => {
+	return {
+		id: `tip_${relatedData.txHash}`,
+		type: "system",
+		userId: "system",
+		username: "System",
+		avatar: "/system-avatar.png",
+		timestamp: new Date(),
+		country: "💰",
+		ringColor: "ring-green-500",
+		content: `💰 ${content}`,
+		systemType: "tip",
+		relatedData,
+	};
+};
+
 // Create error system message
 export const createErrorSystemMessage = (error: string): SystemMessage => {
 	return {
@@ -489,3 +313,21 @@ export const createErrorSystemMessage = (error: string): SystemMessage => {
 		systemType: "error",
 	};
 };
+
+// Create system message announcing a moderation action
+export const createModerationSystemMessage = (
+	content: string
+): SystemMessage => {
+	return {
+		id: `moderation_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+		type: "system",
+		userId: "system",
+		username: "System",
+		avatar: "/system-avatar.png",
+		timestamp: new Date(),
+		country: "🛡️",
+		ringColor: "ring-purple-500",
+		content: `🛡️ ${content}`,
+		systemType: "info",
+	};
+};
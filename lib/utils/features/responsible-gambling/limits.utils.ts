@@ -0,0 +1,158 @@
+import {
+	LimitCheckResult,
+	LimitPeriod,
+	LimitType,
+	LimitUsage,
+	PendingLimitChange,
+	ResponsibleGamblingLimits,
+	SpendLimitType,
+} from "@/types/responsible-gambling/limits.types";
+
+// --- CONSTANTS ---
+export const LIMIT_PERIODS: LimitPeriod[] = ["daily", "weekly", "monthly"];
+export const SPEND_LIMIT_TYPES: SpendLimitType[] = ["deposit", "loss", "wager"];
+
+/** Share of a cap at which actions start showing a warning. */
+export const LIMIT_WARNING_RATIO = 0.8;
+
+const VERDICT_SEVERITY: Record<LimitCheckResult["verdict"], number> = {
+	ok: 0,
+	warn: 1,
+	block: 2,
+};
+
+// --- MODEL HELPERS ---
+const createEmptyAmounts = () => ({
+	daily: null,
+	weekly: null,
+	monthly: null,
+});
+
+export const createDefaultLimits = (): ResponsibleGamblingLimits => ({
+	spend: {
+		deposit: createEmptyAmounts(),
+		loss: createEmptyAmounts(),
+		wager: createEmptyAmounts(),
+	},
+	sessionMinutes: null,
+	pending: [],
+	updatedAt: null,
+});
+
+export const createEmptyUsage = (): LimitUsage => ({
+	deposit: { daily: 0, weekly: 0, monthly: 0 },
+	loss: { daily: 0, weekly: 0, monthly: 0 },
+	wager: { daily: 0, weekly: 0, monthly: 0 },
+});
+
+/**
+ * Reads the current value of a limit from the model.
+ */
+export const getLimitValue = (
+	limits: ResponsibleGamblingLimits,
+	type: LimitType,
+	period?: LimitPeriod
+): number | null => {
+	if (type === "session") return limits.sessionMinutes;
+	return period ? limits.spend[type][period] : null;
+};
+
+export const isSamePendingTarget = (
+	change: PendingLimitChange,
+	type: LimitType,
+	period?: LimitPeriod
+) => change.type === type && change.period === period;
+
+// --- PERIOD WINDOWS ---
+/**
+ * The start of the current window for a period, in local time.
+ * Weeks start on Monday.
+ */
+export const getPeriodStart = (
+	period: LimitPeriod,
+	now: Date = new Date()
+): Date => {
+	const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+	if (period === "weekly") {
+		const daysSinceMonday = (start.getDay() + 6) % 7;
+		start.setDate(start.getDate() - daysSinceMonday);
+	} else if (period === "monthly") {
+		start.setDate(1);
+	}
+	return start;
+};
+
+/**
+ * Formats a date as YYYY-MM-DD using local time (the format the history
+ * endpoints expect).
+ */
+export const toApiDate = (date: Date) => {
+	const month = String(date.getMonth() + 1).padStart(2, "0");
+	const day = String(date.getDate()).padStart(2, "0");
+	return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// --- CHECKS ---
+const pickWorst = (results: LimitCheckResult[]): LimitCheckResult =>
+	results.reduce<LimitCheckResult>(
+		(worst, result) =>
+			VERDICT_SEVERITY[result.verdict] > VERDICT_SEVERITY[worst.verdict]
+				? result
+				: worst,
+		{ verdict: "ok" }
+	);
+
+/**
+ * Checks whether spending `amount` more would breach any period of a spend
+ * limit. Pass `amount = 0` to check whether a limit has already been reached
+ * (e.g. before launching a game).
+ */
+export const checkSpendLimit = (
+	limits: ResponsibleGamblingLimits,
+	usage: LimitUsage,
+	type: SpendLimitType,
+	amount: number
+): LimitCheckResult =>
+	pickWorst(
+		LIMIT_PERIODS.map((period) => {
+			const limit = limits.spend[type][period];
+			if (limit === null) return { verdict: "ok" };
+
+			const used = usage[type][period];
+			const projected = used + Math.max(0, amount);
+			const remaining = Math.max(0, limit - used);
+			const reached = amount > 0 ? projected > limit : used >= limit;
+
+			let verdict: LimitCheckResult["verdict"] = "ok";
+			if (reached) verdict = "block";
+			else if (projected >= limit * LIMIT_WARNING_RATIO) verdict = "warn";
+
+			return { verdict, type, period, limit, used, remaining };
+		})
+	);
+
+/**
+ * Checks the current session length against the session limit.
+ */
+export const checkSessionLimit = (
+	limits: ResponsibleGamblingLimits,
+	sessionStartedAt: number | null,
+	now: number = Date.now()
+): LimitCheckResult => {
+	const limit = limits.sessionMinutes;
+	if (limit === null || sessionStartedAt === null) return { verdict: "ok" };
+
+	const used = Math.floor((now - sessionStartedAt) / 60000);
+	const remaining = Math.max(0, limit - used);
+	let verdict: LimitCheckResult["verdict"] = "ok";
+	if (used >= limit) verdict = "block";
+	else if (used >= limit * LIMIT_WARNING_RATIO) verdict = "warn";
+
+	return { verdict, type: "session", limit, used, remaining };
+};
+
+/**
+ * Combines several checks, keeping the most severe one.
+ */
+export const combineLimitChecks = (...results: LimitCheckResult[]) =>
+	pickWorst(results);
@@ -0,0 +1,64 @@
+import {
+	GameSessionMode,
+	PlaySessionTotals,
+	RealityCheckSettings,
+} from "@/types/responsible-gambling/reality-check.types";
+
+// --- CONSTANTS ---
+export const REALITY_CHECK_INTERVALS = [15, 30, 45, 60];
+
+export const DEFAULT_REALITY_CHECK_SETTINGS: RealityCheckSettings = {
+	enabled: true,
+	intervalMinutes: 30,
+};
+
+/** Oldest acknowledgements are dropped past this many entries. */
+export const MAX_REALITY_CHECK_LOG = 100;
+
+/** How often session totals are re-read from bet history. */
+export const SESSION_TOTALS_POLL_MS = 60 * 1000;
+
+// Vendors whose games refuse to load inside an iframe, comma separated
+const FRAME_BLOCKED_VENDORS = (process.env.NEXT_PUBLIC_NO_FRAME_VENDORS || "")
+	.split(",")
+	.map((vendor) => vendor.trim().toLowerCase())
+	.filter(Boolean);
+
+// --- HELPERS ---
+export const getDefaultSessionMode = (vendor: string): GameSessionMode =>
+	FRAME_BLOCKED_VENDORS.includes(vendor.toLowerCase())
+		? "companion"
+		: "frame";
+
+export const createEmptySessionTotals = (): PlaySessionTotals => ({
+	wagered: 0,
+	net: 0,
+});
+
+/**
+ * Session totals are the difference between the current bet-history totals
+ * and the totals captured when the session started.
+ */
+export const getSessionDelta = (
+	baseline: PlaySessionTotals,
+	current: PlaySessionTotals
+): PlaySessionTotals => ({
+	wagered: Math.max(0, current.wagered - baseline.wagered),
+	net: current.net - baseline.net,
+});
+
+/**
+ * Formats a duration as HH:MM:SS.
+ */
+export const formatSessionDuration = (ms: number) => {
+	const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+	return [hours, minutes, seconds]
+		.map((part) => part.toString().padStart(2, "0"))
+		.join(":");
+};
+
+export const formatSignedUsd = (value: number) =>
+	`${value < 0 ? "-" : value > 0 ? "+" : ""}$${Math.abs(value).toFixed(2)}`;
@@ -0,0 +1,132 @@
+import {
+	SelfExclusion,
+	SelfExclusionDuration,
+} from "@/types/responsible-gambling/self-exclusion.types";
+
+// --- CONSTANTS ---
+// Kept free of browser APIs so middleware can import them
+export const SELF_EXCLUSION_PATH = "/self-exclusion";
+
+/** Mirrors the stored exclusion so middleware can enforce it. */
+export const SELF_EXCLUSION_COOKIE = "rg_exclusion_until";
+
+/** localStorage key holding the exclusion; other tabs watch it. */
+export const SELF_EXCLUSION_STORAGE_KEY = "rg_self_exclusion";
+
+/** Cookie value used for exclusions that never end. */
+export const PERMANENT_EXCLUSION_VALUE = "permanent";
+
+/**
+ * Routes closed while excluded: game launchers and the in-house dice game,
+ * plus the lobby because it embeds the deposit, swap and tip panels.
+ */
+export const EXCLUDED_ROUTE_PREFIXES = [
+	"/play",
+	"/getLobby",
+	"/lobby",
+	"/dice",
+];
+
+export const SELF_EXCLUSION_DURATIONS: SelfExclusionDuration[] = [
+	"24h",
+	"7d",
+	"30d",
+	"6m",
+	"permanent",
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// --- HELPERS ---
+/**
+ * Works out when an exclusion started at `startedAt` ends.
+ * Months are calendar months rather than a fixed number of days.
+ */
+export const getExclusionEnd = (
+	duration: SelfExclusionDuration,
+	startedAt: number
+): number | null => {
+	switch (duration) {
+		case "24h":
+			return startedAt + DAY_MS;
+		case "7d":
+			return startedAt + 7 * DAY_MS;
+		case "30d":
+			return startedAt + 30 * DAY_MS;
+		case "6m": {
+			const end = new Date(startedAt);
+			end.setMonth(end.getMonth() + 6);
+			return end.getTime();
+		}
+		case "permanent":
+			return null;
+	}
+};
+
+export const createSelfExclusion = (
+	duration: SelfExclusionDuration,
+	username: string | null,
+	now: number = Date.now()
+): SelfExclusion => ({
+	duration,
+	startedAt: now,
+	endsAt: getExclusionEnd(duration, now),
+	username,
+});
+
+export const isSelfExclusionActive = (
+	exclusion: SelfExclusion | null,
+	now: number = Date.now()
+): exclusion is SelfExclusion =>
+	!!exclusion && (exclusion.endsAt === null || exclusion.endsAt > now);
+
+/**
+ * Whether a device copy applies to the logged-in user. One started by another
+ * account on a shared browser is ignored while someone is logged in; logged
+ * out, or when it was started without an account, it locks the device.
+ */
+export const isExclusionForUser = (
+	exclusion: SelfExclusion | null,
+	username: string | undefined
+) => !exclusion?.username || !username || exclusion.username === username;
+
+/**
+ * Of two exclusions, the one that runs longest. Used to merge the account's
+ * exclusion with the device copy so neither can shorten the other.
+ */
+export const getLongerExclusion = (
+	a: SelfExclusion | null,
+	b: SelfExclusion | null,
+	now: number = Date.now()
+): SelfExclusion | null => {
+	if (!isSelfExclusionActive(a, now)) {
+		return isSelfExclusionActive(b, now) ? b : null;
+	}
+	if (!isSelfExclusionActive(b, now) || a.endsAt === null) return a;
+	if (b.endsAt === null) return b;
+	return b.endsAt > a.endsAt ? b : a;
+};
+
+/**
+ * Reads the exclusion cookie value. Returns true while it is still active.
+ */
+export const isExclusionCookieActive = (
+	value: string | undefined,
+	now: number = Date.now()
+) => {
+	if (!value) return false;
+	if (value === PERMANENT_EXCLUSION_VALUE) return true;
+	const endsAt = Number(value);
+	return Number.isFinite(endsAt) && endsAt > now;
+};
+
+export const toExclusionCookieValue = (exclusion: SelfExclusion) =>
+	exclusion.endsAt === null
+		? PERMANENT_EXCLUSION_VALUE
+		: String(exclusion.endsAt);
+
+export const isExcludedPath = (pathname: string) =>
+	EXCLUDED_ROUTE_PREFIXES.some(
+		(prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+	);
@@ -0,0 +1,148 @@
+import {
+	DiceDirection,
+	DiceRollBreakdown,
+	DiceVerificationInput,
+	DiceVerificationResult,
+} from "@/types/games/dice.types";
+
+// --- CONSTANTS ---
+
+/** Rolls land on 0.00 – 100.00 in steps of 0.01. */
+export const DICE_ROLL_STEPS = 10001;
+
+/** House edge in percent, taken off the fair payout. */
+export const DICE_HOUSE_EDGE = 1;
+
+export const DICE_MIN_TARGET = 2;
+export const DICE_MAX_TARGET = 98;
+
+/** Only the first HMAC bytes are needed for one roll. */
+const BYTES_PER_ROLL = 4;
+
+const encoder = new TextEncoder();
+
+// --- HASHING ---
+
+const toHex = (buffer: ArrayBuffer) =>
+	Array.from(new Uint8Array(buffer))
+		.map((byte) => byte.toString(16).padStart(2, "0"))
+		.join("");
+
+export const sha256Hex = async (value: string) =>
+	toHex(await crypto.subtle.digest("SHA-256", encoder.encode(value)));
+
+export const hmacSha256Hex = async (key: string, message: string) => {
+	const cryptoKey = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(key),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"]
+	);
+	return toHex(
+		await crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(message))
+	);
+};
+
+/**
+ * A fresh random client seed, used as the default and by the "randomise"
+ * button in the seed settings.
+ */
+export const generateClientSeed = () => {
+	const bytes = crypto.getRandomValues(new Uint8Array(16));
+	return toHex(bytes.buffer);
+};
+
+// --- ROLL DERIVATION ---
+
+/**
+ * Recomputes a dice roll from its seeds, keeping every intermediate value so
+ * the verifier can show how the result was reached.
+ *
+ * 1. message = `${clientSeed}:${nonce}:0`
+ * 2. hmac = HMAC-SHA256(serverSeed, message)
+ * 3. float = Σ byte[i] / 256^(i + 1) over the first four bytes
+ * 4. roll = floor(float × 10001) / 100
+ *
+ * @example
+ * const { roll } = await computeDiceRoll("server", "client", 0);
+ */
+export const computeDiceRoll = async (
+	serverSeed: string,
+	clientSeed: string,
+	nonce: number
+): Promise<DiceRollBreakdown> => {
+	const message = `${clientSeed}:${nonce}:0`;
+	const hmac = await hmacSha256Hex(serverSeed, message);
+
+	const bytes = Array.from({ length: BYTES_PER_ROLL }, (_, index) => {
+		const hex = hmac.slice(index * 2, index * 2 + 2);
+		const value = parseInt(hex, 16);
+		return { hex, value, contribution: value / 256 ** (index + 1) };
+	});
+	const float = bytes.reduce((sum, byte) => sum + byte.contribution, 0);
+	const roll = Math.floor(float * DICE_ROLL_STEPS) / 100;
+
+	return { message, hmac, bytes, float, roll };
+};
+
+/**
+ * Checks that the revealed server seed matches the hash committed before
+ * play and recomputes the roll for the given client seed and nonce.
+ */
+export const verifyDiceRound = async ({
+	serverSeedHash,
+	serverSeed,
+	clientSeed,
+	nonce,
+}: DiceVerificationInput): Promise<DiceVerificationResult> => {
+	const computedHash = await sha256Hex(serverSeed);
+	const breakdown = await computeDiceRoll(serverSeed, clientSeed, nonce);
+	return {
+		computedHash,
+		hashMatches: computedHash === serverSeedHash.trim().toLowerCase(),
+		breakdown,
+	};
+};
+
+// --- BET MATHS ---
+
+export const getWinChance = (target: number, direction: DiceDirection) =>
+	direction === "under" ? target : 100 - target;
+
+export const getPayoutMultiplier = (winChance: number) =>
+	winChance > 0
+		? Math.floor(((100 - DICE_HOUSE_EDGE) / winChance) * 10000) / 10000
+		: 0;
+
+export const isWinningRoll = (
+	roll: number,
+	target: number,
+	direction: DiceDirection
+) => (direction === "under" ? roll < target : roll > target);
+
+export const clampDiceTarget = (target: number) =>
+	Math.min(DICE_MAX_TARGET, Math.max(DICE_MIN_TARGET, target));
+
+// --- LINKS ---
+
+export const FAIRNESS_PATH = "/fairness";
+
+/**
+ * Deep link into the verifier with the round's inputs filled in. The server
+ * seed is only known once the pair has been rotated.
+ */
+export const buildFairnessUrl = ({
+	serverSeedHash,
+	serverSeed,
+	clientSeed,
+	nonce,
+}: Omit<DiceVerificationInput, "serverSeed"> & { serverSeed?: string }) => {
+	const params = new URLSearchParams({
+		hash: serverSeedHash,
+		clientSeed,
+		nonce: String(nonce),
+	});
+	if (serverSeed) params.set("serverSeed", serverSeed);
+	return `${FAIRNESS_PATH}?${params.toString()}`;
+};
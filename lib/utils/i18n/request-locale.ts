@@ -0,0 +1,18 @@
+import { cookies, headers } from "next/headers";
+import { defaultLocale, Locale, locales } from "@/lib/i18n";
+
+export const isLocale = (value: unknown): value is Locale =>
+	typeof value === "string" && locales.includes(value as Locale);
+
+/**
+ * Locale of the current request on the server.
+ * The middleware forwards a URL prefix as `x-locale`; otherwise the last
+ * language the visitor picked is read from the NEXT_LOCALE cookie.
+ */
+export async function getRequestLocale(): Promise<Locale> {
+	const headerLocale = (await headers()).get("x-locale");
+	if (isLocale(headerLocale)) return headerLocale;
+
+	const cookieLocale = (await cookies()).get("NEXT_LOCALE")?.value;
+	return isLocale(cookieLocale) ? cookieLocale : defaultLocale;
+}
@@ -173,11 +173,12 @@ const languageToHreflang: Record<string, string> = {
 
 /**
  * Generate hreflang tags for all available languages
- * Based on Dictionary files
+ * Based on Dictionary files, or only `languages` when a page exists in fewer
  */
 export function generateHrefLangTags(
 	path: string,
-	passedConfig?: SEOConfig
+	passedConfig?: SEOConfig,
+	languages?: string[]
 ): Array<{ hreflang: string; href: string }> {
 	const config = passedConfig || getSEOConfig();
 	const tags: Array<{ hreflang: string; href: string }> = [];
@@ -186,7 +187,7 @@ export function generateHrefLangTags(
 	const cleanPath = path.replace(/^\/[a-z]{2}(\/|$)/, "/");
 
 	// Get all available languages
-	const availableLanguages = getAllLanguages();
+	const availableLanguages = languages || getAllLanguages();
 
 	// Generate hreflang tag for each language
 	availableLanguages.forEach((langCode) => {
@@ -235,3 +236,21 @@ export function isLanguageCode(code: string): boolean {
 }
 
 export default getSEOConfig;
+
+/**
+ * Build Next.js `alternates.languages` for a path
+ * Includes x-default so crawlers know which version to serve otherwise
+ */
+export function generateAlternateLanguages(
+	path: string,
+	languages: string[],
+	passedConfig?: SEOConfig
+): Record<string, string> {
+	return generateHrefLangTags(path, passedConfig, languages).reduce(
+		(acc, tag) => {
+			acc[tag.hreflang] = tag.href;
+			return acc;
+		},
+		{} as Record<string, string>
+	);
+}
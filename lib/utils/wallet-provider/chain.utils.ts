@@ -0,0 +1,70 @@
+import {
+	CHAINS,
+	DEFAULT_CHAIN_ID,
+	DEFAULT_GAS_RESERVE,
+} from "@/constants/blockchain/chains.constants";
+import { safeLocalStorage } from "@/lib/utils/safe-storage";
+import { ChainConfig } from "@/types/blockchain/chain.types";
+
+// Written by the network slice whenever the wallet switches chains
+const STORED_CHAIN_ID_KEY = "app_chainId";
+
+const chainsById = new Map(CHAINS.map((chain) => [chain.chainId, chain]));
+
+const getChain = (chainId?: number | string | null): ChainConfig | null =>
+	chainsById.get(Number(chainId)) || null;
+
+const isSupportedChain = (chainId?: number | string | null) =>
+	chainsById.has(Number(chainId));
+
+const getChainName = (chainId?: number | string | null) =>
+	getChain(chainId)?.name || `Chain ${chainId}`;
+
+const getGasReserve = (chainId?: number | string | null) =>
+	getChain(chainId)?.gasReserve ?? DEFAULT_GAS_RESERVE;
+
+/**
+ * Whether a deposit in this token is credited directly instead of being
+ * swapped first. Unknown networks fall back to the default chain's list.
+ */
+const isDirectDepositToken = (
+	chainId: number | string | null | undefined,
+	symbol: string
+) => {
+	const chain = getChain(chainId) || getChain(DEFAULT_CHAIN_ID) || CHAINS[0];
+	return chain.depositTokens.includes(symbol);
+};
+
+/**
+ * Picks the network for API calls: the one passed in, else the last one the
+ * wallet was on, else the deployment default.
+ */
+const resolveChainId = (chainId?: number | null): number | null => {
+	if (chainId) return chainId;
+	const stored = Number(safeLocalStorage.getItem(STORED_CHAIN_ID_KEY));
+	return stored || DEFAULT_CHAIN_ID;
+};
+
+const getExplorerTxUrl = (chainId: number | string | null, hash: string) => {
+	const chain = getChain(chainId);
+	return chain && hash ? `${chain.explorerUrl}/tx/${hash}` : null;
+};
+
+const getExplorerAddressUrl = (
+	chainId: number | string | null,
+	address: string
+) => {
+	const chain = getChain(chainId);
+	return chain && address ? `${chain.explorerUrl}/address/${address}` : null;
+};
+
+export {
+	getChain,
+	isSupportedChain,
+	getChainName,
+	getGasReserve,
+	isDirectDepositToken,
+	resolveChainId,
+	getExplorerTxUrl,
+	getExplorerAddressUrl,
+};
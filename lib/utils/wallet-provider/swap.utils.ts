@@ -0,0 +1,76 @@
+import {
+	AUTO_SLIPPAGE,
+	AUTO_SLIPPAGE_PERCENT,
+	MAX_SLIPPAGE_PERCENT,
+	MIN_SLIPPAGE_PERCENT,
+	PRICE_IMPACT_BLOCKING_PERCENT,
+	PRICE_IMPACT_WARNING_PERCENT,
+} from "@/constants/blockchain/swap.constants";
+import { PriceImpactLevel } from "@/types/walletProvider/swap-hooks.types";
+
+const isValidSlippage = (value: string) => {
+	const percent = parseFloat(value);
+	return (
+		!isNaN(percent) &&
+		percent >= MIN_SLIPPAGE_PERCENT &&
+		percent <= MAX_SLIPPAGE_PERCENT
+	);
+};
+
+// "Auto" and anything out of bounds fall back to the automatic tolerance
+const resolveSlippage = (slippage: string): number =>
+	slippage !== AUTO_SLIPPAGE && isValidSlippage(slippage)
+		? parseFloat(slippage)
+		: AUTO_SLIPPAGE_PERCENT;
+
+/**
+ * The least the player accepts from the swap, rounded down to the token's
+ * decimals so the router never receives a bound it cannot meet exactly.
+ */
+const getMinimumReceived = (
+	receivedAmount: string,
+	slippage: string,
+	decimals = 18
+): string => {
+	const amount = parseFloat(receivedAmount);
+	if (isNaN(amount) || amount <= 0) return "0";
+
+	const minimum = amount * (1 - resolveSlippage(slippage) / 100);
+	const precision = Math.min(decimals, 8);
+	const factor = 10 ** precision;
+	return (Math.floor(minimum * factor) / factor).toFixed(precision);
+};
+
+/**
+ * Percentage of USD value lost between what is paid and what is received,
+ * using the token prices rather than the quote's own rate. Returns null when
+ * either price is unknown.
+ */
+const calculatePriceImpact = (
+	exchangeAmount: string,
+	receivedAmount: string,
+	fromUsdPrice: string,
+	toUsdPrice: string
+): number | null => {
+	const valueIn = parseFloat(exchangeAmount) * parseFloat(fromUsdPrice);
+	const valueOut = parseFloat(receivedAmount) * parseFloat(toUsdPrice);
+	if (!(valueIn > 0) || isNaN(valueOut)) return null;
+
+	// A quote better than the market price counts as no impact
+	return Math.max(0, ((valueIn - valueOut) / valueIn) * 100);
+};
+
+const getPriceImpactLevel = (priceImpact: number | null): PriceImpactLevel => {
+	if (priceImpact === null || priceImpact < PRICE_IMPACT_WARNING_PERCENT)
+		return "low";
+	if (priceImpact < PRICE_IMPACT_BLOCKING_PERCENT) return "medium";
+	return "high";
+};
+
+export {
+	isValidSlippage,
+	resolveSlippage,
+	getMinimumReceived,
+	calculatePriceImpact,
+	getPriceImpactLevel,
+};
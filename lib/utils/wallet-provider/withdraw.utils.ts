@@ -0,0 +1,154 @@
+import {
+	JsonRpcProvider,
+	formatUnits,
+	getAddress,
+	isAddress,
+	parseUnits,
+} from "ethers";
+import {
+	ADDRESS_COOLDOWN_HOURS,
+	ENS_CHAIN_ID,
+} from "@/constants/blockchain/withdraw.constants";
+import { getChain } from "@/lib/utils/wallet-provider/chain.utils";
+import {
+	WithdrawAddressEntry,
+	WithdrawFeeBreakdown,
+	WithdrawFeeData,
+	WithdrawFeeTier,
+} from "@/types/walletProvider/transaction-service.types";
+
+// Percentages are applied with four decimal places, e.g. "0.125" -> 1250
+const PERCENT_DECIMALS = 4;
+const PERCENT_SCALE = BigInt(100 * 10 ** PERCENT_DECIMALS);
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+// Parses a decimal string into base units, truncating digits the token
+// cannot represent. Anything unparseable counts as zero.
+const toUnits = (value: string, decimals: number): bigint => {
+	const [whole = "0", fraction = ""] = String(value ?? "")
+		.trim()
+		.split(".");
+	if (!/^\d*$/.test(whole) || !/^\d*$/.test(fraction)) return ZERO;
+	try {
+		return parseUnits(
+			`${whole || "0"}.${fraction.slice(0, decimals) || "0"}`,
+			decimals
+		);
+	} catch {
+		return ZERO;
+	}
+};
+
+// The highest tier the amount reaches, or the base rates below every tier
+const getFeeRates = (
+	amountUnits: bigint,
+	schedule: WithdrawFeeData,
+	decimals: number
+) => {
+	const tier = (schedule.tiers ?? []).reduce<WithdrawFeeTier | undefined>(
+		(best, tier) => {
+			const minUnits = toUnits(tier.min_amount, decimals);
+			if (amountUnits < minUnits) return best;
+			return !best || minUnits > toUnits(best.min_amount, decimals)
+				? tier
+				: best;
+		},
+		undefined
+	);
+	return {
+		flatFee: tier?.flat_fee ?? schedule.flat_fee,
+		percentFee: tier?.percent_fee ?? schedule.percent_fee,
+	};
+};
+
+/**
+ * Applies a withdrawal fee schedule the same way the backend does for
+ * /api/preWithdraw: in the token's base units, with the percentage part
+ * rounded up, so the previewed payout is the payout sent on-chain.
+ */
+const calculateWithdrawFee = (
+	amount: string,
+	schedule: WithdrawFeeData,
+	decimals: number
+): WithdrawFeeBreakdown => {
+	const amountUnits = toUnits(amount, decimals);
+	const rates = getFeeRates(amountUnits, schedule, decimals);
+
+	const flatUnits = toUnits(rates.flatFee, decimals);
+	const percentRate = toUnits(rates.percentFee, PERCENT_DECIMALS);
+	const percentUnits =
+		(amountUnits * percentRate + PERCENT_SCALE - ONE) / PERCENT_SCALE;
+	const gasUnits = toUnits(schedule.gas_fee, decimals);
+
+	const totalUnits = flatUnits + percentUnits + gasUnits;
+	const payoutUnits =
+		amountUnits > totalUnits ? amountUnits - totalUnits : ZERO;
+
+	return {
+		flatFee: formatUnits(flatUnits, decimals),
+		percentFee: formatUnits(percentUnits, decimals),
+		gasFee: formatUnits(gasUnits, decimals),
+		totalFee: formatUnits(totalUnits, decimals),
+		payout: formatUnits(payoutUnits, decimals),
+		feePercent: formatUnits(percentRate, PERCENT_DECIMALS),
+	};
+};
+
+// Compares a previewed amount with one returned by the backend, unit for unit
+const isSameAmount = (a: string, b: string, decimals: number) =>
+	toUnits(a, decimals) === toUnits(b, decimals);
+
+// Display form of a fee or payout: cut (never rounded) to six decimals, without
+// trailing zeros, so a shown payout is never more than the one received
+const formatFeeAmount = (value: string) => {
+	const [whole, fraction = ""] = value.split(".");
+	const shown = fraction.slice(0, 6).replace(/0+$/, "");
+	return shown ? `${whole}.${shown}` : whole;
+};
+
+// Accepts lowercase addresses and correctly checksummed mixed-case ones, so a
+// mistyped character in a checksummed address is caught
+const isValidWithdrawAddress = (address: string) => isAddress(address.trim());
+
+const isEnsName = (value: string) =>
+	/^[^\s.]+(\.[^\s.]+)*\.eth$/i.test(value.trim());
+
+/**
+ * Resolves an ENS name to its checksummed address, or null when the name has
+ * no address set.
+ */
+const resolveEnsName = async (name: string): Promise<string | null> => {
+	const chain = getChain(ENS_CHAIN_ID);
+	if (!chain) return null;
+	const provider = new JsonRpcProvider(chain.rpcUrl, ENS_CHAIN_ID);
+	const address = await provider.resolveName(name.trim());
+	return address ? getAddress(address) : null;
+};
+
+// When a saved address may first receive a withdrawal, in ms since the epoch
+const getAddressAvailableAt = (entry: WithdrawAddressEntry) =>
+	new Date(entry.created_at).getTime() +
+	ADDRESS_COOLDOWN_HOURS * 60 * 60 * 1000;
+
+const isAddressCoolingDown = (entry: WithdrawAddressEntry, now = Date.now()) =>
+	getAddressAvailableAt(entry) > now;
+
+const isSameAddress = (a: string, b: string) =>
+	a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const shortenAddress = (address: string) =>
+	`${address.slice(0, 6)}...${address.slice(-4)}`;
+
+export {
+	calculateWithdrawFee,
+	isSameAmount,
+	formatFeeAmount,
+	isValidWithdrawAddress,
+	isEnsName,
+	resolveEnsName,
+	getAddressAvailableAt,
+	isAddressCoolingDown,
+	isSameAddress,
+	shortenAddress,
+};
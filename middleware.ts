@@ -1,9 +1,25 @@
 import { NextResponse } from "next/server";
-import type { NextRequest } from "next/server";
+import type { NextFetchEvent, NextRequest } from "next/server";
 import { locales } from "@/lib/i18n";
 import { decrypt } from "@/modules/auth/lib/auth";
-
-export async function middleware(request: NextRequest) {
+import {
+  getRouteCapability,
+  hasCapability,
+  normalizeRole,
+} from "@/modules/auth/lib/permissions";
+import {
+  SELF_EXCLUSION_COOKIE,
+  SELF_EXCLUSION_PATH,
+  isExcludedPath,
+  isExclusionCookieActive,
+} from "@/lib/utils/features/responsible-gambling/self-exclusion.utils";
+import { matchRedirect } from "@/modules/redirects/lib/rules";
+import {
+  getCachedRedirectRules,
+  reportRedirectHit,
+} from "@/modules/redirects/lib/cache";
+
+export async function middleware(request: NextRequest, event: NextFetchEvent) {
   const pathname = request.nextUrl.pathname;
 
   // Protect admin routes
@@ -14,14 +30,38 @@ export async function middleware(request: NextRequest) {
       return NextResponse.redirect(new URL('/admin/login', request.url));
     }
 
+    let session;
     try {
-      const session = await decrypt(sessionCookie);
-      if (!session || !session.id) {
-        return NextResponse.redirect(new URL('/admin/login', request.url));
-      }
+      session = await decrypt(sessionCookie);
     } catch {
+      session = null;
+    }
+    if (!session || !session.id || !normalizeRole(session.role)) {
       return NextResponse.redirect(new URL('/admin/login', request.url));
     }
+
+    // Sections the role can't use fall back to the dashboard
+    const capability = getRouteCapability(pathname);
+    if (capability && !hasCapability(session.role, capability)) {
+      return NextResponse.redirect(new URL('/admin', request.url));
+    }
+  }
+
+  // Keep self-excluded players away from game launch routes. The cookie only
+  // saves a round trip: the backend refuses launches for excluded accounts and
+  // the client re-applies the account's exclusion after every login.
+  const exclusionCookie = request.cookies.get(SELF_EXCLUSION_COOKIE)?.value;
+  if (isExclusionCookieActive(exclusionCookie)) {
+    const localePrefix = locales.find(
+      (locale) => pathname.startsWith(`/${locale}/`) || pathname === `/${locale}`
+    );
+    const barePath = localePrefix
+      ? pathname.replace(`/${localePrefix}`, '') || '/'
+      : pathname;
+
+    if (isExcludedPath(barePath)) {
+      return NextResponse.redirect(new URL(SELF_EXCLUSION_PATH, request.url));
+    }
   }
 
   // Skip middleware for language switching route
@@ -29,6 +69,32 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Redirects managed in the admin, e.g. the old URLs of renamed posts
+  if (!pathname.startsWith('/admin')) {
+    const redirectLocale = locales.find(
+      (locale) => pathname.startsWith(`/${locale}/`) || pathname === `/${locale}`
+    );
+    const redirectPath = redirectLocale
+      ? pathname.replace(`/${redirectLocale}`, '') || '/'
+      : pathname;
+
+    const { origin } = request.nextUrl;
+    const match = matchRedirect(await getCachedRedirectRules(origin), redirectPath);
+    if (match) {
+      event.waitUntil(reportRedirectHit(origin, match.rule.id));
+
+      // Paths on this site keep the visitor's language and query string
+      const isPath = match.location.startsWith('/');
+      const location = isPath && redirectLocale
+        ? `/${redirectLocale}${match.location === '/' ? '' : match.location}`
+        : match.location;
+      const url = new URL(location, request.url);
+      if (isPath) url.search = request.nextUrl.search;
+
+      return NextResponse.redirect(url, match.rule.permanent ? 301 : 302);
+    }
+  }
+
   // Check if the pathname starts with a locale
   const pathnameHasLocale = locales.some(
     (locale) => pathname.startsWith(`/${locale}/`) || pathname === `/${locale}`
@@ -41,8 +107,15 @@ export async function middleware(request: NextRequest) {
     // Get the path without locale
     const pathWithoutLocale = pathname.replace(`/${locale}`, '') || '/';
 
+    // Pass the locale on the rewritten request so server components see it
+    // on the first visit, before the cookie below has been stored
+    const requestHeaders = new Headers(request.headers);
+    requestHeaders.set('x-locale', locale);
+
     // Create a response that rewrites to the path without locale
-    const response = NextResponse.rewrite(new URL(pathWithoutLocale, request.url));
+    const response = NextResponse.rewrite(new URL(pathWithoutLocale, request.url), {
+      request: { headers: requestHeaders },
+    });
 
     // Set locale in a cookie for the application to use
     response.cookies.set('NEXT_LOCALE', locale, {
@@ -1,16 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import {
-	Home,
-	PanelLeft,
-	Search,
-	User,
-	FileText,
-	Tags,
-	Settings,
-	Users,
-} from "lucide-react";
+import { PanelLeft, Search, User, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
@@ -24,8 +15,14 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { logoutAction } from "@/modules/auth/actions/actions";
 import { User as UserType } from "@/modules/users/types/user.types";
+import { getAdminLinks } from "@/modules/admin/components/admin-sidebar";
+import {
+	ADMIN_ROLE_LABELS,
+	normalizeRole,
+} from "@/modules/auth/lib/permissions";
 
 export function AdminHeader({ user }: { user: UserType }) {
+	const role = normalizeRole(user.role);
 	const handleLogout = async () => {
 		const result = await logoutAction();
 		if (result?.success) {
@@ -43,41 +40,16 @@ export function AdminHeader({ user }: { user: UserType }) {
 				</SheetTrigger>
 				<SheetContent side="left" className="w-64">
 					<nav className="grid gap-4 py-6">
-						<Link
-							href="/admin"
-							className="flex items-center gap-4 px-2 text-sm font-medium"
-						>
-							<Home className="h-4 w-4" />
-							Dashboard
-						</Link>
-						<Link
-							href="/admin/posts"
-							className="flex items-center gap-4 px-2 text-sm font-medium"
-						>
-							<FileText className="h-4 w-4" />
-							Posts
-						</Link>
-						<Link
-							href="/admin/seo"
-							className="flex items-center gap-4 px-2 text-sm font-medium"
-						>
-							<Search className="h-4 w-4" />
-							SEO Pages
-						</Link>
-						<Link
-							href="/admin/tags"
-							className="flex items-center gap-4 px-2 text-sm font-medium"
-						>
-							<Tags className="h-4 w-4" />
-							Tags
-						</Link>
-						<Link
-							href="/admin/users"
-							className="flex items-center gap-4 px-2 text-sm font-medium"
-						>
-							<Users className="h-4 w-4" />
-							Users
-						</Link>
+						{getAdminLinks(user.role).map((link) => (
+							<Link
+								key={link.href}
+								href={link.href}
+								className="flex items-center gap-4 px-2 text-sm font-medium"
+							>
+								<link.icon className="h-4 w-4" />
+								{link.label}
+							</Link>
+						))}
 					</nav>
 				</SheetContent>
 			</Sheet>
@@ -112,7 +84,7 @@ export function AdminHeader({ user }: { user: UserType }) {
 						<div className="flex flex-col">
 							<span className="font-medium">{user.username}</span>
 							<span className="text-xs text-muted-foreground">
-								Admin
+								{role ? ADMIN_ROLE_LABELS[role] : "Admin"}
 							</span>
 						</div>
 					</DropdownMenuLabel>
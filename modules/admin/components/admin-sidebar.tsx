@@ -11,20 +11,34 @@ import {
   Search,
   BarChart3,
   Settings,
+  ImageIcon,
+  ArrowRightLeft,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getRouteCapability, hasCapability } from "@/modules/auth/lib/permissions";
 
-export function AdminSidebar() {
-  const pathname = usePathname();
+const ADMIN_LINKS = [
+  { href: "/admin", label: "Dashboard", icon: Home },
+  { href: "/admin/posts", label: "Blog Posts", icon: FileText },
+  { href: "/admin/seo", label: "SEO Pages", icon: Search },
+  { href: "/admin/seo/audit", label: "SEO Audit", icon: BarChart3 },
+  { href: "/admin/redirects", label: "Redirects", icon: ArrowRightLeft },
+  { href: "/admin/tags", label: "Tags", icon: Tags },
+  { href: "/admin/media", label: "Media", icon: ImageIcon },
+  { href: "/admin/users", label: "Users", icon: Users },
+  { href: "/admin/settings", label: "Settings", icon: Settings },
+];
+
+// Only the sections the role may open, using the same rules as middleware
+export const getAdminLinks = (role: string) =>
+  ADMIN_LINKS.filter((link) => {
+    const capability = getRouteCapability(link.href);
+    return !capability || hasCapability(role, capability);
+  });
 
-  const links = [
-    { href: "/admin", label: "Dashboard", icon: Home },
-    { href: "/admin/posts", label: "Blog Posts", icon: FileText },
-    { href: "/admin/seo", label: "SEO Pages", icon: Search },
-    { href: "/admin/tags", label: "Tags", icon: Tags },
-    { href: "/admin/users", label: "Users", icon: Users },
-    { href: "/admin/settings", label: "Settings", icon: Settings },
-  ];
+export function AdminSidebar({ role }: { role: string }) {
+  const pathname = usePathname();
+  const links = getAdminLinks(role);
 
   return (
     <div className="flex h-full flex-col">
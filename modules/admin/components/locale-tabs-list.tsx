@@ -0,0 +1,31 @@
+"use client";
+
+import { TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { defaultLocale, Locale, localeNames, locales } from "@/lib/i18n";
+
+interface LocaleTabsListProps {
+	// Locales that already have a translation
+	translated: Locale[];
+}
+
+/** One tab per site language, for editing content translations. */
+export function LocaleTabsList({ translated }: LocaleTabsListProps) {
+	return (
+		<TabsList className="h-auto w-full flex-wrap justify-start">
+			{locales.map((locale) => (
+				<TabsTrigger
+					key={locale}
+					value={locale}
+					title={localeNames[locale]}
+					className="flex-none"
+				>
+					{locale.toUpperCase()}
+					{locale !== defaultLocale &&
+						translated.includes(locale) && (
+							<span className="h-1.5 w-1.5 rounded-full bg-primary" />
+						)}
+				</TabsTrigger>
+			))}
+		</TabsList>
+	);
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface ScheduleFieldsProps {
+	// datetime-local values, in the editor's time zone
+	publishAt: string;
+	unpublishAt: string;
+	onPublishAtChange: (value: string) => void;
+	onUnpublishAtChange: (value: string) => void;
+	disabled?: boolean;
+}
+
+/** Publish / unpublish times applied by the publishing scheduler. */
+export function ScheduleFields({
+	publishAt,
+	unpublishAt,
+	onPublishAtChange,
+	onUnpublishAtChange,
+	disabled,
+}: ScheduleFieldsProps) {
+	return (
+		<div className="space-y-4">
+			<div className="space-y-2">
+				<Label htmlFor="publishAt">Publish at</Label>
+				<Input
+					id="publishAt"
+					type="datetime-local"
+					value={publishAt}
+					onChange={(e) => onPublishAtChange(e.target.value)}
+					disabled={disabled}
+				/>
+			</div>
+			<div className="space-y-2">
+				<Label htmlFor="unpublishAt">Unpublish at</Label>
+				<Input
+					id="unpublishAt"
+					type="datetime-local"
+					value={unpublishAt}
+					onChange={(e) => onUnpublishAtChange(e.target.value)}
+					disabled={disabled}
+				/>
+			</div>
+			<p className="text-xs text-muted-foreground">
+				A future publish time keeps this hidden until then, even when
+				Published is on. Leave both empty to publish manually.
+			</p>
+		</div>
+	);
+}
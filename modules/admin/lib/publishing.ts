@@ -0,0 +1,91 @@
+// Shared by posts and SEO pages. Free of server-only imports so the admin
+// forms and lists can use it too.
+
+export type PublishStatus = "published" | "scheduled" | "draft";
+
+export const PUBLISH_STATUS_LABELS: Record<PublishStatus, string> = {
+	published: "Published",
+	scheduled: "Scheduled",
+	draft: "Draft",
+};
+
+export const getPublishStatus = (item: {
+	published: boolean;
+	publishAt: Date | null;
+}): PublishStatus =>
+	item.published ? "published" : item.publishAt ? "scheduled" : "draft";
+
+/**
+ * Whether an item should be public right now. Also covers the gap between an
+ * unpublish time passing and the scheduler's next run.
+ */
+export const isLive = (
+	item: { published: boolean; unpublishAt: Date | null },
+	now = new Date()
+) => item.published && !(item.unpublishAt && item.unpublishAt <= now);
+
+const parseDate = (value: FormDataEntryValue | string | null | undefined) => {
+	if (typeof value !== "string" || !value) return null;
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Works out what to store for a save with an optional schedule.
+ * A publish time in the future holds the item back until the scheduler
+ * publishes it; one that has already passed publishes it straight away.
+ * An unpublish time must be in the future unless it is the stored one left
+ * unchanged, in which case the window has closed and the item is unpublished
+ * just as the scheduler would.
+ */
+export function resolveSchedule(
+	input: {
+		published: boolean;
+		publishAt?: FormDataEntryValue | string | null;
+		unpublishAt?: FormDataEntryValue | string | null;
+		// The unpublish time currently saved, when editing
+		storedUnpublishAt?: Date | null;
+	},
+	now = new Date()
+):
+	| { published: boolean; publishAt: Date | null; unpublishAt: Date | null }
+	| { error: string } {
+	const publishAt = parseDate(input.publishAt);
+	const unpublishAt = parseDate(input.unpublishAt);
+
+	if (unpublishAt && unpublishAt <= now) {
+		// Forms round to the minute, so compare at that precision
+		const toMinute = (date: Date) => Math.floor(date.getTime() / 60000);
+		if (
+			!input.storedUnpublishAt ||
+			toMinute(input.storedUnpublishAt) !== toMinute(unpublishAt)
+		) {
+			return { error: "The unpublish time must be in the future." };
+		}
+		return { published: false, publishAt: null, unpublishAt: null };
+	}
+	if (publishAt && unpublishAt && unpublishAt <= publishAt) {
+		return { error: "The unpublish time must be after the publish time." };
+	}
+
+	if (publishAt && publishAt > now) {
+		return { published: false, publishAt, unpublishAt };
+	}
+	return {
+		published: input.published || !!publishAt,
+		publishAt: null,
+		unpublishAt,
+	};
+}
+
+/** ISO timestamp to the value a datetime-local input expects, in local time. */
+export const toDateTimeLocal = (value: Date | string | null | undefined) => {
+	if (!value) return "";
+	const date = new Date(value);
+	const offset = date.getTimezoneOffset() * 60000;
+	return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+/** datetime-local value (local time) to an ISO timestamp, or "" when empty. */
+export const fromDateTimeLocal = (value: string) =>
+	value ? new Date(value).toISOString() : "";
@@ -0,0 +1,74 @@
+import prisma from "@/modules/admin/lib/db";
+import { revalidatePath } from "next/cache";
+
+/**
+ * Publishes posts and SEO pages whose publishAt has passed and unpublishes
+ * those whose unpublishAt has, then revalidates the pages that changed.
+ * Runs from the cron route, so it must be safe to call repeatedly.
+ */
+export async function runPublishingSchedule(now = new Date()) {
+	const select = { id: true, slug: true };
+
+	const duePosts = await prisma.post.findMany({
+		where: { published: false, publishAt: { lte: now } },
+		select,
+	});
+	const duePages = await prisma.seoPage.findMany({
+		where: { published: false, publishAt: { lte: now } },
+		select,
+	});
+	await prisma.post.updateMany({
+		where: { id: { in: duePosts.map((post) => post.id) } },
+		data: { published: true, publishAt: null },
+	});
+	await prisma.seoPage.updateMany({
+		where: { id: { in: duePages.map((page) => page.id) } },
+		data: { published: true, publishAt: null },
+	});
+
+	// Queried after publishing, so a window that has already closed is
+	// unpublished in the same run
+	const expiredPosts = await prisma.post.findMany({
+		where: { published: true, unpublishAt: { lte: now } },
+		select,
+	});
+	const expiredPages = await prisma.seoPage.findMany({
+		where: { published: true, unpublishAt: { lte: now } },
+		select,
+	});
+	await prisma.post.updateMany({
+		where: { id: { in: expiredPosts.map((post) => post.id) } },
+		data: { published: false, unpublishAt: null },
+	});
+	await prisma.seoPage.updateMany({
+		where: { id: { in: expiredPages.map((page) => page.id) } },
+		data: { published: false, unpublishAt: null },
+	});
+
+	const changedPosts = [...duePosts, ...expiredPosts];
+	const changedPages = [...duePages, ...expiredPages];
+
+	if (changedPosts.length > 0) {
+		revalidatePath("/admin/posts");
+		revalidatePath("/blog");
+		changedPosts.forEach((post) => revalidatePath(`/blog/${post.slug}`));
+	}
+	if (changedPages.length > 0) {
+		revalidatePath("/admin/seo");
+		changedPages.forEach((page) => revalidatePath(`/${page.slug}`));
+	}
+	if (changedPosts.length > 0 || changedPages.length > 0) {
+		revalidatePath("/sitemap.xml");
+	}
+
+	return {
+		published: {
+			posts: duePosts.length,
+			pages: duePages.length,
+		},
+		unpublished: {
+			posts: expiredPosts.length,
+			pages: expiredPages.length,
+		},
+	};
+}
@@ -4,6 +4,7 @@ import { encrypt } from "@/modules/auth/lib/auth";
 import { cookies } from "next/headers";
 import { verifyPassword } from "@/modules/auth/lib/password";
 import prisma from "@/modules/admin/lib/db";
+import { normalizeRole } from "@/modules/auth/lib/permissions";
 
 export async function loginAction(prevState: any, formData: FormData) {
 	const username = formData.get("username") as string;
@@ -27,6 +28,10 @@ export async function loginAction(prevState: any, formData: FormData) {
 		return { error: "Invalid credentials" };
 	}
 
+	if (!normalizeRole(user.role)) {
+		return { error: "This account does not have admin access" };
+	}
+
 	const session = await encrypt({
 		id: user.id,
 		username: user.username,
@@ -1,5 +1,7 @@
 import { SignJWT, jwtVerify } from "jose";
 import { cookies } from "next/headers";
+import { hasCapability } from "@/modules/auth/lib/permissions";
+import { AdminSession, Capability } from "@/modules/auth/types/auth.types";
 
 const SECRET_KEY =
 	process.env.BLOG_SECRET_KEY || "default-secret-key-change-me";
@@ -30,3 +32,31 @@ export async function getSession() {
 	if (!session) return null;
 	return await decrypt(session);
 }
+
+const AUTHORIZATION_ERRORS = {
+	noSession: "Unauthorized",
+	forbidden: "You don't have permission to do this.",
+} as const;
+
+type AuthorizationError =
+	(typeof AUTHORIZATION_ERRORS)[keyof typeof AUTHORIZATION_ERRORS];
+
+/**
+ * Loads the session and checks it grants `capability`. Server actions return
+ * `error` as-is so every module reports missing rights the same way.
+ */
+export async function authorize(
+	capability?: Capability
+): Promise<
+	| { session: AdminSession; error: null }
+	| { session: null; error: AuthorizationError }
+> {
+	const session = (await getSession()) as AdminSession | null;
+	if (!session?.id) {
+		return { session: null, error: AUTHORIZATION_ERRORS.noSession };
+	}
+	if (capability && !hasCapability(session.role, capability)) {
+		return { session: null, error: AUTHORIZATION_ERRORS.forbidden };
+	}
+	return { session, error: null };
+}
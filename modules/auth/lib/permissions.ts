@@ -0,0 +1,106 @@
+import { AdminRole, Capability } from "@/modules/auth/types/auth.types";
+
+// Kept free of server-only imports so middleware and client components can
+// share the same rules as the server actions.
+
+export const ADMIN_ROLES: AdminRole[] = [
+	"SUPER_ADMIN",
+	"EDITOR",
+	"SEO_MANAGER",
+	"AUTHOR",
+	"VIEWER",
+];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+	SUPER_ADMIN: "Super Admin",
+	EDITOR: "Editor",
+	SEO_MANAGER: "SEO Manager",
+	AUTHOR: "Author",
+	VIEWER: "Viewer",
+};
+
+const ROLE_CAPABILITIES: Record<AdminRole, Capability[]> = {
+	SUPER_ADMIN: [
+		"post.view",
+		"post.create",
+		"post.edit",
+		"post.editOwn",
+		"post.publish",
+		"post.delete",
+		"tag.manage",
+		"seo.view",
+		"seo.edit",
+		"redirect.manage",
+		"media.manage",
+		"media.delete",
+		"user.manage",
+	],
+	EDITOR: [
+		"post.view",
+		"post.create",
+		"post.edit",
+		"post.editOwn",
+		"post.publish",
+		"post.delete",
+		"tag.manage",
+		"seo.view",
+		"redirect.manage",
+		"media.manage",
+		"media.delete",
+	],
+	SEO_MANAGER: [
+		"post.view",
+		"tag.manage",
+		"seo.view",
+		"seo.edit",
+		"redirect.manage",
+		"media.manage",
+	],
+	AUTHOR: ["post.view", "post.create", "post.editOwn", "media.manage"],
+	VIEWER: ["post.view", "seo.view"],
+};
+
+// Roles stored before the permissions model existed
+const LEGACY_ROLES: Record<string, AdminRole> = {
+	BLOG_ADMIN: "EDITOR",
+};
+
+/** Maps a stored role to an admin role, or null when it grants no access. */
+export const normalizeRole = (role: unknown): AdminRole | null => {
+	if (typeof role !== "string") return null;
+	if (ADMIN_ROLES.includes(role as AdminRole)) return role as AdminRole;
+	return LEGACY_ROLES[role] ?? null;
+};
+
+export const getCapabilities = (role: unknown): Capability[] => {
+	const adminRole = normalizeRole(role);
+	return adminRole ? ROLE_CAPABILITIES[adminRole] : [];
+};
+
+export const hasCapability = (role: unknown, capability: Capability) =>
+	getCapabilities(role).includes(capability);
+
+// Most specific prefixes first; admin pages not listed only need a session
+const ROUTE_CAPABILITIES: { prefix: string; capability: Capability }[] = [
+	{ prefix: "/admin/posts/new", capability: "post.create" },
+	{ prefix: "/admin/posts", capability: "post.view" },
+	{ prefix: "/admin/seo/new", capability: "seo.edit" },
+	{ prefix: "/admin/seo", capability: "seo.view" },
+	{ prefix: "/admin/redirects", capability: "redirect.manage" },
+	{ prefix: "/admin/tags", capability: "tag.manage" },
+	{ prefix: "/admin/media", capability: "media.manage" },
+	{ prefix: "/admin/users", capability: "user.manage" },
+];
+
+export const getRouteCapability = (pathname: string): Capability | null =>
+	ROUTE_CAPABILITIES.find(
+		({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+	)?.capability ?? null;
+
+/** Whether a user may edit a post, given who wrote it. */
+export const canEditPost = (
+	session: { id: string; role: unknown },
+	authorId: string
+) =>
+	hasCapability(session.role, "post.edit") ||
+	(hasCapability(session.role, "post.editOwn") && session.id === authorId);
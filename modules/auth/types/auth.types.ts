@@ -0,0 +1,24 @@
+export type AdminRole =
+	"SUPER_ADMIN" | "EDITOR" | "SEO_MANAGER" | "AUTHOR" | "VIEWER";
+
+export type Capability =
+	| "post.view"
+	| "post.create"
+	| "post.edit"
+	| "post.editOwn"
+	| "post.publish"
+	| "post.delete"
+	| "tag.manage"
+	| "seo.view"
+	| "seo.edit"
+	| "redirect.manage"
+	| "media.manage"
+	| "media.delete"
+	| "user.manage";
+
+// Payload of the blog_session JWT
+export interface AdminSession {
+	id: string;
+	username: string;
+	role: string;
+}
@@ -2,22 +2,109 @@
 
 
 import prisma from "@/modules/admin/lib/db";
-import { getSession } from "@/modules/auth/lib/auth";
+import { authorize } from "@/modules/auth/lib/auth";
+import { canEditPost, hasCapability } from "@/modules/auth/lib/permissions";
 import { revalidatePath } from "next/cache";
+import { defaultLocale } from "@/lib/i18n";
+import { resolveSchedule } from "@/modules/admin/lib/publishing";
+import { isLocale } from "@/lib/utils/i18n/request-locale";
+import { PostTranslations } from "../types/blogs.types";
+import { recordSlugChange } from "@/modules/redirects/lib/redirects";
+
+// Translations posted by PostForm as JSON. Locales without a title and
+// content are dropped so readers fall back to English.
+function parseTranslations(formData: FormData) {
+	let translations: PostTranslations = {};
+	try {
+		translations = JSON.parse(
+			(formData.get("translations") as string) || "{}"
+		);
+	} catch {
+		return [];
+	}
+
+	return Object.entries(translations).flatMap(([locale, translation]) =>
+		isLocale(locale) &&
+		locale !== defaultLocale &&
+		translation?.title?.trim() &&
+		translation.content?.trim()
+			? [
+					{
+						locale,
+						title: translation.title,
+						content: translation.content,
+						excerpt: translation.excerpt || null,
+						seoTitle: translation.seoTitle || null,
+						seoDescription: translation.seoDescription || null,
+					},
+				]
+			: []
+	);
+}
+
+const splitTags = (tags: string) =>
+	tags
+		.split(",")
+		.map((t) => t.trim())
+		.filter(Boolean);
+
+const connectOrCreateTags = (tags: string) =>
+	splitTags(tags).map((tag) => ({
+		where: {
+			slug: tag.toLowerCase().replace(/\s+/g, "-"),
+		},
+		create: {
+			name: tag,
+			slug: tag.toLowerCase().replace(/\s+/g, "-"),
+		},
+	}));
+
+// The fields a revision records, taken from what is being saved
+const revisionSnapshot = (
+	authorId: string,
+	post: {
+		title: string;
+		excerpt: string | null;
+		content: string;
+		seoTitle: string | null;
+		seoDescription: string | null;
+		tags: string;
+	}
+) => ({
+	...post,
+	tags: splitTags(post.tags).join(", "),
+	authorId,
+});
 
 export async function createPost(prevState: any, formData: FormData) {
-	const session = await getSession();
-	if (!session) return { error: "Unauthorized" };
+	const { session, error } = await authorize("post.create");
+	if (error) return { error };
 
 	const title = formData.get("title") as string;
 	const slug = formData.get("slug") as string;
 	const content = formData.get("content") as string;
 	const excerpt = formData.get("excerpt") as string;
 	const coverImage = formData.get("coverImage") as string;
-	const published = formData.get("published") === "on";
 	const seoTitle = formData.get("seoTitle") as string;
 	const seoDescription = formData.get("seoDescription") as string;
 	const tags = formData.get("tags") as string; // Comma separated
+	const translations = parseTranslations(formData);
+
+	const schedule = resolveSchedule({
+		published: formData.get("published") === "on",
+		publishAt: formData.get("publishAt"),
+		unpublishAt: formData.get("unpublishAt"),
+	});
+	if ("error" in schedule) return { error: schedule.error };
+	const { published, publishAt, unpublishAt } = schedule;
+
+	// Scheduling is publishing ahead of time
+	if (
+		(published || publishAt || unpublishAt) &&
+		!hasCapability(session.role, "post.publish")
+	) {
+		return { error: "You don't have permission to publish posts." };
+	}
 
 	try {
 		await prisma.post.create({
@@ -28,23 +115,24 @@ export async function createPost(prevState: any, formData: FormData) {
 				excerpt,
 				coverImage,
 				published,
+				publishAt,
+				unpublishAt,
 				seoTitle,
 				seoDescription,
 				authorId: session.id,
+				translations: { create: translations },
+				revisions: {
+					create: revisionSnapshot(session.id, {
+						title,
+						excerpt,
+						content,
+						seoTitle,
+						seoDescription,
+						tags,
+					}),
+				},
 				tags: {
-					connectOrCreate: tags
-						.split(",")
-						.map((t) => t.trim())
-						.filter(Boolean)
-						.map((tag) => ({
-							where: {
-								slug: tag.toLowerCase().replace(/\s+/g, "-"),
-							},
-							create: {
-								name: tag,
-								slug: tag.toLowerCase().replace(/\s+/g, "-"),
-							},
-						})),
+					connectOrCreate: connectOrCreateTags(tags),
 				},
 			},
 		});
@@ -63,18 +151,82 @@ export async function updatePost(
 	prevState: any,
 	formData: FormData
 ) {
-	const session = await getSession();
-	if (!session) return { error: "Unauthorized" };
+	const { session, error } = await authorize();
+	if (error) return { error };
+
+	const existing = await prisma.post.findUnique({
+		where: { id },
+		select: {
+			authorId: true,
+			slug: true,
+			published: true,
+			publishAt: true,
+			unpublishAt: true,
+		},
+	});
+	if (!existing) return { error: "Post not found" };
+	if (!canEditPost(session, existing.authorId)) {
+		return { error: "You don't have permission to edit this post." };
+	}
+
+	// Someone saved after this editor opened the post; don't silently
+	// overwrite their work unless the editor confirms it. Every save writes a
+	// revision, so compare against the latest one rather than updatedAt,
+	// which the publishing schedule also bumps.
+	const openedAt = formData.get("openedRevisionAt") as string | null;
+	const latest =
+		openedAt !== null && formData.get("overwrite") !== "on"
+			? await prisma.postRevision.findFirst({
+					where: { postId: id },
+					orderBy: { createdAt: "desc" },
+					include: { author: { select: { username: true } } },
+				})
+			: null;
+	if (latest && latest.createdAt.toISOString() !== openedAt) {
+		return {
+			error: `This post was changed${
+				latest ? ` by ${latest.author.username}` : ""
+			} after you opened it. Compare it in the revision history, or save anyway to replace it with your version.`,
+			conflict: true,
+		};
+	}
 
 	const title = formData.get("title") as string;
 	const slug = formData.get("slug") as string;
 	const content = formData.get("content") as string;
 	const excerpt = formData.get("excerpt") as string;
 	const coverImage = formData.get("coverImage") as string;
-	const published = formData.get("published") === "on";
 	const seoTitle = formData.get("seoTitle") as string;
 	const seoDescription = formData.get("seoDescription") as string;
 	const tags = formData.get("tags") as string;
+	const translations = parseTranslations(formData);
+
+	const schedule = resolveSchedule({
+		published: formData.get("published") === "on",
+		publishAt: formData.get("publishAt"),
+		unpublishAt: formData.get("unpublishAt"),
+		storedUnpublishAt: existing.unpublishAt,
+	});
+	if ("error" in schedule) return { error: schedule.error };
+	const { published, publishAt, unpublishAt } = schedule;
+
+	// Publishing, unpublishing and rescheduling need the publish capability.
+	// An unpublish time that has passed already counts as applied, even if
+	// the scheduler hasn't run yet.
+	const current =
+		existing.unpublishAt && existing.unpublishAt <= new Date()
+			? { ...existing, published: false, unpublishAt: null }
+			: existing;
+	const sameTime = (a: Date | null, b: Date | null) =>
+		(a?.getTime() ?? null) === (b?.getTime() ?? null);
+	if (
+		(published !== current.published ||
+			!sameTime(publishAt, current.publishAt) ||
+			!sameTime(unpublishAt, current.unpublishAt)) &&
+		!hasCapability(session.role, "post.publish")
+	) {
+		return { error: "You don't have permission to publish posts." };
+	}
 
 	// First disconnect all tags, then connect new ones (simple approach)
 	// Or just set.
@@ -89,23 +241,27 @@ export async function updatePost(
 				excerpt,
 				coverImage,
 				published,
+				publishAt,
+				unpublishAt,
 				seoTitle,
 				seoDescription,
 				tags: {
 					set: [], // Disconnect all
-					connectOrCreate: tags
-						.split(",")
-						.map((t) => t.trim())
-						.filter(Boolean)
-						.map((tag) => ({
-							where: {
-								slug: tag.toLowerCase().replace(/\s+/g, "-"),
-							},
-							create: {
-								name: tag,
-								slug: tag.toLowerCase().replace(/\s+/g, "-"),
-							},
-						})),
+					connectOrCreate: connectOrCreateTags(tags),
+				},
+				translations: {
+					deleteMany: {}, // Replace the whole set
+					create: translations,
+				},
+				revisions: {
+					create: revisionSnapshot(session.id, {
+						title,
+						excerpt,
+						content,
+						seoTitle,
+						seoDescription,
+						tags,
+					}),
 				},
 			},
 		});
@@ -113,15 +269,70 @@ export async function updatePost(
 		return { error: "Failed to update post" };
 	}
 
+	// Links to the old URL keep working
+	if (existing.slug !== slug) {
+		await recordSlugChange(`/blog/${existing.slug}`, `/blog/${slug}`);
+		revalidatePath(`/blog/${existing.slug}`);
+	}
+
 	revalidatePath("/admin/posts");
 	revalidatePath("/blog");
 	revalidatePath(`/blog/${slug}`);
 	return { success: true };
 }
 
+export async function restorePostRevision(revisionId: string) {
+	const { session, error } = await authorize();
+	if (error) return { error };
+
+	const revision = await prisma.postRevision.findUnique({
+		where: { id: revisionId },
+		include: { post: { select: { authorId: true, slug: true } } },
+	});
+	if (!revision) return { error: "Revision not found" };
+	if (!canEditPost(session, revision.post.authorId)) {
+		return { error: "You don't have permission to edit this post." };
+	}
+
+	const restored = {
+		title: revision.title,
+		excerpt: revision.excerpt,
+		content: revision.content,
+		seoTitle: revision.seoTitle,
+		seoDescription: revision.seoDescription,
+		tags: revision.tags ?? "",
+	};
+
+	try {
+		// Restoring is a save of its own, so it gets a revision too
+		await prisma.post.update({
+			where: { id: revision.postId },
+			data: {
+				...restored,
+				tags: {
+					set: [],
+					connectOrCreate: connectOrCreateTags(restored.tags),
+				},
+				revisions: {
+					create: revisionSnapshot(session.id, restored),
+				},
+			},
+		});
+	} catch (e) {
+		console.error(e);
+		return { error: "Failed to restore revision" };
+	}
+
+	revalidatePath("/admin/posts");
+	revalidatePath(`/admin/posts/${revision.postId}`);
+	revalidatePath("/blog");
+	revalidatePath(`/blog/${revision.post.slug}`);
+	return { success: true };
+}
+
 export async function deletePost(id: string) {
-	const session = await getSession();
-	if (!session) return { error: "Unauthorized" };
+	const { error } = await authorize("post.delete");
+	if (error) return { error };
 
 	try {
 		await prisma.post.delete({ where: { id } });
@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardFooter } from '@/components/ui/card'
 import { ArrowRight, Calendar, User } from 'lucide-react'
 import Image from 'next/image'
+import { SearchSnippet } from '../types/blogs.types'
 
 export function BlogCard({ post, index }: { post: any; index: number }) {
     return (
@@ -44,7 +45,17 @@ export function BlogCard({ post, index }: { post: any; index: number }) {
                             {post.title}
                         </h3>
                         <p className="line-clamp-3 text-muted-foreground">
-                            {post.excerpt || 'Read more about this topic...'}
+                            {post.snippet
+                                ? (post.snippet as SearchSnippet).map((part, i) =>
+                                      part.highlight ? (
+                                          <mark key={i} className="rounded bg-primary/20 px-0.5 text-foreground">
+                                              {part.text}
+                                          </mark>
+                                      ) : (
+                                          <span key={i}>{part.text}</span>
+                                      )
+                                  )
+                                : post.excerpt || 'Read more about this topic...'}
                         </p>
                     </CardContent>
                     <CardFooter className="flex items-center justify-between border-t border-border/50 p-6 text-sm text-muted-foreground">
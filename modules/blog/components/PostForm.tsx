@@ -8,18 +8,86 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent } from "@/components/ui/tabs";
+import { LocaleTabsList } from "@/modules/admin/components/locale-tabs-list";
+import { ScheduleFields } from "@/modules/admin/components/schedule-fields";
+import {
+	fromDateTimeLocal,
+	toDateTimeLocal,
+} from "@/modules/admin/lib/publishing";
 import { RichTextEditor } from "./RichTextEditor";
-import { Upload, X } from "lucide-react";
+import { MediaUploadButton } from "@/modules/media/components/media-upload-button";
+import { MediaPickerDialog } from "@/modules/media/components/media-picker-dialog";
+import { getPreferredMediaUrl } from "@/modules/media/lib/urls";
+import { ImageIcon, X } from "lucide-react";
 import Image from "next/image";
-import { Post } from "../types/blogs.types";
+import { defaultLocale, Locale, localeNames, locales } from "@/lib/i18n";
+import {
+	PostTranslationInput,
+	PostTranslations,
+	PostWithTranslations,
+} from "../types/blogs.types";
 
-export function PostForm({ post }: { post?: Post }) {
+const emptyTranslation: PostTranslationInput = {
+	title: "",
+	excerpt: "",
+	content: "",
+	seoTitle: "",
+	seoDescription: "",
+};
+
+export function PostForm({
+	post,
+	latestRevisionAt,
+	canPublish = true,
+}: {
+	post?: PostWithTranslations;
+	// When the newest revision was saved, for the stale-edit check
+	latestRevisionAt?: Date | null;
+	canPublish?: boolean;
+}) {
 	const [content, setContent] = useState(post?.content || "");
 	const [coverImage, setCoverImage] = useState(post?.coverImage || "");
-	const [isUploading, setIsUploading] = useState(false);
+	const [isPickingImage, setIsPickingImage] = useState(false);
+	const [publishAt, setPublishAt] = useState("");
+	const [unpublishAt, setUnpublishAt] = useState("");
+	const [activeLocale, setActiveLocale] = useState<Locale>(defaultLocale);
+	const [translations, setTranslations] = useState<PostTranslations>(() =>
+		Object.fromEntries(
+			(post?.translations ?? []).map((translation) => [
+				translation.locale,
+				{
+					title: translation.title,
+					excerpt: translation.excerpt ?? "",
+					content: translation.content,
+					seoTitle: translation.seoTitle ?? "",
+					seoDescription: translation.seoDescription ?? "",
+				},
+			])
+		)
+	);
+
+	const updateTranslation = (
+		locale: Locale,
+		field: keyof PostTranslationInput,
+		value: string
+	) => {
+		setTranslations((prev) => ({
+			...prev,
+			[locale]: { ...emptyTranslation, ...prev[locale], [field]: value },
+		}));
+	};
 
 	const updateAction = post ? updatePost.bind(null, post.id) : createPost;
 	const [state, formAction, isPending] = useActionState(updateAction, null);
+	// Set when the post was saved by someone else after this form opened
+	const hasConflict = !!state && "conflict" in state && !!state.conflict;
+
+	// Filled after mount; the browser's time zone isn't known on the server
+	useEffect(() => {
+		setPublishAt(toDateTimeLocal(post?.publishAt));
+		setUnpublishAt(toDateTimeLocal(post?.unpublishAt));
+	}, [post?.publishAt, post?.unpublishAt]);
 
 	// Redirect on success
 	useEffect(() => {
@@ -31,49 +99,34 @@ export function PostForm({ post }: { post?: Post }) {
 	const handleSubmit = async (formData: FormData) => {
 		formData.set("content", content);
 		formData.set("coverImage", coverImage);
+		formData.set("translations", JSON.stringify(translations));
+		formData.set("publishAt", fromDateTimeLocal(publishAt));
+		formData.set("unpublishAt", fromDateTimeLocal(unpublishAt));
 		return formAction(formData);
 	};
 
-	const handleImageUpload = async (
-		e: React.ChangeEvent<HTMLInputElement>
-	) => {
-		const file = e.target.files?.[0];
-		if (!file) return;
-
-		setIsUploading(true);
-		const formData = new FormData();
-		formData.append("file", file);
-
-		try {
-			const res = await fetch("/api/upload", {
-				method: "POST",
-				body: formData,
-			});
-			const data = await res.json();
-			if (data.url) {
-				setCoverImage(data.url);
-			}
-		} catch (error) {
-			console.error("Upload failed", error);
-		} finally {
-			setIsUploading(false);
-		}
-	};
-
 	return (
-		<form action={handleSubmit} className="grid gap-6 lg:grid-cols-3">
+		<form
+			action={handleSubmit}
+			// Required English fields may sit on a hidden tab
+			onInvalidCapture={() => setActiveLocale(defaultLocale)}
+			className="grid gap-6 lg:grid-cols-3"
+		>
+			{/* Lets the server notice saves made after this form was opened */}
+			{post && (
+				<input
+					type="hidden"
+					name="openedRevisionAt"
+					value={
+						latestRevisionAt
+							? new Date(latestRevisionAt).toISOString()
+							: ""
+					}
+				/>
+			)}
 			<div className="lg:col-span-2 space-y-6">
 				<Card>
 					<CardContent className="p-6 space-y-4">
-						<div className="space-y-2">
-							<Label htmlFor="title">Title</Label>
-							<Input
-								id="title"
-								name="title"
-								defaultValue={post?.title}
-								required
-							/>
-						</div>
 						<div className="space-y-2">
 							<Label htmlFor="slug">Slug</Label>
 							<Input
@@ -83,21 +136,158 @@ export function PostForm({ post }: { post?: Post }) {
 								required
 							/>
 						</div>
-						<div className="space-y-2">
-							<Label htmlFor="excerpt">Excerpt</Label>
-							<Textarea
-								id="excerpt"
-								name="excerpt"
-								defaultValue={post?.excerpt ?? ""}
-							/>
-						</div>
-						<div className="space-y-2">
-							<Label>Content</Label>
-							<RichTextEditor
-								value={content}
-								onChange={setContent}
+						<Tabs
+							value={activeLocale}
+							onValueChange={(value) =>
+								setActiveLocale(value as Locale)
+							}
+						>
+							<LocaleTabsList
+								translated={locales.filter(
+									(locale) => !!translations[locale]?.title
+								)}
 							/>
-						</div>
+							{/* Kept mounted so the uncontrolled fields are submitted */}
+							<TabsContent
+								value={defaultLocale}
+								forceMount
+								className="space-y-4 pt-2 data-[state=inactive]:hidden"
+							>
+								<div className="space-y-2">
+									<Label htmlFor="title">Title</Label>
+									<Input
+										id="title"
+										name="title"
+										defaultValue={post?.title}
+										required
+									/>
+								</div>
+								<div className="space-y-2">
+									<Label htmlFor="excerpt">Excerpt</Label>
+									<Textarea
+										id="excerpt"
+										name="excerpt"
+										defaultValue={post?.excerpt ?? ""}
+									/>
+								</div>
+								<div className="space-y-2">
+									<Label>Content</Label>
+									<RichTextEditor
+										value={content}
+										onChange={setContent}
+									/>
+								</div>
+							</TabsContent>
+							{locales
+								.filter((locale) => locale !== defaultLocale)
+								.map((locale) => {
+									const translation =
+										translations[locale] ??
+										emptyTranslation;
+									return (
+										<TabsContent
+											key={locale}
+											value={locale}
+											className="space-y-4 pt-2"
+										>
+											<p className="text-xs text-muted-foreground">
+												{localeNames[locale]} readers
+												see the English version until a
+												title and content are filled in.
+												Empty SEO fields and excerpt
+												fall back to English.
+											</p>
+											<div className="space-y-2">
+												<Label
+													htmlFor={`title-${locale}`}
+												>
+													Title
+												</Label>
+												<Input
+													id={`title-${locale}`}
+													value={translation.title}
+													onChange={(e) =>
+														updateTranslation(
+															locale,
+															"title",
+															e.target.value
+														)
+													}
+												/>
+											</div>
+											<div className="space-y-2">
+												<Label
+													htmlFor={`excerpt-${locale}`}
+												>
+													Excerpt
+												</Label>
+												<Textarea
+													id={`excerpt-${locale}`}
+													value={translation.excerpt}
+													onChange={(e) =>
+														updateTranslation(
+															locale,
+															"excerpt",
+															e.target.value
+														)
+													}
+												/>
+											</div>
+											<div className="space-y-2">
+												<Label>Content</Label>
+												<RichTextEditor
+													value={translation.content}
+													onChange={(value) =>
+														updateTranslation(
+															locale,
+															"content",
+															value
+														)
+													}
+												/>
+											</div>
+											<div className="space-y-2">
+												<Label
+													htmlFor={`seoTitle-${locale}`}
+												>
+													SEO Title
+												</Label>
+												<Input
+													id={`seoTitle-${locale}`}
+													value={translation.seoTitle}
+													onChange={(e) =>
+														updateTranslation(
+															locale,
+															"seoTitle",
+															e.target.value
+														)
+													}
+												/>
+											</div>
+											<div className="space-y-2">
+												<Label
+													htmlFor={`seoDescription-${locale}`}
+												>
+													SEO Description
+												</Label>
+												<Textarea
+													id={`seoDescription-${locale}`}
+													value={
+														translation.seoDescription
+													}
+													onChange={(e) =>
+														updateTranslation(
+															locale,
+															"seoDescription",
+															e.target.value
+														)
+													}
+												/>
+											</div>
+										</TabsContent>
+									);
+								})}
+						</Tabs>
 					</CardContent>
 				</Card>
 			</div>
@@ -111,8 +301,30 @@ export function PostForm({ post }: { post?: Post }) {
 								id="published"
 								name="published"
 								defaultChecked={post?.published}
+								disabled={!canPublish}
 							/>
+							{/* Disabled switches aren't submitted; keep the current state */}
+							{!canPublish && post?.published && (
+								<input
+									type="hidden"
+									name="published"
+									value="on"
+								/>
+							)}
 						</div>
+						{!canPublish && (
+							<p className="text-xs text-muted-foreground">
+								Your role can save drafts; an editor publishes
+								them.
+							</p>
+						)}
+						<ScheduleFields
+							publishAt={publishAt}
+							unpublishAt={unpublishAt}
+							onPublishAtChange={setPublishAt}
+							onUnpublishAtChange={setUnpublishAt}
+							disabled={!canPublish}
+						/>
 						<div className="space-y-2">
 							<Label htmlFor="tags">Tags (comma separated)</Label>
 							<Input
@@ -155,31 +367,31 @@ export function PostForm({ post }: { post?: Post }) {
 									</div>
 								)}
 								<div className="flex items-center gap-2">
-									<Input
-										type="file"
-										accept="image/*"
-										onChange={handleImageUpload}
-										className="hidden"
-										id="image-upload"
+									<MediaUploadButton
+										className="flex-1"
+										onUploaded={(_media, url) =>
+											setCoverImage(url)
+										}
 									/>
 									<Button
 										type="button"
 										variant="outline"
-										className="w-full"
-										asChild
-										disabled={isUploading}
+										className="flex-1"
+										onClick={() => setIsPickingImage(true)}
 									>
-										<label
-											htmlFor="image-upload"
-											className="cursor-pointer flex items-center justify-center gap-2"
-										>
-											<Upload className="h-4 w-4" />
-											{isUploading
-												? "Uploading..."
-												: "Upload Image"}
-										</label>
+										<ImageIcon className="mr-2 h-4 w-4" />
+										Choose from Library
 									</Button>
 								</div>
+								<MediaPickerDialog
+									open={isPickingImage}
+									onOpenChange={setIsPickingImage}
+									onSelect={(media) =>
+										setCoverImage(
+											getPreferredMediaUrl(media)
+										)
+									}
+								/>
 								<Input
 									name="coverImage"
 									value={coverImage}
@@ -195,7 +407,7 @@ export function PostForm({ post }: { post?: Post }) {
 
 				<Card>
 					<CardContent className="p-6 space-y-4">
-						<h3 className="font-semibold">SEO</h3>
+						<h3 className="font-semibold">SEO (English)</h3>
 						<div className="space-y-2">
 							<Label htmlFor="seoTitle">SEO Title</Label>
 							<Input
@@ -223,6 +435,19 @@ export function PostForm({ post }: { post?: Post }) {
 					</div>
 				)}
 
+				{hasConflict && (
+					<Button
+						type="submit"
+						name="overwrite"
+						value="on"
+						variant="destructive"
+						className="w-full"
+						disabled={isPending}
+					>
+						Save anyway
+					</Button>
+				)}
+
 				<Button type="submit" className="w-full" disabled={isPending}>
 					{isPending
 						? "Saving..."
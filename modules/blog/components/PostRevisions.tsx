@@ -0,0 +1,312 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { restorePostRevision } from "../actions/posts";
+import {
+	diffLines,
+	htmlToLines,
+	htmlToTextLines,
+	toSideBySide,
+} from "../lib/diff";
+import { PostRevision } from "../types/blogs.types";
+
+type DiffMode = "text" | "html";
+
+interface PostSnapshot {
+	title: string;
+	excerpt: string | null;
+	content: string;
+	seoTitle: string | null;
+	seoDescription: string | null;
+	tags: string;
+}
+
+interface PostRevisionsProps {
+	current: PostSnapshot;
+	revisions: PostRevision[];
+}
+
+const FIELD_LABELS: Record<Exclude<keyof PostSnapshot, "content">, string> = {
+	title: "Title",
+	excerpt: "Excerpt",
+	seoTitle: "SEO Title",
+	seoDescription: "SEO Description",
+	tags: "Tags",
+};
+
+export function PostRevisions({ current, revisions }: PostRevisionsProps) {
+	// Newest first, so index 0 matches the saved post; compare to the one before
+	const [selectedId, setSelectedId] = useState<string | null>(
+		revisions[1]?.id ?? null
+	);
+	const [mode, setMode] = useState<DiffMode>("text");
+	const [showRestore, setShowRestore] = useState(false);
+	const [isRestoring, setIsRestoring] = useState(false);
+
+	const selected = revisions.find((revision) => revision.id === selectedId);
+
+	const changedFields = useMemo(() => {
+		if (!selected) return [];
+		const fields = Object.keys(FIELD_LABELS) as Array<
+			keyof typeof FIELD_LABELS
+		>;
+		return fields.filter(
+			(field) => (selected[field] ?? "") !== (current[field] ?? "")
+		);
+	}, [selected, current]);
+
+	const contentRows = useMemo(() => {
+		if (!selected) return [];
+		const toLines = mode === "html" ? htmlToLines : htmlToTextLines;
+		return toSideBySide(
+			diffLines(toLines(selected.content), toLines(current.content))
+		);
+	}, [selected, current.content, mode]);
+
+	const hasContentChanges = contentRows.some(
+		(row) => row.before?.type !== "equal"
+	);
+
+	const handleRestore = async () => {
+		if (!selected) return;
+		setIsRestoring(true);
+		try {
+			const result = await restorePostRevision(selected.id);
+			if (result?.error) {
+				toast.error(result.error);
+				setIsRestoring(false);
+			} else if (result?.success) {
+				toast.success("Revision restored");
+				window.location.reload();
+			}
+		} catch {
+			toast.error("Failed to restore revision");
+			setIsRestoring(false);
+			setShowRestore(false);
+		}
+	};
+
+	return (
+		<Card>
+			<CardContent className="p-6 space-y-6">
+				<div className="flex items-center gap-2">
+					<History className="h-5 w-5" />
+					<h2 className="text-lg font-semibold">Revision History</h2>
+					<Badge variant="secondary">{revisions.length}</Badge>
+				</div>
+
+				{revisions.length === 0 ? (
+					<p className="text-sm text-muted-foreground">
+						No revisions yet. One is recorded every time the post is
+						saved.
+					</p>
+				) : (
+					<div className="grid gap-6 lg:grid-cols-4">
+						<div className="space-y-1 lg:max-h-[600px] lg:overflow-y-auto">
+							{revisions.map((revision, index) => (
+								<button
+									key={revision.id}
+									type="button"
+									disabled={index === 0}
+									onClick={() => setSelectedId(revision.id)}
+									className={cn(
+										"w-full rounded-md border p-3 text-left text-sm transition-colors",
+										revision.id === selectedId
+											? "border-primary bg-primary/10"
+											: "hover:bg-muted/50",
+										index === 0 && "cursor-default"
+									)}
+								>
+									<div className="flex items-center justify-between gap-2">
+										<span className="font-medium">
+											{format(
+												new Date(revision.createdAt),
+												"MMM d, yyyy HH:mm"
+											)}
+										</span>
+										{index === 0 && (
+											<Badge variant="outline">
+												Current
+											</Badge>
+										)}
+									</div>
+									<div className="text-xs text-muted-foreground">
+										by {revision.author.username}
+									</div>
+								</button>
+							))}
+						</div>
+
+						<div className="space-y-4 lg:col-span-3">
+							{!selected ? (
+								<p className="text-sm text-muted-foreground">
+									Select an earlier revision to compare it
+									with the current version.
+								</p>
+							) : (
+								<>
+									<div className="flex flex-wrap items-center justify-between gap-4">
+										<p className="text-sm text-muted-foreground">
+											Revision from{" "}
+											{format(
+												new Date(selected.createdAt),
+												"MMM d, yyyy HH:mm"
+											)}{" "}
+											(left) compared with the current
+											version (right).
+										</p>
+										<div className="flex items-center gap-2">
+											<Tabs
+												value={mode}
+												onValueChange={(value) =>
+													setMode(value as DiffMode)
+												}
+											>
+												<TabsList>
+													<TabsTrigger value="text">
+														Text
+													</TabsTrigger>
+													<TabsTrigger value="html">
+														HTML
+													</TabsTrigger>
+												</TabsList>
+											</Tabs>
+											<Button
+												type="button"
+												variant="outline"
+												size="sm"
+												className="gap-2"
+												onClick={() =>
+													setShowRestore(true)
+												}
+											>
+												<RotateCcw className="h-4 w-4" />
+												Restore
+											</Button>
+										</div>
+									</div>
+
+									{changedFields.length > 0 && (
+										<div className="space-y-2">
+											{changedFields.map((field) => (
+												<div
+													key={field}
+													className="grid grid-cols-2 gap-2 text-sm"
+												>
+													<div className="col-span-2 text-xs font-medium text-muted-foreground">
+														{FIELD_LABELS[field]}
+													</div>
+													<div className="rounded-md bg-red-500/10 p-2 break-words">
+														{selected[field] || "—"}
+													</div>
+													<div className="rounded-md bg-green-500/10 p-2 break-words">
+														{current[field] || "—"}
+													</div>
+												</div>
+											))}
+										</div>
+									)}
+
+									<div className="space-y-2">
+										<div className="text-xs font-medium text-muted-foreground">
+											Content
+										</div>
+										{hasContentChanges ? (
+											<div className="max-h-[600px] overflow-auto rounded-md border font-mono text-xs">
+												{contentRows.map(
+													(row, index) => (
+														<div
+															key={index}
+															className="grid grid-cols-2 divide-x"
+														>
+															<div
+																className={cn(
+																	"whitespace-pre-wrap break-words px-2 py-0.5",
+																	row.before
+																		?.type ===
+																		"removed" &&
+																		"bg-red-500/10"
+																)}
+															>
+																{
+																	row.before
+																		?.text
+																}
+															</div>
+															<div
+																className={cn(
+																	"whitespace-pre-wrap break-words px-2 py-0.5",
+																	row.after
+																		?.type ===
+																		"added" &&
+																		"bg-green-500/10"
+																)}
+															>
+																{
+																	row.after
+																		?.text
+																}
+															</div>
+														</div>
+													)
+												)}
+											</div>
+										) : (
+											<p className="text-sm text-muted-foreground">
+												No content changes.
+											</p>
+										)}
+									</div>
+								</>
+							)}
+						</div>
+					</div>
+				)}
+
+				<AlertDialog open={showRestore} onOpenChange={setShowRestore}>
+					<AlertDialogContent>
+						<AlertDialogHeader>
+							<AlertDialogTitle>
+								Restore this revision?
+							</AlertDialogTitle>
+							<AlertDialogDescription>
+								The title, content, SEO fields and tags will be
+								replaced with this revision. The current version
+								stays in the history, so this can be undone.
+							</AlertDialogDescription>
+						</AlertDialogHeader>
+						<AlertDialogFooter>
+							<AlertDialogCancel disabled={isRestoring}>
+								Cancel
+							</AlertDialogCancel>
+							<AlertDialogAction
+								onClick={handleRestore}
+								disabled={isRestoring}
+							>
+								{isRestoring ? "Restoring..." : "Restore"}
+							</AlertDialogAction>
+						</AlertDialogFooter>
+					</AlertDialogContent>
+				</AlertDialog>
+			</CardContent>
+		</Card>
+	);
+}
@@ -1,20 +1,68 @@
 'use client'
 
+import { useRef, useState } from 'react'
+import { ImageIcon } from 'lucide-react'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import { MediaPickerDialog } from '@/modules/media/components/media-picker-dialog'
+import { getMediaSrcSet, getPreferredMediaUrl } from '@/modules/media/lib/urls'
+import { Media } from '@/modules/media/types/media.types'
 
 interface RichTextEditorProps {
     value: string
     onChange: (value: string) => void
 }
 
+const escapeAttribute = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+
+const escapeText = (value: string) =>
+    value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+function imageMarkup(media: Media) {
+    const srcSet = getMediaSrcSet(media)
+    const img = `<img src="${getPreferredMediaUrl(media)}"${
+        srcSet ? ` srcset="${srcSet}" sizes="(max-width: 768px) 100vw, 768px"` : ''
+    } alt="${escapeAttribute(media.alt ?? '')}" />`
+
+    return media.caption
+        ? `<figure>\n  ${img}\n  <figcaption>${escapeText(media.caption)}</figcaption>\n</figure>`
+        : img
+}
+
 export function RichTextEditor({ value, onChange }: RichTextEditorProps) {
+    const textareaRef = useRef<HTMLTextAreaElement>(null)
+    const [isPickingImage, setIsPickingImage] = useState(false)
+
+    // Insert at the cursor, or append when the textarea was never focused
+    const insertImage = (media: Media) => {
+        const textarea = textareaRef.current
+        const start = textarea?.selectionStart ?? value.length
+        const end = textarea?.selectionEnd ?? value.length
+        const markup = imageMarkup(media)
+        onChange(value.slice(0, start) + markup + value.slice(end))
+    }
+
     return (
         <div className="space-y-2">
-            <Label className="text-sm text-muted-foreground">
-                Content (HTML supported - you can use tags like &lt;h2&gt;, &lt;p&gt;, &lt;strong&gt;, &lt;em&gt;, &lt;ul&gt;, &lt;img&gt;, etc.)
-            </Label>
+            <div className="flex items-end justify-between gap-2">
+                <Label className="text-sm text-muted-foreground">
+                    Content (HTML supported - you can use tags like &lt;h2&gt;, &lt;p&gt;, &lt;strong&gt;, &lt;em&gt;, &lt;ul&gt;, &lt;img&gt;, etc.)
+                </Label>
+                <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="shrink-0"
+                    onClick={() => setIsPickingImage(true)}
+                >
+                    <ImageIcon className="mr-2 h-4 w-4" />
+                    Insert Image
+                </Button>
+            </div>
             <Textarea
+                ref={textareaRef}
                 value={value}
                 onChange={(e) => onChange(e.target.value)}
                 className="min-h-[400px] font-mono text-sm"
@@ -26,6 +74,11 @@ export function RichTextEditor({ value, onChange }: RichTextEditorProps) {
   <li>List item 2</li>
 </ul>"
             />
+            <MediaPickerDialog
+                open={isPickingImage}
+                onOpenChange={setIsPickingImage}
+                onSelect={insertImage}
+            />
         </div>
     )
 }
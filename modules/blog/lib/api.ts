@@ -1,10 +1,12 @@
 import prisma from "@/modules/admin/lib/db";
+import { defaultLocale, Locale } from "@/lib/i18n";
+import { LocalizedPost } from "@/modules/blog/types/blogs.types";
 
 export async function getDashboardStats() {
 	const [totalPosts, publishedPosts, drafts, totalTags] = await Promise.all([
 		prisma.post.count(),
 		prisma.post.count({ where: { published: true } }),
-		prisma.post.count({ where: { published: false } }),
+		prisma.post.count({ where: { published: false, publishAt: null } }),
 		prisma.tag.count(),
 	]);
 
@@ -29,8 +31,12 @@ export async function getPosts(
 
 	if (status === "published") {
 		where.published = true;
+	} else if (status === "scheduled") {
+		where.published = false;
+		where.publishAt = { not: null };
 	} else if (status === "draft") {
 		where.published = false;
+		where.publishAt = null;
 	}
 
 	const [posts, total] = await Promise.all([
@@ -47,16 +53,100 @@ export async function getPosts(
 	return { posts, total, totalPages: Math.ceil(total / limit) };
 }
 
-export async function getPostBySlug(slug: string) {
-	return await prisma.post.findUnique({
+/**
+ * Fetch a post in the given locale. Falls back to the English original when
+ * the post has no translation for it, and per field for optional fields.
+ */
+export async function getPostBySlug(
+	slug: string,
+	locale: Locale = defaultLocale
+): Promise<LocalizedPost | null> {
+	const post = await prisma.post.findUnique({
 		where: { slug },
-		include: { author: true, tags: true },
+		include: { author: true, tags: true, translations: true },
 	});
+	if (!post) return null;
+
+	const { translations, ...original } = post;
+	const availableLocales = [
+		defaultLocale,
+		...translations.map((translation) => translation.locale as Locale),
+	];
+	const translation = translations.find((item) => item.locale === locale);
+	if (!translation) {
+		return { ...original, locale: defaultLocale, availableLocales };
+	}
+
+	return {
+		...original,
+		title: translation.title,
+		content: translation.content,
+		excerpt: translation.excerpt || original.excerpt,
+		seoTitle: translation.seoTitle || original.seoTitle,
+		seoDescription: translation.seoDescription || original.seoDescription,
+		locale,
+		availableLocales,
+	};
 }
 
 export async function getPostById(id: string) {
 	return await prisma.post.findUnique({
 		where: { id },
+		include: { author: true, tags: true, translations: true },
+	});
+}
+
+export async function getPostRevisions(postId: string) {
+	return await prisma.postRevision.findMany({
+		where: { postId },
+		orderBy: { createdAt: "desc" },
+		include: { author: { select: { username: true } } },
+	});
+}
+
+// Published and not past its unpublish time, like isLive
+const liveWhere = () => ({
+	published: true,
+	OR: [{ unpublishAt: null }, { unpublishAt: { gt: new Date() } }],
+});
+
+export async function getTagBySlug(slug: string) {
+	return await prisma.tag.findUnique({ where: { slug } });
+}
+
+export async function getPostsByTag(slug: string, page = 1, limit = 9) {
+	const skip = (page - 1) * limit;
+	const where = { ...liveWhere(), tags: { some: { slug } } };
+
+	const [posts, total] = await Promise.all([
+		prisma.post.findMany({
+			where,
+			skip,
+			take: limit,
+			orderBy: { createdAt: "desc" },
+			include: { author: true, tags: true },
+		}),
+		prisma.post.count({ where }),
+	]);
+
+	return { posts, total, totalPages: Math.ceil(total / limit) };
+}
+
+/** Tags with the most readable posts, for browsing by topic. */
+export async function getPopularTags(limit = 8) {
+	return await prisma.tag.findMany({
+		where: { posts: { some: liveWhere() } },
+		orderBy: { posts: { _count: "desc" } },
+		take: limit,
+	});
+}
+
+/** The newest readable posts, for the feeds. */
+export async function getFeedPosts(limit = 50) {
+	return await prisma.post.findMany({
+		where: liveWhere(),
+		orderBy: { createdAt: "desc" },
+		take: limit,
 		include: { author: true, tags: true },
 	});
 }
@@ -0,0 +1,108 @@
+export type DiffLineType = "equal" | "added" | "removed";
+
+export interface DiffLine {
+	type: DiffLineType;
+	text: string;
+}
+
+// One row of a side-by-side view; a side is null where it has no line
+export interface DiffRow {
+	before: DiffLine | null;
+	after: DiffLine | null;
+}
+
+/** Splits post HTML so each tag starts a line, for comparing markup. */
+export const htmlToLines = (html: string) =>
+	html
+		.replace(/>\s*</g, ">\n<")
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean);
+
+/** Reduces post HTML to its readable text, one block per line. */
+export const htmlToTextLines = (html: string) =>
+	html
+		.replace(/<br\s*\/?>/gi, "\n")
+		.replace(/<\/(p|div|h[1-6]|li|blockquote|pre|tr)>/gi, "\n")
+		.replace(/<[^>]*>/g, "")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, "&")
+		.split("\n")
+		.map((line) => line.trim())
+		.filter(Boolean);
+
+/**
+ * Line diff based on the longest common subsequence.
+ * Quadratic, which is fine for the size of a blog post.
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+	const rows = before.length + 1;
+	const cols = after.length + 1;
+	// lcs[i * cols + j] = common lines between before[i:] and after[j:]
+	const lcs = new Uint32Array(rows * cols);
+
+	for (let i = before.length - 1; i >= 0; i--) {
+		for (let j = after.length - 1; j >= 0; j--) {
+			lcs[i * cols + j] =
+				before[i] === after[j]
+					? lcs[(i + 1) * cols + j + 1] + 1
+					: Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+		}
+	}
+
+	const result: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < before.length && j < after.length) {
+		if (before[i] === after[j]) {
+			result.push({ type: "equal", text: before[i] });
+			i++;
+			j++;
+		} else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+			result.push({ type: "removed", text: before[i++] });
+		} else {
+			result.push({ type: "added", text: after[j++] });
+		}
+	}
+	while (i < before.length) {
+		result.push({ type: "removed", text: before[i++] });
+	}
+	while (j < after.length) {
+		result.push({ type: "added", text: after[j++] });
+	}
+
+	return result;
+}
+
+/** Pairs removed and added runs so changed lines sit next to each other. */
+export function toSideBySide(lines: DiffLine[]): DiffRow[] {
+	const rows: DiffRow[] = [];
+	let removed: DiffLine[] = [];
+	let added: DiffLine[] = [];
+
+	const flush = () => {
+		for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+			rows.push({ before: removed[k] ?? null, after: added[k] ?? null });
+		}
+		removed = [];
+		added = [];
+	};
+
+	for (const line of lines) {
+		if (line.type === "removed") {
+			removed.push(line);
+		} else if (line.type === "added") {
+			added.push(line);
+		} else {
+			flush();
+			rows.push({ before: line, after: line });
+		}
+	}
+	flush();
+
+	return rows;
+}
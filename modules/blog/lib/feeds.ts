@@ -0,0 +1,210 @@
+import { createHash } from "crypto";
+import { getDynamicSEOConfig } from "@/lib/utils/seo/seo-config-loader";
+import { getFeedPosts } from "./api";
+import { Post } from "../types/blogs.types";
+
+/**
+ * RSS 2.0, Atom and JSON Feed documents for the published posts, served with
+ * validators so feed readers polling every few minutes mostly get a 304.
+ */
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+export const FEED_PATHS: Record<FeedFormat, string> = {
+	rss: "/blog/rss.xml",
+	atom: "/blog/atom.xml",
+	json: "/blog/feed.json",
+};
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+	rss: "application/rss+xml; charset=utf-8",
+	atom: "application/atom+xml; charset=utf-8",
+	json: "application/feed+json; charset=utf-8",
+};
+
+// Shared caches hold a feed for 15 minutes and may serve it stale for an
+// hour while refetching
+const CACHE_CONTROL =
+	"public, max-age=0, s-maxage=900, stale-while-revalidate=3600";
+
+interface Feed {
+	title: string;
+	description: string;
+	siteUrl: string;
+	blogUrl: string;
+	feedUrl: string;
+	updated: Date;
+	posts: Post[];
+}
+
+const escapeXml = (value: string) =>
+	value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+
+const absoluteUrl = (url: string, siteUrl: string) =>
+	/^https?:\/\//.test(url)
+		? url
+		: `${siteUrl}${url.startsWith("/") ? "" : "/"}${url}`;
+
+const postUrl = (post: Post, feed: Feed) => `${feed.blogUrl}/${post.slug}`;
+
+function buildRss(feed: Feed) {
+	const items = feed.posts.map((post) => {
+		const url = postUrl(post, feed);
+		return [
+			"<item>",
+			`<title>${escapeXml(post.title)}</title>`,
+			`<link>${escapeXml(url)}</link>`,
+			`<guid isPermaLink="true">${escapeXml(url)}</guid>`,
+			`<pubDate>${post.createdAt.toUTCString()}</pubDate>`,
+			`<dc:creator>${escapeXml(post.author.username)}</dc:creator>`,
+			...post.tags.map(
+				(tag) => `<category>${escapeXml(tag.name)}</category>`
+			),
+			post.excerpt
+				? `<description>${escapeXml(post.excerpt)}</description>`
+				: "",
+			`<content:encoded>${escapeXml(post.content)}</content:encoded>`,
+			"</item>",
+		]
+			.filter(Boolean)
+			.join("");
+	});
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+		"<channel>",
+		`<title>${escapeXml(feed.title)}</title>`,
+		`<link>${escapeXml(feed.blogUrl)}</link>`,
+		`<description>${escapeXml(feed.description)}</description>`,
+		"<language>en</language>",
+		`<lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+		`<atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml" />`,
+		...items,
+		"</channel>",
+		"</rss>",
+	].join("\n");
+}
+
+function buildAtom(feed: Feed) {
+	const entries = feed.posts.map((post) => {
+		const url = postUrl(post, feed);
+		return [
+			"<entry>",
+			`<title>${escapeXml(post.title)}</title>`,
+			`<link rel="alternate" type="text/html" href="${escapeXml(url)}" />`,
+			`<id>${escapeXml(url)}</id>`,
+			`<published>${post.createdAt.toISOString()}</published>`,
+			`<updated>${post.updatedAt.toISOString()}</updated>`,
+			`<author><name>${escapeXml(post.author.username)}</name></author>`,
+			...post.tags.map(
+				(tag) =>
+					`<category term="${escapeXml(tag.slug)}" label="${escapeXml(tag.name)}" />`
+			),
+			post.excerpt ? `<summary>${escapeXml(post.excerpt)}</summary>` : "",
+			`<content type="html">${escapeXml(post.content)}</content>`,
+			"</entry>",
+		]
+			.filter(Boolean)
+			.join("");
+	});
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+		`<title>${escapeXml(feed.title)}</title>`,
+		`<subtitle>${escapeXml(feed.description)}</subtitle>`,
+		`<link rel="alternate" type="text/html" href="${escapeXml(feed.blogUrl)}" />`,
+		`<link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}" />`,
+		`<id>${escapeXml(feed.blogUrl)}</id>`,
+		`<updated>${feed.updated.toISOString()}</updated>`,
+		...entries,
+		"</feed>",
+	].join("\n");
+}
+
+function buildJsonFeed(feed: Feed) {
+	return JSON.stringify({
+		version: "https://jsonfeed.org/version/1.1",
+		title: feed.title,
+		description: feed.description,
+		home_page_url: feed.blogUrl,
+		feed_url: feed.feedUrl,
+		language: "en",
+		items: feed.posts.map((post) => ({
+			id: postUrl(post, feed),
+			url: postUrl(post, feed),
+			title: post.title,
+			summary: post.excerpt || undefined,
+			content_html: post.content,
+			image: post.coverImage
+				? absoluteUrl(post.coverImage, feed.siteUrl)
+				: undefined,
+			date_published: post.createdAt.toISOString(),
+			date_modified: post.updatedAt.toISOString(),
+			authors: [{ name: post.author.username }],
+			tags: post.tags.map((tag) => tag.name),
+		})),
+	});
+}
+
+const BUILDERS: Record<FeedFormat, (feed: Feed) => string> = {
+	rss: buildRss,
+	atom: buildAtom,
+	json: buildJsonFeed,
+};
+
+/**
+ * Builds the feed and answers conditional requests with a 304 when the
+ * reader's copy is still current.
+ */
+export async function createFeedResponse(
+	request: Request,
+	format: FeedFormat
+): Promise<Response> {
+	const [config, posts] = await Promise.all([
+		getDynamicSEOConfig(),
+		getFeedPosts(),
+	]);
+
+	const siteUrl = config.defaultDomain.replace(/\/$/, "");
+	const updated = posts.reduce(
+		(latest, post) => (post.updatedAt > latest ? post.updatedAt : latest),
+		new Date(0)
+	);
+	const body = BUILDERS[format]({
+		title: `${config.defaults.siteName} Blog`,
+		description: config.defaults.description,
+		siteUrl,
+		blogUrl: `${siteUrl}/blog`,
+		feedUrl: `${siteUrl}${FEED_PATHS[format]}`,
+		updated,
+		posts,
+	});
+
+	const etag = `"${createHash("sha1").update(body).digest("hex")}"`;
+	// HTTP dates have no milliseconds
+	const lastModified = new Date(Math.floor(updated.getTime() / 1000) * 1000);
+	const headers = new Headers({
+		"Content-Type": CONTENT_TYPES[format],
+		"Cache-Control": CACHE_CONTROL,
+		ETag: etag,
+		"Last-Modified": lastModified.toUTCString(),
+	});
+
+	// If-None-Match wins over If-Modified-Since when both are sent
+	const ifNoneMatch = request.headers.get("if-none-match");
+	const ifModifiedSince = request.headers.get("if-modified-since");
+	const notModified = ifNoneMatch
+		? ifNoneMatch.split(",").some((tag) => tag.trim() === etag)
+		: !!ifModifiedSince &&
+			new Date(ifModifiedSince).getTime() >= lastModified.getTime();
+	if (notModified) return new Response(null, { status: 304, headers });
+
+	return new Response(body, { headers });
+}
@@ -0,0 +1,157 @@
+import prisma from "@/modules/admin/lib/db";
+import { isLive } from "@/modules/admin/lib/publishing";
+import { SearchSnippet } from "../types/blogs.types";
+
+/**
+ * Relevance-ranked search over published posts. Every term has to appear
+ * somewhere in the post; matches in the title count most, then tags, the
+ * excerpt and finally the body.
+ */
+
+const MAX_TERMS = 8;
+const SNIPPET_LENGTH = 180;
+
+const WEIGHTS = {
+	phraseInTitle: 20,
+	title: 10,
+	tag: 6,
+	excerpt: 4,
+	// Per occurrence, capped so long posts don't win by length alone
+	content: 1,
+	maxContentHits: 5,
+};
+
+const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const getSearchTerms = (query: string) =>
+	[
+		...new Set(
+			query
+				.toLowerCase()
+				.split(/\s+/)
+				.map((term) =>
+					term.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "")
+				)
+				.filter((term) => term.length > 1)
+		),
+	].slice(0, MAX_TERMS);
+
+export const toPlainText = (html: string) =>
+	html
+		.replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+		.replace(/<[^>]+>/g, " ")
+		.replace(/&nbsp;/g, " ")
+		.replace(/&amp;/g, "&")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/\s+/g, " ")
+		.trim();
+
+const countMatches = (text: string, term: string) =>
+	text.match(new RegExp(escapeRegExp(term), "gi"))?.length ?? 0;
+
+/**
+ * A passage around the first match, split so the terms can be highlighted
+ * without rendering HTML.
+ */
+export function buildSnippet(text: string, terms: string[]): SearchSnippet {
+	const lower = text.toLowerCase();
+	const first = Math.min(
+		...terms
+			.map((term) => lower.indexOf(term))
+			.filter((index) => index >= 0)
+	);
+
+	let start = Number.isFinite(first)
+		? Math.max(0, first - SNIPPET_LENGTH / 3)
+		: 0;
+	// Start on a word boundary
+	if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+	const end = Math.min(text.length, start + SNIPPET_LENGTH);
+	let passage = text.slice(start, end).trim();
+	if (start > 0) passage = `…${passage}`;
+	if (end < text.length) passage = `${passage}…`;
+
+	if (terms.length === 0) return [{ text: passage, highlight: false }];
+	const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+	return passage
+		.split(pattern)
+		.filter(Boolean)
+		.map((part) => ({
+			text: part,
+			highlight: terms.includes(part.toLowerCase()),
+		}));
+}
+
+export async function searchPosts(query: string, page = 1, limit = 10) {
+	const terms = getSearchTerms(query);
+	if (terms.length === 0) return { posts: [], total: 0, totalPages: 0 };
+
+	const candidates = await prisma.post.findMany({
+		where: {
+			published: true,
+			AND: terms.map((term) => ({
+				OR: [
+					{ title: { contains: term } },
+					{ excerpt: { contains: term } },
+					{ content: { contains: term } },
+					{ tags: { some: { name: { contains: term } } } },
+				],
+			})),
+		},
+		include: { author: true, tags: true },
+	});
+
+	const phrase = query.trim().toLowerCase();
+	const ranked = candidates
+		.filter((post) => isLive(post))
+		.map((post) => {
+			const title = post.title.toLowerCase();
+			const excerpt = (post.excerpt ?? "").toLowerCase();
+			const content = toPlainText(post.content);
+			const tags = post.tags.map((tag) => tag.name.toLowerCase());
+
+			let score =
+				terms.length > 1 && title.includes(phrase)
+					? WEIGHTS.phraseInTitle
+					: 0;
+			for (const term of terms) {
+				if (title.includes(term)) score += WEIGHTS.title;
+				if (tags.some((tag) => tag.includes(term))) {
+					score += WEIGHTS.tag;
+				}
+				if (excerpt.includes(term)) score += WEIGHTS.excerpt;
+				score +=
+					Math.min(
+						countMatches(content, term),
+						WEIGHTS.maxContentHits
+					) * WEIGHTS.content;
+			}
+
+			// The excerpt reads better, unless only the body matches
+			const snippetSource = terms.some((term) => excerpt.includes(term))
+				? (post.excerpt ?? "")
+				: content;
+
+			return { post, score, snippet: buildSnippet(snippetSource, terms) };
+		})
+		// The database also matched inside HTML tags
+		.filter(({ score }) => score > 0)
+		.sort(
+			(a, b) =>
+				b.score - a.score ||
+				b.post.createdAt.getTime() - a.post.createdAt.getTime()
+		);
+
+	const skip = (page - 1) * limit;
+	return {
+		posts: ranked
+			.slice(skip, skip + limit)
+			.map(({ post, snippet }) => ({ ...post, snippet })),
+		total: ranked.length,
+		totalPages: Math.ceil(ranked.length / limit),
+	};
+}
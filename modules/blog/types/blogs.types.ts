@@ -1,5 +1,34 @@
 import { Prisma } from "@prisma/client";
+import { Locale } from "@/lib/i18n";
 
 export type Post = Prisma.PostGetPayload<{
 	include: { author: true; tags: true };
 }>;
+
+export type PostRevision = Prisma.PostRevisionGetPayload<{
+	include: { author: { select: { username: true } } };
+}>;
+
+export type PostWithTranslations = Prisma.PostGetPayload<{
+	include: { author: true; tags: true; translations: true };
+}>;
+
+// A post with the fields of the requested locale filled in
+export type LocalizedPost = Post & {
+	locale: Locale;
+	// Locales the post can be read in, English included
+	availableLocales: Locale[];
+};
+
+// A search result's matching passage, split where the terms matched
+export type SearchSnippet = { text: string; highlight: boolean }[];
+
+export interface PostTranslationInput {
+	title: string;
+	excerpt: string;
+	content: string;
+	seoTitle: string;
+	seoDescription: string;
+}
+
+export type PostTranslations = Partial<Record<Locale, PostTranslationInput>>;
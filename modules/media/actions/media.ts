@@ -0,0 +1,82 @@
+"use server";
+
+import prisma from "@/modules/admin/lib/db";
+import { authorize } from "@/modules/auth/lib/auth";
+import { revalidatePath } from "next/cache";
+import { findMediaUsage, getMedia } from "../lib/api";
+import { deleteMediaFiles } from "../lib/storage";
+
+// Used by the picker dialog, which loads the library on the client
+export async function searchMedia(search: string, page = 1) {
+	const { error } = await authorize("media.manage");
+	if (error) return { error, items: [], total: 0, totalPages: 0 };
+
+	return await getMedia(page, 24, search);
+}
+
+export async function getMediaUsage(id: string) {
+	const { error } = await authorize("media.manage");
+	if (error) return { error };
+
+	const media = await prisma.media.findUnique({
+		where: { id },
+		select: { filename: true },
+	});
+	if (!media) return { error: "File not found" };
+
+	return { usage: await findMediaUsage(media.filename) };
+}
+
+export async function updateMedia(
+	id: string,
+	data: { alt: string; caption: string }
+) {
+	const { error } = await authorize("media.manage");
+	if (error) return { error };
+
+	try {
+		await prisma.media.update({
+			where: { id },
+			data: {
+				alt: data.alt.trim() || null,
+				caption: data.caption.trim() || null,
+			},
+		});
+	} catch (e) {
+		console.error(e);
+		return { error: "Failed to update file details" };
+	}
+
+	revalidatePath("/admin/media");
+	return { success: true };
+}
+
+export async function deleteMedia(id: string) {
+	const { error } = await authorize("media.delete");
+	if (error) return { error };
+
+	const media = await prisma.media.findUnique({ where: { id } });
+	if (!media) return { error: "File not found" };
+
+	// Deleting a referenced file would leave broken images behind
+	const usage = await findMediaUsage(media.filename);
+	const usedBy = usage.posts.length + usage.pages.length;
+	if (usedBy > 0) {
+		return {
+			error: `This file is still used by ${usedBy} post${
+				usedBy === 1 ? "" : "s"
+			} or page${usedBy === 1 ? "" : "s"}. Remove it from them first.`,
+		};
+	}
+
+	try {
+		await prisma.media.delete({ where: { id } });
+		await deleteMediaFiles(media);
+	} catch (e) {
+		console.error(e);
+		return { error: "Failed to delete file" };
+	}
+
+	revalidatePath("/admin/media");
+	return { success: true };
+}
@@ -0,0 +1,278 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+	deleteMedia,
+	getMediaUsage,
+	updateMedia,
+} from "@/modules/media/actions/media";
+import {
+	formatFileSize,
+	getMediaVariants,
+	getPreferredMediaUrl,
+} from "@/modules/media/lib/urls";
+import { Media, MediaUsage } from "@/modules/media/types/media.types";
+
+interface MediaDetailsDialogProps {
+	media: Media | null;
+	canDelete: boolean;
+	onClose: () => void;
+	onChanged: () => void;
+}
+
+export function MediaDetailsDialog({
+	media,
+	canDelete,
+	onClose,
+	onChanged,
+}: MediaDetailsDialogProps) {
+	const [alt, setAlt] = useState("");
+	const [caption, setCaption] = useState("");
+	const [usage, setUsage] = useState<MediaUsage | null>(null);
+	const [isSaving, setIsSaving] = useState(false);
+	const [showDelete, setShowDelete] = useState(false);
+	const [isDeleting, setIsDeleting] = useState(false);
+
+	useEffect(() => {
+		setAlt(media?.alt ?? "");
+		setCaption(media?.caption ?? "");
+		setUsage(null);
+		if (!media) return;
+
+		let cancelled = false;
+		getMediaUsage(media.id).then((result) => {
+			if (!cancelled && "usage" in result && result.usage) {
+				setUsage(result.usage);
+			}
+		});
+		return () => {
+			cancelled = true;
+		};
+	}, [media]);
+
+	if (!media) return null;
+
+	const url = getPreferredMediaUrl(media);
+	const usedBy = usage ? usage.posts.length + usage.pages.length : 0;
+
+	const handleSave = async () => {
+		setIsSaving(true);
+		const result = await updateMedia(media.id, { alt, caption });
+		setIsSaving(false);
+		if (result?.error) {
+			toast.error(result.error);
+			return;
+		}
+		toast.success("File details saved");
+		onChanged();
+	};
+
+	const handleDelete = async () => {
+		setIsDeleting(true);
+		const result = await deleteMedia(media.id);
+		setIsDeleting(false);
+		setShowDelete(false);
+		if (result?.error) {
+			toast.error(result.error);
+			return;
+		}
+		toast.success("File deleted");
+		onClose();
+		onChanged();
+	};
+
+	return (
+		<Dialog open onOpenChange={(open) => !open && onClose()}>
+			<DialogContent className="sm:max-w-3xl">
+				<DialogHeader>
+					<DialogTitle className="truncate pr-8">
+						{media.originalName}
+					</DialogTitle>
+					<DialogDescription>
+						{media.width && media.height
+							? `${media.width} × ${media.height} · `
+							: ""}
+						{formatFileSize(media.size)} · {media.mimeType} ·
+						Uploaded{" "}
+						{format(new Date(media.createdAt), "MMM d, yyyy")}
+						{media.uploadedBy
+							? ` by ${media.uploadedBy.username}`
+							: ""}
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="grid gap-6 md:grid-cols-2">
+					<div className="space-y-3">
+						<div className="relative aspect-video w-full overflow-hidden rounded-md border bg-muted">
+							<Image
+								src={url}
+								alt={media.alt || media.originalName}
+								fill
+								sizes="400px"
+								className="object-contain"
+								unoptimized
+							/>
+						</div>
+						<Input
+							readOnly
+							value={url}
+							onFocus={(e) => e.target.select()}
+						/>
+						{getMediaVariants(media).length > 0 && (
+							<p className="text-xs text-muted-foreground">
+								WebP sizes:{" "}
+								{getMediaVariants(media)
+									.map((variant) => `${variant.width}px`)
+									.join(", ")}
+							</p>
+						)}
+					</div>
+
+					<div className="space-y-4">
+						<div className="space-y-2">
+							<Label htmlFor="media-alt">Alt text</Label>
+							<Input
+								id="media-alt"
+								value={alt}
+								onChange={(e) => setAlt(e.target.value)}
+								placeholder="Describe the image for screen readers"
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label htmlFor="media-caption">Caption</Label>
+							<Textarea
+								id="media-caption"
+								value={caption}
+								onChange={(e) => setCaption(e.target.value)}
+							/>
+						</div>
+						<div className="space-y-2">
+							<Label>Used in</Label>
+							{!usage ? (
+								<p className="text-sm text-muted-foreground">
+									Checking...
+								</p>
+							) : usedBy === 0 ? (
+								<p className="text-sm text-muted-foreground">
+									Not used by any post or page.
+								</p>
+							) : (
+								<ul className="space-y-1 text-sm">
+									{usage.posts.map((post) => (
+										<li key={post.id}>
+											<Link
+												href={`/admin/posts/${post.id}`}
+												className="text-primary hover:underline"
+											>
+												{post.title}
+											</Link>{" "}
+											<span className="text-xs text-muted-foreground">
+												(post)
+											</span>
+										</li>
+									))}
+									{usage.pages.map((page) => (
+										<li key={page.id}>
+											<Link
+												href={`/admin/seo/${page.id}`}
+												className="text-primary hover:underline"
+											>
+												{page.title}
+											</Link>{" "}
+											<span className="text-xs text-muted-foreground">
+												(/{page.slug})
+											</span>
+										</li>
+									))}
+								</ul>
+							)}
+						</div>
+					</div>
+				</div>
+
+				<DialogFooter className="gap-2 sm:justify-between">
+					{canDelete ? (
+						<Button
+							type="button"
+							variant="destructive"
+							disabled={!usage || usedBy > 0}
+							title={
+								usedBy > 0
+									? "Remove the file from the posts and pages using it first"
+									: undefined
+							}
+							onClick={() => setShowDelete(true)}
+						>
+							Delete
+						</Button>
+					) : (
+						<span />
+					)}
+					<Button
+						type="button"
+						onClick={handleSave}
+						disabled={isSaving}
+					>
+						{isSaving && (
+							<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+						)}
+						Save Details
+					</Button>
+				</DialogFooter>
+
+				<AlertDialog open={showDelete} onOpenChange={setShowDelete}>
+					<AlertDialogContent>
+						<AlertDialogHeader>
+							<AlertDialogTitle>
+								Delete this file?
+							</AlertDialogTitle>
+							<AlertDialogDescription>
+								The original and all of its sizes will be
+								removed. This action cannot be undone.
+							</AlertDialogDescription>
+						</AlertDialogHeader>
+						<AlertDialogFooter>
+							<AlertDialogCancel disabled={isDeleting}>
+								Cancel
+							</AlertDialogCancel>
+							<AlertDialogAction
+								onClick={handleDelete}
+								disabled={isDeleting}
+								className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+							>
+								{isDeleting ? "Deleting..." : "Delete"}
+							</AlertDialogAction>
+						</AlertDialogFooter>
+					</AlertDialogContent>
+				</AlertDialog>
+			</DialogContent>
+		</Dialog>
+	);
+}
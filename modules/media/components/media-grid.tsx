@@ -0,0 +1,50 @@
+"use client";
+
+import Image from "next/image";
+import { cn } from "@/lib/utils";
+import { Media } from "@/modules/media/types/media.types";
+import { getMediaUrl, getMediaVariants } from "@/modules/media/lib/urls";
+
+interface MediaGridProps {
+	items: Media[];
+	selectedId?: string | null;
+	onSelect: (media: Media) => void;
+}
+
+// The smallest variant is plenty for a thumbnail
+const thumbnailUrl = (media: Media) =>
+	getMediaUrl(getMediaVariants(media)[0]?.filename ?? media.filename);
+
+export function MediaGrid({ items, selectedId, onSelect }: MediaGridProps) {
+	return (
+		<div className="grid grid-cols-2 gap-3 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6">
+			{items.map((media) => (
+				<button
+					key={media.id}
+					type="button"
+					onClick={() => onSelect(media)}
+					className={cn(
+						"group overflow-hidden rounded-md border text-left transition-colors",
+						media.id === selectedId
+							? "border-primary ring-2 ring-primary"
+							: "hover:border-primary/50"
+					)}
+				>
+					<div className="relative aspect-square w-full bg-muted">
+						<Image
+							src={thumbnailUrl(media)}
+							alt={media.alt || media.originalName}
+							fill
+							sizes="200px"
+							className="object-cover"
+							unoptimized
+						/>
+					</div>
+					<div className="truncate px-2 py-1 text-xs text-muted-foreground">
+						{media.originalName}
+					</div>
+				</button>
+			))}
+		</div>
+	);
+}
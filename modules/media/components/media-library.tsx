@@ -0,0 +1,122 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ImageIcon, Search } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Media } from "@/modules/media/types/media.types";
+import { MediaGrid } from "./media-grid";
+import { MediaUploadButton } from "./media-upload-button";
+import { MediaDetailsDialog } from "./media-details-dialog";
+
+interface MediaLibraryProps {
+	items: Media[];
+	search: string;
+	page: number;
+	totalPages: number;
+	canDelete: boolean;
+}
+
+export function MediaLibrary({
+	items,
+	search,
+	page,
+	totalPages,
+	canDelete,
+}: MediaLibraryProps) {
+	const router = useRouter();
+	const [selected, setSelected] = useState<Media | null>(null);
+
+	const pageHref = (target: number) => {
+		const params = new URLSearchParams();
+		if (search) params.set("search", search);
+		if (target > 1) params.set("page", String(target));
+		const query = params.toString();
+		return query ? `/admin/media?${query}` : "/admin/media";
+	};
+
+	return (
+		<div className="space-y-6">
+			<div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+				<form
+					action="/admin/media"
+					className="flex w-full max-w-sm gap-2"
+				>
+					<Input
+						name="search"
+						defaultValue={search}
+						placeholder="Search by name, alt text or caption"
+					/>
+					<Button type="submit" variant="outline" size="icon">
+						<Search className="h-4 w-4" />
+					</Button>
+				</form>
+				<MediaUploadButton
+					onUploaded={() => {
+						toast.success("File uploaded");
+						router.refresh();
+					}}
+				/>
+			</div>
+
+			{items.length === 0 ? (
+				<div className="flex flex-col items-center justify-center rounded-md border border-dashed py-16 text-muted-foreground">
+					<ImageIcon className="mb-2 h-8 w-8 opacity-50" />
+					<p>
+						{search
+							? "No files match your search."
+							: "No files yet."}
+					</p>
+				</div>
+			) : (
+				<MediaGrid
+					items={items}
+					selectedId={selected?.id}
+					onSelect={setSelected}
+				/>
+			)}
+
+			{totalPages > 1 && (
+				<div className="flex items-center justify-center gap-2">
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={page <= 1}
+						asChild={page > 1}
+					>
+						{page > 1 ? (
+							<Link href={pageHref(page - 1)}>Previous</Link>
+						) : (
+							"Previous"
+						)}
+					</Button>
+					<span className="text-sm text-muted-foreground">
+						Page {page} of {totalPages}
+					</span>
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={page >= totalPages}
+						asChild={page < totalPages}
+					>
+						{page < totalPages ? (
+							<Link href={pageHref(page + 1)}>Next</Link>
+						) : (
+							"Next"
+						)}
+					</Button>
+				</div>
+			)}
+
+			<MediaDetailsDialog
+				media={selected}
+				canDelete={canDelete}
+				onClose={() => setSelected(null)}
+				onChanged={() => router.refresh()}
+			/>
+		</div>
+	);
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Search } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { searchMedia } from "@/modules/media/actions/media";
+import { Media } from "@/modules/media/types/media.types";
+import { MediaGrid } from "./media-grid";
+import { MediaUploadButton } from "./media-upload-button";
+
+interface MediaPickerDialogProps {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	onSelect: (media: Media) => void;
+}
+
+export function MediaPickerDialog({
+	open,
+	onOpenChange,
+	onSelect,
+}: MediaPickerDialogProps) {
+	const [search, setSearch] = useState("");
+	const [items, setItems] = useState<Media[]>([]);
+	const [page, setPage] = useState(1);
+	const [totalPages, setTotalPages] = useState(0);
+	const [selected, setSelected] = useState<Media | null>(null);
+	const [isLoading, setIsLoading] = useState(false);
+
+	const load = useCallback(async (query: string, target: number) => {
+		setIsLoading(true);
+		const result = await searchMedia(query, target);
+		setIsLoading(false);
+		if ("error" in result && result.error) {
+			toast.error(result.error);
+			return;
+		}
+		setItems((current) =>
+			target === 1 ? result.items : [...current, ...result.items]
+		);
+		setPage(target);
+		setTotalPages(result.totalPages);
+	}, []);
+
+	useEffect(() => {
+		if (!open) return;
+		setSelected(null);
+		load("", 1);
+		setSearch("");
+	}, [open, load]);
+
+	const handleConfirm = () => {
+		if (!selected) return;
+		onSelect(selected);
+		onOpenChange(false);
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-4xl">
+				<DialogHeader>
+					<DialogTitle>Media Library</DialogTitle>
+					<DialogDescription>
+						Choose an uploaded image or upload a new one.
+					</DialogDescription>
+				</DialogHeader>
+
+				<div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+					<form
+						className="flex w-full max-w-sm gap-2"
+						onSubmit={(e) => {
+							e.preventDefault();
+							load(search, 1);
+						}}
+					>
+						<Input
+							value={search}
+							onChange={(e) => setSearch(e.target.value)}
+							placeholder="Search files"
+						/>
+						<Button type="submit" variant="outline" size="icon">
+							<Search className="h-4 w-4" />
+						</Button>
+					</form>
+					<MediaUploadButton
+						onUploaded={(media) => {
+							setItems((current) => [media, ...current]);
+							setSelected(media);
+						}}
+					/>
+				</div>
+
+				<div className="max-h-[50vh] overflow-y-auto pr-1">
+					{items.length === 0 && !isLoading ? (
+						<p className="py-12 text-center text-sm text-muted-foreground">
+							No files found.
+						</p>
+					) : (
+						<MediaGrid
+							items={items}
+							selectedId={selected?.id}
+							onSelect={setSelected}
+						/>
+					)}
+					{page < totalPages && (
+						<div className="mt-4 flex justify-center">
+							<Button
+								type="button"
+								variant="outline"
+								size="sm"
+								disabled={isLoading}
+								onClick={() => load(search, page + 1)}
+							>
+								Load more
+							</Button>
+						</div>
+					)}
+					{isLoading && (
+						<div className="flex justify-center py-4">
+							<Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+						</div>
+					)}
+				</div>
+
+				<DialogFooter>
+					<Button
+						type="button"
+						variant="outline"
+						onClick={() => onOpenChange(false)}
+					>
+						Cancel
+					</Button>
+					<Button
+						type="button"
+						onClick={handleConfirm}
+						disabled={!selected}
+					>
+						Select
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Media } from "@/modules/media/types/media.types";
+
+// Mirrors ACCEPTED_MIME_TYPES in lib/storage, which also checks the contents
+const ACCEPT = "image/jpeg,image/png,image/webp,image/gif";
+
+interface MediaUploadButtonProps {
+	onUploaded: (media: Media, url: string) => void;
+	className?: string;
+}
+
+export function MediaUploadButton({
+	onUploaded,
+	className,
+}: MediaUploadButtonProps) {
+	const inputRef = useRef<HTMLInputElement>(null);
+	const [isUploading, setIsUploading] = useState(false);
+
+	const handleChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) return;
+
+		setIsUploading(true);
+		const formData = new FormData();
+		formData.append("file", file);
+
+		try {
+			const res = await fetch("/api/upload", {
+				method: "POST",
+				body: formData,
+			});
+			const data = await res.json();
+			if (!res.ok || !data.media) {
+				toast.error(data.error || "Upload failed");
+				return;
+			}
+			onUploaded(data.media, data.url);
+		} catch (error) {
+			console.error("Upload failed", error);
+			toast.error("Upload failed");
+		} finally {
+			setIsUploading(false);
+		}
+	};
+
+	return (
+		<>
+			<input
+				ref={inputRef}
+				type="file"
+				accept={ACCEPT}
+				onChange={handleChange}
+				className="hidden"
+			/>
+			<Button
+				type="button"
+				variant="outline"
+				className={className}
+				disabled={isUploading}
+				onClick={() => inputRef.current?.click()}
+			>
+				{isUploading ? (
+					<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+				) : (
+					<Upload className="mr-2 h-4 w-4" />
+				)}
+				{isUploading ? "Uploading..." : "Upload Image"}
+			</Button>
+		</>
+	);
+}
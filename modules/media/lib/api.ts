@@ -0,0 +1,76 @@
+import { Prisma } from "@prisma/client";
+import prisma from "@/modules/admin/lib/db";
+import { MediaUsage } from "@/modules/media/types/media.types";
+
+export async function getMedia(page = 1, limit = 48, search = "") {
+	const skip = (page - 1) * limit;
+	const where = search
+		? {
+				OR: [
+					{ originalName: { contains: search } },
+					{ alt: { contains: search } },
+					{ caption: { contains: search } },
+				],
+			}
+		: {};
+
+	const [items, total] = await Promise.all([
+		prisma.media.findMany({
+			where,
+			skip,
+			take: limit,
+			orderBy: { createdAt: "desc" },
+			include: { uploadedBy: { select: { username: true } } },
+		}),
+		prisma.media.count({ where }),
+	]);
+
+	return { items, total, totalPages: Math.ceil(total / limit) };
+}
+
+/**
+ * Posts and SEO pages that mention a file. Variants share the original's
+ * name up to its extension, so matching on that finds every size.
+ */
+export async function findMediaUsage(filename: string): Promise<MediaUsage> {
+	const stem = filename.replace(/\.[^.]+$/, "");
+
+	const [posts, pages, pagesWithBlocks] = await Promise.all([
+		prisma.post.findMany({
+			where: {
+				OR: [
+					{ coverImage: { contains: stem } },
+					{ content: { contains: stem } },
+					{ translations: { some: { content: { contains: stem } } } },
+				],
+			},
+			select: { id: true, title: true },
+		}),
+		prisma.seoPage.findMany({
+			where: {
+				OR: [
+					{ content: { contains: stem } },
+					{ structuredData: { contains: stem } },
+					{ translations: { some: { content: { contains: stem } } } },
+				],
+			},
+			select: { id: true, title: true, slug: true },
+		}),
+		// Block JSON can't be searched portably, and there are few SEO pages
+		prisma.seoPage.findMany({
+			where: { blocks: { not: Prisma.DbNull } },
+			select: { id: true, title: true, slug: true, blocks: true },
+		}),
+	]);
+
+	for (const { blocks, ...page } of pagesWithBlocks) {
+		if (
+			JSON.stringify(blocks).includes(stem) &&
+			!pages.some((item) => item.id === page.id)
+		) {
+			pages.push(page);
+		}
+	}
+
+	return { posts, pages };
+}
@@ -0,0 +1,13 @@
+import path from "path";
+
+const CONTENT_TYPES: Record<string, string> = {
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".png": "image/png",
+	".webp": "image/webp",
+	".gif": "image/gif",
+};
+
+export const contentTypeFor = (key: string) =>
+	CONTENT_TYPES[path.extname(key).toLowerCase()] ??
+	"application/octet-stream";
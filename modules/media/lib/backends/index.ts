@@ -0,0 +1,64 @@
+import path from "path";
+import { createLocalBackend } from "./local";
+import { createS3Backend } from "./s3";
+import { StorageBackend, StorageDriver } from "./types";
+
+export type {
+	ByteRange,
+	StorageBackend,
+	StorageDriver,
+	StoredObject,
+	StoredObjectInfo,
+} from "./types";
+
+export const STORAGE_DRIVERS: StorageDriver[] = ["local", "s3"];
+
+export const isStorageDriver = (value: unknown): value is StorageDriver =>
+	STORAGE_DRIVERS.includes(value as StorageDriver);
+
+/**
+ * Builds a backend from the environment:
+ *
+ * - local: STORAGE_LOCAL_DIR (defaults to ./uploads in the project root)
+ * - s3: S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, and
+ *   S3_ENDPOINT / S3_FORCE_PATH_STYLE for S3-compatible services
+ */
+export function createStorageBackend(driver: StorageDriver): StorageBackend {
+	if (driver === "s3") {
+		const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } =
+			process.env;
+		if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+			throw new Error(
+				"S3 storage needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY"
+			);
+		}
+		return createS3Backend({
+			bucket: S3_BUCKET,
+			region: process.env.S3_REGION || "us-east-1",
+			accessKeyId: S3_ACCESS_KEY_ID,
+			secretAccessKey: S3_SECRET_ACCESS_KEY,
+			endpoint: process.env.S3_ENDPOINT || undefined,
+			forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+				? process.env.S3_FORCE_PATH_STYLE === "true"
+				: undefined,
+		});
+	}
+
+	return createLocalBackend(
+		process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), "uploads")
+	);
+}
+
+let storage: StorageBackend | null = null;
+
+/** The backend selected by STORAGE_DRIVER, local disk unless set to "s3" */
+export function getStorage() {
+	if (!storage) {
+		const driver = process.env.STORAGE_DRIVER || "local";
+		if (!isStorageDriver(driver)) {
+			throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+		}
+		storage = createStorageBackend(driver);
+	}
+	return storage;
+}
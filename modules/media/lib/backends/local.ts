@@ -0,0 +1,70 @@
+import { createReadStream } from "fs";
+import { mkdir, readdir, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { contentTypeFor } from "./content-type";
+import { ByteRange, StorageBackend, StoredObjectInfo } from "./types";
+
+export function createLocalBackend(root: string): StorageBackend {
+	// basename keeps "../" in a key from reaching outside the folder
+	const resolve = (key: string) => path.join(root, path.basename(key));
+
+	const statKey = async (key: string): Promise<StoredObjectInfo | null> => {
+		try {
+			const stats = await stat(resolve(key));
+			if (!stats.isFile()) return null;
+			return {
+				size: stats.size,
+				etag: `"${stats.size.toString(16)}-${Math.floor(
+					stats.mtimeMs
+				).toString(16)}"`,
+				lastModified: stats.mtime,
+				contentType: contentTypeFor(key),
+			};
+		} catch {
+			return null;
+		}
+	};
+
+	return {
+		driver: "local",
+
+		async put(key, data) {
+			await mkdir(root, { recursive: true });
+			await writeFile(resolve(key), data);
+		},
+
+		stat: statKey,
+
+		async get(key, range?: ByteRange) {
+			const info = await statKey(key);
+			if (!info) return null;
+			const stream = createReadStream(resolve(key), range);
+			return {
+				...info,
+				body: Readable.toWeb(stream) as ReadableStream<Uint8Array>,
+			};
+		},
+
+		async delete(key) {
+			await unlink(resolve(key)).catch(() => undefined);
+		},
+
+		async *list() {
+			let entries;
+			try {
+				entries = await readdir(root, { withFileTypes: true });
+			} catch {
+				return;
+			}
+			for (const entry of entries) {
+				if (entry.isFile()) yield entry.name;
+			}
+		},
+
+		// Local files are only reachable through the serving route
+		async getSignedUrl() {
+			return null;
+		},
+	};
+}
@@ -0,0 +1,38 @@
+export type StorageDriver = "local" | "s3";
+
+export interface StoredObjectInfo {
+	size: number;
+	etag: string;
+	lastModified: Date;
+	contentType: string;
+}
+
+export interface StoredObject extends StoredObjectInfo {
+	body: ReadableStream<Uint8Array>;
+}
+
+/** Inclusive byte range, as in an HTTP Range header */
+export interface ByteRange {
+	start: number;
+	end: number;
+}
+
+/**
+ * Where uploaded files live. Keys are flat file names, the same ones stored
+ * on Media records and used in /api/upload/[filename] URLs.
+ */
+export interface StorageBackend {
+	readonly driver: StorageDriver;
+	put(key: string, data: Buffer, contentType: string): Promise<void>;
+	/** Resolves to null when the key does not exist */
+	stat(key: string): Promise<StoredObjectInfo | null>;
+	get(key: string, range?: ByteRange): Promise<StoredObject | null>;
+	/** Deleting a missing key is not an error */
+	delete(key: string): Promise<void>;
+	list(): AsyncIterable<string>;
+	/**
+	 * A time-limited URL the browser can fetch directly, or null when the
+	 * backend can only be read through the serving route.
+	 */
+	getSignedUrl(key: string, expiresInSeconds: number): Promise<string | null>;
+}
@@ -0,0 +1,147 @@
+import path from "path";
+import sharp from "sharp";
+import { Prisma } from "@prisma/client";
+import prisma from "@/modules/admin/lib/db";
+import { MediaVariant } from "@/modules/media/types/media.types";
+import { getMediaVariants } from "./urls";
+import { getStorage } from "./backends";
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// sharp's format name for each image type we accept, with its MIME type
+const ACCEPTED_FORMATS: Record<string, { mimeType: string; ext: string }> = {
+	jpeg: { mimeType: "image/jpeg", ext: ".jpg" },
+	png: { mimeType: "image/png", ext: ".png" },
+	webp: { mimeType: "image/webp", ext: ".webp" },
+	gif: { mimeType: "image/gif", ext: ".gif" },
+};
+
+export const ACCEPTED_MIME_TYPES = Object.values(ACCEPTED_FORMATS).map(
+	(format) => format.mimeType
+);
+
+// Widths of the resized WebP copies; only those narrower than the original
+// are generated
+const VARIANT_WIDTHS = [480, 960, 1600];
+
+const sanitizeName = (name: string) =>
+	name
+		.toLowerCase()
+		.replace(/[^a-z0-9.\-]/g, "-")
+		.replace(/-+/g, "-")
+		.replace(/^-|-$/g, "");
+
+async function createVariants(
+	buffer: Buffer,
+	stem: string,
+	width: number,
+	format: string
+): Promise<MediaVariant[]> {
+	// Re-encoding would drop a GIF's animation
+	if (format === "gif") return [];
+
+	const widths = VARIANT_WIDTHS.filter(
+		(variantWidth) => variantWidth < width
+	);
+	// A full-size WebP, unless the original already is one
+	if (format !== "webp") widths.push(width);
+
+	const variants: MediaVariant[] = [];
+	for (const variantWidth of widths) {
+		const { data, info } = await sharp(buffer)
+			.rotate()
+			.resize({ width: variantWidth, withoutEnlargement: true })
+			.webp({ quality: 80 })
+			.toBuffer({ resolveWithObject: true });
+		const filename = `${stem}-${variantWidth}w.webp`;
+		await getStorage().put(filename, data, "image/webp");
+		variants.push({
+			width: info.width,
+			height: info.height,
+			filename,
+			size: info.size,
+		});
+	}
+	return variants;
+}
+
+/**
+ * Validates an uploaded image, stores it with its WebP variants and records
+ * it in the media library. The type is checked against the file's contents,
+ * not just the type the browser reported.
+ */
+export async function saveUpload(file: File, uploadedById: string) {
+	if (file.size > MAX_UPLOAD_BYTES) {
+		return { error: "Files can be at most 10 MB.", status: 413 };
+	}
+	if (!ACCEPTED_MIME_TYPES.includes(file.type)) {
+		return {
+			error: "Only JPEG, PNG, WebP and GIF images can be uploaded.",
+			status: 415,
+		};
+	}
+
+	const buffer = Buffer.from(await file.arrayBuffer());
+	let metadata: sharp.Metadata;
+	try {
+		metadata = await sharp(buffer).metadata();
+	} catch {
+		return { error: "The file is not a valid image.", status: 415 };
+	}
+
+	const format = metadata.format ? ACCEPTED_FORMATS[metadata.format] : null;
+	if (!format || !metadata.width || !metadata.height) {
+		return {
+			error: "Only JPEG, PNG, WebP and GIF images can be uploaded.",
+			status: 415,
+		};
+	}
+
+	// EXIF orientations 5-8 are stored rotated by 90 degrees
+	const rotated = (metadata.orientation ?? 1) >= 5;
+	const width = rotated ? metadata.height : metadata.width;
+	const height = rotated ? metadata.width : metadata.height;
+
+	const baseName = sanitizeName(path.parse(file.name).name) || "upload";
+	const stem = `${Date.now()}-${baseName}`;
+	const filename = `${stem}${format.ext}`;
+
+	// Served by /api/upload/[filename] from whichever backend is configured
+	await getStorage().put(filename, buffer, format.mimeType);
+	const variants = await createVariants(
+		buffer,
+		stem,
+		width,
+		metadata.format as string
+	);
+
+	const media = await prisma.media.create({
+		data: {
+			filename,
+			originalName: file.name,
+			mimeType: format.mimeType,
+			size: buffer.length,
+			width,
+			height,
+			variants: variants as unknown as Prisma.InputJsonValue,
+			uploadedById,
+		},
+	});
+
+	return { media };
+}
+
+/** Removes a media file and its variants from storage. */
+export async function deleteMediaFiles(media: {
+	filename: string;
+	variants: unknown;
+}) {
+	const filenames = [
+		media.filename,
+		...getMediaVariants(media).map((variant) => variant.filename),
+	];
+	// Already gone is fine; the record is what's being cleaned up
+	await Promise.all(
+		filenames.map((filename) => getStorage().delete(filename))
+	);
+}
@@ -0,0 +1,43 @@
+import { MediaVariant } from "@/modules/media/types/media.types";
+
+// Uploads are served by app/api/upload/[filename]
+export const MEDIA_URL_PREFIX = "/api/upload/";
+
+export const getMediaUrl = (filename: string) =>
+	`${MEDIA_URL_PREFIX}${filename}`;
+
+export const getMediaVariants = (media: { variants: unknown }) =>
+	[...((media.variants as MediaVariant[] | null) ?? [])].sort(
+		(a, b) => a.width - b.width
+	);
+
+/** URL to link to: the full-size WebP when there is one, else the original. */
+export const getPreferredMediaUrl = (media: {
+	filename: string;
+	width: number | null;
+	variants: unknown;
+}) => {
+	const fullSize = getMediaVariants(media).find(
+		(variant) => variant.width === media.width
+	);
+	return getMediaUrl(fullSize?.filename ?? media.filename);
+};
+
+/** `srcset` for the WebP variants, or undefined when there are none. */
+export const getMediaSrcSet = (media: { variants: unknown }) => {
+	const variants = getMediaVariants(media);
+	return variants.length > 0
+		? variants
+				.map(
+					(variant) =>
+						`${getMediaUrl(variant.filename)} ${variant.width}w`
+				)
+				.join(", ")
+		: undefined;
+};
+
+export const formatFileSize = (bytes: number) => {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,19 @@
+import { Prisma } from "@prisma/client";
+
+export type Media = Prisma.MediaGetPayload<{
+	include: { uploadedBy: { select: { username: true } } };
+}>;
+
+// A resized WebP copy of an upload, stored next to the original
+export interface MediaVariant {
+	width: number;
+	height: number;
+	filename: string;
+	size: number;
+}
+
+// Posts and SEO pages that reference a media file
+export interface MediaUsage {
+	posts: { id: string; title: string }[];
+	pages: { id: string; title: string; slug: string }[];
+}
@@ -0,0 +1,54 @@
+"use server";
+
+import prisma from "@/modules/admin/lib/db";
+import { authorize } from "@/modules/auth/lib/auth";
+import { revalidatePath } from "next/cache";
+import { RedirectInput, saveRedirect } from "../lib/redirects";
+
+export async function createRedirect(data: RedirectInput) {
+	const { error } = await authorize("redirect.manage");
+	if (error) return { success: false, error };
+
+	try {
+		const result = await saveRedirect({ ...data, automatic: false });
+		if ("error" in result) return { success: false, error: result.error };
+	} catch (error) {
+		console.error("Error creating redirect:", error);
+		return { success: false, error: "Failed to create the redirect." };
+	}
+
+	revalidatePath("/admin/redirects");
+	return { success: true };
+}
+
+export async function updateRedirect(id: string, data: RedirectInput) {
+	const { error } = await authorize("redirect.manage");
+	if (error) return { success: false, error };
+
+	try {
+		// Once edited by hand it is no longer the automatic one
+		const result = await saveRedirect({ ...data, automatic: false }, id);
+		if ("error" in result) return { success: false, error: result.error };
+	} catch (error) {
+		console.error("Error updating redirect:", error);
+		return { success: false, error: "Failed to update the redirect." };
+	}
+
+	revalidatePath("/admin/redirects");
+	return { success: true };
+}
+
+export async function deleteRedirect(id: string) {
+	const { error } = await authorize("redirect.manage");
+	if (error) return { success: false, error };
+
+	try {
+		await prisma.redirect.delete({ where: { id } });
+	} catch (error) {
+		console.error("Error deleting redirect:", error);
+		return { success: false, error: "Failed to delete the redirect." };
+	}
+
+	revalidatePath("/admin/redirects");
+	return { success: true };
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+	createRedirect,
+	updateRedirect,
+} from "@/modules/redirects/actions/redirects";
+
+interface RedirectFormProps {
+	// Edits this redirect instead of creating one
+	redirect?: {
+		id: string;
+		source: string;
+		destination: string;
+		permanent: boolean;
+	};
+	onSaved?: () => void;
+}
+
+export function RedirectForm({ redirect, onSaved }: RedirectFormProps) {
+	const router = useRouter();
+	const [source, setSource] = useState(redirect?.source ?? "");
+	const [destination, setDestination] = useState(redirect?.destination ?? "");
+	const [permanent, setPermanent] = useState(redirect?.permanent ?? true);
+	const [error, setError] = useState<string | null>(null);
+	const [isPending, setIsPending] = useState(false);
+
+	async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
+		event.preventDefault();
+		setIsPending(true);
+		setError(null);
+
+		const data = { source, destination, permanent };
+		try {
+			const result = redirect
+				? await updateRedirect(redirect.id, data)
+				: await createRedirect(data);
+			if (result.success) {
+				toast.success(
+					redirect ? "Redirect updated" : "Redirect created"
+				);
+				if (!redirect) {
+					setSource("");
+					setDestination("");
+				}
+				onSaved?.();
+				router.refresh();
+			} else {
+				setError(result.error || "Something went wrong");
+			}
+		} catch {
+			setError("A network error occurred. Please try again.");
+		} finally {
+			setIsPending(false);
+		}
+	}
+
+	return (
+		<form onSubmit={onSubmit} className="space-y-4">
+			<div className="space-y-2">
+				<Label htmlFor="redirect-source">Old Path</Label>
+				<Input
+					id="redirect-source"
+					placeholder="/old-page or /old-blog/*"
+					value={source}
+					onChange={(e) => setSource(e.target.value)}
+					required
+				/>
+			</div>
+			<div className="space-y-2">
+				<Label htmlFor="redirect-destination">New URL</Label>
+				<Input
+					id="redirect-destination"
+					placeholder="/new-page, /blog/* or https://..."
+					value={destination}
+					onChange={(e) => setDestination(e.target.value)}
+					required
+				/>
+				<p className="text-xs text-muted-foreground">
+					A * in the new URL is replaced by whatever the old
+					path&apos;s * matched.
+				</p>
+			</div>
+			<div className="flex items-center gap-2">
+				<Switch
+					id="redirect-permanent"
+					checked={permanent}
+					onCheckedChange={setPermanent}
+				/>
+				<Label htmlFor="redirect-permanent">
+					{permanent ? "Permanent (301)" : "Temporary (302)"}
+				</Label>
+			</div>
+			{error && <p className="text-sm text-destructive">{error}</p>}
+			<Button type="submit" disabled={isPending}>
+				{isPending
+					? "Saving..."
+					: redirect
+						? "Save Redirect"
+						: "Create Redirect"}
+			</Button>
+		</form>
+	);
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { Edit, Trash } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+	Dialog,
+	DialogContent,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { deleteRedirect } from "@/modules/redirects/actions/redirects";
+import { RedirectForm } from "./redirect-form";
+
+interface RedirectRow {
+	id: string;
+	source: string;
+	destination: string;
+	permanent: boolean;
+	automatic: boolean;
+	hits: number;
+	lastHitAt: Date | null;
+}
+
+export function RedirectList({ redirects }: { redirects: RedirectRow[] }) {
+	const [editing, setEditing] = useState<RedirectRow | null>(null);
+	const [deleting, setDeleting] = useState<RedirectRow | null>(null);
+	const [isDeleting, setIsDeleting] = useState(false);
+
+	const handleDelete = async () => {
+		if (!deleting) return;
+
+		setIsDeleting(true);
+		try {
+			const result = await deleteRedirect(deleting.id);
+			if (result.success) {
+				toast.success("Redirect deleted");
+				window.location.reload();
+			} else {
+				toast.error(result.error);
+				setIsDeleting(false);
+			}
+		} catch {
+			toast.error("Failed to delete redirect");
+			setIsDeleting(false);
+			setDeleting(null);
+		}
+	};
+
+	return (
+		<div className="rounded-md border bg-background">
+			<Table>
+				<TableHeader>
+					<TableRow>
+						<TableHead>Old Path</TableHead>
+						<TableHead>New URL</TableHead>
+						<TableHead>Type</TableHead>
+						<TableHead>Hits</TableHead>
+						<TableHead className="text-right">Actions</TableHead>
+					</TableRow>
+				</TableHeader>
+				<TableBody>
+					{redirects.map((redirect) => (
+						<TableRow key={redirect.id}>
+							<TableCell className="font-mono text-xs break-all">
+								{redirect.source}
+								{redirect.automatic && (
+									<Badge
+										variant="secondary"
+										className="ml-2 font-sans"
+									>
+										Slug change
+									</Badge>
+								)}
+							</TableCell>
+							<TableCell className="font-mono text-xs break-all">
+								{redirect.destination}
+							</TableCell>
+							<TableCell>
+								{redirect.permanent ? "301" : "302"}
+							</TableCell>
+							<TableCell>
+								{redirect.hits}
+								{redirect.lastHitAt && (
+									<div className="text-xs text-muted-foreground">
+										Last{" "}
+										{format(
+											new Date(redirect.lastHitAt),
+											"MMM d, yyyy"
+										)}
+									</div>
+								)}
+							</TableCell>
+							<TableCell className="text-right whitespace-nowrap">
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() => setEditing(redirect)}
+								>
+									<Edit className="h-4 w-4" />
+								</Button>
+								<Button
+									variant="ghost"
+									size="icon"
+									onClick={() => setDeleting(redirect)}
+								>
+									<Trash className="h-4 w-4 text-destructive" />
+								</Button>
+							</TableCell>
+						</TableRow>
+					))}
+					{redirects.length === 0 && (
+						<TableRow>
+							<TableCell
+								colSpan={5}
+								className="text-center py-4 text-muted-foreground"
+							>
+								No redirects yet.
+							</TableCell>
+						</TableRow>
+					)}
+				</TableBody>
+			</Table>
+
+			<Dialog
+				open={!!editing}
+				onOpenChange={(open) => !open && setEditing(null)}
+			>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Edit Redirect</DialogTitle>
+					</DialogHeader>
+					{editing && (
+						<RedirectForm
+							redirect={editing}
+							onSaved={() => setEditing(null)}
+						/>
+					)}
+				</DialogContent>
+			</Dialog>
+
+			<AlertDialog
+				open={!!deleting}
+				onOpenChange={(open) => !open && setDeleting(null)}
+			>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>
+							Delete this redirect?
+						</AlertDialogTitle>
+						<AlertDialogDescription>
+							Visitors to{" "}
+							<span className="font-mono">
+								{deleting?.source}
+							</span>{" "}
+							will no longer be sent on and may see a 404.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel disabled={isDeleting}>
+							Cancel
+						</AlertDialogCancel>
+						<AlertDialogAction
+							onClick={handleDelete}
+							disabled={isDeleting}
+							className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+						>
+							{isDeleting ? "Deleting..." : "Delete"}
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+		</div>
+	);
+}
@@ -0,0 +1,56 @@
+import { RedirectRule } from "./rules";
+
+// Middleware can't reach the database, so it loads the rules from
+// /api/redirects and keeps them for a while; edits apply within this time
+const CACHE_TTL_MS = Number(process.env.REDIRECT_CACHE_TTL_MS) || 60_000;
+
+let cached: { rules: RedirectRule[]; expiresAt: number } | null = null;
+let pending: Promise<RedirectRule[]> | null = null;
+
+async function loadRules(origin: string) {
+	try {
+		const response = await fetch(`${origin}/api/redirects`, {
+			cache: "no-store",
+		});
+		if (!response.ok) throw new Error(`HTTP ${response.status}`);
+		const { rules } = (await response.json()) as { rules: RedirectRule[] };
+		cached = { rules, expiresAt: Date.now() + CACHE_TTL_MS };
+		return rules;
+	} catch (error) {
+		console.error("Error loading redirect rules:", error);
+		// Keep serving the last rules rather than retrying on every request
+		cached = {
+			rules: cached?.rules ?? [],
+			expiresAt: Date.now() + CACHE_TTL_MS,
+		};
+		return cached.rules;
+	} finally {
+		pending = null;
+	}
+}
+
+/** The redirect rules, loaded at most once per TTL per instance. */
+export async function getCachedRedirectRules(origin: string) {
+	if (cached && cached.expiresAt > Date.now()) return cached.rules;
+	pending ??= loadRules(origin);
+	return await pending;
+}
+
+/**
+ * Counts a redirect; the response doesn't wait for it. Hits aren't counted
+ * unless REDIRECT_HIT_SECRET is set, as the endpoint rejects anyone without it.
+ */
+export const reportRedirectHit = async (origin: string, id: string) => {
+	const secret = process.env.REDIRECT_HIT_SECRET;
+	if (!secret) return;
+	await fetch(`${origin}/api/redirects/hit`, {
+		method: "POST",
+		headers: {
+			"Content-Type": "application/json",
+			Authorization: `Bearer ${secret}`,
+		},
+		body: JSON.stringify({ id }),
+	}).catch((error) => {
+		console.error("Error counting redirect hit:", error);
+	});
+};
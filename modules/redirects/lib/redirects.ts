@@ -0,0 +1,116 @@
+import prisma from "@/modules/admin/lib/db";
+import {
+	isWildcardSource,
+	normalizeRedirectPath,
+	RedirectRule,
+	validateRedirect,
+} from "./rules";
+
+export interface RedirectInput {
+	source: string;
+	destination: string;
+	permanent?: boolean;
+	automatic?: boolean;
+}
+
+export async function getRedirects() {
+	return await prisma.redirect.findMany({
+		orderBy: { createdAt: "desc" },
+	});
+}
+
+/** What middleware needs to match requests. */
+export async function getRedirectRules(): Promise<RedirectRule[]> {
+	return await prisma.redirect.findMany({
+		select: { id: true, source: true, destination: true, permanent: true },
+	});
+}
+
+/**
+ * Creates a rule, or updates the one with `id`. Chains are collapsed both
+ * ways so visitors never take more than one hop: a destination that is
+ * itself redirected is followed to the end, and rules that pointed at the
+ * source are moved to the new destination.
+ */
+export async function saveRedirect(input: RedirectInput, id?: string) {
+	const source = normalizeRedirectPath(input.source);
+	let destination = normalizeRedirectPath(input.destination);
+
+	const invalid = validateRedirect({ source, destination });
+	if (invalid) return { error: invalid };
+
+	const visited = new Set([source]);
+	while (destination.startsWith("/") && !destination.includes("*")) {
+		const next = await prisma.redirect.findUnique({
+			where: { source: destination },
+		});
+		if (!next || next.id === id) break;
+		if (visited.has(next.destination)) {
+			return { error: "This would create a redirect loop." };
+		}
+		visited.add(destination);
+		destination = next.destination;
+	}
+
+	const existing = await prisma.redirect.findUnique({ where: { source } });
+	if (existing && existing.id !== id) {
+		return { error: `${source} is already redirected.` };
+	}
+
+	const data = {
+		source,
+		destination,
+		permanent: input.permanent ?? true,
+		automatic: input.automatic ?? false,
+	};
+	const redirect = id
+		? await prisma.redirect.update({ where: { id }, data })
+		: await prisma.redirect.create({ data });
+
+	if (!isWildcardSource(source)) {
+		await prisma.redirect.updateMany({
+			where: { destination: source, id: { not: redirect.id } },
+			data: { destination },
+		});
+	}
+
+	return { redirect };
+}
+
+/**
+ * Sends a post or SEO page's old URL to its new one after a slug change.
+ * Never fails the save that triggered it; a missing redirect is logged.
+ */
+export async function recordSlugChange(oldPath: string, newPath: string) {
+	if (oldPath === newPath) return;
+
+	try {
+		// The page lives at the new path now, so nothing may redirect away
+		// from it (e.g. when a slug is changed back)
+		await prisma.redirect.deleteMany({ where: { source: newPath } });
+
+		const existing = await prisma.redirect.findUnique({
+			where: { source: oldPath },
+			select: { id: true },
+		});
+		const result = await saveRedirect(
+			{ source: oldPath, destination: newPath, automatic: true },
+			existing?.id
+		);
+		if ("error" in result) {
+			console.error(
+				`Could not redirect ${oldPath} to ${newPath}:`,
+				result.error
+			);
+		}
+	} catch (error) {
+		console.error(`Error redirecting ${oldPath} to ${newPath}:`, error);
+	}
+}
+
+export async function recordRedirectHit(id: string) {
+	await prisma.redirect.updateMany({
+		where: { id },
+		data: { hits: { increment: 1 }, lastHitAt: new Date() },
+	});
+}
@@ -0,0 +1,92 @@
+/**
+ * Matching for the Redirect table. Kept free of server-only imports because
+ * middleware runs on the edge and only sees the rules over HTTP.
+ */
+
+export interface RedirectRule {
+	id: string;
+	source: string;
+	destination: string;
+	permanent: boolean;
+}
+
+// Never redirected, so a bad rule can't lock editors out of the admin
+const RESERVED_PREFIXES = ["/admin", "/api", "/_next"];
+
+const isUrl = (value: string) => /^https?:\/\//i.test(value);
+
+export const isWildcardSource = (source: string) => source.endsWith("/*");
+
+/** Leading slash, no trailing slash, no query string. */
+export function normalizeRedirectPath(value: string) {
+	const trimmed = value.trim();
+	if (isUrl(trimmed)) return trimmed;
+
+	const path = `/${trimmed.split(/[?#]/)[0]}`.replace(/\/{2,}/g, "/");
+	return path.length > 1 ? path.replace(/\/+$/, "") : path;
+}
+
+/** Why a rule can't be saved, or null when it can. */
+export function validateRedirect(rule: {
+	source: string;
+	destination: string;
+}): string | null {
+	const { source, destination } = rule;
+
+	if (!source.startsWith("/") || source === "/" || source === "/*") {
+		return "The old path must start with / and can't be the whole site.";
+	}
+	if (
+		RESERVED_PREFIXES.some(
+			(prefix) => source === prefix || source.startsWith(`${prefix}/`)
+		)
+	) {
+		return "Admin and API paths can't be redirected.";
+	}
+	if (source.slice(0, -1).includes("*") || /[^/]\*$/.test(source)) {
+		return "A wildcard is only allowed as the last segment, e.g. /old-blog/*.";
+	}
+	if (!destination.startsWith("/") && !isUrl(destination)) {
+		return "The new URL must be a path starting with / or a full URL.";
+	}
+	if (destination.includes("*") && !isWildcardSource(source)) {
+		return "The new URL can only use * when the old path ends in /*.";
+	}
+	if (source === destination) {
+		return "The old and new URL are the same.";
+	}
+	return null;
+}
+
+/** Where a rule sends a path it matched. */
+export function resolveDestination(rule: RedirectRule, pathname: string) {
+	if (!isWildcardSource(rule.source)) return rule.destination;
+
+	const prefix = rule.source.slice(0, -2);
+	const rest = pathname.slice(prefix.length).replace(/^\//, "");
+	return rule.destination.includes("*")
+		? rule.destination.replace("*", rest).replace(/\/+$/, "") || "/"
+		: rule.destination;
+}
+
+/**
+ * The rule for a path: an exact match wins, then the wildcard with the
+ * longest prefix.
+ */
+export function matchRedirect(rules: RedirectRule[], pathname: string) {
+	const path = normalizeRedirectPath(pathname);
+
+	const exact = rules.find((rule) => rule.source === path);
+	if (exact) return { rule: exact, location: exact.destination };
+
+	const wildcard = rules
+		.filter(
+			(rule) =>
+				isWildcardSource(rule.source) &&
+				path.startsWith(rule.source.slice(0, -1))
+		)
+		.sort((a, b) => b.source.length - a.source.length)[0];
+	return wildcard
+		? { rule: wildcard, location: resolveDestination(wildcard, path) }
+		: null;
+}
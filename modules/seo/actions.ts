@@ -2,28 +2,88 @@
 
 import prisma from "@/modules/admin/lib/db";
 import { revalidatePath } from "next/cache";
-import { CarouselsState } from "./components/SeoPageForm";
+import { authorize } from "@/modules/auth/lib/auth";
+import { SeoPageTranslations } from "./components/SeoPageForm";
 import { Prisma } from "@prisma/client";
+import { defaultLocale } from "@/lib/i18n";
+import { isLocale } from "@/lib/utils/i18n/request-locale";
+import { resolveSchedule } from "@/modules/admin/lib/publishing";
+import { ContentBlock, parseContentBlocks } from "./lib/content-blocks";
+import {
+	parseStructuredDataItems,
+	STRUCTURED_DATA_LABELS,
+	StructuredDataItem,
+	validateStructuredDataItem,
+} from "./lib/structured-data";
+import { buildStructuredData } from "./lib/structured-data-builder";
+import { recordSlugChange } from "@/modules/redirects/lib/redirects";
 
-const normalizeCarousels = (value?: CarouselsState): Prisma.InputJsonValue =>
-	(value ?? {}) as unknown as Prisma.InputJsonValue;
+const normalizeBlocks = (value?: ContentBlock[]): Prisma.InputJsonValue =>
+	parseContentBlocks(value ?? []) as unknown as Prisma.InputJsonValue;
+
+/**
+ * Validates the builder items and generates the JSON-LD saved with the
+ * page. Any invalid item fails the save rather than being dropped.
+ */
+function resolveStructuredData(
+	value: StructuredDataItem[] | undefined,
+	slug: string
+) {
+	const items = parseStructuredDataItems(value ?? []);
+	for (const item of items) {
+		const [problem] = validateStructuredDataItem(item);
+		if (problem) {
+			return {
+				error: `${STRUCTURED_DATA_LABELS[item.type]} structured data: ${problem}`,
+			};
+		}
+	}
+
+	return {
+		structuredData: buildStructuredData(items, slug),
+		structuredDataItems: items as unknown as Prisma.InputJsonValue,
+	};
+}
+
+// Keeps translations that have the fields a page can't be shown without
+const normalizeTranslations = (value?: SeoPageTranslations) =>
+	Object.entries(value ?? {}).flatMap(([locale, translation]) =>
+		isLocale(locale) &&
+		locale !== defaultLocale &&
+		translation?.title.trim() &&
+		translation.description.trim() &&
+		translation.content.trim()
+			? [
+					{
+						locale,
+						title: translation.title,
+						description: translation.description,
+						content: translation.content,
+						keywords: translation.keywords || null,
+					},
+				]
+			: []
+	);
 
 export async function getSeoPages() {
-	return await prisma.seoPage.findMany({
+	const { error } = await authorize("seo.view");
+	if (error) return { success: false as const, error };
+
+	const pages = await prisma.seoPage.findMany({
 		orderBy: { createdAt: "desc" },
 	});
+	return { success: true as const, pages };
 }
 
 export async function getSeoPageById(id: string) {
-	return await prisma.seoPage.findUnique({
-		where: { id },
-	});
-}
+	const { error } = await authorize("seo.view");
+	if (error) return { success: false as const, error };
 
-export async function getSeoPageBySlug(slug: string) {
-	return await prisma.seoPage.findUnique({
-		where: { slug },
+	const page = await prisma.seoPage.findUnique({
+		where: { id },
+		include: { translations: true },
 	});
+	return { success: true as const, page };
 }
 
 export async function createSeoPage(data: {
@@ -32,18 +92,52 @@ export async function createSeoPage(data: {
 	description: string;
 	content: string;
 	keywords?: string;
-	structuredData?: string;
-	carousels?: CarouselsState;
+	structuredDataItems?: StructuredDataItem[];
+	blocks?: ContentBlock[];
 	published?: boolean;
+	// ISO timestamps, empty when not scheduled
+	publishAt?: string;
+	unpublishAt?: string;
+	translations?: SeoPageTranslations;
 }) {
-	const { carousels, published, ...restData } = data;
+	const { error } = await authorize("seo.edit");
+	if (error) return { success: false, error };
+
+	const {
+		blocks,
+		structuredDataItems,
+		published,
+		publishAt,
+		unpublishAt,
+		translations,
+		...restData
+	} = data;
+
+	const schedule = resolveSchedule({
+		published: published ?? false,
+		publishAt,
+		unpublishAt,
+	});
+	if ("error" in schedule) return { success: false, error: schedule.error };
+
+	const structuredData = resolveStructuredData(
+		structuredDataItems,
+		data.slug
+	);
+	if ("error" in structuredData) {
+		return { success: false, error: structuredData.error };
+	}
 
 	try {
 		await prisma.seoPage.create({
 			data: {
 				...restData,
-				carousels: normalizeCarousels(carousels),
-				published: published ?? false,
+				...schedule,
+				...structuredData,
+				blocks: normalizeBlocks(blocks),
+				translations: {
+					create: normalizeTranslations(translations),
+				},
 			},
 		});
 		revalidatePath("/admin/seo");
@@ -75,23 +169,72 @@ export async function updateSeoPage(
 		description: string;
 		content: string;
 		keywords?: string;
-		structuredData?: string;
-		carousels?: CarouselsState;
+		structuredDataItems?: StructuredDataItem[];
+		blocks?: ContentBlock[];
 		published?: boolean;
+		publishAt?: string;
+		unpublishAt?: string;
+		translations?: SeoPageTranslations;
 	}
 ) {
-	const { carousels, published, ...restData } = data;
+	const { error } = await authorize("seo.edit");
+	if (error) return { success: false, error };
+
+	const {
+		blocks,
+		structuredDataItems,
+		published,
+		publishAt,
+		unpublishAt,
+		translations,
+		...restData
+	} = data;
+
+	const previous = await prisma.seoPage.findUnique({
+		where: { id },
+		select: { slug: true, unpublishAt: true },
+	});
+
+	const schedule = resolveSchedule({
+		published: published ?? false,
+		publishAt,
+		unpublishAt,
+		storedUnpublishAt: previous?.unpublishAt,
+	});
+	if ("error" in schedule) return { success: false, error: schedule.error };
+
+	const structuredData = resolveStructuredData(
+		structuredDataItems,
+		data.slug
+	);
+	if ("error" in structuredData) {
+		return { success: false, error: structuredData.error };
+	}
 
 	try {
 		await prisma.seoPage.update({
 			where: { id },
 			data: {
 				...restData,
-				carousels: normalizeCarousels(carousels),
-				published: published ?? false,
+				...schedule,
+				...structuredData,
+				blocks: normalizeBlocks(blocks),
+				// Superseded by blocks once a page is saved
+				carousels: Prisma.DbNull,
+				// Replace the whole set, so cleared locales are removed
+				translations: {
+					deleteMany: {},
+					create: normalizeTranslations(translations),
+				},
 			},
 		});
 
+		// Links to the old URL keep working
+		if (previous && previous.slug !== data.slug) {
+			await recordSlugChange(`/${previous.slug}`, `/${data.slug}`);
+			revalidatePath(`/${previous.slug}`);
+		}
+
 		revalidatePath("/admin/seo");
 		revalidatePath(`/${data.slug}`);
 		return { success: true, error: null };
@@ -115,6 +258,9 @@ export async function updateSeoPage(
 }
 
 export async function deleteSeoPage(id: string) {
+	const { error } = await authorize("seo.edit");
+	if (error) return { success: false, error };
+
 	try {
 		await prisma.seoPage.delete({
 			where: { id },
@@ -131,3 +277,16 @@ export async function deleteSeoPage(id: string) {
 		};
 	}
 }
+
+/** The JSON-LD the builder items would save, for the editor's preview. */
+export async function previewStructuredData(
+	items: StructuredDataItem[],
+	slug: string
+) {
+	const { error } = await authorize("seo.edit");
+	if (error) return { success: false, error };
+
+	const result = resolveStructuredData(items, slug || "page");
+	if ("error" in result) return { success: false, error: result.error };
+	return { success: true, json: result.structuredData ?? "" };
+}
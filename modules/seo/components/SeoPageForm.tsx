@@ -1,22 +1,28 @@
 "use client";
 
-import { useState, useMemo, useEffect } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
 import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent } from "@/components/ui/tabs";
+import { LocaleTabsList } from "@/modules/admin/components/locale-tabs-list";
+import { ScheduleFields } from "@/modules/admin/components/schedule-fields";
+import {
+	fromDateTimeLocal,
+	toDateTimeLocal,
+} from "@/modules/admin/lib/publishing";
 import { createSeoPage, updateSeoPage } from "@/modules/seo/actions";
 import { RichTextEditor } from "@/modules/blog/components/RichTextEditor";
 import { Loader2, Save, ArrowLeft } from "lucide-react";
 import Link from "next/link";
-import { useAppStore } from "@/store/store";
-import {
-	getGamesByCategory,
-	getUniqueValuesByKey,
-} from "@/lib/utils/games/games.utils";
-import { Game, GameType } from "@/types/games/gameList.types";
+import { ContentBlock } from "@/modules/seo/lib/content-blocks";
+import { ContentBlocksEditor } from "./content-blocks-editor";
+import { StructuredDataItem } from "@/modules/seo/lib/structured-data";
+import { StructuredDataEditor } from "./structured-data-editor";
+import { defaultLocale, Locale, localeNames, locales } from "@/lib/i18n";
 
 interface SeoPageFormProps {
 	initialData?: {
@@ -26,152 +32,84 @@ interface SeoPageFormProps {
 		description: string;
 		content: string;
 		keywords: string | null;
-		structuredData: string | null;
-		carousels: CarouselsState;
+		structuredDataItems: StructuredDataItem[];
+		blocks: ContentBlock[];
 		published: boolean;
+		publishAt?: Date | null;
+		unpublishAt?: Date | null;
+		translations?: {
+			locale: string;
+			title: string;
+			description: string;
+			content: string;
+			keywords: string | null;
+		}[];
 	};
 }
 
-interface CarouselConfig {
-	enabled: boolean;
-	position: "top" | "bottom";
-	searchKeyword?: string;
-	customTitle?: string;
+export interface SeoPageTranslationInput {
+	title: string;
+	description: string;
+	content: string;
+	keywords: string;
 }
 
-export interface CarouselsState {
-	liveCasino: CarouselConfig;
-	slots: CarouselConfig;
-	sports: CarouselConfig;
-	providers: CarouselConfig;
-}
+export type SeoPageTranslations = Partial<
+	Record<Locale, SeoPageTranslationInput>
+>;
+
+const emptyTranslation: SeoPageTranslationInput = {
+	title: "",
+	description: "",
+	content: "",
+	keywords: "",
+};
 
 export function SeoPageForm({ initialData }: SeoPageFormProps) {
 	const [isLoading, setIsLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 	const [content, setContent] = useState(initialData?.content || "");
-
-	const defaultCarouselConfig: CarouselConfig = {
-		enabled: false,
-		position: "bottom",
-		searchKeyword: "",
-		customTitle: "",
-	};
-	const [carousels, setCarousels] = useState<CarouselsState>(
-		(initialData?.carousels as CarouselsState) || {
-			liveCasino: { ...defaultCarouselConfig },
-			slots: { ...defaultCarouselConfig },
-			sports: { ...defaultCarouselConfig },
-			providers: { ...defaultCarouselConfig },
-		}
+	const [publishAt, setPublishAt] = useState("");
+	const [unpublishAt, setUnpublishAt] = useState("");
+	const [activeLocale, setActiveLocale] = useState<Locale>(defaultLocale);
+	const [translations, setTranslations] = useState<SeoPageTranslations>(() =>
+		Object.fromEntries(
+			(initialData?.translations ?? []).map((translation) => [
+				translation.locale,
+				{
+					title: translation.title,
+					description: translation.description,
+					content: translation.content,
+					keywords: translation.keywords ?? "",
+				},
+			])
+		)
 	);
 
-	const updateCarousel = (
-		key: keyof CarouselsState,
-		field: keyof CarouselConfig,
-		value: string | boolean
+	const updateTranslation = (
+		locale: Locale,
+		field: keyof SeoPageTranslationInput,
+		value: string
 	) => {
-		setCarousels((prev) => ({
+		setTranslations((prev) => ({
 			...prev,
-			[key]: {
-				...prev[key],
-				[field]: value,
-			},
+			[locale]: { ...emptyTranslation, ...prev[locale], [field]: value },
 		}));
 	};
 
-	// Get games from store for real-time count feedback
-	const allGames = useAppStore((state) => state.game.list.games);
-	const gamesStatus = useAppStore((state) => state.game.list.status);
-	const initializeGameList = useAppStore(
-		(state) => state.game.list.initializeGameList
+	const [blocks, setBlocks] = useState<ContentBlock[]>(
+		initialData?.blocks ?? [{ id: "page-content", type: "pageContent" }]
 	);
-	const totalGames = allGames?.length ?? 0;
-	const [isClient, setIsClient] = useState(false);
-
-	useEffect(() => setIsClient(true), []);
+	const [structuredDataItems, setStructuredDataItems] = useState<
+		StructuredDataItem[]
+	>(initialData?.structuredDataItems ?? []);
+	const [slug, setSlug] = useState(initialData?.slug ?? "");
 
+	// Filled after mount; the browser's time zone isn't known on the server
 	useEffect(() => {
-		if (!isClient) return;
-		if (
-			gamesStatus === "idle" ||
-			(gamesStatus === "error" && totalGames === 0)
-		) {
-			initializeGameList();
-		}
-	}, [isClient, gamesStatus, totalGames, initializeGameList]);
-
-	// Calculate game counts for each category search
-	const gameCounts = useMemo(() => {
-		if (!isClient || !allGames?.length)
-			return { liveCasino: 0, slots: 0, sports: 0, providers: 0 };
-
-		const getCategoryKey = (type: string) => {
-			if (type === "SPORTS") {
-				const categories = getUniqueValuesByKey(allGames, "category");
-				return (
-					categories.find(
-						(c) => c === "SPORTSBOOK" || c === "SPORT BOOK"
-					) || "SPORTS"
-				);
-			}
-			return type;
-		};
-
-		const countGames = (type: string, keyword?: string) => {
-			const categoryKey = getCategoryKey(type);
-			const categoryGames = getGamesByCategory(
-				allGames,
-				categoryKey as GameType,
-				5000
-			);
-			if (!keyword?.trim()) {
-				return categoryGames.length;
-			}
-
-			const kw = keyword.toLowerCase();
-			return (categoryGames as Game[]).filter((g) =>
-				g.game_name.toLowerCase().includes(kw)
-			).length;
-		};
-
-		const countProviders = (keyword?: string) => {
-			const providerNames = new Set(
-				allGames
-					.map((game) => game.provider_name)
-					.filter((name) => Boolean(name))
-					.map((name) => String(name))
-			);
-			if (!keyword?.trim()) {
-				return providerNames.size;
-			}
-			const kw = keyword.toLowerCase();
-			let matchCount = 0;
-			providerNames.forEach((name) => {
-				if (name.toLowerCase().includes(kw)) {
-					matchCount++;
-				}
-			});
-			return matchCount;
-		};
-
-		return {
-			liveCasino: countGames(
-				"LIVE CASINO",
-				carousels.liveCasino.searchKeyword
-			),
-			slots: countGames("SLOT", carousels.slots.searchKeyword),
-			sports: countGames("SPORTS", carousels.sports.searchKeyword),
-			providers: countProviders(carousels.providers.searchKeyword),
-		};
-	}, [
-		allGames,
-		carousels.liveCasino.searchKeyword,
-		carousels.slots.searchKeyword,
-		carousels.sports.searchKeyword,
-		carousels.providers.searchKeyword,
-		isClient,
-	]);
+		setPublishAt(toDateTimeLocal(initialData?.publishAt));
+		setUnpublishAt(toDateTimeLocal(initialData?.unpublishAt));
+	}, [initialData?.publishAt, initialData?.unpublishAt]);
 
 	async function onSubmit(event: React.FormEvent<HTMLFormElement>) {
 		event.preventDefault();
@@ -180,14 +118,17 @@ export function SeoPageForm({ initialData }: SeoPageFormProps) {
 
 		const formData = new FormData(event.currentTarget);
 		const data = {
-			slug: formData.get("slug") as string,
+			slug,
 			title: formData.get("title") as string,
 			description: formData.get("description") as string,
 			content: content,
 			keywords: formData.get("keywords") as string,
-			structuredData: formData.get("structuredData") as string,
-			carousels: carousels,
+			structuredDataItems,
+			blocks,
 			published: formData.get("published") === "on",
+			publishAt: fromDateTimeLocal(publishAt),
+			unpublishAt: fromDateTimeLocal(unpublishAt),
+			translations,
 		};
 
 		try {
@@ -214,7 +155,12 @@ export function SeoPageForm({ initialData }: SeoPageFormProps) {
 	}
 
 	return (
-		<form onSubmit={onSubmit} className="space-y-8">
+		<form
+			onSubmit={onSubmit}
+			// Required English fields may sit on a hidden tab
+			onInvalidCapture={() => setActiveLocale(defaultLocale)}
+			className="space-y-8"
+		>
 			<div className="flex items-center justify-between">
 				<div className="flex items-center gap-4">
 					<Button variant="ghost" size="icon" asChild>
@@ -256,53 +202,183 @@ export function SeoPageForm({ initialData }: SeoPageFormProps) {
 			<div className="grid gap-8 lg:grid-cols-3">
 				<div className="lg:col-span-2 space-y-8">
 					<Card>
-						<CardContent className="p-6 space-y-6">
-							<div className="space-y-2">
-								<Label htmlFor="title">Page Title</Label>
-								<Input
-									id="title"
-									name="title"
-									placeholder="e.g. Best Crypto Casino 2025"
-									defaultValue={initialData?.title}
-									required
+						<CardContent className="p-6">
+							<Tabs
+								value={activeLocale}
+								onValueChange={(value) =>
+									setActiveLocale(value as Locale)
+								}
+							>
+								<LocaleTabsList
+									translated={locales.filter(
+										(locale) =>
+											!!translations[locale]?.title
+									)}
 								/>
-							</div>
+								{/* Kept mounted so the uncontrolled fields are submitted */}
+								<TabsContent
+									value={defaultLocale}
+									forceMount
+									className="space-y-6 pt-2 data-[state=inactive]:hidden"
+								>
+									<div className="space-y-2">
+										<Label htmlFor="title">
+											Page Title
+										</Label>
+										<Input
+											id="title"
+											name="title"
+											placeholder="e.g. Best Crypto Casino 2025"
+											defaultValue={initialData?.title}
+											required
+										/>
+									</div>
 
-							<div className="space-y-2">
-								<Label>Content</Label>
-								<RichTextEditor
-									value={content}
-									onChange={setContent}
-								/>
-							</div>
+									<div className="space-y-2">
+										<Label>Content</Label>
+										<RichTextEditor
+											value={content}
+											onChange={setContent}
+										/>
+									</div>
+								</TabsContent>
+								{locales
+									.filter(
+										(locale) => locale !== defaultLocale
+									)
+									.map((locale) => {
+										const translation =
+											translations[locale] ??
+											emptyTranslation;
+										return (
+											<TabsContent
+												key={locale}
+												value={locale}
+												className="space-y-6 pt-2"
+											>
+												<p className="text-sm text-muted-foreground">
+													{localeNames[locale]}{" "}
+													visitors see the English
+													page until a title, meta
+													description and content are
+													filled in.
+												</p>
+												<div className="space-y-2">
+													<Label
+														htmlFor={`title-${locale}`}
+													>
+														Page Title
+													</Label>
+													<Input
+														id={`title-${locale}`}
+														value={
+															translation.title
+														}
+														onChange={(e) =>
+															updateTranslation(
+																locale,
+																"title",
+																e.target.value
+															)
+														}
+													/>
+												</div>
+												<div className="space-y-2">
+													<Label
+														htmlFor={`description-${locale}`}
+													>
+														Meta Description
+													</Label>
+													<Textarea
+														id={`description-${locale}`}
+														value={
+															translation.description
+														}
+														onChange={(e) =>
+															updateTranslation(
+																locale,
+																"description",
+																e.target.value
+															)
+														}
+														className="min-h-[100px]"
+													/>
+												</div>
+												<div className="space-y-2">
+													<Label
+														htmlFor={`keywords-${locale}`}
+													>
+														Keywords
+													</Label>
+													<Input
+														id={`keywords-${locale}`}
+														value={
+															translation.keywords
+														}
+														onChange={(e) =>
+															updateTranslation(
+																locale,
+																"keywords",
+																e.target.value
+															)
+														}
+													/>
+												</div>
+												<div className="space-y-2">
+													<Label>Content</Label>
+													<RichTextEditor
+														value={
+															translation.content
+														}
+														onChange={(value) =>
+															updateTranslation(
+																locale,
+																"content",
+																value
+															)
+														}
+													/>
+												</div>
+											</TabsContent>
+										);
+									})}
+							</Tabs>
 						</CardContent>
 					</Card>
 
 					<Card>
-						<CardContent className="p-6 space-y-6">
-							<div className="space-y-2">
-								<Label htmlFor="structuredData">
-									Structured Data (JSON-LD)
-								</Label>
-								<p className="text-sm text-muted-foreground">
-									Paste your JSON-LD schema here. It will be
-									injected into the page head.
-								</p>
-								<Textarea
-									id="structuredData"
-									name="structuredData"
-									className="font-mono text-sm min-h-[200px]"
-									placeholder='{ "@context": "https://schema.org", "@type": "FAQPage", ... }'
-									defaultValue={
-										initialData?.structuredData || ""
-									}
-								/>
-							</div>
+						<CardContent className="p-6">
+							<StructuredDataEditor
+								items={structuredDataItems}
+								onChange={setStructuredDataItems}
+								slug={slug}
+							/>
+						</CardContent>
+					</Card>
+
+					<Card>
+						<CardContent className="p-6">
+							<ContentBlocksEditor
+								blocks={blocks}
+								onChange={setBlocks}
+								content={content}
+							/>
 						</CardContent>
 					</Card>
 				</div>
 
 				<div className="space-y-8">
+					<Card>
+						<CardContent className="p-6">
+							<ScheduleFields
+								publishAt={publishAt}
+								unpublishAt={unpublishAt}
+								onPublishAtChange={setPublishAt}
+								onUnpublishAtChange={setUnpublishAt}
+							/>
+						</CardContent>
+					</Card>
+
 					<Card>
 						<CardContent className="p-6 space-y-6">
 							<div className="space-y-2">
@@ -315,7 +391,10 @@ export function SeoPageForm({ initialData }: SeoPageFormProps) {
 										id="slug"
 										name="slug"
 										placeholder="crypto-casino"
-										defaultValue={initialData?.slug}
+										value={slug}
+										onChange={(e) =>
+											setSlug(e.target.value)
+										}
 										required
 									/>
 								</div>
@@ -351,446 +430,6 @@ export function SeoPageForm({ initialData }: SeoPageFormProps) {
 							</div>
 						</CardContent>
 					</Card>
-
-					<Card>
-						<CardContent className="p-6 space-y-6">
-							<div>
-								<h3 className="font-semibold text-lg">
-									Dynamic Components
-								</h3>
-								<p className="text-sm text-muted-foreground mt-1">
-									Enable game carousels and filter by
-									keywords.
-								</p>
-							</div>
-
-							{/* Live Casino */}
-							<div className="space-y-3 p-4 border rounded-lg bg-muted/30">
-								<div className="flex items-center justify-between">
-									<div className="flex items-center gap-2">
-										<Switch
-											checked={
-												carousels.liveCasino.enabled
-											}
-											onCheckedChange={(checked) =>
-												updateCarousel(
-													"liveCasino",
-													"enabled",
-													checked
-												)
-											}
-										/>
-										<Label className="font-medium">
-											Live Casino
-										</Label>
-									</div>
-									{carousels.liveCasino.enabled && (
-										<select
-											className="h-8 rounded-md border border-input bg-background px-3 py-1 text-sm"
-											value={
-												carousels.liveCasino.position
-											}
-											onChange={(e) =>
-												updateCarousel(
-													"liveCasino",
-													"position",
-													e.target.value
-												)
-											}
-										>
-											<option value="top">Top</option>
-											<option value="bottom">
-												Bottom
-											</option>
-										</select>
-									)}
-								</div>
-								{carousels.liveCasino.enabled && (
-									<div className="space-y-2">
-										<Input
-											placeholder="Carousel title (optional)"
-											value={
-												carousels.liveCasino
-													.customTitle || ""
-											}
-											onChange={(e) =>
-												updateCarousel(
-													"liveCasino",
-													"customTitle",
-													e.target.value
-												)
-											}
-											className="text-sm"
-										/>
-										<Input
-											placeholder="Filter games (e.g., blackjack, roulette)"
-											value={
-												carousels.liveCasino
-													.searchKeyword || ""
-											}
-											onChange={(e) =>
-												updateCarousel(
-													"liveCasino",
-													"searchKeyword",
-													e.target.value
-												)
-											}
-											className="text-sm"
-										/>
-										{isClient &&
-											carousels.liveCasino
-												.searchKeyword && (
-												<p className="text-xs flex items-center gap-1">
-													{gameCounts.liveCasino >
-													0 ? (
-														<>
-															<span className="font-semibold text-green-600 dark:text-green-400">
-																✓{" "}
-																{
-																	gameCounts.liveCasino
-																}{" "}
-																game
-																{gameCounts.liveCasino !==
-																1
-																	? "s"
-																	: ""}
-															</span>
-															{gameCounts.liveCasino >
-																50 && (
-																<span className="text-muted-foreground">
-																	(max 50
-																	shown)
-																</span>
-															)}
-														</>
-													) : (
-														<span className="font-semibold text-amber-600 dark:text-amber-400">
-															⚠ No games found
-														</span>
-													)}
-												</p>
-											)}
-									</div>
-								)}
-							</div>
-
-							{/* Slots */}
-							<div className="space-y-3 p-4 border rounded-lg bg-muted/30">
-								<div className="flex items-center justify-between">
-									<div className="flex items-center gap-2">
-										<Switch
-											checked={carousels.slots.enabled}
-											onCheckedChange={(checked) =>
-												updateCarousel(
-													"slots",
-													"enabled",
-													checked
-												)
-											}
-										/>
-										<Label className="font-medium">
-											Slots
-										</Label>
-									</div>
-									{carousels.slots.enabled && (
-										<select
-											className="h-8 rounded-md border border-input bg-background px-3 py-1 text-sm"
-											value={carousels.slots.position}
-											onChange={(e) =>
-												updateCarousel(
-													"slots",
-													"position",
-													e.target.value
-												)
-											}
-										>
-											<option value="top">Top</option>
-											<option value="bottom">
-												Bottom
-											</option>
-										</select>
-									)}
-								</div>
-								{carousels.slots.enabled && (
-									<div className="space-y-2">
-										<Input
-											placeholder="Carousel title (optional)"
-											value={
-												carousels.slots.customTitle ||
-												""
-											}
-											onChange={(e) =>
-												updateCarousel(
-													"slots",
-													"customTitle",
-													e.target.value
-												)
-											}
-											className="text-sm"
-										/>
-										<Input
-											placeholder="Filter games (e.g., sugar, egypt)"
-											value={
-												carousels.slots.searchKeyword ||
-												""
-											}
-											onChange={(e) =>
-												updateCarousel(
-													"slots",
-													"searchKeyword",
-													e.target.value
-												)
-											}
-											className="text-sm"
-										/>
-										{isClient &&
-											carousels.slots.searchKeyword && (
-												<p className="text-xs flex items-center gap-1">
-													{gameCounts.slots > 0 ? (
-														<>
-															<span className="font-semibold text-green-600 dark:text-green-400">
-																✓{" "}
-																{
-																	gameCounts.slots
-																}{" "}
-																game
-																{gameCounts.slots !==
-																1
-																	? "s"
-																	: ""}
-															</span>
-															{gameCounts.slots >
-																50 && (
-																<span className="text-muted-foreground">
-																	(max 50
-																	shown)
-																</span>
-															)}
-														</>
-													) : (
-														<span className="font-semibold text-amber-600 dark:text-amber-400">
-															⚠ No games found
-														</span>
-													)}
-												</p>
-											)}
-									</div>
-								)}
-							</div>
-
-							{/* Sports */}
-							<div className="space-y-3 p-4 border rounded-lg bg-muted/30">
-								<div className="flex items-center justify-between">
-									<div className="flex items-center gap-2">
-										<Switch
-											checked={carousels.sports.enabled}
-											onCheckedChange={(checked) =>
-												updateCarousel(
-													"sports",
-													"enabled",
-													checked
-												)
-											}
-										/>
-										<Label className="font-medium">
-											Sports
-										</Label>
-									</div>
-									{carousels.sports.enabled && (
-										<select
-											className="h-8 rounded-md border border-input bg-background px-3 py-1 text-sm"
-											value={carousels.sports.position}
-											onChange={(e) =>
-												updateCarousel(
-													"sports",
-													"position",
-													e.target.value
-												)
-											}
-										>
-											<option value="top">Top</option>
-											<option value="bottom">
-												Bottom
-											</option>
-										</select>
-									)}
-								</div>
-								{carousels.sports.enabled && (
-									<div className="space-y-2">
-										<Input
-											placeholder="Carousel title (optional)"
-											value={
-												carousels.sports.customTitle ||
-												""
-											}
-											onChange={(e) =>
-												updateCarousel(
-													"sports",
-													"customTitle",
-													e.target.value
-												)
-											}
-											className="text-sm"
-										/>
-										<Input
-											placeholder="Filter games (e.g., football, basketball)"
-											value={
-												carousels.sports
-													.searchKeyword || ""
-											}
-											onChange={(e) =>
-												updateCarousel(
-													"sports",
-													"searchKeyword",
-													e.target.value
-												)
-											}
-											className="text-sm"
-										/>
-										{isClient &&
-											carousels.sports.searchKeyword && (
-												<p className="text-xs flex items-center gap-1">
-													{gameCounts.sports > 0 ? (
-														<>
-															<span className="font-semibold text-green-600 dark:text-green-400">
-																✓{" "}
-																{
-																	gameCounts.sports
-																}{" "}
-																game
-																{gameCounts.sports !==
-																1
-																	? "s"
-																	: ""}
-															</span>
-															{gameCounts.sports >
-																50 && (
-																<span className="text-muted-foreground">
-																	(max 50
-																	shown)
-																</span>
-															)}
-														</>
-													) : (
-														<span className="font-semibold text-amber-600 dark:text-amber-400">
-															⚠ No games found
-														</span>
-													)}
-												</p>
-											)}
-									</div>
-								)}
-							</div>
-
-							{/* Providers */}
-							<div className="space-y-3 p-4 border rounded-lg bg-muted/30">
-								<div className="flex items-center justify-between">
-									<div className="flex items-center gap-2">
-										<Switch
-											checked={
-												carousels.providers.enabled
-											}
-											onCheckedChange={(checked) =>
-												updateCarousel(
-													"providers",
-													"enabled",
-													checked
-												)
-											}
-										/>
-										<Label className="font-medium">
-											Providers
-										</Label>
-									</div>
-									{carousels.providers.enabled && (
-										<select
-											className="h-8 rounded-md border border-input bg-background px-3 py-1 text-sm"
-											value={carousels.providers.position}
-											onChange={(e) =>
-												updateCarousel(
-													"providers",
-													"position",
-													e.target.value
-												)
-											}
-										>
-											<option value="top">Top</option>
-											<option value="bottom">
-												Bottom
-											</option>
-										</select>
-									)}
-								</div>
-								{carousels.providers.enabled && (
-									<div className="space-y-2">
-										<Input
-											placeholder="Carousel title (optional)"
-											value={
-												carousels.providers
-													.customTitle || ""
-											}
-											onChange={(e) =>
-												updateCarousel(
-													"providers",
-													"customTitle",
-													e.target.value
-												)
-											}
-											className="text-sm"
-										/>
-										<Input
-											placeholder="Filter providers (e.g., evolution, pragmatic)"
-											value={
-												carousels.providers
-													.searchKeyword || ""
-											}
-											onChange={(e) =>
-												updateCarousel(
-													"providers",
-													"searchKeyword",
-													e.target.value
-												)
-											}
-											className="text-sm"
-										/>
-										{isClient &&
-											carousels.providers
-												.searchKeyword && (
-												<p className="text-xs flex items-center gap-1">
-													{gameCounts.providers >
-													0 ? (
-														<>
-															<span className="font-semibold text-green-600 dark:text-green-400">
-																✓{" "}
-																{
-																	gameCounts.providers
-																}{" "}
-																provider
-																{gameCounts.providers !==
-																1
-																	? "s"
-																	: ""}
-															</span>
-															{gameCounts.providers >
-																16 && (
-																<span className="text-muted-foreground">
-																	(max 16
-																	shown)
-																</span>
-															)}
-														</>
-													) : (
-														<span className="font-semibold text-amber-600 dark:text-amber-400">
-															⚠ No providers found
-														</span>
-													)}
-												</p>
-											)}
-									</div>
-								)}
-							</div>
-						</CardContent>
-					</Card>
 				</div>
 			</div>
 		</form>
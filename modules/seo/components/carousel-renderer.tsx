@@ -1,91 +1,72 @@
 "use client";
 
+import Link from "next/link";
 import { DynamicProviderCarousel } from "@/components/features/providers/dynamic-provider-carousel";
 import {
 	faCards,
+	faFireFlameCurved,
 	faFutbol,
 	faSlotMachine,
 	faTrophy,
 } from "@fortawesome/pro-light-svg-icons";
 import { GameCarouselSection } from "../../../components/features/games/game-carousel-section";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
 import {
-	getUniqueValuesByKey,
-	getGamesByCategory,
-} from "@/lib/utils/games/games.utils";
+	Accordion,
+	AccordionContent,
+	AccordionItem,
+	AccordionTrigger,
+} from "@/components/ui/accordion";
 import { useAppStore } from "@/store/store";
 import { useTranslations } from "next-intl";
 import { useMemo, useEffect, useState } from "react";
-import { Game, GameType } from "@/types/games/gameList.types";
+import {
+	ContentBlock,
+	CtaBannerBlock,
+	FaqBlock,
+	GameCarouselBlock,
+} from "@/modules/seo/lib/content-blocks";
+import {
+	resolveCategoryKey,
+	selectBlockGames,
+} from "@/modules/seo/lib/block-games";
+
+const CATEGORY_ICONS = {
+	SLOT: faSlotMachine,
+	"LIVE CASINO": faCards,
+	SPORTS: faFutbol,
+};
 
-export const SpecificCategoryCarousel = ({
-	type,
-	searchKeyword,
-	customTitle,
+export const GameCarouselBlockView = ({
+	block,
 }: {
-	type: "SLOT" | "LIVE CASINO" | "SPORTS";
-	searchKeyword?: string;
-	customTitle?: string;
+	block: GameCarouselBlock;
 }) => {
 	const allGames = useAppStore((state) => state.game.list.games);
 	const status = useAppStore((state) => state.game.list.status);
 	const t = useTranslations("games");
+	const tLobby = useTranslations("lobby");
 	const [isClient, setIsClient] = useState(false);
 
 	useEffect(() => setIsClient(true), []);
 
-	// Determine category configuration
-	const categoryConfig = useMemo(() => {
-		let categoryKey = type as string;
-		let title = "";
-		let icon = faFutbol;
-
-		if (type === "SLOT") {
-			title = t("slots");
-			icon = faSlotMachine;
-		} else if (type === "LIVE CASINO") {
-			title = t("liveCasino");
-			icon = faCards;
-		} else if (type === "SPORTS") {
-			const gameCategories = getUniqueValuesByKey(allGames, "category");
-			const sportsKey = gameCategories.find(
-				(cat) => cat === "SPORTSBOOK" || cat === "SPORT BOOK"
-			);
-			if (sportsKey) categoryKey = sportsKey;
-			title = "Sports";
-			icon = faFutbol;
-		}
-
-		return { categoryKey, title, icon };
-	}, [type, t, allGames]);
-
-	// Filter games by category and search keyword - only on client
+	// Filter games by the block's settings - only on client
 	const { filteredGames, totalCount } = useMemo(() => {
 		if (!isClient) return { filteredGames: [], totalCount: 0 };
 
-		const categoryGames = getGamesByCategory(
-			allGames,
-			categoryConfig.categoryKey as GameType,
-			searchKeyword ? 5000 : 50
-		);
-
-		if (!searchKeyword?.trim()) {
-			return {
-				filteredGames: categoryGames.slice(0, 50),
-				totalCount: categoryGames.length,
-			};
-		}
+		const games = selectBlockGames(allGames, block);
+		return { filteredGames: games.slice(0, 50), totalCount: games.length };
+	}, [allGames, block, isClient]);
 
-		const keyword = searchKeyword.toLowerCase();
-		const filtered = (categoryGames as Game[]).filter((game) =>
-			game.game_name.toLowerCase().includes(keyword)
-		);
-
-		return {
-			filteredGames: filtered.slice(0, 50),
-			totalCount: filtered.length,
-		};
-	}, [allGames, categoryConfig.categoryKey, searchKeyword, isClient]);
+	const categoryTitle =
+		block.category === "SLOT"
+			? t("slots")
+			: block.category === "LIVE CASINO"
+			? t("liveCasino")
+			: block.category === "SPORTS"
+			? "Sports"
+			: "";
 
 	if (status === "loading" || status === "idle" || !isClient) {
 		return (
@@ -104,12 +85,12 @@ export const SpecificCategoryCarousel = ({
 
 	if (status === "error") return null;
 
-	if (totalCount === 0 && searchKeyword) {
+	if (totalCount === 0 && block.keyword) {
 		return (
 			<div className="w-full p-8 text-center">
 				<p className="text-muted-foreground">
-					No games found for &ldquo;{searchKeyword}&rdquo; in{" "}
-					{categoryConfig.title}
+					No games found for &ldquo;{block.keyword}&rdquo;
+					{categoryTitle ? ` in ${categoryTitle}` : ""}
 				</p>
 			</div>
 		);
@@ -117,18 +98,31 @@ export const SpecificCategoryCarousel = ({
 
 	if (totalCount === 0) return null;
 
+	const title =
+		block.title ||
+		(block.gameIds.length > 0
+			? tLobby("featuredCasinoGames")
+			: block.keyword
+			? `${block.keyword.toUpperCase()} Games`
+			: block.provider
+			? t("byProvider", { name: block.provider })
+			: categoryTitle);
+
 	return (
 		<GameCarouselSection
-			category={categoryConfig.categoryKey as GameType}
+			category={
+				block.category
+					? resolveCategoryKey(allGames, block.category)
+					: undefined
+			}
 			games={filteredGames}
-			title={
-				customTitle
-					? customTitle
-					: searchKeyword
-					? `${searchKeyword.toUpperCase()} Games`
-					: categoryConfig.title
+			title={title}
+			icon={
+				block.category
+					? CATEGORY_ICONS[block.category]
+					: faFireFlameCurved
 			}
-			icon={categoryConfig.icon}
+			showViewAll={block.gameIds.length === 0}
 			itemsPerCarousel={{
 				md: 3,
 				lg: 5,
@@ -142,65 +136,139 @@ export const SpecificCategoryCarousel = ({
 	);
 };
 
-interface CarouselConfig {
-	enabled: boolean;
-	position: "top" | "bottom";
-	searchKeyword?: string;
-	customTitle?: string;
-}
+const FaqBlockView = ({ block }: { block: FaqBlock }) => {
+	if (block.items.length === 0) return null;
 
-interface CarouselsState {
-	liveCasino: CarouselConfig;
-	slots: CarouselConfig;
-	sports: CarouselConfig;
-	providers: CarouselConfig;
-}
+	return (
+		<section className="w-full">
+			{block.title && (
+				<h2 className="text-2xl font-bold mb-4">{block.title}</h2>
+			)}
+			<Accordion type="single" collapsible className="w-full">
+				{block.items.map((item, index) => (
+					<AccordionItem key={index} value={`item-${index}`}>
+						<AccordionTrigger className="text-base">
+							{item.question}
+						</AccordionTrigger>
+						<AccordionContent className="whitespace-pre-line text-muted-foreground">
+							{item.answer}
+						</AccordionContent>
+					</AccordionItem>
+				))}
+			</Accordion>
+		</section>
+	);
+};
+
+const CtaBannerBlockView = ({ block }: { block: CtaBannerBlock }) => {
+	if (!block.heading && !block.text) return null;
+	const isExternal = /^https?:\/\//.test(block.buttonUrl);
+
+	return (
+		<section
+			className="relative w-full overflow-hidden rounded-2xl bg-primary/10 bg-cover bg-center px-6 py-10 md:px-12"
+			style={
+				block.imageUrl
+					? { backgroundImage: `url("${block.imageUrl}")` }
+					: undefined
+			}
+		>
+			{block.imageUrl && (
+				<div className="absolute inset-0 bg-background/70" />
+			)}
+			<div className="relative flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+				<div className="space-y-2">
+					{block.heading && (
+						<h2 className="text-2xl font-bold md:text-3xl">
+							{block.heading}
+						</h2>
+					)}
+					{block.text && (
+						<p className="text-muted-foreground max-w-2xl">
+							{block.text}
+						</p>
+					)}
+				</div>
+				{block.buttonLabel && block.buttonUrl && (
+					<Button size="lg" asChild className="shrink-0">
+						{isExternal ? (
+							<a
+								href={block.buttonUrl}
+								target="_blank"
+								rel="noopener noreferrer"
+							>
+								{block.buttonLabel}
+							</a>
+						) : (
+							<Link href={block.buttonUrl}>
+								{block.buttonLabel}
+							</Link>
+						)}
+					</Button>
+				)}
+			</div>
+		</section>
+	);
+};
+
+const BlockView = ({
+	block,
+	content,
+}: {
+	block: ContentBlock;
+	content: string;
+}) => {
+	switch (block.type) {
+		case "pageContent":
+			return (
+				<div
+					className="prose prose-lg dark:prose-invert max-w-none"
+					dangerouslySetInnerHTML={{ __html: content }}
+				/>
+			);
+		case "gameCarousel":
+			return <GameCarouselBlockView block={block} />;
+		case "providerStrip":
+			return (
+				<DynamicProviderCarousel
+					title="Top Providers"
+					Icon={faTrophy}
+					maxProviders={16}
+					customTitle={block.title}
+					searchKeyword={block.keyword}
+				/>
+			);
+		case "faq":
+			return <FaqBlockView block={block} />;
+		case "richText":
+			return block.html ? (
+				<div
+					className="prose prose-lg dark:prose-invert max-w-none"
+					dangerouslySetInnerHTML={{ __html: block.html }}
+				/>
+			) : null;
+		case "ctaBanner":
+			return <CtaBannerBlockView block={block} />;
+	}
+};
 
 interface CarouselRendererProps {
-	config: CarouselsState;
-	position: "top" | "bottom";
+	blocks: ContentBlock[];
+	// The page's HTML, shown where its page content block sits
+	content: string;
 }
 
 export const CarouselRenderer = ({
-	config,
-	position,
+	blocks,
+	content,
 }: CarouselRendererProps) => {
-	if (!config) return null;
+	if (!blocks?.length) return null;
 
 	return (
 		<div className="flex flex-col gap-12 my-12 w-full">
-			{config.liveCasino?.enabled &&
-				config.liveCasino.position === position && (
-					<SpecificCategoryCarousel
-						type="LIVE CASINO"
-						searchKeyword={config.liveCasino.searchKeyword}
-						customTitle={config.liveCasino.customTitle}
-					/>
-				)}
-			{config.slots?.enabled && config.slots.position === position && (
-				<SpecificCategoryCarousel
-					type="SLOT"
-					searchKeyword={config.slots.searchKeyword}
-					customTitle={config.slots.customTitle}
-				/>
-			)}
-			{config.sports?.enabled && config.sports.position === position && (
-				<SpecificCategoryCarousel
-					type="SPORTS"
-					searchKeyword={config.sports.searchKeyword}
-					customTitle={config.sports.customTitle}
-				/>
-			)}
-			{config.providers?.enabled &&
-				config.providers.position === position && (
-					<DynamicProviderCarousel
-						title="Top Providers"
-						Icon={faTrophy}
-						maxProviders={16}
-						customTitle={config.providers.customTitle}
-						searchKeyword={config.providers.searchKeyword}
-					/>
-				)}
+			{blocks.map((block) => (
+				<BlockView key={block.id} block={block} content={content} />
+			))}
 		</div>
 	);
 };
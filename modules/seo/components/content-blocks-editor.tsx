@@ -0,0 +1,646 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+	ArrowDown,
+	ArrowUp,
+	Eye,
+	ImageIcon,
+	Plus,
+	Trash2,
+	X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { RichTextEditor } from "@/modules/blog/components/RichTextEditor";
+import { MediaPickerDialog } from "@/modules/media/components/media-picker-dialog";
+import { getPreferredMediaUrl } from "@/modules/media/lib/urls";
+import { useAppStore } from "@/store/store";
+import { Game } from "@/types/games/gameList.types";
+import {
+	CONTENT_BLOCK_LABELS,
+	ContentBlock,
+	ContentBlockType,
+	CtaBannerBlock,
+	FaqBlock,
+	GAME_CATEGORY_LABELS,
+	GameCarouselBlock,
+	GameCategory,
+	ProviderStripBlock,
+	createBlock,
+} from "@/modules/seo/lib/content-blocks";
+import {
+	countMatchingProviders,
+	selectBlockGames,
+} from "@/modules/seo/lib/block-games";
+import { CarouselRenderer } from "./carousel-renderer";
+
+const selectClassName =
+	"h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm";
+
+// Everything but the page content block, which every page has exactly once
+const ADDABLE_TYPES: ContentBlockType[] = [
+	"gameCarousel",
+	"providerStrip",
+	"faq",
+	"richText",
+	"ctaBanner",
+];
+
+const MatchCount = ({
+	count,
+	limit,
+	noun,
+}: {
+	count: number;
+	limit: number;
+	noun: string;
+}) => (
+	<p className="text-xs flex items-center gap-1">
+		{count > 0 ? (
+			<>
+				<span className="font-semibold text-green-600 dark:text-green-400">
+					✓ {count} {noun}
+					{count !== 1 ? "s" : ""}
+				</span>
+				{count > limit && (
+					<span className="text-muted-foreground">
+						(max {limit} shown)
+					</span>
+				)}
+			</>
+		) : (
+			<span className="font-semibold text-amber-600 dark:text-amber-400">
+				⚠ No {noun}s found
+			</span>
+		)}
+	</p>
+);
+
+function GameIdsPicker({
+	games,
+	gameIds,
+	onChange,
+}: {
+	games: Game[];
+	gameIds: string[];
+	onChange: (gameIds: string[]) => void;
+}) {
+	const [query, setQuery] = useState("");
+
+	const byId = useMemo(
+		() => new Map(games.map((game) => [String(game.game_id), game])),
+		[games]
+	);
+
+	const suggestions = useMemo(() => {
+		const kw = query.trim().toLowerCase();
+		if (!kw) return [];
+		return games
+			.filter(
+				(game) =>
+					game.game_name.toLowerCase().includes(kw) &&
+					!gameIds.includes(String(game.game_id))
+			)
+			.slice(0, 8);
+	}, [games, gameIds, query]);
+
+	return (
+		<div className="space-y-2">
+			{gameIds.length > 0 && (
+				<div className="flex flex-wrap gap-2">
+					{gameIds.map((id) => (
+						<span
+							key={id}
+							className="inline-flex items-center gap-1 rounded-md border bg-background px-2 py-1 text-xs"
+						>
+							{byId.get(id)?.game_name ?? `#${id}`}
+							<button
+								type="button"
+								onClick={() =>
+									onChange(
+										gameIds.filter(
+											(gameId) => gameId !== id
+										)
+									)
+								}
+								className="text-muted-foreground hover:text-foreground"
+							>
+								<X className="h-3 w-3" />
+							</button>
+						</span>
+					))}
+				</div>
+			)}
+			<Input
+				placeholder="Hand-pick games by name (overrides the filters)"
+				value={query}
+				onChange={(e) => setQuery(e.target.value)}
+				className="text-sm"
+			/>
+			{suggestions.length > 0 && (
+				<div className="rounded-md border bg-background">
+					{suggestions.map((game) => (
+						<button
+							key={String(game.game_id)}
+							type="button"
+							onClick={() => {
+								onChange([...gameIds, String(game.game_id)]);
+								setQuery("");
+							}}
+							className="flex w-full items-center justify-between px-3 py-1.5 text-left text-sm hover:bg-muted"
+						>
+							<span>{game.game_name}</span>
+							<span className="text-xs text-muted-foreground">
+								{game.provider_name}
+							</span>
+						</button>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
+
+function GameCarouselFields({
+	block,
+	games,
+	isClient,
+	onChange,
+}: {
+	block: GameCarouselBlock;
+	games: Game[];
+	isClient: boolean;
+	onChange: (patch: Partial<GameCarouselBlock>) => void;
+}) {
+	const count = useMemo(
+		() => (isClient ? selectBlockGames(games, block).length : 0),
+		[games, block, isClient]
+	);
+	const hasFilters =
+		!!block.category ||
+		!!block.provider.trim() ||
+		!!block.keyword.trim() ||
+		block.gameIds.length > 0;
+
+	return (
+		<div className="space-y-2">
+			<Input
+				placeholder="Carousel title (optional)"
+				value={block.title}
+				onChange={(e) => onChange({ title: e.target.value })}
+				className="text-sm"
+			/>
+			<div className="grid gap-2 sm:grid-cols-3">
+				<select
+					className={selectClassName}
+					value={block.category}
+					onChange={(e) =>
+						onChange({
+							category: e.target.value as GameCategory | "",
+						})
+					}
+				>
+					<option value="">All categories</option>
+					{Object.entries(GAME_CATEGORY_LABELS).map(
+						([value, label]) => (
+							<option key={value} value={value}>
+								{label}
+							</option>
+						)
+					)}
+				</select>
+				<Input
+					placeholder="Provider (e.g., evolution)"
+					value={block.provider}
+					onChange={(e) => onChange({ provider: e.target.value })}
+					className="text-sm"
+				/>
+				<Input
+					placeholder="Keyword (e.g., roulette)"
+					value={block.keyword}
+					onChange={(e) => onChange({ keyword: e.target.value })}
+					className="text-sm"
+				/>
+			</div>
+			<GameIdsPicker
+				games={games}
+				gameIds={block.gameIds}
+				onChange={(gameIds) => onChange({ gameIds })}
+			/>
+			{isClient && hasFilters && (
+				<MatchCount count={count} limit={50} noun="game" />
+			)}
+		</div>
+	);
+}
+
+function ProviderStripFields({
+	block,
+	games,
+	isClient,
+	onChange,
+}: {
+	block: ProviderStripBlock;
+	games: Game[];
+	isClient: boolean;
+	onChange: (patch: Partial<ProviderStripBlock>) => void;
+}) {
+	return (
+		<div className="space-y-2">
+			<Input
+				placeholder="Carousel title (optional)"
+				value={block.title}
+				onChange={(e) => onChange({ title: e.target.value })}
+				className="text-sm"
+			/>
+			<Input
+				placeholder="Filter providers (e.g., evolution, pragmatic)"
+				value={block.keyword}
+				onChange={(e) => onChange({ keyword: e.target.value })}
+				className="text-sm"
+			/>
+			{isClient && block.keyword && (
+				<MatchCount
+					count={countMatchingProviders(games, block.keyword)}
+					limit={16}
+					noun="provider"
+				/>
+			)}
+		</div>
+	);
+}
+
+function FaqFields({
+	block,
+	onChange,
+}: {
+	block: FaqBlock;
+	onChange: (patch: Partial<FaqBlock>) => void;
+}) {
+	const updateItem = (
+		index: number,
+		field: "question" | "answer",
+		value: string
+	) =>
+		onChange({
+			items: block.items.map((item, i) =>
+				i === index ? { ...item, [field]: value } : item
+			),
+		});
+
+	return (
+		<div className="space-y-3">
+			<Input
+				placeholder="Section title (optional)"
+				value={block.title}
+				onChange={(e) => onChange({ title: e.target.value })}
+				className="text-sm"
+			/>
+			{block.items.map((item, index) => (
+				<div key={index} className="space-y-2 rounded-md border p-3">
+					<div className="flex items-center gap-2">
+						<Input
+							placeholder="Question"
+							value={item.question}
+							onChange={(e) =>
+								updateItem(index, "question", e.target.value)
+							}
+							className="text-sm"
+						/>
+						<Button
+							type="button"
+							variant="ghost"
+							size="icon"
+							onClick={() =>
+								onChange({
+									items: block.items.filter(
+										(_, i) => i !== index
+									),
+								})
+							}
+						>
+							<Trash2 className="h-4 w-4" />
+						</Button>
+					</div>
+					<Textarea
+						placeholder="Answer"
+						value={item.answer}
+						onChange={(e) =>
+							updateItem(index, "answer", e.target.value)
+						}
+						className="text-sm"
+					/>
+				</div>
+			))}
+			<Button
+				type="button"
+				variant="outline"
+				size="sm"
+				onClick={() =>
+					onChange({
+						items: [...block.items, { question: "", answer: "" }],
+					})
+				}
+			>
+				<Plus className="mr-2 h-4 w-4" />
+				Add Question
+			</Button>
+		</div>
+	);
+}
+
+function CtaBannerFields({
+	block,
+	onChange,
+}: {
+	block: CtaBannerBlock;
+	onChange: (patch: Partial<CtaBannerBlock>) => void;
+}) {
+	const [isPickingImage, setIsPickingImage] = useState(false);
+
+	return (
+		<div className="space-y-2">
+			<Input
+				placeholder="Heading"
+				value={block.heading}
+				onChange={(e) => onChange({ heading: e.target.value })}
+				className="text-sm"
+			/>
+			<Textarea
+				placeholder="Text"
+				value={block.text}
+				onChange={(e) => onChange({ text: e.target.value })}
+				className="text-sm"
+			/>
+			<div className="grid gap-2 sm:grid-cols-2">
+				<Input
+					placeholder="Button label"
+					value={block.buttonLabel}
+					onChange={(e) => onChange({ buttonLabel: e.target.value })}
+					className="text-sm"
+				/>
+				<Input
+					placeholder="Button link (e.g., /games or https://...)"
+					value={block.buttonUrl}
+					onChange={(e) => onChange({ buttonUrl: e.target.value })}
+					className="text-sm"
+				/>
+			</div>
+			<div className="flex gap-2">
+				<Input
+					placeholder="Background image URL (optional)"
+					value={block.imageUrl}
+					onChange={(e) => onChange({ imageUrl: e.target.value })}
+					className="text-sm"
+				/>
+				<Button
+					type="button"
+					variant="outline"
+					size="icon"
+					className="shrink-0"
+					onClick={() => setIsPickingImage(true)}
+				>
+					<ImageIcon className="h-4 w-4" />
+				</Button>
+			</div>
+			<MediaPickerDialog
+				open={isPickingImage}
+				onOpenChange={setIsPickingImage}
+				onSelect={(media) =>
+					onChange({ imageUrl: getPreferredMediaUrl(media) })
+				}
+			/>
+		</div>
+	);
+}
+
+interface ContentBlocksEditorProps {
+	blocks: ContentBlock[];
+	onChange: (blocks: ContentBlock[]) => void;
+	// The page's English content, for the preview
+	content: string;
+}
+
+export function ContentBlocksEditor({
+	blocks,
+	onChange,
+	content,
+}: ContentBlocksEditorProps) {
+	const [addType, setAddType] = useState<ContentBlockType>("gameCarousel");
+	const [showPreview, setShowPreview] = useState(false);
+	const [isClient, setIsClient] = useState(false);
+
+	// Games from the store, for live match counts and the game picker
+	const allGames = useAppStore((state) => state.game.list.games);
+	const gamesStatus = useAppStore((state) => state.game.list.status);
+	const initializeGameList = useAppStore(
+		(state) => state.game.list.initializeGameList
+	);
+	const totalGames = allGames?.length ?? 0;
+
+	useEffect(() => setIsClient(true), []);
+
+	useEffect(() => {
+		if (!isClient) return;
+		if (
+			gamesStatus === "idle" ||
+			(gamesStatus === "error" && totalGames === 0)
+		) {
+			initializeGameList();
+		}
+	}, [isClient, gamesStatus, totalGames, initializeGameList]);
+
+	const games = allGames ?? [];
+
+	const updateBlock = <T extends ContentBlock>(block: T, patch: Partial<T>) =>
+		onChange(
+			blocks.map((item) =>
+				item.id === block.id ? { ...block, ...patch } : item
+			)
+		);
+
+	const moveBlock = (index: number, offset: -1 | 1) => {
+		const next = [...blocks];
+		const [block] = next.splice(index, 1);
+		next.splice(index + offset, 0, block);
+		onChange(next);
+	};
+
+	const renderFields = (block: ContentBlock) => {
+		switch (block.type) {
+			case "pageContent":
+				return (
+					<p className="text-sm text-muted-foreground">
+						The page&apos;s main content, edited above. Move it to
+						place blocks before or after it.
+					</p>
+				);
+			case "gameCarousel":
+				return (
+					<GameCarouselFields
+						block={block}
+						games={games}
+						isClient={isClient}
+						onChange={(patch) => updateBlock(block, patch)}
+					/>
+				);
+			case "providerStrip":
+				return (
+					<ProviderStripFields
+						block={block}
+						games={games}
+						isClient={isClient}
+						onChange={(patch) => updateBlock(block, patch)}
+					/>
+				);
+			case "faq":
+				return (
+					<FaqFields
+						block={block}
+						onChange={(patch) => updateBlock(block, patch)}
+					/>
+				);
+			case "richText":
+				return (
+					<RichTextEditor
+						value={block.html}
+						onChange={(html) => updateBlock(block, { html })}
+					/>
+				);
+			case "ctaBanner":
+				return (
+					<CtaBannerFields
+						block={block}
+						onChange={(patch) => updateBlock(block, patch)}
+					/>
+				);
+		}
+	};
+
+	return (
+		<div className="space-y-6">
+			<div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+				<div>
+					<h3 className="font-semibold text-lg">Page Blocks</h3>
+					<p className="text-sm text-muted-foreground mt-1">
+						Carousels, FAQs and banners shown on the page, in order.
+						Shared by every language.
+					</p>
+				</div>
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					onClick={() => setShowPreview(true)}
+				>
+					<Eye className="mr-2 h-4 w-4" />
+					Preview
+				</Button>
+			</div>
+
+			<div className="space-y-3">
+				{blocks.map((block, index) => (
+					<div
+						key={block.id}
+						className="space-y-3 p-4 border rounded-lg bg-muted/30"
+					>
+						<div className="flex items-center justify-between">
+							<Label className="font-medium">
+								{CONTENT_BLOCK_LABELS[block.type]}
+							</Label>
+							<div className="flex items-center gap-1">
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon"
+									className="h-8 w-8"
+									disabled={index === 0}
+									onClick={() => moveBlock(index, -1)}
+								>
+									<ArrowUp className="h-4 w-4" />
+								</Button>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon"
+									className="h-8 w-8"
+									disabled={index === blocks.length - 1}
+									onClick={() => moveBlock(index, 1)}
+								>
+									<ArrowDown className="h-4 w-4" />
+								</Button>
+								{block.type !== "pageContent" && (
+									<Button
+										type="button"
+										variant="ghost"
+										size="icon"
+										className="h-8 w-8 text-destructive"
+										onClick={() =>
+											onChange(
+												blocks.filter(
+													(item) =>
+														item.id !== block.id
+												)
+											)
+										}
+									>
+										<Trash2 className="h-4 w-4" />
+									</Button>
+								)}
+							</div>
+						</div>
+						{renderFields(block)}
+					</div>
+				))}
+			</div>
+
+			<div className="flex gap-2">
+				<select
+					className={selectClassName}
+					value={addType}
+					onChange={(e) =>
+						setAddType(e.target.value as ContentBlockType)
+					}
+				>
+					{ADDABLE_TYPES.map((type) => (
+						<option key={type} value={type}>
+							{CONTENT_BLOCK_LABELS[type]}
+						</option>
+					))}
+				</select>
+				<Button
+					type="button"
+					variant="outline"
+					className="shrink-0"
+					onClick={() => onChange([...blocks, createBlock(addType)])}
+				>
+					<Plus className="mr-2 h-4 w-4" />
+					Add Block
+				</Button>
+			</div>
+
+			<Dialog open={showPreview} onOpenChange={setShowPreview}>
+				<DialogContent className="sm:max-w-6xl max-h-[90vh] overflow-y-auto">
+					<DialogHeader>
+						<DialogTitle>Page Preview</DialogTitle>
+						<DialogDescription>
+							How the blocks appear on the English page, with
+							unsaved changes.
+						</DialogDescription>
+					</DialogHeader>
+					<CarouselRenderer blocks={blocks} content={content} />
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+}
@@ -0,0 +1,447 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, Code, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from "@/components/ui/dialog";
+import { previewStructuredData } from "@/modules/seo/actions";
+import {
+	BreadcrumbSchemaItem,
+	createStructuredDataItem,
+	FaqSchemaItem,
+	HowToSchemaItem,
+	PRODUCT_AVAILABILITY,
+	STRUCTURED_DATA_LABELS,
+	StructuredDataItem,
+	StructuredDataType,
+	validateStructuredDataItem,
+} from "@/modules/seo/lib/structured-data";
+
+const selectClassName =
+	"h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm";
+
+const ADDABLE_TYPES = Object.keys(
+	STRUCTURED_DATA_LABELS
+) as StructuredDataType[];
+
+interface TextField {
+	key: string;
+	placeholder: string;
+	multiline?: boolean;
+	options?: string[];
+}
+
+// Single-value fields per type; required ones are marked with *
+const TEXT_FIELDS: Partial<Record<StructuredDataType, TextField[]>> = {
+	howto: [
+		{ key: "name", placeholder: "Name *" },
+		{ key: "description", placeholder: "Description", multiline: true },
+		{ key: "totalTime", placeholder: "Total time (e.g., PT10M)" },
+	],
+	article: [
+		{ key: "title", placeholder: "Headline *" },
+		{ key: "description", placeholder: "Description", multiline: true },
+		{ key: "datePublished", placeholder: "Published * (YYYY-MM-DD)" },
+		{ key: "dateModified", placeholder: "Modified (YYYY-MM-DD)" },
+		{ key: "author", placeholder: "Author (defaults to the site's)" },
+		{ key: "url", placeholder: "URL (defaults to this page)" },
+		{ key: "image", placeholder: "Image URL" },
+	],
+	product: [
+		{ key: "name", placeholder: "Name *" },
+		{ key: "description", placeholder: "Description", multiline: true },
+		{ key: "price", placeholder: "Price *" },
+		{ key: "priceCurrency", placeholder: "Currency * (e.g., USD)" },
+		{
+			key: "availability",
+			placeholder: "Availability",
+			options: PRODUCT_AVAILABILITY,
+		},
+		{ key: "brand", placeholder: "Brand" },
+		{ key: "url", placeholder: "URL (defaults to this page)" },
+		{ key: "image", placeholder: "Image URL" },
+	],
+	game: [
+		{ key: "name", placeholder: "Name *" },
+		{ key: "description", placeholder: "Description *", multiline: true },
+		{ key: "provider", placeholder: "Provider" },
+		{ key: "category", placeholder: "Category (e.g., Slots)" },
+		{ key: "rating", placeholder: "Rating (1-5)" },
+		{ key: "url", placeholder: "URL (defaults to this page)" },
+		{ key: "image", placeholder: "Image URL" },
+	],
+};
+
+function TextFields({
+	item,
+	onChange,
+}: {
+	item: StructuredDataItem;
+	onChange: (patch: Record<string, string>) => void;
+}) {
+	const values = item as unknown as Record<string, string>;
+
+	return (
+		<div className="grid gap-2 sm:grid-cols-2">
+			{(TEXT_FIELDS[item.type] ?? []).map((field) =>
+				field.multiline ? (
+					<Textarea
+						key={field.key}
+						placeholder={field.placeholder}
+						value={values[field.key]}
+						onChange={(e) =>
+							onChange({ [field.key]: e.target.value })
+						}
+						className="text-sm sm:col-span-2"
+					/>
+				) : field.options ? (
+					<select
+						key={field.key}
+						className={selectClassName}
+						value={values[field.key]}
+						onChange={(e) =>
+							onChange({ [field.key]: e.target.value })
+						}
+					>
+						<option value="">{field.placeholder}</option>
+						{field.options.map((option) => (
+							<option key={option} value={option}>
+								{option}
+							</option>
+						))}
+					</select>
+				) : (
+					<Input
+						key={field.key}
+						placeholder={field.placeholder}
+						value={values[field.key]}
+						onChange={(e) =>
+							onChange({ [field.key]: e.target.value })
+						}
+						className="text-sm"
+					/>
+				)
+			)}
+		</div>
+	);
+}
+
+/** Add/remove rows of a list field, e.g. FAQ questions or HowTo steps. */
+function ListFields<Row extends Record<string, string>>({
+	rows,
+	columns,
+	emptyRow,
+	addLabel,
+	onChange,
+}: {
+	rows: Row[];
+	columns: { key: keyof Row & string; placeholder: string }[];
+	emptyRow: Row;
+	addLabel: string;
+	onChange: (rows: Row[]) => void;
+}) {
+	return (
+		<div className="space-y-2">
+			{rows.map((row, index) => (
+				<div key={index} className="flex items-start gap-2">
+					<div className="grid flex-1 gap-2 sm:grid-cols-2">
+						{columns.map((column) => (
+							<Input
+								key={column.key}
+								placeholder={column.placeholder}
+								value={row[column.key]}
+								onChange={(e) =>
+									onChange(
+										rows.map((item, i) =>
+											i === index
+												? {
+														...item,
+														[column.key]:
+															e.target.value,
+													}
+												: item
+										)
+									)
+								}
+								className="text-sm"
+							/>
+						))}
+					</div>
+					<Button
+						type="button"
+						variant="ghost"
+						size="icon"
+						onClick={() =>
+							onChange(rows.filter((_, i) => i !== index))
+						}
+					>
+						<Trash2 className="h-4 w-4" />
+					</Button>
+				</div>
+			))}
+			<Button
+				type="button"
+				variant="outline"
+				size="sm"
+				onClick={() => onChange([...rows, { ...emptyRow }])}
+			>
+				<Plus className="mr-2 h-4 w-4" />
+				{addLabel}
+			</Button>
+		</div>
+	);
+}
+
+interface StructuredDataEditorProps {
+	items: StructuredDataItem[];
+	onChange: (items: StructuredDataItem[]) => void;
+	// The page's slug, which URLs default to
+	slug: string;
+}
+
+export function StructuredDataEditor({
+	items,
+	onChange,
+	slug,
+}: StructuredDataEditorProps) {
+	const [addType, setAddType] = useState<StructuredDataType>("faq");
+	const [preview, setPreview] = useState<string | null>(null);
+	const [previewError, setPreviewError] = useState<string | null>(null);
+	const [isPreviewing, setIsPreviewing] = useState(false);
+
+	const updateItem = (id: string, patch: object) =>
+		onChange(
+			items.map((item) =>
+				item.id === id
+					? ({ ...item, ...patch } as StructuredDataItem)
+					: item
+			)
+		);
+
+	const showPreview = async () => {
+		setIsPreviewing(true);
+		setPreviewError(null);
+		try {
+			const result = await previewStructuredData(items, slug);
+			if (result.success) {
+				setPreview(result.json || "");
+			} else {
+				setPreviewError(result.error || "Could not build the preview.");
+			}
+		} catch (error) {
+			console.error("Error previewing structured data:", error);
+			setPreviewError("Could not build the preview.");
+		} finally {
+			setIsPreviewing(false);
+		}
+	};
+
+	const renderFields = (item: StructuredDataItem) => {
+		switch (item.type) {
+			case "faq":
+				return (
+					<ListFields<FaqSchemaItem["faqs"][number]>
+						rows={item.faqs}
+						columns={[
+							{ key: "question", placeholder: "Question *" },
+							{ key: "answer", placeholder: "Answer *" },
+						]}
+						emptyRow={{ question: "", answer: "" }}
+						addLabel="Add Question"
+						onChange={(faqs) => updateItem(item.id, { faqs })}
+					/>
+				);
+			case "howto":
+				return (
+					<div className="space-y-3">
+						<TextFields
+							item={item}
+							onChange={(patch) => updateItem(item.id, patch)}
+						/>
+						<ListFields<HowToSchemaItem["steps"][number]>
+							rows={item.steps}
+							columns={[
+								{ key: "name", placeholder: "Step name" },
+								{ key: "text", placeholder: "Instructions *" },
+								{ key: "image", placeholder: "Image URL" },
+							]}
+							emptyRow={{ name: "", text: "", image: "" }}
+							addLabel="Add Step"
+							onChange={(steps) => updateItem(item.id, { steps })}
+						/>
+					</div>
+				);
+			case "breadcrumb":
+				return (
+					<ListFields<BreadcrumbSchemaItem["breadcrumbs"][number]>
+						rows={item.breadcrumbs}
+						columns={[
+							{ key: "name", placeholder: "Name *" },
+							{
+								key: "url",
+								placeholder: "Path * (e.g., /slots)",
+							},
+						]}
+						emptyRow={{ name: "", url: "" }}
+						addLabel="Add Breadcrumb"
+						onChange={(breadcrumbs) =>
+							updateItem(item.id, { breadcrumbs })
+						}
+					/>
+				);
+			case "custom":
+				return (
+					<Textarea
+						className="font-mono text-sm min-h-[160px]"
+						placeholder='{ "@context": "https://schema.org", "@type": "FAQPage", ... }'
+						value={item.json}
+						onChange={(e) =>
+							updateItem(item.id, { json: e.target.value })
+						}
+					/>
+				);
+			default:
+				return (
+					<TextFields
+						item={item}
+						onChange={(patch) => updateItem(item.id, patch)}
+					/>
+				);
+		}
+	};
+
+	return (
+		<div className="space-y-6">
+			<div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+				<div>
+					<h3 className="font-semibold text-lg">
+						Structured Data (JSON-LD)
+					</h3>
+					<p className="text-sm text-muted-foreground mt-1">
+						Schemas injected into the page head. Fields marked * are
+						required for rich results.
+					</p>
+				</div>
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					disabled={items.length === 0 || isPreviewing}
+					onClick={showPreview}
+				>
+					{isPreviewing ? (
+						<Loader2 className="mr-2 h-4 w-4 animate-spin" />
+					) : (
+						<Code className="mr-2 h-4 w-4" />
+					)}
+					Preview JSON-LD
+				</Button>
+			</div>
+
+			{previewError && (
+				<p className="text-sm text-destructive">{previewError}</p>
+			)}
+
+			<div className="space-y-3">
+				{items.map((item) => {
+					const errors = validateStructuredDataItem(item);
+					return (
+						<div
+							key={item.id}
+							className="space-y-3 p-4 border rounded-lg bg-muted/30"
+						>
+							<div className="flex items-center justify-between">
+								<Label className="font-medium">
+									{STRUCTURED_DATA_LABELS[item.type]}
+								</Label>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon"
+									className="h-8 w-8 text-destructive"
+									onClick={() =>
+										onChange(
+											items.filter(
+												(other) => other.id !== item.id
+											)
+										)
+									}
+								>
+									<Trash2 className="h-4 w-4" />
+								</Button>
+							</div>
+							{renderFields(item)}
+							{errors.length > 0 && (
+								<ul className="space-y-1 text-xs text-destructive">
+									{errors.map((error) => (
+										<li
+											key={error}
+											className="flex items-center gap-1"
+										>
+											<AlertCircle className="h-3 w-3 shrink-0" />
+											{error}
+										</li>
+									))}
+								</ul>
+							)}
+						</div>
+					);
+				})}
+			</div>
+
+			<div className="flex gap-2">
+				<select
+					className={selectClassName}
+					value={addType}
+					onChange={(e) =>
+						setAddType(e.target.value as StructuredDataType)
+					}
+				>
+					{ADDABLE_TYPES.map((type) => (
+						<option key={type} value={type}>
+							{STRUCTURED_DATA_LABELS[type]}
+						</option>
+					))}
+				</select>
+				<Button
+					type="button"
+					variant="outline"
+					className="shrink-0"
+					onClick={() =>
+						onChange([...items, createStructuredDataItem(addType)])
+					}
+				>
+					<Plus className="mr-2 h-4 w-4" />
+					Add Schema
+				</Button>
+			</div>
+
+			<Dialog
+				open={preview !== null}
+				onOpenChange={(open) => !open && setPreview(null)}
+			>
+				<DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+					<DialogHeader>
+						<DialogTitle>JSON-LD Preview</DialogTitle>
+						<DialogDescription>
+							What will be injected into the page head, with
+							unsaved changes.
+						</DialogDescription>
+					</DialogHeader>
+					<pre className="rounded-md bg-muted p-4 text-xs overflow-x-auto">
+						{preview}
+					</pre>
+				</DialogContent>
+			</Dialog>
+		</div>
+	);
+}
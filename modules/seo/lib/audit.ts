@@ -0,0 +1,424 @@
+import prisma from "@/modules/admin/lib/db";
+import { getDynamicSEOConfig } from "@/lib/utils/seo/seo-config-loader";
+import { isLive } from "@/modules/admin/lib/publishing";
+import { locales } from "@/lib/i18n";
+import { getMediaVariants, MEDIA_URL_PREFIX } from "@/modules/media/lib/urls";
+import sitemap from "@/app/sitemap";
+
+/**
+ * Checks posts and SEO landing pages for the problems search engines
+ * penalise. Only the English originals are audited; translations reuse
+ * their page's slug, images and links.
+ */
+
+export type AuditSeverity = "error" | "warning";
+
+export interface AuditIssue {
+	severity: AuditSeverity;
+	message: string;
+}
+
+export interface KeywordDensity {
+	keyword: string;
+	// Percentage of the page's words
+	density: number;
+}
+
+export interface AuditedPage {
+	id: string;
+	kind: "post" | "seoPage";
+	title: string;
+	path: string;
+	editUrl: string;
+	live: boolean;
+	score: number;
+	issues: AuditIssue[];
+	keywords: KeywordDensity[];
+}
+
+export interface SeoAuditReport {
+	domain: string;
+	pages: AuditedPage[];
+	orphanedTags: { id: string; name: string; slug: string }[];
+	generatedAt: Date;
+}
+
+// What search results show before truncating
+export const TITLE_LENGTH = { min: 30, max: 60 };
+export const DESCRIPTION_LENGTH = { min: 70, max: 160 };
+// Outside this range a keyword is either missing or stuffed
+export const KEYWORD_DENSITY = { min: 0.5, max: 3 };
+
+const SEVERITY_PENALTY: Record<AuditSeverity, number> = {
+	error: 15,
+	warning: 5,
+};
+
+// Top-level routes under app/(routes); SEO pages fill the rest of /[slug]
+const APP_ROUTES = new Set([
+	"about-us",
+	"affiliate",
+	"api",
+	"blog",
+	"bonus",
+	"contact-us",
+	"dice",
+	"fairness",
+	"faqs",
+	"games",
+	"getLobby",
+	"history",
+	"ln",
+	"lobby",
+	"play",
+	"privacy-policy",
+	"profile",
+	"providers",
+	"responsible-gambling",
+	"self-exclusion",
+	"terms-and-conditions",
+]);
+
+interface AuditTarget {
+	id: string;
+	kind: AuditedPage["kind"];
+	title: string;
+	metaTitle: string;
+	metaDescription: string;
+	content: string;
+	keywords: string | null;
+	coverImage?: string | null;
+	path: string;
+	editUrl: string;
+	live: boolean;
+}
+
+const toText = (html: string) =>
+	html
+		.replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+		.replace(/<[^>]+>/g, " ")
+		.replace(/&nbsp;/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+
+const countWords = (text: string) =>
+	text ? text.split(" ").filter(Boolean).length : 0;
+
+const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function getKeywordDensity(
+	text: string,
+	keyword: string
+): KeywordDensity {
+	const words = countWords(text);
+	const phrase = keyword.trim().toLowerCase();
+	if (!words || !phrase) return { keyword, density: 0 };
+
+	const matches =
+		text
+			.toLowerCase()
+			.match(new RegExp(`\\b${escapeRegExp(phrase)}\\b`, "g"))?.length ??
+		0;
+	const density = ((matches * countWords(phrase)) / words) * 100;
+	return { keyword, density: Math.round(density * 100) / 100 };
+}
+
+/** The site paths a page's content links to, without locale or query. */
+function getInternalLinks(html: string, domain: string) {
+	const paths = new Set<string>();
+	for (const [, href] of html.matchAll(
+		/<a\b[^>]*\bhref=["']([^"']+)["']/gi
+	)) {
+		let path: string;
+		if (href.startsWith("/") && !href.startsWith("//")) {
+			path = href;
+		} else if (href.startsWith(domain)) {
+			path = href.slice(domain.length) || "/";
+		} else {
+			continue;
+		}
+
+		path = path.split(/[?#]/)[0].replace(/\/+$/, "") || "/";
+		const [first] = path.split("/").filter(Boolean);
+		if (first && locales.some((locale) => locale === first)) {
+			path = path.slice(first.length + 1) || "/";
+		}
+		paths.add(path);
+	}
+	return [...paths];
+}
+
+const checkLength = (
+	label: string,
+	value: string,
+	{ min, max }: { min: number; max: number }
+): AuditIssue[] => {
+	const length = value.trim().length;
+	if (!length) {
+		return [
+			{ severity: "error", message: `Missing ${label.toLowerCase()}.` },
+		];
+	}
+	if (length < min) {
+		return [
+			{
+				severity: "warning",
+				message: `${label} is ${length} characters; aim for at least ${min}.`,
+			},
+		];
+	}
+	if (length > max) {
+		return [
+			{
+				severity: "warning",
+				message: `${label} is ${length} characters and will be cut off after ${max}.`,
+			},
+		];
+	}
+	return [];
+};
+
+/** Scans every post and SEO page. Reads the request's domain. */
+export async function runSeoAudit(): Promise<SeoAuditReport> {
+	const config = await getDynamicSEOConfig();
+	const domain = config.defaultDomain.replace(/\/+$/, "");
+
+	const [posts, seoPages, tags, media, sitemapEntries] = await Promise.all([
+		prisma.post.findMany({
+			select: {
+				id: true,
+				title: true,
+				slug: true,
+				excerpt: true,
+				content: true,
+				coverImage: true,
+				seoTitle: true,
+				seoDescription: true,
+				keywords: true,
+				published: true,
+				unpublishAt: true,
+			},
+		}),
+		prisma.seoPage.findMany({
+			select: {
+				id: true,
+				title: true,
+				slug: true,
+				description: true,
+				content: true,
+				keywords: true,
+				published: true,
+				unpublishAt: true,
+			},
+		}),
+		prisma.tag.findMany({
+			select: {
+				id: true,
+				name: true,
+				slug: true,
+				_count: { select: { posts: true } },
+			},
+			orderBy: { name: "asc" },
+		}),
+		prisma.media.findMany({
+			select: { filename: true, alt: true, variants: true },
+		}),
+		sitemap().catch((error) => {
+			console.error("Error building sitemap for SEO audit:", error);
+			return null;
+		}),
+	]);
+
+	const targets: AuditTarget[] = [
+		...posts.map((post) => ({
+			id: post.id,
+			kind: "post" as const,
+			title: post.title,
+			metaTitle: post.seoTitle || post.title,
+			metaDescription: post.seoDescription || post.excerpt || "",
+			content: post.content,
+			keywords: post.keywords,
+			coverImage: post.coverImage,
+			path: `/blog/${post.slug}`,
+			editUrl: `/admin/posts/${post.id}`,
+			live: isLive(post),
+		})),
+		...seoPages.map((page) => ({
+			id: page.id,
+			kind: "seoPage" as const,
+			title: page.title,
+			metaTitle: page.title,
+			metaDescription: page.description,
+			content: page.content,
+			keywords: page.keywords,
+			path: `/${page.slug}`,
+			editUrl: `/admin/seo/${page.id}`,
+			live: isLive(page),
+		})),
+	];
+
+	// Paths a visitor can actually open
+	const livePaths = new Set(
+		targets.filter((target) => target.live).map((target) => target.path)
+	);
+	const knownPaths = new Set(targets.map((target) => target.path));
+	const sitemapPaths = sitemapEntries
+		? new Set(
+				sitemapEntries.map(
+					(entry) =>
+						new URL(entry.url).pathname.replace(/\/+$/, "") || "/"
+				)
+			)
+		: null;
+	// Covers usually point at a WebP variant, which shares the original's alt
+	const altByFilename = new Map(
+		media.flatMap((item) =>
+			[item, ...getMediaVariants(item)].map(
+				({ filename }) => [filename, item.alt?.trim() ?? ""] as const
+			)
+		)
+	);
+
+	const countBy = (values: string[]) => {
+		const counts = new Map<string, number>();
+		for (const value of values) {
+			const key = value.trim().toLowerCase();
+			if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+		}
+		return counts;
+	};
+	const titleCounts = countBy(targets.map((target) => target.metaTitle));
+	const descriptionCounts = countBy(
+		targets.map((target) => target.metaDescription)
+	);
+
+	const pages = targets.map((target): AuditedPage => {
+		const issues: AuditIssue[] = [
+			...checkLength("Title", target.metaTitle, TITLE_LENGTH),
+			...checkLength(
+				"Description",
+				target.metaDescription,
+				DESCRIPTION_LENGTH
+			),
+		];
+
+		if ((titleCounts.get(target.metaTitle.trim().toLowerCase()) ?? 0) > 1) {
+			issues.push({
+				severity: "error",
+				message: "Title is used by another page.",
+			});
+		}
+		if (
+			(descriptionCounts.get(
+				target.metaDescription.trim().toLowerCase()
+			) ?? 0) > 1
+		) {
+			issues.push({
+				severity: "warning",
+				message: "Description is used by another page.",
+			});
+		}
+
+		if (target.kind === "post") {
+			if (!target.coverImage) {
+				issues.push({
+					severity: "warning",
+					message: "No cover image.",
+				});
+			} else if (target.coverImage.startsWith(MEDIA_URL_PREFIX)) {
+				const filename = target.coverImage.slice(
+					MEDIA_URL_PREFIX.length
+				);
+				if (!altByFilename.get(filename)) {
+					issues.push({
+						severity: "warning",
+						message:
+							"Cover image has no alt text in the media library.",
+					});
+				}
+			}
+		}
+
+		const imagesWithoutAlt = [
+			...target.content.matchAll(/<img\b[^>]*>/gi),
+		].filter(([tag]) => !/\balt=["'][^"']+["']/i.test(tag)).length;
+		if (imagesWithoutAlt > 0) {
+			issues.push({
+				severity: "warning",
+				message: `${imagesWithoutAlt} image${imagesWithoutAlt === 1 ? "" : "s"} in the content without alt text.`,
+			});
+		}
+
+		for (const path of getInternalLinks(target.content, domain)) {
+			const [first, ...rest] = path.split("/").filter(Boolean);
+			if (!first || (APP_ROUTES.has(first) && first !== "blog")) continue;
+			if (first === "blog" && rest.length === 0) continue;
+
+			if (livePaths.has(path)) continue;
+			issues.push({
+				severity: "error",
+				message: knownPaths.has(path)
+					? `Links to ${path}, which is not published.`
+					: `Broken link to ${path}.`,
+			});
+		}
+
+		if (target.live && sitemapPaths && !sitemapPaths.has(target.path)) {
+			issues.push({
+				severity: "warning",
+				message: "Published but missing from the sitemap.",
+			});
+		}
+
+		const text = toText(target.content);
+		const keywords = (target.keywords ?? "")
+			.split(",")
+			.map((keyword) => keyword.trim())
+			.filter(Boolean)
+			.map((keyword) => getKeywordDensity(text, keyword));
+		if (keywords.length === 0) {
+			issues.push({ severity: "warning", message: "No focus keywords." });
+		}
+		for (const { keyword, density } of keywords) {
+			if (density < KEYWORD_DENSITY.min) {
+				issues.push({
+					severity: "warning",
+					message: `"${keyword}" is barely used in the content (${density}%).`,
+				});
+			} else if (density > KEYWORD_DENSITY.max) {
+				issues.push({
+					severity: "warning",
+					message: `"${keyword}" looks stuffed (${density}%).`,
+				});
+			}
+		}
+
+		const penalty = issues.reduce(
+			(total, issue) => total + SEVERITY_PENALTY[issue.severity],
+			0
+		);
+
+		return {
+			id: target.id,
+			kind: target.kind,
+			title: target.title,
+			path: target.path,
+			editUrl: target.editUrl,
+			live: target.live,
+			score: Math.max(0, 100 - penalty),
+			issues,
+			keywords,
+		};
+	});
+
+	return {
+		domain,
+		// Worst first, so the list doubles as a to-do list
+		pages: pages.sort((a, b) => a.score - b.score),
+		orphanedTags: tags
+			.filter((tag) => tag._count.posts === 0)
+			.map(({ id, name, slug }) => ({ id, name, slug })),
+		generatedAt: new Date(),
+	};
+}
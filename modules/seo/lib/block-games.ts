@@ -0,0 +1,65 @@
+import {
+	getGamesByCategory,
+	getGamesByProviderName,
+	getUniqueValuesByKey,
+} from "@/lib/utils/games/games.utils";
+import { Game, GameType } from "@/types/games/gameList.types";
+import { GameCarouselBlock, GameCategory } from "./content-blocks";
+
+// The game list calls sports "SPORTSBOOK" or "SPORT BOOK" depending on the feed
+export const resolveCategoryKey = (
+	games: Game[],
+	category: GameCategory
+): GameType => {
+	if (category !== "SPORTS") return category as GameType;
+	const sportsKey = getUniqueValuesByKey(games, "category").find(
+		(key) => key === "SPORTSBOOK" || key === "SPORT BOOK"
+	);
+	return (sportsKey ?? category) as GameType;
+};
+
+/** Every game a carousel block shows, before the display limit. */
+export function selectBlockGames(
+	games: Game[],
+	block: Pick<
+		GameCarouselBlock,
+		"category" | "provider" | "keyword" | "gameIds"
+	>
+): Game[] {
+	if (block.gameIds.length > 0) {
+		const byId = new Map(games.map((game) => [String(game.game_id), game]));
+		return block.gameIds.flatMap((id) => byId.get(id) ?? []);
+	}
+
+	let selected = games;
+	if (block.category) {
+		selected = getGamesByCategory(
+			selected,
+			resolveCategoryKey(games, block.category)
+		);
+	}
+	if (block.provider.trim()) {
+		selected = getGamesByProviderName(selected, block.provider.trim());
+	}
+	const keyword = block.keyword.trim().toLowerCase();
+	if (keyword) {
+		selected = selected.filter((game) =>
+			game.game_name.toLowerCase().includes(keyword)
+		);
+	}
+	return selected;
+}
+
+/** Number of providers a provider strip's keyword matches. */
+export function countMatchingProviders(games: Game[], keyword: string) {
+	const providerNames = new Set(
+		games
+			.map((game) => game.provider_name)
+			.filter((name) => Boolean(name))
+			.map((name) => String(name))
+	);
+	const kw = keyword.trim().toLowerCase();
+	if (!kw) return providerNames.size;
+	return [...providerNames].filter((name) => name.toLowerCase().includes(kw))
+		.length;
+}
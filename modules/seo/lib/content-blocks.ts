@@ -0,0 +1,288 @@
+/**
+ * The ordered blocks an SEO page is built from. The page's own HTML content
+ * is one of them, so editors decide what goes above and below it.
+ */
+
+export type GameCategory = "SLOT" | "LIVE CASINO" | "SPORTS";
+
+export interface PageContentBlock {
+	id: string;
+	type: "pageContent";
+}
+
+/**
+ * Games matching every filter that is set. Hand-picked game IDs take
+ * precedence over the filters and keep their order.
+ */
+export interface GameCarouselBlock {
+	id: string;
+	type: "gameCarousel";
+	title: string;
+	category: GameCategory | "";
+	provider: string;
+	keyword: string;
+	gameIds: string[];
+}
+
+export interface ProviderStripBlock {
+	id: string;
+	type: "providerStrip";
+	title: string;
+	keyword: string;
+}
+
+export interface FaqItem {
+	question: string;
+	answer: string;
+}
+
+export interface FaqBlock {
+	id: string;
+	type: "faq";
+	title: string;
+	items: FaqItem[];
+}
+
+export interface RichTextBlock {
+	id: string;
+	type: "richText";
+	html: string;
+}
+
+export interface CtaBannerBlock {
+	id: string;
+	type: "ctaBanner";
+	heading: string;
+	text: string;
+	buttonLabel: string;
+	buttonUrl: string;
+	imageUrl: string;
+}
+
+export type ContentBlock =
+	| PageContentBlock
+	| GameCarouselBlock
+	| ProviderStripBlock
+	| FaqBlock
+	| RichTextBlock
+	| CtaBannerBlock;
+
+export type ContentBlockType = ContentBlock["type"];
+
+export const CONTENT_BLOCK_LABELS: Record<ContentBlockType, string> = {
+	pageContent: "Page Content",
+	gameCarousel: "Game Carousel",
+	providerStrip: "Provider Strip",
+	faq: "FAQ",
+	richText: "Rich Text",
+	ctaBanner: "CTA Banner",
+};
+
+export const GAME_CATEGORY_LABELS: Record<GameCategory, string> = {
+	SLOT: "Slots",
+	"LIVE CASINO": "Live Casino",
+	SPORTS: "Sports",
+};
+
+export const createBlockId = () =>
+	`${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function createBlock(type: ContentBlockType): ContentBlock {
+	const id = createBlockId();
+	switch (type) {
+		case "pageContent":
+			return { id, type };
+		case "gameCarousel":
+			return {
+				id,
+				type,
+				title: "",
+				category: "",
+				provider: "",
+				keyword: "",
+				gameIds: [],
+			};
+		case "providerStrip":
+			return { id, type, title: "", keyword: "" };
+		case "faq":
+			return { id, type, title: "", items: [] };
+		case "richText":
+			return { id, type, html: "" };
+		case "ctaBanner":
+			return {
+				id,
+				type,
+				heading: "",
+				text: "",
+				buttonLabel: "",
+				buttonUrl: "",
+				imageUrl: "",
+			};
+	}
+}
+
+// The fixed slots SEO pages had before blocks, still found in the
+// SeoPage.carousels column until scripts/migrate-seo-content-blocks.ts runs
+interface LegacyCarouselConfig {
+	enabled?: boolean;
+	position?: "top" | "bottom";
+	searchKeyword?: string;
+	customTitle?: string;
+}
+
+type LegacyCarousels = Partial<
+	Record<
+		"liveCasino" | "slots" | "sports" | "providers",
+		LegacyCarouselConfig
+	>
+>;
+
+const LEGACY_CATEGORIES: [keyof LegacyCarousels, GameCategory][] = [
+	["liveCasino", "LIVE CASINO"],
+	["slots", "SLOT"],
+	["sports", "SPORTS"],
+];
+
+/** Converts the old fixed carousels, keeping their top/bottom placement. */
+export function fromLegacyCarousels(value: unknown): ContentBlock[] {
+	const legacy = (
+		value && typeof value === "object" ? value : {}
+	) as LegacyCarousels;
+
+	const blocksAt = (position: "top" | "bottom") => {
+		const isPlaced = (config?: LegacyCarouselConfig) =>
+			!!config?.enabled && (config.position ?? "bottom") === position;
+
+		const blocks: ContentBlock[] = LEGACY_CATEGORIES.filter(([key]) =>
+			isPlaced(legacy[key])
+		).map(([key, category]) => ({
+			id: `legacy-${key}`,
+			type: "gameCarousel",
+			title: legacy[key]?.customTitle ?? "",
+			category,
+			provider: "",
+			keyword: legacy[key]?.searchKeyword ?? "",
+			gameIds: [],
+		}));
+		if (isPlaced(legacy.providers)) {
+			blocks.push({
+				id: "legacy-providers",
+				type: "providerStrip",
+				title: legacy.providers?.customTitle ?? "",
+				keyword: legacy.providers?.searchKeyword ?? "",
+			});
+		}
+		return blocks;
+	};
+
+	return [
+		...blocksAt("top"),
+		{ id: "page-content", type: "pageContent" },
+		...blocksAt("bottom"),
+	];
+}
+
+const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+/**
+ * Checks blocks that come from the form or the database, dropping anything
+ * unrecognised. The page content block is added at the end when missing,
+ * so a page never loses its main text.
+ */
+export function parseContentBlocks(value: unknown): ContentBlock[] {
+	if (!Array.isArray(value)) return [];
+
+	const blocks = value.flatMap((raw): ContentBlock[] => {
+		if (!raw || typeof raw !== "object") return [];
+		const block = raw as Record<string, unknown>;
+		const id = text(block.id) || createBlockId();
+
+		switch (block.type) {
+			case "pageContent":
+				return [{ id, type: "pageContent" }];
+			case "gameCarousel": {
+				const category = text(block.category);
+				return [
+					{
+						id,
+						type: "gameCarousel",
+						title: text(block.title),
+						category:
+							category in GAME_CATEGORY_LABELS
+								? (category as GameCategory)
+								: "",
+						provider: text(block.provider),
+						keyword: text(block.keyword),
+						gameIds: Array.isArray(block.gameIds)
+							? block.gameIds.map(String).filter(Boolean)
+							: [],
+					},
+				];
+			}
+			case "providerStrip":
+				return [
+					{
+						id,
+						type: "providerStrip",
+						title: text(block.title),
+						keyword: text(block.keyword),
+					},
+				];
+			case "faq":
+				return [
+					{
+						id,
+						type: "faq",
+						title: text(block.title),
+						items: (Array.isArray(block.items) ? block.items : [])
+							.map((item: Record<string, unknown>) => ({
+								question: text(item?.question),
+								answer: text(item?.answer),
+							}))
+							.filter((item) => item.question.trim()),
+					},
+				];
+			case "richText":
+				return [{ id, type: "richText", html: text(block.html) }];
+			case "ctaBanner":
+				return [
+					{
+						id,
+						type: "ctaBanner",
+						heading: text(block.heading),
+						text: text(block.text),
+						buttonLabel: text(block.buttonLabel),
+						buttonUrl: text(block.buttonUrl),
+						imageUrl: text(block.imageUrl),
+					},
+				];
+			default:
+				return [];
+		}
+	});
+
+	const contentBlocks = blocks.filter(
+		(block) => block.type === "pageContent"
+	);
+	if (contentBlocks.length === 1) return blocks;
+
+	// Exactly one, wherever the first one was
+	const first = blocks.findIndex((block) => block.type === "pageContent");
+	const rest = blocks.filter((block) => block.type !== "pageContent");
+	const pageContent: ContentBlock = {
+		id: contentBlocks[0]?.id ?? "page-content",
+		type: "pageContent",
+	};
+	return first === -1
+		? [...rest, pageContent]
+		: [...rest.slice(0, first), pageContent, ...rest.slice(first)];
+}
+
+/** A page's blocks, converting pages saved before blocks existed. */
+export const getContentBlocks = (page: {
+	blocks?: unknown;
+	carousels?: unknown;
+}) =>
+	Array.isArray(page.blocks)
+		? parseContentBlocks(page.blocks)
+		: fromLegacyCarousels(page.carousels);
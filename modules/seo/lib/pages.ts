@@ -0,0 +1,56 @@
+import prisma from "@/modules/admin/lib/db";
+import { defaultLocale, Locale } from "@/lib/i18n";
+import { isLive } from "@/modules/admin/lib/publishing";
+
+// Public reads for the site and sitemap. They only return live pages, so
+// they live outside the server actions, which anyone can call.
+
+/**
+ * Fetch a live page in the given locale, falling back to the English
+ * original when it hasn't been translated.
+ */
+export async function getSeoPageBySlug(
+	slug: string,
+	locale: Locale = defaultLocale
+) {
+	const page = await prisma.seoPage.findUnique({
+		where: { slug },
+		include: { translations: true },
+	});
+	if (!page || !isLive(page)) return null;
+
+	const { translations, ...original } = page;
+	const availableLocales = [
+		defaultLocale,
+		...translations.map((translation) => translation.locale as Locale),
+	];
+	const translation = translations.find((item) => item.locale === locale);
+	if (!translation) {
+		return { ...original, locale: defaultLocale, availableLocales };
+	}
+
+	return {
+		...original,
+		title: translation.title,
+		description: translation.description,
+		content: translation.content,
+		keywords: translation.keywords || original.keywords,
+		locale,
+		availableLocales,
+	};
+}
+
+/** Live pages, for the sitemap. */
+export async function getLiveSeoPages() {
+	const pages = await prisma.seoPage.findMany({
+		where: { published: true },
+		select: {
+			slug: true,
+			published: true,
+			unpublishAt: true,
+			updatedAt: true,
+		},
+		orderBy: { createdAt: "desc" },
+	});
+	return pages.filter((page) => isLive(page));
+}
@@ -0,0 +1,131 @@
+import {
+	generateArticleSchema,
+	generateBreadcrumbSchema,
+	generateFAQSchema,
+	generateGameSchema,
+	generateHowToSchema,
+	generateProductSchema,
+} from "@/lib/utils/seo/schema-generator";
+import {
+	generateCanonicalURL,
+	getSEOConfig,
+} from "@/lib/utils/seo/seo-config-loader";
+import { SEOConfig } from "@/types/seo/seo.types";
+import { parseJsonLd, StructuredDataItem } from "./structured-data";
+
+// Paths are made absolute; schema.org expects full URLs
+const absolute = (value: string, config: SEOConfig) =>
+	value.startsWith("/") ? `${config.defaultDomain}${value}` : value;
+
+const optional = (value: string, config: SEOConfig) =>
+	value.trim() ? absolute(value.trim(), config) : undefined;
+
+function buildSchemas(
+	item: StructuredDataItem,
+	pageUrl: string,
+	config: SEOConfig
+): Record<string, unknown>[] {
+	switch (item.type) {
+		case "faq":
+			return [generateFAQSchema(item.faqs)];
+		case "howto":
+			return [
+				generateHowToSchema({
+					name: item.name,
+					description: item.description,
+					totalTime: item.totalTime || undefined,
+					steps: item.steps.map((step) => ({
+						name: step.name,
+						text: step.text,
+						image: optional(step.image, config),
+					})),
+				}),
+			];
+		case "breadcrumb":
+			return [generateBreadcrumbSchema(item.breadcrumbs, config)];
+		case "article":
+			return [
+				generateArticleSchema(
+					{
+						title: item.title,
+						description: item.description,
+						url: optional(item.url, config) ?? pageUrl,
+						image: optional(item.image, config),
+						author: item.author || undefined,
+						datePublished: item.datePublished,
+						dateModified: item.dateModified || undefined,
+					},
+					config
+				),
+			];
+		case "product":
+			return [
+				generateProductSchema({
+					name: item.name,
+					description: item.description,
+					url: optional(item.url, config) ?? pageUrl,
+					image: optional(item.image, config),
+					brand: item.brand || undefined,
+					offers: {
+						price: item.price,
+						priceCurrency: item.priceCurrency,
+						availability: item.availability || undefined,
+					},
+				}),
+			];
+		case "game":
+			return [
+				generateGameSchema({
+					name: item.name,
+					description: item.description,
+					url: optional(item.url, config) ?? pageUrl,
+					image: optional(item.image, config),
+					provider: item.provider || undefined,
+					category: item.category || undefined,
+					rating: item.rating ? Number(item.rating) : undefined,
+				}),
+			];
+		case "custom": {
+			const parsed = parseJsonLd(item.json);
+			if ("error" in parsed) return [];
+			return Array.isArray(parsed.value) ? parsed.value : [parsed.value];
+		}
+	}
+}
+
+/**
+ * The JSON-LD stored in SeoPage.structuredData. Several schemas share one
+ * @graph so the page still renders a single script tag. Items are expected
+ * to have passed validateStructuredDataItem.
+ */
+export function buildStructuredData(
+	items: StructuredDataItem[],
+	slug: string
+): string | null {
+	const config = getSEOConfig();
+	const pageUrl = generateCanonicalURL(`/${slug}`, "en", config);
+
+	const schemas = items.flatMap((item) =>
+		buildSchemas(item, pageUrl, config)
+	);
+	if (schemas.length === 0) return null;
+	if (schemas.length === 1) {
+		return JSON.stringify(
+			{ "@context": "https://schema.org", ...schemas[0] },
+			null,
+			2
+		);
+	}
+
+	// Nodes in a graph share the outer @context
+	const graph = schemas.map((schema) => {
+		const node = { ...schema };
+		delete node["@context"];
+		return node;
+	});
+	return JSON.stringify(
+		{ "@context": "https://schema.org", "@graph": graph },
+		null,
+		2
+	);
+}
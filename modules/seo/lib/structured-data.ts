@@ -0,0 +1,399 @@
+/**
+ * Structured data an SEO page is given in the admin builder. Each item maps
+ * to one generator in lib/utils/seo/schema-generator.ts; "custom" keeps
+ * hand-written JSON-LD, which is also what pages saved before the builder
+ * are loaded as.
+ */
+
+export interface FaqSchemaItem {
+	id: string;
+	type: "faq";
+	faqs: { question: string; answer: string }[];
+}
+
+export interface HowToSchemaItem {
+	id: string;
+	type: "howto";
+	name: string;
+	description: string;
+	// ISO 8601 duration, e.g. PT5M
+	totalTime: string;
+	steps: { name: string; text: string; image: string }[];
+}
+
+export interface BreadcrumbSchemaItem {
+	id: string;
+	type: "breadcrumb";
+	// Paths on this site; the generator adds the domain
+	breadcrumbs: { name: string; url: string }[];
+}
+
+export interface ArticleSchemaItem {
+	id: string;
+	type: "article";
+	title: string;
+	description: string;
+	url: string;
+	image: string;
+	author: string;
+	datePublished: string;
+	dateModified: string;
+}
+
+export interface ProductSchemaItem {
+	id: string;
+	type: "product";
+	name: string;
+	description: string;
+	url: string;
+	image: string;
+	brand: string;
+	price: string;
+	priceCurrency: string;
+	availability: string;
+}
+
+export interface GameSchemaItem {
+	id: string;
+	type: "game";
+	name: string;
+	description: string;
+	url: string;
+	image: string;
+	provider: string;
+	category: string;
+	rating: string;
+}
+
+export interface CustomSchemaItem {
+	id: string;
+	type: "custom";
+	json: string;
+}
+
+export type StructuredDataItem =
+	| FaqSchemaItem
+	| HowToSchemaItem
+	| BreadcrumbSchemaItem
+	| ArticleSchemaItem
+	| ProductSchemaItem
+	| GameSchemaItem
+	| CustomSchemaItem;
+
+export type StructuredDataType = StructuredDataItem["type"];
+
+export const STRUCTURED_DATA_LABELS: Record<StructuredDataType, string> = {
+	faq: "FAQ Page",
+	howto: "How-To",
+	breadcrumb: "Breadcrumbs",
+	article: "Article",
+	product: "Product",
+	game: "Game",
+	custom: "Custom JSON-LD",
+};
+
+export const PRODUCT_AVAILABILITY = [
+	"InStock",
+	"OutOfStock",
+	"PreOrder",
+	"LimitedAvailability",
+	"OnlineOnly",
+];
+
+const createItemId = () =>
+	`${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function createStructuredDataItem(
+	type: StructuredDataType
+): StructuredDataItem {
+	const id = createItemId();
+	switch (type) {
+		case "faq":
+			return { id, type, faqs: [{ question: "", answer: "" }] };
+		case "howto":
+			return {
+				id,
+				type,
+				name: "",
+				description: "",
+				totalTime: "",
+				steps: [{ name: "", text: "", image: "" }],
+			};
+		case "breadcrumb":
+			return {
+				id,
+				type,
+				breadcrumbs: [
+					{ name: "Home", url: "/" },
+					{ name: "", url: "" },
+				],
+			};
+		case "article":
+			return {
+				id,
+				type,
+				title: "",
+				description: "",
+				url: "",
+				image: "",
+				author: "",
+				datePublished: "",
+				dateModified: "",
+			};
+		case "product":
+			return {
+				id,
+				type,
+				name: "",
+				description: "",
+				url: "",
+				image: "",
+				brand: "",
+				price: "",
+				priceCurrency: "",
+				availability: "",
+			};
+		case "game":
+			return {
+				id,
+				type,
+				name: "",
+				description: "",
+				url: "",
+				image: "",
+				provider: "",
+				category: "",
+				rating: "",
+			};
+		case "custom":
+			return { id, type, json: "" };
+	}
+}
+
+const isBlank = (value: string) => !value.trim();
+
+const isUrlOrPath = (value: string) =>
+	value.startsWith("/") || /^https?:\/\/\S+$/.test(value);
+
+const isDate = (value: string) =>
+	/^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value));
+
+/** Parses hand-written JSON-LD, or returns why it can't be used. */
+export function parseJsonLd(json: string):
+	| { value: Record<string, unknown> | Record<string, unknown>[] }
+	| {
+			error: string;
+	  } {
+	let value: unknown;
+	try {
+		value = JSON.parse(json);
+	} catch (error) {
+		return {
+			error: `Invalid JSON: ${
+				error instanceof Error ? error.message : "could not parse"
+			}`,
+		};
+	}
+
+	const schemas = Array.isArray(value) ? value : [value];
+	if (
+		schemas.length === 0 ||
+		!schemas.every(
+			(schema) =>
+				schema &&
+				typeof schema === "object" &&
+				!Array.isArray(schema) &&
+				("@type" in schema || "@graph" in schema)
+		)
+	) {
+		return {
+			error: 'JSON-LD must be an object (or list of objects) with an "@type".',
+		};
+	}
+	return {
+		value: value as Record<string, unknown> | Record<string, unknown>[],
+	};
+}
+
+/**
+ * The fields schema.org and Google's rich results need for each type. An
+ * empty list means the item is usable.
+ */
+export function validateStructuredDataItem(item: StructuredDataItem): string[] {
+	const errors: string[] = [];
+
+	switch (item.type) {
+		case "faq":
+			if (item.faqs.length === 0)
+				errors.push("Add at least one question.");
+			item.faqs.forEach((faq, index) => {
+				if (isBlank(faq.question) || isBlank(faq.answer)) {
+					errors.push(
+						`Question ${index + 1} needs both a question and an answer.`
+					);
+				}
+			});
+			break;
+		case "howto":
+			if (isBlank(item.name)) errors.push("Name is required.");
+			if (item.steps.length === 0) errors.push("Add at least one step.");
+			item.steps.forEach((step, index) => {
+				if (isBlank(step.text)) {
+					errors.push(`Step ${index + 1} needs instructions.`);
+				}
+			});
+			if (item.totalTime && !/^P(T?\d+[HMSD])+$/i.test(item.totalTime)) {
+				errors.push(
+					"Total time must be an ISO 8601 duration, e.g. PT10M."
+				);
+			}
+			break;
+		case "breadcrumb":
+			if (item.breadcrumbs.length < 2) {
+				errors.push("Breadcrumbs need at least two entries.");
+			}
+			item.breadcrumbs.forEach((crumb, index) => {
+				if (isBlank(crumb.name) || !crumb.url.startsWith("/")) {
+					errors.push(
+						`Breadcrumb ${index + 1} needs a name and a path starting with "/".`
+					);
+				}
+			});
+			break;
+		case "article":
+			if (isBlank(item.title)) errors.push("Headline is required.");
+			if (!isDate(item.datePublished)) {
+				errors.push("Publish date is required (YYYY-MM-DD).");
+			}
+			if (item.dateModified && !isDate(item.dateModified)) {
+				errors.push("Modified date must be a date (YYYY-MM-DD).");
+			}
+			break;
+		case "product":
+			if (isBlank(item.name)) errors.push("Name is required.");
+			// Google needs offers, a review or a rating; offers is what we have
+			if (isBlank(item.price) || Number.isNaN(Number(item.price))) {
+				errors.push("Price is required and must be a number.");
+			}
+			if (!/^[A-Z]{3,5}$/.test(item.priceCurrency)) {
+				errors.push("Currency is required, e.g. USD or BTC.");
+			}
+			if (
+				item.availability &&
+				!PRODUCT_AVAILABILITY.includes(item.availability)
+			) {
+				errors.push("Availability is not a schema.org value.");
+			}
+			break;
+		case "game":
+			if (isBlank(item.name)) errors.push("Name is required.");
+			if (isBlank(item.description))
+				errors.push("Description is required.");
+			if (item.rating) {
+				const rating = Number(item.rating);
+				if (Number.isNaN(rating) || rating < 1 || rating > 5) {
+					errors.push("Rating must be between 1 and 5.");
+				}
+			}
+			break;
+		case "custom": {
+			if (isBlank(item.json)) {
+				errors.push("Enter the JSON-LD.");
+				break;
+			}
+			const parsed = parseJsonLd(item.json);
+			if ("error" in parsed) errors.push(parsed.error);
+			break;
+		}
+	}
+
+	// Optional URLs must at least look like one
+	if ("url" in item && item.url && !isUrlOrPath(item.url)) {
+		errors.push('URL must be a full URL or a path starting with "/".');
+	}
+	if ("image" in item && item.image && !isUrlOrPath(item.image)) {
+		errors.push('Image must be a full URL or a path starting with "/".');
+	}
+
+	return errors;
+}
+
+const text = (value: unknown) => (typeof value === "string" ? value : "");
+
+const list = <T>(
+	value: unknown,
+	map: (entry: Record<string, unknown>) => T
+): T[] =>
+	Array.isArray(value)
+		? value.filter((entry) => entry && typeof entry === "object").map(map)
+		: [];
+
+/** Checks items that come from the form or the database. */
+export function parseStructuredDataItems(value: unknown): StructuredDataItem[] {
+	return list(value, (raw): StructuredDataItem | null => {
+		const type = raw.type as StructuredDataType;
+		if (!(type in STRUCTURED_DATA_LABELS)) return null;
+
+		const item = createStructuredDataItem(type);
+		item.id = text(raw.id) || item.id;
+		for (const key of Object.keys(item) as (keyof typeof item)[]) {
+			if (key === "id" || key === "type") continue;
+			const current = item[key] as unknown;
+			if (typeof current === "string") {
+				(item as unknown as Record<string, unknown>)[key] = text(
+					raw[key]
+				);
+			}
+		}
+
+		if (item.type === "faq") {
+			item.faqs = list(raw.faqs, (faq) => ({
+				question: text(faq.question),
+				answer: text(faq.answer),
+			}));
+		} else if (item.type === "howto") {
+			item.steps = list(raw.steps, (step) => ({
+				name: text(step.name),
+				text: text(step.text),
+				image: text(step.image),
+			}));
+		} else if (item.type === "breadcrumb") {
+			item.breadcrumbs = list(raw.breadcrumbs, (crumb) => ({
+				name: text(crumb.name),
+				url: text(crumb.url),
+			}));
+		}
+		return item;
+	}).filter((item): item is StructuredDataItem => item !== null);
+}
+
+/**
+ * The builder items for a page. Pages saved before the builder existed only
+ * have their JSON-LD string, which is kept as a custom item.
+ */
+export function getStructuredDataItems(page: {
+	structuredData?: string | null;
+	structuredDataItems?: unknown;
+}): StructuredDataItem[] {
+	if (Array.isArray(page.structuredDataItems)) {
+		return parseStructuredDataItems(page.structuredDataItems);
+	}
+	return page.structuredData?.trim()
+		? [{ id: "legacy", type: "custom", json: page.structuredData }]
+		: [];
+}
+
+/**
+ * The stored JSON-LD as one object for the page's script tag, or null when
+ * it can't be used. A list of schemas becomes an @graph.
+ */
+export function parseStructuredData(
+	value: string | null | undefined
+): Record<string, unknown> | null {
+	if (!value?.trim()) return null;
+	const parsed = parseJsonLd(value);
+	if ("error" in parsed) return null;
+	return Array.isArray(parsed.value)
+		? { "@graph": parsed.value }
+		: parsed.value;
+}
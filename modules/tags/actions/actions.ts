@@ -1,12 +1,12 @@
 "use server";
 
 import prisma from "@/modules/admin/lib/db";
-import { getSession } from "@/modules/auth/lib/auth";
+import { authorize } from "@/modules/auth/lib/auth";
 import { revalidatePath } from "next/cache";
 
 export async function createTag(prevState: any, formData: FormData) {
-  const session = await getSession();
-  if (!session) return { error: "Unauthorized" };
+  const { error } = await authorize("tag.manage");
+  if (error) return { error };
 
   const name = formData.get("name") as string;
   const slug = name.toLowerCase().replace(/\s+/g, "-");
@@ -24,8 +24,8 @@ export async function createTag(prevState: any, formData: FormData) {
 }
 
 export async function deleteTag(id: string) {
-  const session = await getSession();
-  if (!session) return { error: "Unauthorized" };
+  const { error } = await authorize("tag.manage");
+  if (error) return { error };
 
   try {
     await prisma.tag.delete({ where: { id } });
@@ -2,14 +2,13 @@
 
 import { revalidatePath } from "next/cache";
 import prisma from "@/modules/admin/lib/db";
-import { getSession } from "@/modules/auth/lib/auth";
+import { authorize, getSession } from "@/modules/auth/lib/auth";
+import { normalizeRole } from "@/modules/auth/lib/permissions";
 import { hashPassword, verifyPassword } from "@/modules/auth/lib/password";
 
 export async function createUser(prevState: any, formData: FormData) {
-  const session = await getSession();
-  if (!session || session.role !== "SUPER_ADMIN") {
-    return { error: "Unauthorized. Only Super Admins can create users." };
-  }
+  const { error } = await authorize("user.manage");
+  if (error) return { error };
 
   const username = formData.get("username") as string;
   const password = formData.get("password") as string;
@@ -19,6 +18,11 @@ export async function createUser(prevState: any, formData: FormData) {
     return { error: "All fields are required" };
   }
 
+  // Legacy roles are only read, never assigned
+  if (normalizeRole(role) !== role) {
+    return { error: "Invalid role" };
+  }
+
   try {
     const hashedPassword = await hashPassword(password);
     await prisma.user.create({
@@ -36,10 +40,8 @@ export async function createUser(prevState: any, formData: FormData) {
 }
 
 export async function deleteUser(id: string) {
-  const session = await getSession();
-  if (!session || session.role !== "SUPER_ADMIN") {
-    return { error: "Unauthorized" };
-  }
+  const { session, error } = await authorize("user.manage");
+  if (error) return { error };
 
   if (session.id === id) {
     return { error: "Cannot delete yourself" };
@@ -13,6 +13,7 @@ import {
 } from "@/components/ui/select";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { createUser } from "@/modules/users/actions/action";
+import { ADMIN_ROLES, ADMIN_ROLE_LABELS } from "@/modules/auth/lib/permissions";
 import { toast } from "sonner";
 
 export function UserForm() {
@@ -47,17 +48,16 @@ export function UserForm() {
 					</div>
 					<div className="space-y-2">
 						<Label htmlFor="role">Role</Label>
-						<Select name="role" defaultValue="BLOG_ADMIN">
+						<Select name="role" defaultValue="EDITOR">
 							<SelectTrigger>
 								<SelectValue placeholder="Select role" />
 							</SelectTrigger>
 							<SelectContent>
-								<SelectItem value="BLOG_ADMIN">
-									Blog Admin
-								</SelectItem>
-								<SelectItem value="SUPER_ADMIN">
-									Super Admin
-								</SelectItem>
+								{ADMIN_ROLES.map((role) => (
+									<SelectItem key={role} value={role}>
+										{ADMIN_ROLE_LABELS[role]}
+									</SelectItem>
+								))}
 							</SelectContent>
 						</Select>
 					</div>
@@ -25,6 +25,15 @@ import {
 } from "@/components/ui/alert-dialog";
 import { User } from "../types/user.types";
 import { deleteUser } from "../actions/action";
+import {
+	ADMIN_ROLE_LABELS,
+	normalizeRole,
+} from "@/modules/auth/lib/permissions";
+
+const getRoleLabel = (role: string) => {
+	const adminRole = normalizeRole(role);
+	return adminRole ? ADMIN_ROLE_LABELS[adminRole] : role;
+};
 
 export function UserList({
 	users,
@@ -85,7 +94,7 @@ export function UserList({
 											: "secondary"
 									}
 								>
-									{user.role}
+									{getRoleLabel(user.role)}
 								</Badge>
 							</TableCell>
 							<TableCell>
@@ -0,0 +1,81 @@
+/**
+ * Migrate Media Storage
+ *
+ * Copies every uploaded file from one storage backend to another, e.g. from
+ * the local uploads folder to an S3 bucket before switching STORAGE_DRIVER.
+ * Files already present in the target are skipped, so an interrupted run
+ * can simply be started again.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-media-storage.ts --from local --to s3
+ *
+ * Options:
+ *   --delete   Remove each file from the source once it has been copied
+ *   --dry-run  List what would be copied without writing anything
+ *
+ * Both backends are configured from the same environment variables the app
+ * uses (STORAGE_LOCAL_DIR, S3_BUCKET, S3_ENDPOINT, ...).
+ */
+
+import {
+	createStorageBackend,
+	isStorageDriver,
+	STORAGE_DRIVERS,
+} from "@/modules/media/lib/backends";
+
+function readOption(name: string) {
+	const index = process.argv.indexOf(`--${name}`);
+	return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+	const from = readOption("from");
+	const to = readOption("to");
+	const deleteSource = process.argv.includes("--delete");
+	const dryRun = process.argv.includes("--dry-run");
+
+	if (!isStorageDriver(from) || !isStorageDriver(to) || from === to) {
+		console.error(
+			`Usage: --from <${STORAGE_DRIVERS.join("|")}> --to <${STORAGE_DRIVERS.join(
+				"|"
+			)}> [--delete] [--dry-run]`
+		);
+		process.exit(1);
+	}
+
+	const source = createStorageBackend(from);
+	const target = createStorageBackend(to);
+	let copied = 0;
+	let skipped = 0;
+
+	for await (const key of source.list()) {
+		if (await target.stat(key)) {
+			skipped++;
+			console.log(`⏭️  ${key} (already in ${to})`);
+		} else if (dryRun) {
+			copied++;
+			console.log(`📋 ${key}`);
+			continue;
+		} else {
+			const object = await source.get(key);
+			if (!object) continue;
+			const data = Buffer.from(
+				await new Response(object.body).arrayBuffer()
+			);
+			await target.put(key, data, object.contentType);
+			copied++;
+			console.log(`✅ ${key}`);
+		}
+
+		if (deleteSource && !dryRun) await source.delete(key);
+	}
+
+	console.log(
+		`${dryRun ? "Would copy" : "Copied"} ${copied} file(s), skipped ${skipped}.`
+	);
+}
+
+main().catch((error) => {
+	console.error("❌ Migration failed:", error);
+	process.exit(1);
+});
@@ -0,0 +1,53 @@
+/**
+ * Migrate SEO Content Blocks
+ *
+ * Converts the fixed carousel slots SEO pages used to have (SeoPage.carousels)
+ * into ordered content blocks (SeoPage.blocks). Top carousels go before the
+ * page content and bottom ones after it, as they were shown before. Pages
+ * that already have blocks are left alone.
+ *
+ * Usage:
+ *   npx tsx scripts/migrate-seo-content-blocks.ts [--dry-run]
+ */
+
+import { Prisma } from "@prisma/client";
+import prisma from "@/modules/admin/lib/db";
+import { fromLegacyCarousels } from "@/modules/seo/lib/content-blocks";
+
+async function main() {
+	const dryRun = process.argv.includes("--dry-run");
+
+	const pages = await prisma.seoPage.findMany({
+		where: { blocks: { equals: Prisma.DbNull } },
+		select: { id: true, slug: true, carousels: true },
+	});
+
+	for (const page of pages) {
+		const blocks = fromLegacyCarousels(page.carousels);
+		console.log(
+			`${dryRun ? "📋" : "✅"} /${page.slug}: ${blocks
+				.map((block) => block.type)
+				.join(", ")}`
+		);
+		if (dryRun) continue;
+
+		await prisma.seoPage.update({
+			where: { id: page.id },
+			data: {
+				blocks: blocks as unknown as Prisma.InputJsonValue,
+				carousels: Prisma.DbNull,
+			},
+		});
+	}
+
+	console.log(
+		`${dryRun ? "Would migrate" : "Migrated"} ${pages.length} page(s).`
+	);
+}
+
+main()
+	.catch((error) => {
+		console.error("❌ Migration failed:", error);
+		process.exit(1);
+	})
+	.finally(() => prisma.$disconnect());
@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+/**
+ * Mock Bet Feed Server
+ *
+ * A local Socket.IO server that emits "bet_settled" events, so the live bets
+ * table can be exercised without the real backend.
+ *
+ * Usage:
+ *   npm run mock:bet-feed
+ *   NEXT_PUBLIC_BET_FEED_WS_URL=http://localhost:4001 npm run dev
+ *
+ * Options (environment variables):
+ *   MOCK_BET_FEED_PORT      Port to listen on (default 4001)
+ *   MOCK_BET_FEED_INTERVAL  Milliseconds between bets (default 1500)
+ */
+
+import { createServer } from "http";
+import process from "process";
+import { Server } from "socket.io";
+
+const PORT = Number(process.env.MOCK_BET_FEED_PORT ?? 4001);
+const INTERVAL_MS = Number(process.env.MOCK_BET_FEED_INTERVAL ?? 1500);
+
+// A small, fixed player pool so nickname masking can be checked for consistency
+const PLAYERS = [
+	"alice_crypto",
+	"bob",
+	"CharlieSpins",
+	"dana.eth",
+	"EvilEddie",
+	"fortune_frank",
+];
+
+const GAMES = [
+	{ game_name: "Sweet Bonanza", provider_name: "Pragmatic Play" },
+	{ game_name: "Gates of Olympus", provider_name: "Pragmatic Play" },
+	{ game_name: "Lightning Roulette", provider_name: "Evolution" },
+	{ game_name: "Crazy Time", provider_name: "Evolution" },
+	{ game_name: "Book of Dead", provider_name: "Play'n GO" },
+];
+
+const BET_AMOUNTS = [0.5, 1, 2, 5, 10, 25, 50, 100, 250, 500];
+const MULTIPLIERS = [0, 0, 0, 0, 0.5, 1.2, 1.5, 2, 3, 5, 10, 25, 100];
+
+const pick = (list) => list[Math.floor(Math.random() * list.length)];
+
+let sequence = 0;
+
+function createSettledBet() {
+	const bet = pick(BET_AMOUNTS);
+	const multiplier = pick(MULTIPLIERS);
+	sequence += 1;
+
+	return {
+		bet_id: `mock-${Date.now()}-${sequence}`,
+		nickname: pick(PLAYERS),
+		...pick(GAMES),
+		bet_amount: bet.toFixed(2),
+		win_amount: (bet * multiplier).toFixed(2),
+		currency: "USDT",
+		settled_at: Date.now(),
+	};
+}
+
+const httpServer = createServer();
+const io = new Server(httpServer, { cors: { origin: "*" } });
+
+io.on("connection", (socket) => {
+	console.log(
+		`🔌 Client connected (${socket.id}), wsKey=${socket.handshake.query.wsKey}`
+	);
+	socket.on("disconnect", (reason) => {
+		console.log(`👋 Client disconnected (${socket.id}): ${reason}`);
+	});
+});
+
+setInterval(() => {
+	const bet = createSettledBet();
+	io.emit("bet_settled", bet);
+	console.log(
+		`🎲 ${bet.nickname} ${bet.game_name}: bet ${bet.bet_amount} → won ${bet.win_amount}`
+	);
+}, INTERVAL_MS);
+
+httpServer.listen(PORT, () => {
+	console.log(`✅ Mock bet feed listening on http://localhost:${PORT}`);
+});
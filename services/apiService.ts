@@ -24,6 +24,14 @@ import {
 	GetBetHistoryRequestBody,
 	GetBetHistoryResponse,
 } from "@/types/games/betHistory.types";
+import {
+	GetDiceSeedsRequest,
+	GetDiceSeedsResponse,
+	PlaceDiceBetRequest,
+	PlaceDiceBetResponse,
+	RotateDiceSeedRequest,
+	RotateDiceSeedResponse,
+} from "@/types/games/dice.types";
 import {
 	GetTokenListRequest,
 	GetTokenListResponse,
@@ -77,6 +85,18 @@ import {
 	GetMemberUnclaimedBonusRequest,
 	GetMemberUnclaimedBonusResponse,
 } from "@/types/bonus/bonus.types";
+import {
+	CancelPlayerLimitChangeRequest,
+	GetPlayerLimitsRequest,
+	PlayerLimitsResponse,
+	SetPlayerLimitRequest,
+} from "@/types/responsible-gambling/limits.types";
+import {
+	GetSelfExclusionRequest,
+	SelfExclusionResponse,
+	StartSelfExclusionRequest,
+} from "@/types/responsible-gambling/self-exclusion.types";
+import { resolveChainId } from "@/lib/utils/wallet-provider/chain.utils";
 
 // Additional types for transaction status check
 
@@ -90,7 +110,6 @@ class ApiService {
 	private static instance: ApiService;
 	private baseUrl: string;
 	private apiKey: string;
-	private networkId: number;
 	private jwtType: string;
 	private password: string;
 	private chatHistoryApiKey: string;
@@ -99,8 +118,6 @@ class ApiService {
 	private constructor() {
 		this.baseUrl = process.env.NEXT_PUBLIC_API_BASE_URL as string;
 		this.apiKey = process.env.NEXT_PUBLIC_API_KEY as string;
-		this.networkId = process.env
-			.NEXT_PUBLIC_NETWORK_ID as unknown as number;
 		this.jwtType = process.env.NEXT_PUBLIC_JWT_TYPE as string;
 		this.password = process.env.NEXT_PUBLIC_GAME_URL_API_PASSWORD as string;
 		this.chatHistoryApiKey = process.env.NEXT_PUBLIC_API_KEY as string;
@@ -165,10 +182,7 @@ class ApiService {
 	): Promise<ApiResponse<UserInfoApiResponse>> {
 		const data = {
 			api_key: this.apiKey,
-			network:
-				chainId ||
-				localStorage.getItem("app_chainId") ||
-				this.networkId,
+			network: resolveChainId(chainId),
 			jwt_type: this.jwtType,
 		};
 
@@ -255,7 +269,8 @@ class ApiService {
 
 	async getBetHistory(
 		body: GetBetHistoryRequestBody,
-		jwtToken?: string
+		jwtToken?: string,
+		signal?: AbortSignal
 	): Promise<GetBetHistoryResponse> {
 		const data = {
 			...body,
@@ -267,11 +282,56 @@ class ApiService {
 			"/api/getBetHistory/",
 			"POST",
 			data,
-			jwtToken
+			jwtToken,
+			{ signal }
 		);
 		return response as unknown as GetBetHistoryResponse;
 	}
 
+	/** IN-HOUSE DICE (PROVABLY FAIR) API SERVICES */
+	async getDiceSeeds(
+		body: GetDiceSeedsRequest,
+		jwtToken?: string
+	): Promise<GetDiceSeedsResponse> {
+		const data = { ...body, api_key: this.apiKey, jwt_type: this.jwtType };
+		return this.makeRequest<GetDiceSeedsResponse>(
+			"/api/dice/getSeeds",
+			"POST",
+			data,
+			jwtToken
+		) as unknown as GetDiceSeedsResponse;
+	}
+
+	async placeDiceBet(
+		body: PlaceDiceBetRequest,
+		jwtToken?: string
+	): Promise<PlaceDiceBetResponse> {
+		const data = { ...body, api_key: this.apiKey, jwt_type: this.jwtType };
+		return this.makeRequest<PlaceDiceBetResponse>(
+			"/api/dice/placeBet",
+			"POST",
+			data,
+			jwtToken
+		) as unknown as PlaceDiceBetResponse;
+	}
+
+	/**
+	 * Reveals the active server seed and commits to a new one. Passing a
+	 * client seed starts the new pair with it.
+	 */
+	async rotateDiceSeed(
+		body: RotateDiceSeedRequest,
+		jwtToken?: string
+	): Promise<RotateDiceSeedResponse> {
+		const data = { ...body, api_key: this.apiKey, jwt_type: this.jwtType };
+		return this.makeRequest<RotateDiceSeedResponse>(
+			"/api/dice/rotateSeed",
+			"POST",
+			data,
+			jwtToken
+		) as unknown as RotateDiceSeedResponse;
+	}
+
 	// --- SWAP-RELATED API SERVICES ---
 	async getTokenList(
 		body: GetTokenListRequest,
@@ -554,14 +614,86 @@ class ApiService {
 		) as unknown as GetMemberUnclaimedBonusResponse;
 	}
 
+	/** RESPONSIBLE-GAMBLING API SERVICES */
+	async getPlayerLimits(
+		body: GetPlayerLimitsRequest,
+		jwtToken?: string
+	): Promise<PlayerLimitsResponse> {
+		const data = { ...body, api_key: this.apiKey, jwt_type: this.jwtType };
+		return this.makeRequest<PlayerLimitsResponse>(
+			"/api/getPlayerLimits",
+			"POST",
+			data,
+			jwtToken
+		) as unknown as PlayerLimitsResponse;
+	}
+
+	/**
+	 * Sets one limit. The backend decides whether it applies now or after the
+	 * cool-down, so the returned limits are the only source of truth.
+	 */
+	async setPlayerLimit(
+		body: SetPlayerLimitRequest,
+		jwtToken?: string
+	): Promise<PlayerLimitsResponse> {
+		const data = { ...body, api_key: this.apiKey, jwt_type: this.jwtType };
+		return this.makeRequest<PlayerLimitsResponse>(
+			"/api/setPlayerLimit",
+			"POST",
+			data,
+			jwtToken
+		) as unknown as PlayerLimitsResponse;
+	}
+
+	async cancelPlayerLimitChange(
+		body: CancelPlayerLimitChangeRequest,
+		jwtToken?: string
+	): Promise<PlayerLimitsResponse> {
+		const data = { ...body, api_key: this.apiKey, jwt_type: this.jwtType };
+		return this.makeRequest<PlayerLimitsResponse>(
+			"/api/cancelPlayerLimitChange",
+			"POST",
+			data,
+			jwtToken
+		) as unknown as PlayerLimitsResponse;
+	}
+
+	async getSelfExclusion(
+		body: GetSelfExclusionRequest,
+		jwtToken?: string
+	): Promise<SelfExclusionResponse> {
+		const data = { ...body, api_key: this.apiKey, jwt_type: this.jwtType };
+		return this.makeRequest<SelfExclusionResponse>(
+			"/api/getSelfExclusion",
+			"POST",
+			data,
+			jwtToken
+		) as unknown as SelfExclusionResponse;
+	}
+
+	async startSelfExclusion(
+		body: StartSelfExclusionRequest,
+		jwtToken?: string
+	): Promise<SelfExclusionResponse> {
+		const data = { ...body, api_key: this.apiKey, jwt_type: this.jwtType };
+		return this.makeRequest<SelfExclusionResponse>(
+			"/api/startSelfExclusion",
+			"POST",
+			data,
+			jwtToken
+		) as unknown as SelfExclusionResponse;
+	}
+
 	/** CHAT-RELATED API SERVICES */
 	/**
-	 * Get chat history messages.
+	 * Get chat history messages for one room, identified by its wsKey.
 	 */
-	async getChatHistory(): Promise<ChatHistoryApiResponse> {
+	async getChatHistory(
+		wsKey: string = this.wsKey
+	): Promise<ChatHistoryApiResponse> {
 		const data: ChatHistoryRequest = {
 			api_key: this.chatHistoryApiKey,
-			ws_key: this.wsKey,
+			ws_key: wsKey,
 		};
 
 		try {
@@ -1,4 +1,15 @@
 import { BetHistoryItem } from "@/types/games/betHistory.types";
+import {
+	PlaySession,
+	ResponsibleGamblingLimits,
+} from "@/types/responsible-gambling/limits.types";
+import { SelfExclusion } from "@/types/responsible-gambling/self-exclusion.types";
+import {
+	RealityCheckAcknowledgement,
+	RealityCheckSettings,
+} from "@/types/responsible-gambling/reality-check.types";
+import { PendingChatTip } from "@/types/features/chat-tip.types";
+import { SELF_EXCLUSION_STORAGE_KEY } from "@/lib/utils/features/responsible-gambling/self-exclusion.utils";
 
 export interface UserData {
 	id: string;
@@ -79,6 +90,8 @@ class LocalStorageService {
 	// This is the key for your application's specific user data.
 	private USER_DATA_KEY = "digidice_userData";
 	private CHAT_MESSAGES_KEY = "digidice_chatMessages";
+	// Code of the last live-chat room the visitor had open
+	private CHAT_ROOM_KEY = "digidice_chatRoom";
 
 	// This is the key for the JWT provided by the Dynamic SDK.
 	private DYNAMIC_AUTH_TOKEN_KEY = "dynamic_authentication_token";
@@ -86,6 +99,21 @@ class LocalStorageService {
 	// This is the key for saving Bet History Transactions
 	private BET_HISTORY_CACHE_KEY = "bet_history_cache";
 
+	// Responsible gambling limits, per username. Deliberately not matched by
+	// clearUserData() so logging out can never reset a limit or its cool-down.
+	private RG_LIMITS_KEY = "rg_limits";
+	// Current play session, per username so every tab counts towards it
+	private PLAY_SESSION_KEY = "rg_play_session";
+	// Self-exclusion survives logout and locks the device while logged out;
+	// logged in, it only applies to the account that started it
+	private SELF_EXCLUSION_KEY = SELF_EXCLUSION_STORAGE_KEY;
+	// Reality-check settings and acknowledgement log, per username
+	private REALITY_CHECK_KEY = "rg_reality_check";
+	private REALITY_CHECK_LOG_KEY = "rg_reality_check_log";
+	// Chat tips that settled on-chain but were never acknowledged, per username
+	// and keyed by tx hash. Survives logout so a paid tip is never dropped.
+	private PENDING_CHAT_TIPS_KEY = "pending_chat_tips";
+
 	static getInstance(): LocalStorageService {
 		if (!LocalStorageService.instance) {
 			LocalStorageService.instance = new LocalStorageService();
@@ -157,6 +185,16 @@ class LocalStorageService {
 		return data ? JSON.parse(data) : [];
 	}
 
+	saveChatRoom(roomCode: string): void {
+		if (!this.isBrowser()) return;
+		localStorage.setItem(this.CHAT_ROOM_KEY, roomCode);
+	}
+
+	getChatRoom(): string | null {
+		if (!this.isBrowser()) return null;
+		return localStorage.getItem(this.CHAT_ROOM_KEY);
+	}
+
 	addChatMessage(message: ChatMessage): void {
 		if (!this.isBrowser()) return;
 		const messages = this.getChatMessages();
@@ -431,6 +469,192 @@ class LocalStorageService {
 		this.clearBetHistoryCache();
 	}
 
+	// Responsible Gambling Management
+	saveResponsibleGamblingLimits(
+		username: string,
+		limits: ResponsibleGamblingLimits
+	): void {
+		if (!this.isBrowser()) return;
+		try {
+			localStorage.setItem(
+				`${this.RG_LIMITS_KEY}_${username}`,
+				JSON.stringify(limits)
+			);
+		} catch (error) {
+			console.warn("Failed to save responsible gambling limits:", error);
+		}
+	}
+
+	getResponsibleGamblingLimits(
+		username: string
+	): ResponsibleGamblingLimits | null {
+		if (!this.isBrowser()) return null;
+		try {
+			const data = localStorage.getItem(
+				`${this.RG_LIMITS_KEY}_${username}`
+			);
+			return data
+				? (JSON.parse(data) as ResponsibleGamblingLimits)
+				: null;
+		} catch (error) {
+			console.warn("Failed to get responsible gambling limits:", error);
+			return null;
+		}
+	}
+
+	getPlaySession(username: string): PlaySession | null {
+		if (!this.isBrowser()) return null;
+		try {
+			const data = localStorage.getItem(
+				`${this.PLAY_SESSION_KEY}_${username}`
+			);
+			return data ? (JSON.parse(data) as PlaySession) : null;
+		} catch (error) {
+			console.warn("Failed to get play session:", error);
+			return null;
+		}
+	}
+
+	savePlaySession(username: string, session: PlaySession): void {
+		if (!this.isBrowser()) return;
+		try {
+			localStorage.setItem(
+				`${this.PLAY_SESSION_KEY}_${username}`,
+				JSON.stringify(session)
+			);
+		} catch (error) {
+			console.warn("Failed to save play session:", error);
+		}
+	}
+
+	saveSelfExclusion(exclusion: SelfExclusion): void {
+		if (!this.isBrowser()) return;
+		try {
+			localStorage.setItem(
+				this.SELF_EXCLUSION_KEY,
+				JSON.stringify(exclusion)
+			);
+		} catch (error) {
+			console.warn("Failed to save self-exclusion:", error);
+		}
+	}
+
+	getSelfExclusion(): SelfExclusion | null {
+		if (!this.isBrowser()) return null;
+		try {
+			const data = localStorage.getItem(this.SELF_EXCLUSION_KEY);
+			return data ? (JSON.parse(data) as SelfExclusion) : null;
+		} catch (error) {
+			console.warn("Failed to get self-exclusion:", error);
+			return null;
+		}
+	}
+
+	clearSelfExclusion(): void {
+		if (!this.isBrowser()) return;
+		localStorage.removeItem(this.SELF_EXCLUSION_KEY);
+	}
+
+	saveRealityCheckSettings(
+		username: string,
+		settings: RealityCheckSettings
+	): void {
+		if (!this.isBrowser()) return;
+		try {
+			localStorage.setItem(
+				`${this.REALITY_CHECK_KEY}_${username}`,
+				JSON.stringify(settings)
+			);
+		} catch (error) {
+			console.warn("Failed to save reality-check settings:", error);
+		}
+	}
+
+	getRealityCheckSettings(username: string): RealityCheckSettings | null {
+		if (!this.isBrowser()) return null;
+		try {
+			const data = localStorage.getItem(
+				`${this.REALITY_CHECK_KEY}_${username}`
+			);
+			return data ? (JSON.parse(data) as RealityCheckSettings) : null;
+		} catch (error) {
+			console.warn("Failed to get reality-check settings:", error);
+			return null;
+		}
+	}
+
+	saveRealityCheckLog(
+		username: string,
+		log: RealityCheckAcknowledgement[]
+	): void {
+		if (!this.isBrowser()) return;
+		try {
+			localStorage.setItem(
+				`${this.REALITY_CHECK_LOG_KEY}_${username}`,
+				JSON.stringify(log)
+			);
+		} catch (error) {
+			console.warn("Failed to save reality-check log:", error);
+		}
+	}
+
+	getRealityCheckLog(username: string): RealityCheckAcknowledgement[] {
+		if (!this.isBrowser()) return [];
+		try {
+			const data = localStorage.getItem(
+				`${this.REALITY_CHECK_LOG_KEY}_${username}`
+			);
+			return data
+				? (JSON.parse(data) as RealityCheckAcknowledgement[])
+				: [];
+		} catch (error) {
+			console.warn("Failed to get reality-check log:", error);
+			return [];
+		}
+	}
+
+	getPendingChatTips(username: string): Record<string, PendingChatTip> {
+		if (!this.isBrowser()) return {};
+		try {
+			const data = localStorage.getItem(
+				`${this.PENDING_CHAT_TIPS_KEY}_${username}`
+			);
+			return data
+				? (JSON.parse(data) as Record<string, PendingChatTip>)
+				: {};
+		} catch (error) {
+			console.warn("Failed to get pending chat tips:", error);
+			return {};
+		}
+	}
+
+	savePendingChatTip(username: string, tip: PendingChatTip): void {
+		if (!this.isBrowser()) return;
+		try {
+			const pending = this.getPendingChatTips(username);
+			pending[tip.payload.txHash] = tip;
+			localStorage.setItem(
+				`${this.PENDING_CHAT_TIPS_KEY}_${username}`,
+				JSON.stringify(pending)
+			);
+		} catch (error) {
+			console.warn("Failed to save pending chat tip:", error);
+		}
+	}
+
+	removePendingChatTip(username: string, txHash: string): void {
+		if (!this.isBrowser()) return;
+		const pending = this.getPendingChatTips(username);
+		if (!pending[txHash]) return;
+		delete pending[txHash];
+		const key = `${this.PENDING_CHAT_TIPS_KEY}_${username}`;
+		if (Object.keys(pending).length === 0) {
+			localStorage.removeItem(key);
+			return;
+		}
+		localStorage.setItem(key, JSON.stringify(pending));
+	}
+
 	clearUserData(): void {
 		if (!this.isBrowser()) return;
 
@@ -45,6 +45,19 @@ import {
 	PreWithdrawRequest,
 	PreWithdrawResponse,
 	PreWithdrawData,
+	WithdrawFeeRequest,
+	WithdrawFeeResponse,
+	WithdrawFeeData,
+	WithdrawAddressBookRequest,
+	WithdrawAddressBookResponse,
+	WithdrawAddressBookData,
+	AddWithdrawAddressRequest,
+	AddWithdrawAddressResponse,
+	WithdrawAddressEntry,
+	RemoveWithdrawAddressRequest,
+	SetWithdrawWhitelistRequest,
+	SetWithdrawWhitelistResponse,
+	WithdrawWhitelistData,
 	SearchTokenRequest,
 	SearchTokenResponse,
 	WalletAgentApiRequest,
@@ -243,6 +256,7 @@ class TransactionService {
 			walletAddress,
 			receiver,
 			slippage = "Auto",
+			minReceived,
 			username,
 			primaryWallet, // Use the primary wallet for authentication
 		} = params;
@@ -265,6 +279,8 @@ class TransactionService {
 				slippage,
 				username,
 				...(receiver && { receiver }),
+				// The router reverts if the output drops below this amount
+				...(minReceived && { minReceived }),
 			};
 
 			const swapResponse = await this.makeRequest<SwapTransactionData>(
@@ -516,7 +532,8 @@ class TransactionService {
 	async getTokenConversion(
 		params: GetTokenConversionParams
 	): Promise<GetTokenConversionResult> {
-		const { network, fromToken, toToken, amount, username } = params;
+		const { network, fromToken, toToken, amount, username, skipCache } =
+			params;
 
 		if (!amount) {
 			return {
@@ -532,7 +549,9 @@ class TransactionService {
 				fromToken,
 				toToken
 			);
-			const cachedConversion = this.getCachedConversion(cacheKey);
+			const cachedConversion = skipCache
+				? null
+				: this.getCachedConversion(cacheKey);
 
 			if (cachedConversion) {
 				const rate =
@@ -1066,6 +1085,82 @@ class TransactionService {
 		};
 	}
 
+	/**
+	 * Fetch the withdrawal fee schedule for a token on a network
+	 */
+	async getWithdrawFee(
+		params: Omit<WithdrawFeeRequest, "api_key" | "jwt_type">,
+		jwtToken?: string
+	): Promise<WithdrawFeeResponse> {
+		return this.makeRequest<WithdrawFeeData>(
+			"/api/getWithdrawFee",
+			"POST",
+			{ ...params, api_key: this.apiKey, jwt_type: this.jwtType },
+			jwtToken
+		);
+	}
+
+	/**
+	 * Fetch the user's saved withdrawal addresses and whitelist setting
+	 */
+	async getWithdrawAddressBook(
+		params: Omit<WithdrawAddressBookRequest, "api_key" | "jwt_type">,
+		jwtToken?: string
+	): Promise<WithdrawAddressBookResponse> {
+		return this.makeRequest<WithdrawAddressBookData>(
+			"/api/getWithdrawAddress",
+			"POST",
+			{ ...params, api_key: this.apiKey, jwt_type: this.jwtType },
+			jwtToken
+		);
+	}
+
+	/**
+	 * Save a withdrawal address. The backend starts its cooldown from now.
+	 */
+	async addWithdrawAddress(
+		params: Omit<AddWithdrawAddressRequest, "api_key" | "jwt_type">,
+		jwtToken?: string
+	): Promise<AddWithdrawAddressResponse> {
+		return this.makeRequest<WithdrawAddressEntry>(
+			"/api/addWithdrawAddress",
+			"POST",
+			{ ...params, api_key: this.apiKey, jwt_type: this.jwtType },
+			jwtToken
+		);
+	}
+
+	/**
+	 * Remove a saved withdrawal address
+	 */
+	async removeWithdrawAddress(
+		params: Omit<RemoveWithdrawAddressRequest, "api_key" | "jwt_type">,
+		jwtToken?: string
+	): Promise<ApiResponse<null>> {
+		return this.makeRequest<null>(
+			"/api/removeWithdrawAddress",
+			"POST",
+			{ ...params, api_key: this.apiKey, jwt_type: this.jwtType },
+			jwtToken
+		);
+	}
+
+	/**
+	 * Turn whitelist-only withdrawals on, or schedule turning them off. The
+	 * backend only lifts the whitelist once the disable delay has passed.
+	 */
+	async setWithdrawWhitelist(
+		params: Omit<SetWithdrawWhitelistRequest, "api_key" | "jwt_type">,
+		jwtToken?: string
+	): Promise<SetWithdrawWhitelistResponse> {
+		return this.makeRequest<WithdrawWhitelistData>(
+			"/api/setWithdrawWhitelist",
+			"POST",
+			{ ...params, api_key: this.apiKey, jwt_type: this.jwtType },
+			jwtToken
+		);
+	}
+
 	/**
 	 * Search for tokens using the apiSwap/searchToken endpoint
 	 */
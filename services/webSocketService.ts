@@ -9,24 +9,45 @@ import {
 	ReceivedChatMessage,
 } from "@/types/websockets/websockets.types";
 import { Message } from "@/types/features/live-chat.types";
+import { BetSettledPayload } from "@/types/games/liveBets.types";
+import {
+	ChatModerationEvent,
+	ChatModerationPayload,
+	ChatModerationSnapshot,
+} from "@/types/features/chat-moderation.types";
+import { ChatTipAck, ChatTipPayload } from "@/types/features/chat-tip.types";
+
+type BetFeedStatus =
+	"idle" | "connecting" | "connected" | "disconnected" | "error";
+
 /*
  * WebSocketService.ts
- * This service manages WebSocket connections and subscriptions for transaction notifications.
+ * This service manages WebSocket connections and subscriptions for transaction notifications,
+ * live chat and the public settled-bets feed.
  * It uses Socket.IO for real-time communication with the backend.
  */
 class WebSocketService {
 	private static instance: WebSocketService;
 	private socket: Socket | null = null;
-	private chatSocket: Socket | null = null; // Separate socket for live chat
+	private chatSocket: Socket | null = null; // Separate socket for the active chat room
+	// Sockets of rooms visited earlier, kept open so their unread counts keep ticking
+	private backgroundChatSockets = new Map<string, Socket>();
+	private betFeedSocket: Socket | null = null; // Public socket for the live bets feed
 	private reconnectTimeout: NodeJS.Timeout | null = null;
 	private chatReconnectTimeout: NodeJS.Timeout | null = null;
 	private reconnectAttempts = 0;
 	private chatReconnectAttempts = 0;
 	private readonly MAX_RECONNECT_ATTEMPTS = 5;
+	private readonly MAX_BACKGROUND_CHAT_ROOMS = 3;
+	// How long to wait for the server to credit a chat tip or rain
+	private readonly CHAT_TIP_ACK_TIMEOUT_MS = 30000;
+	// Number of mounted consumers of the bet feed (home + lobby tables can share it)
+	private betFeedConsumers = 0;
 
 	// Cache last known identifiers to avoid localStorage usage on reconnect
 	private lastUserId: string | null = null;
 	private lastChatUsername: string | null = null;
+	private chatRoom = "global";
 
 	// Track connection status explicitly (instead of abusing function name checks)
 	private status:
@@ -43,6 +64,7 @@ class WebSocketService {
 		| "reconnecting"
 		| "disconnected"
 		| "error" = "idle";
+	private betFeedStatus: BetFeedStatus = "idle";
 
 	// Callbacks sets for the subscription model
 
@@ -56,6 +78,15 @@ class WebSocketService {
 	private autoStatusCallbacks = new Set<Callback<AutoDepoWdStatusPayload>>();
 	// For live chat messages
 	private chatMessageCallbacks = new Set<Callback<ReceivedChatMessage>>();
+	// For moderation actions and room moderation snapshots
+	private moderationEventCallbacks = new Set<Callback<ChatModerationEvent>>();
+	private moderationStateCallbacks = new Set<
+		Callback<ChatModerationSnapshot>
+	>();
+	// For settled bets on the public feed
+	private betSettledCallbacks = new Set<Callback<BetSettledPayload>>();
+	// For bet feed status changes, one per mounted feed consumer
+	private betFeedStatusCallbacks = new Set<Callback<BetFeedStatus>>();
 
 	// Callback for the service's own status changes
 	public onStatusChange: Callback<string> = () => {};
@@ -101,9 +132,11 @@ class WebSocketService {
 		this.socket.on("message", this.handleMessage);
 	}
 
-	// Live chat connection method
-	connectToChat(username: string): void {
+	// Live chat connection method. Passing a different room switches the
+	// active socket and parks the previous one in the background.
+	connectToChat(username: string, room: string = this.chatRoom): void {
 		// console.log(username);
+		if (room !== this.chatRoom) this.switchChatRoom(room);
 		if (
 			this.chatSocket?.connected ||
 			this.chatStatus === "connecting" ||
@@ -115,9 +148,10 @@ class WebSocketService {
 		this.onChatStatusChange("connecting");
 		// Remember the last used chat username for reconnection attempts
 		this.lastChatUsername = username;
-		const chatWsUrl = `${process.env.NEXT_PUBLIC_CHAT_WS_URL}?wsKey=global`;
+		const chatWsUrl = `${process.env.NEXT_PUBLIC_CHAT_WS_URL}?wsKey=${encodeURIComponent(room)}`;
 
 		// Ensure old chat connection is fully terminated before creating a new one
+		if (this.chatSocket) this.detachChatRoomHandlers(this.chatSocket);
 		this.chatSocket?.disconnect();
 
 		this.chatSocket = io(chatWsUrl, {
@@ -128,12 +162,110 @@ class WebSocketService {
 			reconnectionDelay: 1000,
 			reconnectionDelayMax: 5000,
 			timeout: 10000,
+			forceNew: true,
 		});
 
-		this.chatSocket.on("connect", this.handleChatConnect);
-		this.chatSocket.on("disconnect", this.handleChatDisconnect);
-		this.chatSocket.on("connect_error", this.handleChatConnectError);
-		this.chatSocket.on("receive_message", this.handleChatMessage);
+		this.attachChatStatusHandlers(this.chatSocket);
+		this.attachChatRoomHandlers(this.chatSocket, room);
+	}
+
+	// Room-bound handlers stay attached while a socket sits in the background
+	private attachChatRoomHandlers(socket: Socket, room: string): void {
+		socket.on("receive_message", (data: Message) =>
+			this.handleChatMessage(data, room)
+		);
+		socket.on("moderation_event", (data: ChatModerationEvent | string) =>
+			this.handleModerationEvent(data, room)
+		);
+		socket.on("moderation_state", (data: ChatModerationSnapshot | string) =>
+			this.handleModerationState(data, room)
+		);
+	}
+
+	private detachChatRoomHandlers(socket: Socket): void {
+		socket.off("receive_message");
+		socket.off("moderation_event");
+		socket.off("moderation_state");
+	}
+
+	private attachChatStatusHandlers(socket: Socket): void {
+		socket.on("connect", this.handleChatConnect);
+		socket.on("disconnect", this.handleChatDisconnect);
+		socket.on("connect_error", this.handleChatConnectError);
+	}
+
+	private detachChatStatusHandlers(socket: Socket): void {
+		socket.off("connect", this.handleChatConnect);
+		socket.off("disconnect", this.handleChatDisconnect);
+		socket.off("connect_error", this.handleChatConnectError);
+	}
+
+	// Moves the active chat socket to the background and adopts the socket of
+	// the target room when it is still around.
+	private switchChatRoom(room: string): void {
+		if (this.chatReconnectTimeout) clearTimeout(this.chatReconnectTimeout);
+		this.chatReconnectAttempts = 0;
+
+		if (this.chatSocket) {
+			this.detachChatStatusHandlers(this.chatSocket);
+			this.backgroundChatSockets.set(this.chatRoom, this.chatSocket);
+			// Oldest rooms are dropped first (Map keeps insertion order)
+			if (
+				this.backgroundChatSockets.size > this.MAX_BACKGROUND_CHAT_ROOMS
+			) {
+				const [oldestRoom, oldestSocket] = this.backgroundChatSockets
+					.entries()
+					.next().value as [string, Socket];
+				this.detachChatRoomHandlers(oldestSocket);
+				oldestSocket.disconnect();
+				this.backgroundChatSockets.delete(oldestRoom);
+			}
+		}
+
+		this.chatRoom = room;
+		this.chatSocket = this.backgroundChatSockets.get(room) ?? null;
+		this.backgroundChatSockets.delete(room);
+		this.chatStatus = "disconnected";
+
+		if (!this.chatSocket) return;
+		this.attachChatStatusHandlers(this.chatSocket);
+		if (this.chatSocket.connected) {
+			this.chatStatus = "connected";
+			this.onChatStatusChange("connected");
+		} else {
+			this.chatStatus = "connecting";
+			this.onChatStatusChange("connecting");
+			this.chatSocket.connect();
+		}
+	}
+
+	// Live bets feed connection method. The feed is public, so no userId is sent.
+	// Every call must be balanced by a call to disconnectFromBetFeed().
+	connectToBetFeed(): void {
+		this.betFeedConsumers++;
+		if (this.betFeedSocket) return;
+
+		this.setBetFeedStatus("connecting");
+		const feedWsUrl = `${
+			process.env.NEXT_PUBLIC_BET_FEED_WS_URL ||
+			process.env.NEXT_PUBLIC_WS_URL
+		}?wsKey=global`;
+
+		// Socket.IO's own reconnection is enough here: the feed has no
+		// identity to restore, so there is no manual reconnect loop.
+		this.betFeedSocket = io(feedWsUrl, {
+			transports: ["websocket"],
+			autoConnect: true,
+			reconnection: true,
+			reconnectionDelay: 1000,
+			reconnectionDelayMax: 5000,
+			timeout: 10000,
+		});
+
+		this.betFeedSocket.on("connect", this.handleBetFeedConnect);
+		this.betFeedSocket.on("disconnect", this.handleBetFeedDisconnect);
+		this.betFeedSocket.on("connect_error", this.handleBetFeedConnectError);
+		this.betFeedSocket.on("bet_settled", this.handleBetSettled);
 	}
 
 	disconnect(): void {
@@ -153,18 +285,35 @@ class WebSocketService {
 	// Disconnect from live chat
 	disconnectFromChat(): void {
 		if (this.chatReconnectTimeout) clearTimeout(this.chatReconnectTimeout);
-		this.chatSocket?.off("connect", this.handleChatConnect);
-		this.chatSocket?.off("disconnect", this.handleChatDisconnect);
-		this.chatSocket?.off("connect_error", this.handleChatConnectError);
-		this.chatSocket?.off("receive_message", this.handleChatMessage);
+		if (this.chatSocket) this.detachChatStatusHandlers(this.chatSocket);
+		if (this.chatSocket) this.detachChatRoomHandlers(this.chatSocket);
 		this.chatSocket?.disconnect();
 		this.chatSocket = null;
+		this.backgroundChatSockets.forEach((socket) => {
+			this.detachChatRoomHandlers(socket);
+			socket.disconnect();
+		});
+		this.backgroundChatSockets.clear();
 		this.chatReconnectAttempts = 0;
 		this.chatStatus = "disconnected";
 		this.onChatStatusChange("disconnected");
 		// console.log("Chat WebSocket: Manually disconnected.");
 	}
 
+	// Disconnect from the live bets feed once its last consumer is gone
+	disconnectFromBetFeed(): void {
+		this.betFeedConsumers = Math.max(0, this.betFeedConsumers - 1);
+		if (this.betFeedConsumers > 0 || !this.betFeedSocket) return;
+
+		this.betFeedSocket.off("connect", this.handleBetFeedConnect);
+		this.betFeedSocket.off("disconnect", this.handleBetFeedDisconnect);
+		this.betFeedSocket.off("connect_error", this.handleBetFeedConnectError);
+		this.betFeedSocket.off("bet_settled", this.handleBetSettled);
+		this.betFeedSocket.disconnect();
+		this.betFeedSocket = null;
+		this.setBetFeedStatus("disconnected");
+	}
+
 	// ---- Event Handlers ----
 	private handleConnect = () => {
 		// console.log("WebSocket: Connected successfully.");
@@ -204,15 +353,16 @@ class WebSocketService {
 			const message = typeof data === "string" ? JSON.parse(data) : data;
 			if (!message || !message.type) return;
 
+			// Subscribers get the payload, not the { type, data } envelope
 			switch (message.type) {
 				case "DEPOSITNOTIFICATION":
-					this.depositCallbacks.forEach((cb) => cb(message));
+					this.depositCallbacks.forEach((cb) => cb(message.data));
 					break;
 				case "WITHDRAWNOTIFICATION":
-					this.withdrawCallbacks.forEach((cb) => cb(message));
+					this.withdrawCallbacks.forEach((cb) => cb(message.data));
 					break;
 				case "AUTODEPOWDSTATUSNOTIFICATION":
-					this.autoStatusCallbacks.forEach((cb) => cb(message));
+					this.autoStatusCallbacks.forEach((cb) => cb(message.data));
 					break;
 			}
 		} catch (error) {
@@ -254,7 +404,7 @@ class WebSocketService {
 		this.handleChatDisconnect("connect_error"); // Trigger reconnect logic
 	};
 
-	private handleChatMessage = (data: Message) => {
+	private handleChatMessage = (data: Message, room: string) => {
 		try {
 			const message = typeof data === "string" ? JSON.parse(data) : data;
 			if (!message) return;
@@ -267,6 +417,7 @@ class WebSocketService {
 				timestamp: message.timestamp || Date.now(),
 				messageId:
 					message.messageId || `msg_${Date.now()}_${Math.random()}`,
+				room,
 			};
 
 			this.chatMessageCallbacks.forEach((cb) => cb(chatMessage));
@@ -275,6 +426,71 @@ class WebSocketService {
 		}
 	};
 
+	private handleModerationEvent = (
+		data: ChatModerationEvent | string,
+		room: string
+	) => {
+		try {
+			const event: ChatModerationEvent =
+				typeof data === "string" ? JSON.parse(data) : data;
+			if (!event || !event.action) return;
+
+			this.moderationEventCallbacks.forEach((cb) =>
+				cb({ ...event, room, timestamp: event.timestamp || Date.now() })
+			);
+		} catch (error) {
+			console.error("Error parsing moderation event:", error);
+		}
+	};
+
+	private handleModerationState = (
+		data: ChatModerationSnapshot | string,
+		room: string
+	) => {
+		try {
+			const snapshot: ChatModerationSnapshot =
+				typeof data === "string" ? JSON.parse(data) : data;
+			if (!snapshot) return;
+
+			this.moderationStateCallbacks.forEach((cb) =>
+				cb({ ...snapshot, room })
+			);
+		} catch (error) {
+			console.error("Error parsing moderation state:", error);
+		}
+	};
+
+	// ---- Bet Feed Event Handlers ----
+	private setBetFeedStatus(status: BetFeedStatus) {
+		this.betFeedStatus = status;
+		this.betFeedStatusCallbacks.forEach((cb) => cb(status));
+	}
+
+	private handleBetFeedConnect = () => {
+		this.setBetFeedStatus("connected");
+	};
+
+	private handleBetFeedDisconnect = () => {
+		this.setBetFeedStatus("disconnected");
+	};
+
+	private handleBetFeedConnectError = (error: Error) => {
+		console.error("Bet feed WebSocket Connection Error:", error);
+		this.setBetFeedStatus("error");
+	};
+
+	private handleBetSettled = (data: BetSettledPayload | string) => {
+		try {
+			const bet: BetSettledPayload =
+				typeof data === "string" ? JSON.parse(data) : data;
+			if (!bet || !bet.bet_id) return;
+
+			this.betSettledCallbacks.forEach((cb) => cb(bet));
+		} catch (error) {
+			console.error("Error parsing settled bet:", error);
+		}
+	};
+
 	// --- Subscription Methods ---
 	subscribeToDeposits = (callback: Callback<TransactionNotificationData>) =>
 		this.subscribe(this.depositCallbacks, callback);
@@ -284,6 +500,14 @@ class WebSocketService {
 		this.subscribe(this.autoStatusCallbacks, callback);
 	subscribeToChatMessages = (callback: Callback<ReceivedChatMessage>) =>
 		this.subscribe(this.chatMessageCallbacks, callback);
+	subscribeToModerationEvents = (callback: Callback<ChatModerationEvent>) =>
+		this.subscribe(this.moderationEventCallbacks, callback);
+	subscribeToModerationState = (callback: Callback<ChatModerationSnapshot>) =>
+		this.subscribe(this.moderationStateCallbacks, callback);
+	subscribeToBetSettled = (callback: Callback<BetSettledPayload>) =>
+		this.subscribe(this.betSettledCallbacks, callback);
+	subscribeToBetFeedStatus = (callback: Callback<BetFeedStatus>) =>
+		this.subscribe(this.betFeedStatusCallbacks, callback);
 
 	private subscribe<T>(
 		callbackSet: Set<Callback<T>>,
@@ -316,6 +540,58 @@ class WebSocketService {
 		}
 	}
 
+	// Moderation actions go to the active room; the server checks the
+	// moderator's rights and broadcasts a moderation_event when applied
+	sendModerationAction(payload: ChatModerationPayload): boolean {
+		if (!this.chatSocket?.connected || this.chatStatus !== "connected") {
+			return false;
+		}
+
+		try {
+			this.chatSocket.emit("moderation_action", payload);
+			return true;
+		} catch (error) {
+			console.error("Error sending moderation action:", error);
+			return false;
+		}
+	}
+
+	// Reports a confirmed transfer to the tip wallet so the server can credit
+	// the recipients. Resolves with the server's acknowledgement, or a failed
+	// one when the chat is offline or the server doesn't answer in time.
+	sendChatTip(payload: ChatTipPayload): Promise<ChatTipAck> {
+		const socket = this.chatSocket;
+		if (!socket?.connected || this.chatStatus !== "connected") {
+			return Promise.resolve({
+				success: false,
+				error: "Chat is not connected",
+				retryable: true,
+			});
+		}
+
+		return new Promise((resolve) => {
+			socket
+				.timeout(this.CHAT_TIP_ACK_TIMEOUT_MS)
+				.emit(
+					"chat_tip",
+					payload,
+					(err: Error | null, ack?: ChatTipAck) => {
+						if (err || !ack) {
+							resolve({
+								success: false,
+								error:
+									err?.message ||
+									"No response from chat server",
+								retryable: true,
+							});
+							return;
+						}
+						resolve(ack);
+					}
+				);
+		});
+	}
+
 	// Get connection status
 	isConnected(): boolean {
 		return this.socket?.connected || false;
@@ -334,6 +610,10 @@ class WebSocketService {
 		return this.chatStatus;
 	}
 
+	getBetFeedStatus(): typeof this.betFeedStatus {
+		return this.betFeedStatus;
+	}
+
 	// Helper: can UI allow sending messages?
 	canSendChatMessage(): boolean {
 		return this.chatStatus === "connected" && !!this.chatSocket?.connected;
@@ -2,11 +2,13 @@ import { AppStore } from "@/store/store";
 import { Token } from "@/types/blockchain/swap.types";
 import { TransactionStatus } from "@/types/blockchain/transactions.types";
 import { createSelector } from "reselect";
+import { getChain } from "@/lib/utils/wallet-provider/chain.utils";
 
 // --- BASE SELECTORS for the Blockchain domain ---
 const selectTransactions = (state: AppStore) =>
 	state.blockchain.transaction.transactions;
 const selectAllTokens = (state: AppStore) => state.blockchain.token.tokens;
+const selectChainId = (state: AppStore) => state.blockchain.network.chainId;
 
 // --- TRANSACTION SELECTORS ---
 
@@ -57,3 +59,13 @@ export const selectUsdxToken = createSelector(
 	(tokens: Token[]) =>
 		tokens.find((t) => t.symbol.toUpperCase() === "USDX") || null
 );
+
+// --- NETWORK SELECTORS ---
+
+/**
+ * Selects the registry entry for the wallet's current network, or null when
+ * the wallet is on a chain the platform does not support.
+ */
+export const selectActiveChain = createSelector([selectChainId], (chainId) =>
+	getChain(chainId)
+);
@@ -59,15 +59,24 @@ export const createNetworkSlice: AppStateCreator<
 	setNetworkData: (data) => {
 		// This action now handles BOTH setting state and persisting to safeLocalStorage.
 		try {
-			if (!(data.network && data.chainId && data.chainLogo)) {
+			// Registry chains may have no logo, so only the network and
+			// chainId are required. Incomplete data still clears the state.
+			if (!(data.network && data.chainId)) {
 				safeLocalStorage.removeItem(NETWORK_KEY);
 				safeLocalStorage.removeItem(CHAIN_ID_KEY);
 				safeLocalStorage.removeItem(CHAIN_LOGO_KEY);
-				return;
+			} else {
+				safeLocalStorage.setItem(
+					NETWORK_KEY,
+					JSON.stringify(data.network)
+				);
+				safeLocalStorage.setItem(CHAIN_ID_KEY, String(data.chainId));
+				if (data.chainLogo) {
+					safeLocalStorage.setItem(CHAIN_LOGO_KEY, data.chainLogo);
+				} else {
+					safeLocalStorage.removeItem(CHAIN_LOGO_KEY);
+				}
 			}
-			safeLocalStorage.setItem(NETWORK_KEY, JSON.stringify(data.network));
-			safeLocalStorage.setItem(CHAIN_ID_KEY, String(data.chainId));
-			safeLocalStorage.setItem(CHAIN_LOGO_KEY, data.chainLogo);
 		} catch (error) {
 			console.error(
 				"Failed to persist network data to localStorage:",
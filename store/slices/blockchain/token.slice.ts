@@ -9,6 +9,9 @@ type TokenFetchStatus = "idle" | "loading" | "success" | "error";
 
 export interface TokenSliceState {
   tokens: Token[];
+  // The network `tokens` was fetched for, so a chain switch is never served
+  // the previous chain's balances.
+  tokensChainId: number | null;
   // We will use selectors for specific tokens, keeping the state minimal.
   tokenFetchStatus: TokenFetchStatus;
 }
@@ -41,6 +44,7 @@ export interface TokenSliceActions {
 
 const initialState: TokenSliceState = {
   tokens: [],
+  tokensChainId: null,
   tokenFetchStatus: "idle",
 };
 
@@ -68,7 +72,7 @@ export const createTokenSlice: AppStateCreator<
     const { chainId } = get().blockchain.network;
     if (!deps) return;
     const { user, authToken } = deps;
-    const { tokenFetchStatus, tokens } = get().blockchain.token;
+    const { tokenFetchStatus, tokens, tokensChainId } = get().blockchain.token;
 
     // console.log("==============================================");
 
@@ -81,7 +85,10 @@ export const createTokenSlice: AppStateCreator<
     // Prevent re-fetching if already loading or if data is present and not forced
     if (
       tokenFetchStatus === "loading" ||
-      (tokenFetchStatus === "success" && tokens.length > 0 && !force)
+      (tokenFetchStatus === "success" &&
+        tokens.length > 0 &&
+        tokensChainId === chainId &&
+        !force)
     ) {
       return;
     }
@@ -106,6 +113,15 @@ export const createTokenSlice: AppStateCreator<
 
         const response = await api.getTokenList(requestBody, authToken);
 
+        // The wallet switched chains mid-request; start over for the new one.
+        if (get().blockchain.network.chainId !== chainId) {
+          set((state) => {
+            state.blockchain.token.tokenFetchStatus = "idle";
+          });
+          await get().blockchain.token.fetchTokens(true, deps);
+          return;
+        }
+
         if (response.error) {
           throw new Error(response.message);
         }
@@ -128,6 +144,7 @@ export const createTokenSlice: AppStateCreator<
 
         set((state) => {
           state.blockchain.token.tokens = augmentedData;
+          state.blockchain.token.tokensChainId = chainId;
           state.blockchain.token.tokenFetchStatus = "success";
         });
       } catch (error) {
@@ -1,203 +1,98 @@
-// v1
-// import { AppStateCreator } from "@/store/store";
-import { safeLocalStorage } from "@/lib/utils/safe-storage";
-// import {
-// 	AppTransaction,
-// 	TransactionStatus,
-// 	TransactionNotificationData,
-// } from "@/types/blockchain/transactions.types";
-
-// // --- CONSTANTS AND TYPES ---
-// const STORAGE_KEY = "app_transaction_notifications";
-// const TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
-// const AUTO_REMOVE_DELAY_MS = 10 * 60 * 1000; // 10 minutes
-
-// export interface TransactionSliceState {
-// 	transactions: AppTransaction[];
-// }
-// export interface TransactionSliceActions {
-// 	addTransaction: (
-// 		txData: Omit<AppTransaction, "id" | "timestamp" | "status">
-// 	) => void;
-// 	processWebSocketUpdate: (wsData: TransactionNotificationData) => void;
-// 	_monitorPendingTransactions: () => void; // Internal action for the synchronizer
-// 	_updateAndPersist: (newTransactions: AppTransaction[]) => void; // Internal helper for state and persistence
-// 	_monitorTransaction: (txId: number) => void; // Internal helper for failsafe monitoring
-// 	_updateTransaction: (
-// 		txId: number,
-// 		updates: Partial<AppTransaction>
-// 	) => void; // Internal helper to update a transaction
-// }
-
-// // --- PERSISTENCE LOGIC ---
-// const getInitialState = (): TransactionSliceState => {
-// 	if (typeof window === "undefined") return { transactions: [] };
-// 	try {
-// 		const stored = safeLocalStorage.getItem(STORAGE_KEY);
-// 		if (!stored) return { transactions: [] };
-
-// 		const parsed = JSON.parse(stored) as AppTransaction[];
-// 		// Only hydrate transactions that are still pending or failed recently
-// 		const validTransactions = parsed.filter((tx) => {
-// 			const isRecent = Date.now() - tx.timestamp < 24 * 60 * 60 * 1000; // 24 hours
-// 			return (
-// 				tx.status === TransactionStatus.PENDING ||
-// 				(tx.status === TransactionStatus.FAILED && isRecent)
-// 			);
-// 		});
-// 		return { transactions: validTransactions };
-// 	} catch (error) {
-// 		console.error("Error hydrating transaction state:", error);
-// 		return { transactions: [] };
-// 	}
-// };
-
-// // --- SLICE CREATOR ---
-// export const createTransactionSlice: AppStateCreator<
-// 	TransactionSliceState & TransactionSliceActions
-// > = (set, get) => ({
-// 	...getInitialState(),
-
-// 	// This is a private helper to manage state and persistence together
-// 	_updateAndPersist: (newTransactions: AppTransaction[]) => {
-// 		set((state) => {
-// 			state.blockchain.transaction.transactions = newTransactions;
-// 		});
-// 		try {
-// 			safeLocalStorage.setItem(STORAGE_KEY, JSON.stringify(newTransactions));
-// 		} catch (error) {
-// 			console.error("Error saving transaction state:", error);
-// 		}
-// 	},
-
-// 	// This internal action handles the failsafe timeout
-// 	_monitorTransaction: (txId: number) => {
-// 		const timeoutId = setTimeout(() => {
-// 			const tx = get().blockchain.transaction.transactions.find(
-// 				(t) => t.id === txId
-// 			);
-// 			// If the transaction is still pending after the timeout, mark it as failed.
-// 			if (tx && tx.status === TransactionStatus.PENDING) {
-// 				console.warn(
-// 					`Transaction (ID: ${txId}) timed out. Marking as failed.`
-// 				);
-// 				get().blockchain.transaction._updateTransaction(txId, {
-// 					status: TransactionStatus.FAILED,
-// 					error: "Transaction timeout",
-// 				});
-// 			}
-// 		}, TRANSACTION_TIMEOUT_MS);
-
-// 		// Store the timeoutId so we can clear it later
-// 		get().blockchain.transaction._updateTransaction(txId, { timeoutId });
-// 	},
-
-// 	// This internal helper updates a transaction by its client-side ID
-// 	_updateTransaction: (txId: number, updates: Partial<AppTransaction>) => {
-// 		const currentTransactions = get().blockchain.transaction.transactions;
-// 		const newTransactions = currentTransactions.map((tx) =>
-// 			tx.id === txId ? { ...tx, ...updates } : tx
-// 		);
-// 		get().blockchain.transaction._updateAndPersist(newTransactions);
-// 	},
-
-// 	addTransaction: (txData) => {
-// 		const newTransaction: AppTransaction = {
-// 			...txData,
-// 			id: Date.now(),
-// 			timestamp: Date.now(),
-// 			status: TransactionStatus.PENDING,
-// 		};
-
-// 		const currentTransactions = get().blockchain.transaction.transactions;
-// 		const newTransactions = [newTransaction, ...currentTransactions].slice(
-// 			0,
-// 			20
-// 		);
-// 		get().blockchain.transaction._updateAndPersist(newTransactions);
-
-// 		// After adding, immediately start the failsafe monitor for this transaction
-// 		get().blockchain.transaction._monitorTransaction(newTransaction.id);
-// 	},
-
-// 	processWebSocketUpdate: (wsData) => {
-// 		const { txId, status } = wsData;
-// 		const newStatus =
-// 			status === "CONFIRMED"
-// 				? TransactionStatus.CONFIRMED
-// 				: TransactionStatus.FAILED;
-
-// 		const txToUpdate = get().blockchain.transaction.transactions.find(
-// 			(tx) =>
-// 				(tx.hash === txId || tx.serverTxId === txId) &&
-// 				tx.status === TransactionStatus.PENDING
-// 		);
-
-// 		if (txToUpdate) {
-// 			// Clear the failsafe timeout because we received an update!
-// 			if (txToUpdate.timeoutId) {
-// 				clearTimeout(txToUpdate.timeoutId);
-// 			}
-
-// 			const updates: Partial<AppTransaction> = {
-// 				status: newStatus,
-// 				serverTxId: txId,
-// 				timeoutId: null,
-// 			};
-// 			get().blockchain.transaction._updateTransaction(
-// 				txToUpdate.id,
-// 				updates
-// 			);
-
-// 			// Schedule the transaction to be removed from the UI to keep it clean
-// 			setTimeout(() => {
-// 				const currentTxs = get().blockchain.transaction.transactions;
-// 				const finalTxs = currentTxs.filter(
-// 					(t) => t.id !== txToUpdate.id
-// 				);
-// 				get().blockchain.transaction._updateAndPersist(finalTxs);
-// 			}, AUTO_REMOVE_DELAY_MS);
-// 		}
-// 	},
-
-// 	// This action is called by the synchronizer on mount to resume monitoring
-// 	_monitorPendingTransactions: () => {
-// 		const pendingTxs = get().blockchain.transaction.transactions.filter(
-// 			(tx) => tx.status === TransactionStatus.PENDING
-// 		);
-// 		pendingTxs.forEach((tx) =>
-// 			get().blockchain.transaction._monitorTransaction(tx.id)
-// 		);
-// 	},
-// });
-
-// v2
 import { AppStateCreator } from "@/store/store";
+import { safeLocalStorage } from "@/lib/utils/safe-storage";
+import TransactionService from "@/services/walletProvider/TransactionService";
 import {
 	AppTransaction,
+	AutoDepoWdStatusPayload,
 	TransactionStatus,
-	TransactionType, // Make sure TransactionType is imported
+	TransactionType,
 	TransactionNotificationData,
 } from "@/types/blockchain/transactions.types";
 
+// The WebSocket channel a notification arrived on
+type TransactionNotificationChannel =
+	TransactionType.DEPOSIT | TransactionType.WITHDRAW;
+
 // --- CONSTANTS ---
 const STORAGE_KEY = "app_transaction_notifications";
-const TRANSACTION_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_TRANSACTIONS = 50;
+// Finished transactions stay in the activity tray for a day
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+// A transaction nobody has reported on by then is given up on
+const TRANSACTION_TIMEOUT_MS = 30 * 60 * 1000;
+const STATUS_POLL_INTERVAL_MS = 15 * 1000;
+// A notification without a known hash is matched on amount within this window
+const NOTIFICATION_MATCH_WINDOW_MS = 10 * 60 * 1000;
 const SWAP_SUBMITTED_DELAY_MS = 1000;
 const SWAP_AUTO_REMOVE_DELAY_MS = 8000;
-const FINALIZED_AUTO_REMOVE_DELAY_MS = 10 * 60 * 1000;
+// Set by the withdraw hook while an operator has to approve the withdrawal;
+// those only resolve through a WebSocket notification
+const MANUAL_APPROVAL_HASH = "manual_approval_pending";
+
+// The transaction_type checkTransactionStatus expects for each type
+const STATUS_CHECK_TYPES: Partial<Record<TransactionType, string>> = {
+	[TransactionType.DEPOSIT]: "DEPO",
+	[TransactionType.SWAP_DEPOSIT]: "DEPO",
+	[TransactionType.WITHDRAW]: "WD",
+};
+
+// The transaction types each notification channel can settle
+const NOTIFICATION_TYPES: Record<
+	TransactionNotificationChannel,
+	TransactionType[]
+> = {
+	[TransactionType.DEPOSIT]: [
+		TransactionType.DEPOSIT,
+		TransactionType.SWAP_DEPOSIT,
+	],
+	[TransactionType.WITHDRAW]: [TransactionType.WITHDRAW],
+};
+
+// Timers can't live in the persisted state, so they are kept by client id
+const failsafeTimers = new Map<number, ReturnType<typeof setTimeout>>();
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+let cleanupTimer: ReturnType<typeof setInterval> | null = null;
+let isPolling = false;
+
+const isPending = (tx: AppTransaction) =>
+	tx.status === TransactionStatus.PENDING;
+
+// Whether the backend can be asked about it by hash
+const canCheckStatus = (tx: AppTransaction) =>
+	!!STATUS_CHECK_TYPES[tx.type] &&
+	!!tx.hash &&
+	tx.hash !== MANUAL_APPROVAL_HASH;
+
+const isRetained = (tx: AppTransaction) =>
+	isPending(tx) || Date.now() - (tx.updatedAt ?? tx.timestamp) < RETENTION_MS;
 
 // --- STATE AND ACTION TYPES ---
 export interface TransactionSliceState {
 	transactions: AppTransaction[];
 	pendingCount: number;
+	// Latest automatic deposit/withdrawal status pushed by the server
+	autoStatus: AutoDepoWdStatusPayload | null;
 }
 export interface TransactionSliceActions {
 	addTransaction: (
 		txData: Omit<AppTransaction, "id" | "timestamp" | "status">
 	) => void;
-	processWebSocketUpdate: (wsData: TransactionNotificationData) => void;
+	processWebSocketUpdate: (
+		wsData: TransactionNotificationData,
+		channel: TransactionNotificationChannel
+	) => void;
+	setAutoStatus: (payload: AutoDepoWdStatusPayload) => void;
 	initializeTransactions: () => void;
+	// Re-checks the user's pending transactions with the backend every few
+	// seconds, which also picks up anything started before a reload
+	startStatusPolling: (username: string, jwtToken?: string) => void;
+	stopStatusPolling: () => void;
+	pollPendingTransactions: (
+		username: string,
+		jwtToken?: string
+	) => Promise<void>;
+	dismissTransaction: (txId: number) => void;
+	clearFinishedTransactions: () => void;
 	_removeTransaction: (txId: number) => void;
 	_monitorTransaction: (txId: number) => void; // Internal helper for failsafe monitoring
 	_updateTransaction: (
@@ -209,24 +104,22 @@ export interface TransactionSliceActions {
 
 // --- PERSISTENCE LOGIC ---
 const getInitialState = (): TransactionSliceState => {
-	if (typeof window === "undefined")
-		return { transactions: [], pendingCount: 0 };
+	const empty = { transactions: [], pendingCount: 0, autoStatus: null };
+	if (typeof window === "undefined") return empty;
 	try {
 		const stored = safeLocalStorage.getItem(STORAGE_KEY);
-		if (!stored) return { transactions: [], pendingCount: 0 };
+		if (!stored) return empty;
 
 		const parsed = JSON.parse(stored) as AppTransaction[];
-		const validTransactions = parsed.filter((tx) => {
-			const isRecent = Date.now() - tx.timestamp < 24 * 60 * 60 * 1000;
-			return tx.status === TransactionStatus.PENDING || isRecent;
-		});
-		const pendingCount = validTransactions.filter(
-			(tx) => tx.status === TransactionStatus.PENDING
-		).length;
-		return { transactions: validTransactions, pendingCount };
+		const validTransactions = parsed.filter(isRetained);
+		return {
+			transactions: validTransactions,
+			pendingCount: validTransactions.filter(isPending).length,
+			autoStatus: null,
+		};
 	} catch (error) {
 		console.error("Error hydrating transaction state:", error);
-		return { transactions: [], pendingCount: 0 };
+		return empty;
 	}
 };
 
@@ -237,15 +130,26 @@ export const createTransactionSlice: AppStateCreator<
 	...getInitialState(),
 
 	_updateAndPersist: (newTransactions: AppTransaction[]) => {
-		const pendingCount = newTransactions.filter(
-			(tx) => tx.status === TransactionStatus.PENDING
-		).length;
+		// Rows that went away (or the whole list on logout) need no failsafe
+		failsafeTimers.forEach((timer, txId) => {
+			if (
+				!newTransactions.some((tx) => tx.id === txId && isPending(tx))
+			) {
+				clearTimeout(timer);
+				failsafeTimers.delete(txId);
+			}
+		});
+
 		set((state) => {
 			state.blockchain.transaction.transactions = newTransactions;
-			state.blockchain.transaction.pendingCount = pendingCount;
+			state.blockchain.transaction.pendingCount =
+				newTransactions.filter(isPending).length;
 		});
 		try {
-			safeLocalStorage.setItem(STORAGE_KEY, JSON.stringify(newTransactions));
+			safeLocalStorage.setItem(
+				STORAGE_KEY,
+				JSON.stringify(newTransactions)
+			);
 		} catch (error) {
 			console.error("Error saving transaction state:", error);
 		}
@@ -254,7 +158,16 @@ export const createTransactionSlice: AppStateCreator<
 	_updateTransaction: (txId: number, updates: Partial<AppTransaction>) => {
 		const currentTxs = get().blockchain.transaction.transactions;
 		const newTxs = currentTxs.map((tx) =>
-			tx.id === txId ? { ...tx, ...updates } : tx
+			tx.id === txId
+				? {
+						...tx,
+						...updates,
+						updatedAt:
+							updates.status && updates.status !== tx.status
+								? Date.now()
+								: tx.updatedAt,
+					}
+				: tx
 		);
 		get().blockchain.transaction._updateAndPersist(newTxs);
 	},
@@ -265,19 +178,38 @@ export const createTransactionSlice: AppStateCreator<
 		get().blockchain.transaction._updateAndPersist(newTxs);
 	},
 
+	// Fails transactions the backend can't be asked about once they time
+	// out; the rest are settled by polling or a notification
 	_monitorTransaction: (txId: number) => {
-		const timeoutId = setTimeout(() => {
-			const tx = get().blockchain.transaction.transactions.find(
-				(t) => t.id === txId
-			);
-			if (tx?.status === TransactionStatus.PENDING) {
-				get().blockchain.transaction._updateTransaction(txId, {
-					status: TransactionStatus.FAILED,
-					error: "Transaction timeout",
-				});
-			}
-		}, TRANSACTION_TIMEOUT_MS);
-		get().blockchain.transaction._updateTransaction(txId, { timeoutId });
+		const tx = get().blockchain.transaction.transactions.find(
+			(t) => t.id === txId
+		);
+		if (
+			!tx ||
+			!isPending(tx) ||
+			canCheckStatus(tx) ||
+			tx.hash === MANUAL_APPROVAL_HASH ||
+			failsafeTimers.has(txId)
+		)
+			return;
+
+		const remaining = tx.timestamp + TRANSACTION_TIMEOUT_MS - Date.now();
+		const timer = setTimeout(
+			() => {
+				failsafeTimers.delete(txId);
+				const current = get().blockchain.transaction.transactions.find(
+					(t) => t.id === txId
+				);
+				if (current && isPending(current)) {
+					get().blockchain.transaction._updateTransaction(txId, {
+						status: TransactionStatus.FAILED,
+						error: "Transaction timeout",
+					});
+				}
+			},
+			Math.max(remaining, 0)
+		);
+		failsafeTimers.set(txId, timer);
 	},
 
 	addTransaction: (txData) => {
@@ -285,15 +217,16 @@ export const createTransactionSlice: AppStateCreator<
 			...txData,
 			id: Date.now(),
 			timestamp: Date.now(),
+			updatedAt: Date.now(),
 			status: TransactionStatus.PENDING,
 		};
 		const newTransactions = [
 			newTransaction,
 			...get().blockchain.transaction.transactions,
-		].slice(0, 50);
+		].slice(0, MAX_TRANSACTIONS);
 		get().blockchain.transaction._updateAndPersist(newTransactions);
 
-		// --- SPECIAL SWAP HANDLING (RESTORED) ---
+		// Wallet swaps are settled by their own receipt polling
 		if (newTransaction.type === TransactionType.SWAP) {
 			setTimeout(() => {
 				get().blockchain.transaction._updateTransaction(
@@ -309,83 +242,159 @@ export const createTransactionSlice: AppStateCreator<
 				);
 			}, SWAP_SUBMITTED_DELAY_MS);
 		} else {
-			// Start failsafe monitor for non-swap transactions
 			get().blockchain.transaction._monitorTransaction(newTransaction.id);
 		}
 	},
 
-	processWebSocketUpdate: (wsData) => {
+	processWebSocketUpdate: (wsData, channel) => {
 		const { txId, amount, currency, status } = wsData;
-		const newStatus =
-			status === "CONFIRMED"
-				? TransactionStatus.CONFIRMED
-				: TransactionStatus.FAILED;
-		let txToUpdate: AppTransaction | undefined;
-
 		const currentTxs = get().blockchain.transaction.transactions;
 
-		// --- RESILIENT MATCHING LOGIC (RESTORED) ---
-		txToUpdate = currentTxs.find(
+		// By hash first; a notification for a manual withdrawal or a swap
+		// deposit can carry the backend's id instead, so fall back to the
+		// newest pending row of the same kind with the same amount and token
+		const txToUpdate =
+			currentTxs.find(
+				(tx) =>
+					isPending(tx) &&
+					(tx.hash === txId || tx.serverTxId === txId)
+			) ??
+			currentTxs.find(
+				(tx) =>
+					isPending(tx) &&
+					NOTIFICATION_TYPES[channel].includes(tx.type) &&
+					!!currency &&
+					Number(tx.amount) === Number(amount) &&
+					tx.tokenSymbol.toUpperCase() === currency.toUpperCase() &&
+					Date.now() - tx.timestamp < NOTIFICATION_MATCH_WINDOW_MS
+			);
+		if (!txToUpdate) return;
+
+		get().blockchain.transaction._updateTransaction(txToUpdate.id, {
+			status:
+				status === "CONFIRMED"
+					? TransactionStatus.CONFIRMED
+					: TransactionStatus.FAILED,
+			serverTxId: txId,
+			error:
+				status === "REJECTED"
+					? "Transaction rejected by network"
+					: null,
+		});
+	},
+
+	setAutoStatus: (payload) => {
+		set((state) => {
+			state.blockchain.transaction.autoStatus = payload;
+		});
+	},
+
+	pollPendingTransactions: async (username, jwtToken) => {
+		if (isPolling) return;
+		const pending = get().blockchain.transaction.transactions.filter(
 			(tx) =>
-				tx.status === TransactionStatus.PENDING &&
-				(tx.hash === txId ||
-					tx.serverTxId === txId ||
-					(Number(tx.amount) === amount &&
-						tx.tokenSymbol.toUpperCase() ===
-							currency.toUpperCase() &&
-						Date.now() - tx.timestamp < 10 * 60 * 1000)) // 10 minute window
+				isPending(tx) &&
+				canCheckStatus(tx) &&
+				(!tx.username || tx.username === username)
 		);
+		if (pending.length === 0) return;
 
-		if (txToUpdate) {
-			if (txToUpdate.timeoutId) clearTimeout(txToUpdate.timeoutId);
-
-			const updates: Partial<AppTransaction> = {
-				status: newStatus,
-				serverTxId: txId,
-				timeoutId: null,
-			};
-			if (status === "REJECTED")
-				updates.error = "Transaction rejected by network";
+		isPolling = true;
+		const transactionService = TransactionService.getInstance();
+		try {
+			for (const tx of pending) {
+				const response =
+					await transactionService.checkTransactionStatus(
+						{
+							transaction_type: STATUS_CHECK_TYPES[tx.type]!,
+							hash: tx.hash!,
+							username,
+						},
+						jwtToken
+					);
+
+				// The row may have been settled by a notification meanwhile
+				const current = get().blockchain.transaction.transactions.find(
+					(t) => t.id === tx.id
+				);
+				if (!current || !isPending(current)) continue;
+
+				// error means the backend hasn't seen the transaction yet
+				if (!response.error) {
+					if (response.transaction_status === "CONFIRMED") {
+						get().blockchain.transaction._updateTransaction(tx.id, {
+							status: TransactionStatus.CONFIRMED,
+						});
+						continue;
+					}
+					if (
+						response.transaction_status === "REJECTED" ||
+						response.transaction_status === "FAILED"
+					) {
+						get().blockchain.transaction._updateTransaction(tx.id, {
+							status: TransactionStatus.FAILED,
+							error: "Transaction rejected by network",
+						});
+						continue;
+					}
+				}
+
+				if (Date.now() - tx.timestamp > TRANSACTION_TIMEOUT_MS) {
+					get().blockchain.transaction._updateTransaction(tx.id, {
+						status: TransactionStatus.FAILED,
+						error: "Transaction timeout",
+					});
+				}
+			}
+		} finally {
+			isPolling = false;
+		}
+	},
 
-			get().blockchain.transaction._updateTransaction(
-				txToUpdate.id,
-				updates
+	startStatusPolling: (username, jwtToken) => {
+		get().blockchain.transaction.stopStatusPolling();
+		const poll = () =>
+			get().blockchain.transaction.pollPendingTransactions(
+				username,
+				jwtToken
 			);
+		poll();
+		pollTimer = setInterval(poll, STATUS_POLL_INTERVAL_MS);
+	},
 
-			setTimeout(
-				() =>
-					get().blockchain.transaction._removeTransaction(
-						txToUpdate!.id
-					),
-				FINALIZED_AUTO_REMOVE_DELAY_MS
-			);
-		}
+	stopStatusPolling: () => {
+		if (pollTimer) clearInterval(pollTimer);
+		pollTimer = null;
+	},
+
+	dismissTransaction: (txId) => {
+		get().blockchain.transaction._removeTransaction(txId);
+	},
+
+	clearFinishedTransactions: () => {
+		get().blockchain.transaction._updateAndPersist(
+			get().blockchain.transaction.transactions.filter(isPending)
+		);
 	},
 
 	initializeTransactions: () => {
-		const state = get().blockchain.transaction;
-		// --- RESUME MONITORING ON HYDRATION (RESTORED) ---
-		state.transactions
-			.filter(
-				(tx) =>
-					tx.status === TransactionStatus.PENDING &&
-					tx.type !== TransactionType.SWAP
-			)
+		// Resume the failsafe for transactions restored from storage
+		get()
+			.blockchain.transaction.transactions.filter(isPending)
 			.forEach((tx) =>
 				get().blockchain.transaction._monitorTransaction(tx.id)
 			);
 
-		// --- PERIODIC CLEANUP LOGIC (RESTORED) ---
-		setInterval(() => {
-			const currentTxs = get().blockchain.transaction.transactions;
-			const validTxs = currentTxs.filter((tx) => {
-				const isRecent =
-					Date.now() - tx.timestamp < 24 * 60 * 60 * 1000;
-				return tx.status === TransactionStatus.PENDING || isRecent;
-			});
-			if (validTxs.length !== currentTxs.length) {
-				get().blockchain.transaction._updateAndPersist(validTxs);
-			}
-		}, 60 * 60 * 1000); // Every hour
+		if (cleanupTimer) return;
+		cleanupTimer = setInterval(
+			() => {
+				const currentTxs = get().blockchain.transaction.transactions;
+				const validTxs = currentTxs.filter(isRetained);
+				if (validTxs.length !== currentTxs.length) {
+					get().blockchain.transaction._updateAndPersist(validTxs);
+				}
+			},
+			60 * 60 * 1000
+		); // Every hour
 	},
 });
@@ -0,0 +1,166 @@
+import { AppStateCreator } from "@/store/store";
+import ApiService from "@/services/apiService";
+import LocalStorageService from "@/services/localStorageService";
+import {
+	DiceDirection,
+	DiceRevealedSeed,
+	DiceRound,
+	DiceSeedPair,
+} from "@/types/games/dice.types";
+
+type loadingStatus = "idle" | "loading" | "success" | "error";
+
+// Rounds kept in memory for the "my bets" list under the game
+const MAX_RECENT_ROUNDS = 20;
+
+export interface DiceSliceState {
+	active: DiceSeedPair | null;
+	revealed: DiceRevealedSeed[];
+	rounds: DiceRound[];
+	seedsStatus: loadingStatus;
+	isRolling: boolean;
+	isRotating: boolean;
+	error: string | null;
+}
+
+export interface DiceSliceActions {
+	fetchDiceSeeds: () => Promise<void>;
+	placeDiceBet: (
+		betAmount: number,
+		target: number,
+		direction: DiceDirection
+	) => Promise<DiceRound | null>;
+	rotateDiceSeed: (clientSeed?: string) => Promise<boolean>;
+}
+
+const initialState: DiceSliceState = {
+	active: null,
+	revealed: [],
+	rounds: [],
+	seedsStatus: "idle",
+	isRolling: false,
+	isRotating: false,
+	error: null,
+};
+
+const getCredentials = () => {
+	const localStorageService = LocalStorageService.getInstance();
+	const username = localStorageService.getUserData()?.username;
+	const authToken = localStorageService.getAuthToken();
+	return username && authToken ? { username, authToken } : null;
+};
+
+export const createDiceSlice: AppStateCreator<
+	DiceSliceState & DiceSliceActions
+> = (set, get) => ({
+	...initialState,
+
+	fetchDiceSeeds: async () => {
+		const credentials = getCredentials();
+		if (!credentials || get().game.dice.seedsStatus === "loading") return;
+
+		set((state) => {
+			state.game.dice.seedsStatus = "loading";
+			state.game.dice.error = null;
+		});
+
+		try {
+			const response = await ApiService.getInstance().getDiceSeeds(
+				{ username: credentials.username },
+				credentials.authToken
+			);
+			if (response.error) throw new Error(response.message);
+
+			set((state) => {
+				state.game.dice.active = response.data.active;
+				state.game.dice.revealed = response.data.revealed;
+				state.game.dice.seedsStatus = "success";
+			});
+		} catch (error: unknown) {
+			console.error("Failed to fetch dice seeds:", error);
+			set((state) => {
+				state.game.dice.seedsStatus = "error";
+				state.game.dice.error =
+					error instanceof Error ? error.message : String(error);
+			});
+		}
+	},
+
+	placeDiceBet: async (betAmount, target, direction) => {
+		const credentials = getCredentials();
+		if (!credentials || get().game.dice.isRolling) return null;
+
+		set((state) => {
+			state.game.dice.isRolling = true;
+			state.game.dice.error = null;
+		});
+
+		try {
+			const response = await ApiService.getInstance().placeDiceBet(
+				{
+					username: credentials.username,
+					bet_amount: betAmount,
+					target,
+					direction,
+				},
+				credentials.authToken
+			);
+			if (response.error) throw new Error(response.message);
+
+			const { round } = response.data;
+			set((state) => {
+				const slice = state.game.dice;
+				slice.rounds = [round, ...slice.rounds].slice(
+					0,
+					MAX_RECENT_ROUNDS
+				);
+				// The round used the current nonce; the next one follows it
+				if (slice.active) slice.active.nonce = round.nonce + 1;
+				slice.isRolling = false;
+			});
+			return round;
+		} catch (error: unknown) {
+			console.error("Dice bet failed:", error);
+			set((state) => {
+				state.game.dice.isRolling = false;
+				state.game.dice.error =
+					error instanceof Error ? error.message : String(error);
+			});
+			return null;
+		}
+	},
+
+	rotateDiceSeed: async (clientSeed) => {
+		const credentials = getCredentials();
+		if (!credentials || get().game.dice.isRotating) return false;
+
+		set((state) => {
+			state.game.dice.isRotating = true;
+			state.game.dice.error = null;
+		});
+
+		try {
+			const response = await ApiService.getInstance().rotateDiceSeed(
+				{ username: credentials.username, client_seed: clientSeed },
+				credentials.authToken
+			);
+			if (response.error) throw new Error(response.message);
+
+			set((state) => {
+				const slice = state.game.dice;
+				slice.active = response.data.active;
+				slice.revealed = [response.data.revealed, ...slice.revealed];
+				slice.isRotating = false;
+			});
+			return true;
+		} catch (error: unknown) {
+			console.error("Dice seed rotation failed:", error);
+			set((state) => {
+				state.game.dice.isRotating = false;
+				state.game.dice.error =
+					error instanceof Error ? error.message : String(error);
+			});
+			return false;
+		}
+	},
+});
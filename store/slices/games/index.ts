@@ -14,12 +14,18 @@ import {
 	CategoryListInitialState,
 	createCategoryListSlice,
 } from "./categoryList.slice";
+import {
+	createDiceSlice,
+	DiceSliceActions,
+	DiceSliceState,
+} from "./dice.slice";
 import { AppStore } from "../../store";
 
 export interface GameSlice {
 	list: GameListActions & GameListInitialState;
 	providers: ProviderListActions & ProviderListInitialState;
 	categories: CategoryListActions & CategoryListInitialState;
+	dice: DiceSliceActions & DiceSliceState;
 	// will add more features in this once created
 }
 
@@ -29,4 +35,5 @@ export const createGameSlice: StateCreator<AppStore, [], [], GameSlice> = (
 	list: createGameListSlice(...args),
 	providers: createProviderListSlice(...args),
 	categories: createCategoryListSlice(...args),
+	dice: createDiceSlice(...args),
 });
@@ -57,6 +57,27 @@ const createFilterCacheKey = (
 	return `${filters.fromDate}_${filters.toDate}_${filters.vendorName}_${filters.status}_p${page}_l${pageSize}`;
 };
 
+/**
+ * Maps the UI filters onto the getBetHistory request body. Shared with the
+ * export walker so both always query the exact same result set.
+ */
+export const buildBetHistoryRequestBody = (
+	username: string,
+	filters: BetHistoryFilters,
+	page: number,
+	pageSize: number
+): GetBetHistoryRequestBody => ({
+	username,
+	from_date: filters.fromDate,
+	to_date: `${filters.toDate} 23:59:59`,
+	vendor_name: filters.vendorName || "", // Ensure empty string if not set
+	limit: pageSize,
+	page_number: page,
+	order: "",
+	// Send empty string for all statuses instead of "OUTSTANDING"
+	status: filters.status === "ALL" ? "" : filters.status,
+});
+
 // --- INITIAL STATE ---
 const initialState: BetHistorySliceState = {
 	allBets: [],
@@ -179,19 +200,12 @@ export const createBetHistorySlice: AppStateCreator<
 
 		try {
 			const api = ApiService.getInstance();
-			const requestBody: GetBetHistoryRequestBody = {
-				username: user.username,
-				from_date: currentState.filters.fromDate,
-				to_date: `${currentState.filters.toDate} 23:59:59`,
-				vendor_name: currentState.filters.vendorName || "", // Ensure empty string if not set
-				limit: currentState.pageSize,
-				page_number: currentState.page,
-				order: "",
-				status:
-					currentState.filters.status === "ALL"
-						? "" // Send empty string for all statuses instead of "OUTSTANDING"
-						: currentState.filters.status,
-			};
+			const requestBody = buildBetHistoryRequestBody(
+				user.username,
+				currentState.filters,
+				currentState.page,
+				currentState.pageSize
+			);
 
 			console.log("Sending API request with body:", requestBody);
 			const response = await api.getBetHistory(requestBody, authToken);
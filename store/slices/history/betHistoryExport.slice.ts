@@ -0,0 +1,128 @@
+import { AppStateCreator } from "@/store/store";
+import { toast } from "sonner";
+import LocalStorageService from "@/services/localStorageService";
+import {
+	BetHistoryExportFormat,
+	BetHistoryExportLabels,
+	BetHistoryExportProgress,
+	createBetHistoryExportSink,
+	downloadBlob,
+	getExportFileName,
+	walkBetHistoryPages,
+} from "@/lib/utils/features/bet-history/bet-history-export.utils";
+
+// --- TYPES ---
+export type BetHistoryExportStatus =
+	"idle" | "running" | "success" | "error" | "cancelled";
+
+export interface BetHistoryExportSliceState {
+	status: BetHistoryExportStatus;
+	format: BetHistoryExportFormat | null;
+	progress: BetHistoryExportProgress;
+	error: string | null;
+}
+
+export interface BetHistoryExportSliceActions {
+	exportHistory: (
+		format: BetHistoryExportFormat,
+		labels: BetHistoryExportLabels
+	) => Promise<void>;
+	cancelExport: () => void;
+}
+
+// --- INITIAL STATE ---
+const initialProgress: BetHistoryExportProgress = {
+	pages: 0,
+	totalPages: 0,
+	records: 0,
+	totalRecords: 0,
+};
+
+const initialState: BetHistoryExportSliceState = {
+	status: "idle",
+	format: null,
+	progress: initialProgress,
+	error: null,
+};
+
+// Kept outside of the store: an AbortController is not serialisable state.
+let activeController: AbortController | null = null;
+
+export const createBetHistoryExportSlice: AppStateCreator<
+	BetHistoryExportSliceState & BetHistoryExportSliceActions
+> = (set, get) => ({
+	...initialState,
+
+	exportHistory: async (format, labels) => {
+		if (get().history.betHistoryExport.status === "running") return;
+
+		const localStorageService = LocalStorageService.getInstance();
+		const user = localStorageService.getUserData();
+		const authToken = localStorageService.getAuthToken();
+		if (!user?.username || !authToken) return;
+
+		// Snapshot the filters so changing them mid-export can't mix result sets
+		const filters = { ...get().history.betHistory.filters };
+		const controller = new AbortController();
+		activeController = controller;
+
+		set((state) => {
+			state.history.betHistoryExport.status = "running";
+			state.history.betHistoryExport.format = format;
+			state.history.betHistoryExport.progress = initialProgress;
+			state.history.betHistoryExport.error = null;
+		});
+
+		try {
+			const sink = await createBetHistoryExportSink(format, {
+				username: user.username,
+				filters,
+				labels,
+			});
+
+			const totals = await walkBetHistoryPages({
+				username: user.username,
+				filters,
+				authToken,
+				signal: controller.signal,
+				onPage: (items, progress) => {
+					sink.addRows(items);
+					set((state) => {
+						state.history.betHistoryExport.progress = progress;
+					});
+				},
+			});
+
+			controller.signal.throwIfAborted();
+			const blob = await sink.finish(totals);
+			downloadBlob(blob, getExportFileName(filters, format));
+			if (totals.truncated) toast.warning(labels.truncated);
+
+			set((state) => {
+				state.history.betHistoryExport.status = "success";
+			});
+		} catch (error: unknown) {
+			if (controller.signal.aborted) {
+				set((state) => {
+					state.history.betHistoryExport.status = "cancelled";
+				});
+				return;
+			}
+
+			console.error("Failed to export bet history:", error);
+			const message =
+				error instanceof Error ? error.message : "Unknown error";
+			toast.error(`Failed to export bet history: ${message}`);
+			set((state) => {
+				state.history.betHistoryExport.status = "error";
+				state.history.betHistoryExport.error = message;
+			});
+		} finally {
+			if (activeController === controller) activeController = null;
+		}
+	},
+
+	cancelExport: () => {
+		activeController?.abort();
+	},
+});
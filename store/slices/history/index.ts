@@ -4,13 +4,27 @@ import {
 	BetHistorySliceState,
 	BetHistorySliceActions,
 } from "./betHistory.slice";
+import {
+	createBetHistoryExportSlice,
+	BetHistoryExportSliceState,
+	BetHistoryExportSliceActions,
+} from "./betHistoryExport.slice";
+import {
+	createLiveBetsSlice,
+	LiveBetsSliceState,
+	LiveBetsSliceActions,
+} from "./liveBets.slice";
 
 export type HistorySlice = {
 	betHistory: BetHistorySliceState & BetHistorySliceActions;
+	betHistoryExport: BetHistoryExportSliceState & BetHistoryExportSliceActions;
+	liveBets: LiveBetsSliceState & LiveBetsSliceActions;
 };
 
 export const createHistoryBranch: AppStateCreator<HistorySlice> = (
 	...args
 ) => ({
 	betHistory: createBetHistorySlice(...args),
+	betHistoryExport: createBetHistoryExportSlice(...args),
+	liveBets: createLiveBetsSlice(...args),
 });
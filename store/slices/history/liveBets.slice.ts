@@ -0,0 +1,59 @@
+import { AppStateCreator } from "@/store/store";
+import { BetSettledPayload, LiveBet } from "@/types/games/liveBets.types";
+import {
+	LIVE_BETS_BUFFER_SIZE,
+	toLiveBet,
+} from "@/lib/utils/features/live-bets/live-bets.utils";
+
+// --- TYPES ---
+export type LiveBetsFeedStatus =
+	"idle" | "connecting" | "connected" | "disconnected" | "error";
+
+export interface LiveBetsSliceState {
+	bets: LiveBet[]; // Newest first, capped at LIVE_BETS_BUFFER_SIZE
+	feedStatus: LiveBetsFeedStatus;
+}
+
+export interface LiveBetsSliceActions {
+	addSettledBet: (payload: BetSettledPayload) => void;
+	setFeedStatus: (status: LiveBetsFeedStatus) => void;
+	clearLiveBets: () => void;
+}
+
+// --- INITIAL STATE ---
+const initialState: LiveBetsSliceState = {
+	bets: [],
+	feedStatus: "idle",
+};
+
+export const createLiveBetsSlice: AppStateCreator<
+	LiveBetsSliceState & LiveBetsSliceActions
+> = (set) => ({
+	...initialState,
+
+	addSettledBet: (payload) => {
+		const bet = toLiveBet(payload);
+		set((state) => {
+			const buffer = state.history.liveBets.bets;
+			// The feed may replay recent bets after a reconnect; ignore duplicates.
+			if (buffer.some((existing) => existing.id === bet.id)) return;
+
+			buffer.unshift(bet);
+			if (buffer.length > LIVE_BETS_BUFFER_SIZE) {
+				buffer.length = LIVE_BETS_BUFFER_SIZE;
+			}
+		});
+	},
+
+	setFeedStatus: (status) => {
+		set((state) => {
+			state.history.liveBets.feedStatus = status;
+		});
+	},
+
+	clearLiveBets: () => {
+		set((state) => {
+			state.history.liveBets.bets = [];
+		});
+	},
+});
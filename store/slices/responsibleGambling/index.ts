@@ -0,0 +1,30 @@
+import { AppStateCreator } from "@/store/store";
+import {
+	createLimitsSlice,
+	LimitsSliceState,
+	LimitsSliceActions,
+} from "./limits.slice";
+import {
+	createSelfExclusionSlice,
+	SelfExclusionSliceState,
+	SelfExclusionSliceActions,
+} from "./selfExclusion.slice";
+import {
+	createRealityCheckSlice,
+	RealityCheckSliceState,
+	RealityCheckSliceActions,
+} from "./realityCheck.slice";
+
+export type ResponsibleGamblingSlice = {
+	limits: LimitsSliceState & LimitsSliceActions;
+	selfExclusion: SelfExclusionSliceState & SelfExclusionSliceActions;
+	realityCheck: RealityCheckSliceState & RealityCheckSliceActions;
+};
+
+export const createResponsibleGamblingBranch: AppStateCreator<
+	ResponsibleGamblingSlice
+> = (...args) => ({
+	limits: createLimitsSlice(...args),
+	selfExclusion: createSelfExclusionSlice(...args),
+	realityCheck: createRealityCheckSlice(...args),
+});
@@ -0,0 +1,371 @@
+import { AppStateCreator } from "@/store/store";
+import ApiService from "@/services/apiService";
+import LocalStorageService from "@/services/localStorageService";
+import { buildBetHistoryRequestBody } from "@/store/slices/history/betHistory.slice";
+import { DepoWdHistoryResponse } from "@/types/transactions/transaction.types";
+import {
+	LimitPeriod,
+	LimitType,
+	LimitUsage,
+	ResponsibleGamblingLimits,
+} from "@/types/responsible-gambling/limits.types";
+import {
+	LIMIT_PERIODS,
+	createDefaultLimits,
+	createEmptyUsage,
+	getLimitValue,
+	getPeriodStart,
+	isSamePendingTarget,
+	toApiDate,
+} from "@/lib/utils/features/responsible-gambling/limits.utils";
+
+// --- CONSTANTS ---
+// Usage is re-used for this long before guards hit the API again
+const USAGE_TTL_MS = 60 * 1000;
+// Same for the limits themselves, which only change through this slice
+const LIMITS_TTL_MS = 60 * 1000;
+// Deposits in the widest window are fetched this many at a time
+const DEPOSIT_PAGE_SIZE = 1000;
+// A play session ends once no tab has been active for this long
+const PLAY_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+// --- TYPES ---
+type FetchStatus = "idle" | "loading" | "success" | "error";
+
+export type LimitUpdateResult =
+	"applied" | "scheduled" | "unchanged" | "failed";
+
+export interface LimitsSliceState {
+	username: string | null; // Owner of the loaded limits
+	limits: ResponsibleGamblingLimits;
+	// "success" only once the backend's copy is loaded; before that the limits
+	// come from this device's cache
+	limitsStatus: FetchStatus;
+	limitsFetchedAt: number | null;
+	usage: LimitUsage;
+	usageStatus: FetchStatus;
+	usageFetchedAt: number | null;
+	sessionStartedAt: number | null;
+}
+
+export interface LimitsSliceActions {
+	loadLimits: (force?: boolean) => Promise<void>;
+	updateLimit: (
+		type: LimitType,
+		period: LimitPeriod | undefined,
+		value: number | null
+	) => Promise<LimitUpdateResult>;
+	cancelPendingChange: (
+		type: LimitType,
+		period?: LimitPeriod
+	) => Promise<boolean>;
+	refreshUsage: (force?: boolean) => Promise<void>;
+}
+
+// --- HELPER FUNCTIONS ---
+const parseApiDate = (value: string) => new Date(value.replace(" ", "T"));
+
+/**
+ * Collects deposit, wager and loss totals for the current daily, weekly and
+ * monthly windows. Wager and loss come from the bet history grand totals
+ * (one request per window); deposits are summed client-side from every page
+ * of the widest window, so a busy account is never undercounted.
+ */
+const fetchLimitUsage = async (
+	username: string,
+	authToken: string
+): Promise<LimitUsage> => {
+	const api = ApiService.getInstance();
+	const now = new Date();
+	const today = toApiDate(now);
+	const usage = createEmptyUsage();
+	const starts = Object.fromEntries(
+		LIMIT_PERIODS.map((period) => [period, getPeriodStart(period, now)])
+	) as Record<LimitPeriod, Date>;
+
+	const betTotals = LIMIT_PERIODS.map(async (period) => {
+		const response = await api.getBetHistory(
+			buildBetHistoryRequestBody(
+				username,
+				{
+					fromDate: toApiDate(starts[period]),
+					toDate: today,
+					vendorName: "",
+					status: "ALL",
+				},
+				1,
+				1
+			),
+			authToken
+		);
+		if (response.error) throw new Error(response.message);
+
+		usage.wager[period] = response.grand_total_bet ?? 0;
+		// Win/lose is from the player's side, so a loss is a negative total
+		usage.loss[period] = Math.max(0, -(response.grand_total_winlose ?? 0));
+	});
+
+	const earliest = new Date(
+		Math.min(...LIMIT_PERIODS.map((period) => starts[period].getTime()))
+	);
+	const deposits = (async () => {
+		let page = 1;
+		let totalPages = 1;
+		while (page <= totalPages) {
+			const response = await api.getDepoWdHistory(
+				{
+					username,
+					password:
+						process.env.NEXT_PUBLIC_GAME_URL_API_PASSWORD || "",
+					from_date: `${toApiDate(earliest)} 00:00:00`,
+					to_date: `${today} 23:59:59`,
+					transaction_type: "DEPO",
+					transaction_status: "",
+					limit: DEPOSIT_PAGE_SIZE,
+					page_number: page,
+				},
+				authToken
+			);
+			if (response.error) throw new Error(response.message);
+
+			const history = response.data as DepoWdHistoryResponse;
+			const records = history?.data || [];
+			if (page === 1) {
+				totalPages = Math.max(
+					1,
+					Math.ceil((history?.total_data || 0) / DEPOSIT_PAGE_SIZE)
+				);
+			}
+			records
+				.filter((record) => record.status !== "REJECTED")
+				.forEach((record) => {
+					const amount = parseFloat(record.amount) || 0;
+					const submittedAt = parseApiDate(record.submit_date);
+					LIMIT_PERIODS.forEach((period) => {
+						if (submittedAt >= starts[period]) {
+							usage.deposit[period] += amount;
+						}
+					});
+				});
+
+			// A short page means there is nothing more, whatever total_data says
+			if (records.length < DEPOSIT_PAGE_SIZE) break;
+			page += 1;
+		}
+	})();
+
+	await Promise.all([...betTotals, deposits]);
+	return usage;
+};
+
+// --- INITIAL STATE ---
+const initialState: LimitsSliceState = {
+	username: null,
+	limits: createDefaultLimits(),
+	limitsStatus: "idle",
+	limitsFetchedAt: null,
+	usage: createEmptyUsage(),
+	usageStatus: "idle",
+	usageFetchedAt: null,
+	sessionStartedAt: null,
+};
+
+// Kept outside of the store so concurrent guards share one request
+let limitsRequest: Promise<void> | null = null;
+
+export const createLimitsSlice: AppStateCreator<
+	LimitsSliceState & LimitsSliceActions
+> = (set, get) => {
+	/**
+	 * Stores the backend's copy of the limits and caches it on this device so
+	 * the next page load can guard before the request comes back.
+	 */
+	const applyServerLimits = (
+		username: string,
+		limits: ResponsibleGamblingLimits
+	) => {
+		// The player may have switched accounts while the request was out
+		if (get().responsibleGambling.limits.username !== username) return;
+
+		set((state) => {
+			const slice = state.responsibleGambling.limits;
+			slice.limits = { ...createDefaultLimits(), ...limits };
+			slice.limitsStatus = "success";
+			slice.limitsFetchedAt = Date.now();
+		});
+		LocalStorageService.getInstance().saveResponsibleGamblingLimits(
+			username,
+			get().responsibleGambling.limits.limits
+		);
+	};
+
+	return {
+		...initialState,
+
+		loadLimits: (force = false) => {
+			const localStorageService = LocalStorageService.getInstance();
+			const username = localStorageService.getUserData()?.username;
+			const authToken = localStorageService.getAuthToken();
+			if (!username) return Promise.resolve();
+
+			if (get().responsibleGambling.limits.username !== username) {
+				const cached =
+					localStorageService.getResponsibleGamblingLimits(username);
+				set((state) => {
+					const slice = state.responsibleGambling.limits;
+					slice.username = username;
+					slice.limits = { ...createDefaultLimits(), ...cached };
+					slice.limitsStatus = "idle";
+					slice.limitsFetchedAt = null;
+					slice.usage = createEmptyUsage();
+					slice.usageStatus = "idle";
+					slice.usageFetchedAt = null;
+				});
+			}
+
+			// The session is shared by every tab, so opening a new one doesn't
+			// reset it; only a spell away from the site starts a new one
+			const now = Date.now();
+			const session = localStorageService.getPlaySession(username);
+			const startedAt =
+				session && now - session.lastActiveAt < PLAY_SESSION_IDLE_MS
+					? session.startedAt
+					: now;
+			localStorageService.savePlaySession(username, {
+				startedAt,
+				lastActiveAt: now,
+			});
+			if (
+				get().responsibleGambling.limits.sessionStartedAt !== startedAt
+			) {
+				set((state) => {
+					state.responsibleGambling.limits.sessionStartedAt =
+						startedAt;
+				});
+			}
+
+			if (limitsRequest) return limitsRequest;
+			const { limitsStatus, limitsFetchedAt } =
+				get().responsibleGambling.limits;
+			if (
+				!force &&
+				limitsStatus === "success" &&
+				limitsFetchedAt &&
+				Date.now() - limitsFetchedAt < LIMITS_TTL_MS
+			) {
+				return Promise.resolve();
+			}
+			if (!authToken) return Promise.resolve();
+
+			set((state) => {
+				state.responsibleGambling.limits.limitsStatus = "loading";
+			});
+			limitsRequest = (async () => {
+				try {
+					const response =
+						await ApiService.getInstance().getPlayerLimits(
+							{ username },
+							authToken
+						);
+					if (response.error) throw new Error(response.message);
+					applyServerLimits(username, response.data);
+				} catch (error: unknown) {
+					console.error("Failed to load limits:", error);
+					set((state) => {
+						state.responsibleGambling.limits.limitsStatus = "error";
+					});
+				} finally {
+					limitsRequest = null;
+				}
+			})();
+			return limitsRequest;
+		},
+
+		updateLimit: async (type, period, value) => {
+			const { username, limits } = get().responsibleGambling.limits;
+			const current = getLimitValue(limits, type, period);
+			const normalized = value !== null && value >= 0 ? value : null;
+			const pendingForTarget = limits.pending.some((change) =>
+				isSamePendingTarget(change, type, period)
+			);
+
+			if (normalized === current && !pendingForTarget) return "unchanged";
+
+			const authToken = LocalStorageService.getInstance().getAuthToken();
+			if (!username || !authToken) return "failed";
+
+			try {
+				// Any new request replaces an earlier pending one for the same limit
+				const response = await ApiService.getInstance().setPlayerLimit(
+					{ username, type, period, value: normalized },
+					authToken
+				);
+				if (response.error) throw new Error(response.message);
+				applyServerLimits(username, response.data);
+
+				const scheduled = (response.data.pending || []).some((change) =>
+					isSamePendingTarget(change, type, period)
+				);
+				return scheduled ? "scheduled" : "applied";
+			} catch (error: unknown) {
+				console.error("Failed to update limit:", error);
+				return "failed";
+			}
+		},
+
+		cancelPendingChange: async (type, period) => {
+			const { username } = get().responsibleGambling.limits;
+			const authToken = LocalStorageService.getInstance().getAuthToken();
+			if (!username || !authToken) return false;
+
+			try {
+				const response =
+					await ApiService.getInstance().cancelPlayerLimitChange(
+						{ username, type, period },
+						authToken
+					);
+				if (response.error) throw new Error(response.message);
+				applyServerLimits(username, response.data);
+				return true;
+			} catch (error: unknown) {
+				console.error("Failed to cancel limit change:", error);
+				return false;
+			}
+		},
+		refreshUsage: async (force = false) => {
+			const current = get().responsibleGambling.limits;
+			if (current.usageStatus === "loading") return;
+			if (
+				!force &&
+				current.usageFetchedAt &&
+				Date.now() - current.usageFetchedAt < USAGE_TTL_MS
+			) {
+				return;
+			}
+
+			const localStorageService = LocalStorageService.getInstance();
+			const username = localStorageService.getUserData()?.username;
+			const authToken = localStorageService.getAuthToken();
+			if (!username || !authToken) return;
+
+			set((state) => {
+				state.responsibleGambling.limits.usageStatus = "loading";
+			});
+
+			try {
+				const usage = await fetchLimitUsage(username, authToken);
+				set((state) => {
+					state.responsibleGambling.limits.usage = usage;
+					state.responsibleGambling.limits.usageFetchedAt =
+						Date.now();
+					state.responsibleGambling.limits.usageStatus = "success";
+				});
+			} catch (error: unknown) {
+				console.error("Failed to fetch limit usage:", error);
+				set((state) => {
+					state.responsibleGambling.limits.usageStatus = "error";
+				});
+			}
+		},
+	};
+};
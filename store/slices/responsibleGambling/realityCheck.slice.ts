@@ -0,0 +1,247 @@
+import { AppStateCreator } from "@/store/store";
+import ApiService from "@/services/apiService";
+import LocalStorageService from "@/services/localStorageService";
+import { buildBetHistoryRequestBody } from "@/store/slices/history/betHistory.slice";
+import {
+	GameSession,
+	GameSessionMode,
+	PlaySessionTotals,
+	RealityCheckAcknowledgement,
+	RealityCheckAction,
+	RealityCheckSettings,
+} from "@/types/responsible-gambling/reality-check.types";
+import { toApiDate } from "@/lib/utils/features/responsible-gambling/limits.utils";
+import {
+	DEFAULT_REALITY_CHECK_SETTINGS,
+	MAX_REALITY_CHECK_LOG,
+	createEmptySessionTotals,
+	getDefaultSessionMode,
+	getSessionDelta,
+} from "@/lib/utils/features/responsible-gambling/reality-check.utils";
+
+// --- TYPES ---
+type TotalsStatus = "idle" | "loading" | "success" | "error";
+
+export interface RealityCheckSliceState {
+	username: string | null; // Owner of the loaded settings and log
+	settings: RealityCheckSettings;
+	log: RealityCheckAcknowledgement[];
+	session: GameSession | null;
+	totalsStatus: TotalsStatus;
+	isPromptOpen: boolean;
+}
+
+export interface RealityCheckSliceActions {
+	loadRealityCheck: () => void;
+	updateRealityCheckSettings: (
+		settings: Partial<RealityCheckSettings>
+	) => void;
+	startGameSession: (gameId: string, vendor: string) => void;
+	setGameSessionMode: (mode: GameSessionMode) => void;
+	refreshSessionTotals: () => Promise<void>;
+	openRealityCheck: () => void;
+	acknowledgeRealityCheck: (action: RealityCheckAction) => void;
+	endGameSession: () => void;
+}
+
+// --- HELPER FUNCTIONS ---
+/**
+ * Reads the bet-history grand totals from `fromDate` until today.
+ */
+const fetchBetTotals = async (
+	username: string,
+	authToken: string,
+	fromDate: string
+): Promise<PlaySessionTotals> => {
+	const response = await ApiService.getInstance().getBetHistory(
+		buildBetHistoryRequestBody(
+			username,
+			{
+				fromDate,
+				toDate: toApiDate(new Date()),
+				vendorName: "",
+				status: "ALL",
+			},
+			1,
+			1
+		),
+		authToken
+	);
+	if (response.error) throw new Error(response.message);
+
+	return {
+		wagered: response.grand_total_bet ?? 0,
+		net: response.grand_total_winlose ?? 0,
+	};
+};
+
+// --- INITIAL STATE ---
+const initialState: RealityCheckSliceState = {
+	username: null,
+	settings: DEFAULT_REALITY_CHECK_SETTINGS,
+	log: [],
+	session: null,
+	totalsStatus: "idle",
+	isPromptOpen: false,
+};
+
+export const createRealityCheckSlice: AppStateCreator<
+	RealityCheckSliceState & RealityCheckSliceActions
+> = (set, get) => ({
+	...initialState,
+
+	loadRealityCheck: () => {
+		const localStorageService = LocalStorageService.getInstance();
+		const username = localStorageService.getUserData()?.username;
+		if (
+			!username ||
+			get().responsibleGambling.realityCheck.username === username
+		)
+			return;
+
+		const settings = localStorageService.getRealityCheckSettings(username);
+		const log = localStorageService.getRealityCheckLog(username);
+		set((state) => {
+			const slice = state.responsibleGambling.realityCheck;
+			slice.username = username;
+			slice.settings = { ...DEFAULT_REALITY_CHECK_SETTINGS, ...settings };
+			slice.log = log;
+		});
+	},
+
+	updateRealityCheckSettings: (settings) => {
+		set((state) => {
+			const slice = state.responsibleGambling.realityCheck;
+			slice.settings = { ...slice.settings, ...settings };
+		});
+
+		const { username, settings: updated } =
+			get().responsibleGambling.realityCheck;
+		if (username) {
+			LocalStorageService.getInstance().saveRealityCheckSettings(
+				username,
+				updated
+			);
+		}
+	},
+
+	startGameSession: (gameId, vendor) => {
+		const now = Date.now();
+		set((state) => {
+			const slice = state.responsibleGambling.realityCheck;
+			slice.session = {
+				gameId,
+				vendor,
+				mode: getDefaultSessionMode(vendor),
+				startedAt: now,
+				fromDate: toApiDate(new Date(now)),
+				baseline: null,
+				totals: createEmptySessionTotals(),
+				lastCheckAt: now,
+			};
+			slice.totalsStatus = "idle";
+			slice.isPromptOpen = false;
+		});
+		// Capture the baseline the session deltas are measured against
+		get().responsibleGambling.realityCheck.refreshSessionTotals();
+	},
+
+	setGameSessionMode: (mode) => {
+		set((state) => {
+			const session = state.responsibleGambling.realityCheck.session;
+			if (session) session.mode = mode;
+		});
+	},
+
+	refreshSessionTotals: async () => {
+		const { session, totalsStatus } =
+			get().responsibleGambling.realityCheck;
+		if (!session || totalsStatus === "loading") return;
+
+		const localStorageService = LocalStorageService.getInstance();
+		const username = localStorageService.getUserData()?.username;
+		const authToken = localStorageService.getAuthToken();
+		if (!username || !authToken) return;
+
+		set((state) => {
+			state.responsibleGambling.realityCheck.totalsStatus = "loading";
+		});
+
+		try {
+			const current = await fetchBetTotals(
+				username,
+				authToken,
+				session.fromDate
+			);
+			set((state) => {
+				const slice = state.responsibleGambling.realityCheck;
+				slice.totalsStatus = "success";
+				// The session may have ended or been replaced meanwhile
+				if (slice.session?.startedAt !== session.startedAt) return;
+
+				if (slice.session.baseline === null) {
+					slice.session.baseline = current;
+				} else {
+					slice.session.totals = getSessionDelta(
+						slice.session.baseline,
+						current
+					);
+				}
+			});
+		} catch (error: unknown) {
+			console.error("Failed to fetch session totals:", error);
+			set((state) => {
+				state.responsibleGambling.realityCheck.totalsStatus = "error";
+			});
+		}
+	},
+
+	openRealityCheck: () => {
+		set((state) => {
+			state.responsibleGambling.realityCheck.isPromptOpen = true;
+		});
+	},
+
+	/**
+	 * Records the player's answer to the prompt and restarts the interval.
+	 */
+	acknowledgeRealityCheck: (action) => {
+		const { session, username, log } =
+			get().responsibleGambling.realityCheck;
+		if (!session) return;
+
+		const now = Date.now();
+		const entry: RealityCheckAcknowledgement = {
+			at: now,
+			action,
+			gameId: session.gameId,
+			vendor: session.vendor,
+			elapsedMinutes: Math.floor((now - session.startedAt) / 60000),
+			wagered: session.totals.wagered,
+			net: session.totals.net,
+		};
+		const updatedLog = [entry, ...log].slice(0, MAX_REALITY_CHECK_LOG);
+
+		set((state) => {
+			const slice = state.responsibleGambling.realityCheck;
+			slice.log = updatedLog;
+			slice.isPromptOpen = false;
+			if (slice.session) slice.session.lastCheckAt = now;
+		});
+		if (username) {
+			LocalStorageService.getInstance().saveRealityCheckLog(
+				username,
+				updatedLog
+			);
+		}
+	},
+
+	endGameSession: () => {
+		set((state) => {
+			const slice = state.responsibleGambling.realityCheck;
+			slice.session = null;
+			slice.isPromptOpen = false;
+			slice.totalsStatus = "idle";
+		});
+	},
+});
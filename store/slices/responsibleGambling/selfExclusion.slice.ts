@@ -0,0 +1,171 @@
+import { AppStateCreator } from "@/store/store";
+import ApiService from "@/services/apiService";
+import LocalStorageService from "@/services/localStorageService";
+import {
+	SelfExclusion,
+	SelfExclusionDuration,
+} from "@/types/responsible-gambling/self-exclusion.types";
+import {
+	SELF_EXCLUSION_COOKIE,
+	createSelfExclusion,
+	getLongerExclusion,
+	isExclusionForUser,
+	toExclusionCookieValue,
+} from "@/lib/utils/features/responsible-gambling/self-exclusion.utils";
+
+// --- TYPES ---
+export interface SelfExclusionSliceState {
+	exclusion: SelfExclusion | null;
+	isLoaded: boolean;
+}
+
+export interface SelfExclusionSliceActions {
+	loadSelfExclusion: () => Promise<void>;
+	startSelfExclusion: (duration: SelfExclusionDuration) => Promise<boolean>;
+}
+
+// --- HELPER FUNCTIONS ---
+/**
+ * Keeps the middleware cookie in step with the stored exclusion. Permanent
+ * exclusions get a ten-year cookie, which is as close to forever as browsers
+ * allow.
+ */
+const syncExclusionCookie = (exclusion: SelfExclusion | null) => {
+	if (typeof document === "undefined") return;
+
+	if (!exclusion) {
+		document.cookie = `${SELF_EXCLUSION_COOKIE}=; path=/; max-age=0`;
+		return;
+	}
+
+	const maxAge =
+		exclusion.endsAt === null
+			? 10 * 365 * 24 * 60 * 60
+			: Math.ceil((exclusion.endsAt - Date.now()) / 1000);
+	document.cookie = `${SELF_EXCLUSION_COOKIE}=${toExclusionCookieValue(
+		exclusion
+	)}; path=/; max-age=${Math.max(0, maxAge)}; samesite=lax`;
+};
+
+// --- INITIAL STATE ---
+const initialState: SelfExclusionSliceState = {
+	exclusion: null,
+	isLoaded: false,
+};
+
+export const createSelfExclusionSlice: AppStateCreator<
+	SelfExclusionSliceState & SelfExclusionSliceActions
+> = (set, get) => {
+	/**
+	 * Makes `exclusion` the one in force for `username`: stored on the device,
+	 * mirrored to the middleware cookie and exposed to the guards.
+	 */
+	const applyExclusion = (
+		exclusion: SelfExclusion | null,
+		username: string | undefined
+	) => {
+		const localStorageService = LocalStorageService.getInstance();
+		const stored = localStorageService.getSelfExclusion();
+		// Only write on change so other tabs aren't woken for nothing, and
+		// never over another player's copy, which stays the device lock
+		if (
+			isExclusionForUser(stored, username) &&
+			JSON.stringify(stored) !== JSON.stringify(exclusion)
+		) {
+			if (exclusion) localStorageService.saveSelfExclusion(exclusion);
+			else localStorageService.clearSelfExclusion();
+		}
+		syncExclusionCookie(exclusion);
+
+		set((state) => {
+			state.responsibleGambling.selfExclusion.exclusion = exclusion;
+			state.responsibleGambling.selfExclusion.isLoaded = true;
+		});
+	};
+
+	return {
+		...initialState,
+
+		/**
+		 * Applies the device copy straight away, then the account's exclusion
+		 * once the backend answers, keeping whichever runs longer. Expired
+		 * exclusions are dropped, as is a device copy belonging to another
+		 * account. Safe to call repeatedly, e.g. on login or when another tab
+		 * changes it.
+		 */
+		loadSelfExclusion: async () => {
+			const localStorageService = LocalStorageService.getInstance();
+			const username = localStorageService.getUserData()?.username;
+			const stored = localStorageService.getSelfExclusion();
+			applyExclusion(
+				getLongerExclusion(
+					isExclusionForUser(stored, username) ? stored : null,
+					null
+				),
+				username
+			);
+
+			const authToken = localStorageService.getAuthToken();
+			if (!username || !authToken) return;
+
+			try {
+				const response =
+					await ApiService.getInstance().getSelfExclusion(
+						{ username },
+						authToken
+					);
+				if (response.error) throw new Error(response.message);
+				applyExclusion(
+					getLongerExclusion(
+						get().responsibleGambling.selfExclusion.exclusion,
+						response.data
+					),
+					username
+				);
+			} catch (error: unknown) {
+				console.error("Failed to load self-exclusion:", error);
+			}
+		},
+
+		/**
+		 * Starts an exclusion on the device at once, then saves it to the
+		 * account. An exclusion that is already running can only be extended,
+		 * never shortened. Resolves to false when the account could not be
+		 * updated, in which case only this device is excluded.
+		 */
+		startSelfExclusion: async (duration) => {
+			const localStorageService = LocalStorageService.getInstance();
+			const username = localStorageService.getUserData()?.username;
+			const authToken = localStorageService.getAuthToken();
+
+			applyExclusion(
+				getLongerExclusion(
+					get().responsibleGambling.selfExclusion.exclusion,
+					createSelfExclusion(duration, username ?? null)
+				),
+				username
+			);
+			if (!username || !authToken) return false;
+
+			try {
+				const response =
+					await ApiService.getInstance().startSelfExclusion(
+						{ username, duration },
+						authToken
+					);
+				if (response.error) throw new Error(response.message);
+				applyExclusion(
+					getLongerExclusion(
+						get().responsibleGambling.selfExclusion.exclusion,
+						response.data
+					),
+					username
+				);
+				return true;
+			} catch (error: unknown) {
+				console.error("Failed to save self-exclusion:", error);
+				return false;
+			}
+		},
+	};
+};
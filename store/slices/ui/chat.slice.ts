@@ -1,4 +1,13 @@
 import { AppStateCreator } from "@/store/store";
+import LocalStorageService from "@/services/localStorageService";
+import {
+	DEFAULT_CHAT_ROOM,
+	findChatRoom,
+} from "@/constants/features/live-chat/live-chat.constants";
+import { Message } from "@/types/features/live-chat.types";
+
+// Messages kept in memory per room; older ones are dropped from the top
+const MAX_ROOM_MESSAGES = 200;
 
 /**
  * Chat Sidebar State Interface
@@ -7,6 +16,12 @@ export interface ChatSliceState {
 	isOpen: boolean;
 	messageCount: number;
 	lastReadMessageIndex: number;
+	currentRoomCode: string;
+	// Separate message buffers and unread counters, keyed by room code
+	messagesByRoom: Record<string, Message[]>;
+	unreadByRoom: Record<string, number>;
+	// Rooms whose history has already been fetched this session
+	historyLoadedRooms: string[];
 }
 
 /**
@@ -20,8 +35,29 @@ export interface ChatSliceActions {
 	markMessagesAsRead: (totalMessages: number) => void;
 	incrementUnreadCount: () => void;
 	resetUnreadCount: () => void;
+	setCurrentRoom: (roomCode: string) => void;
+	restoreLastRoom: () => void;
+	setRoomHistory: (roomCode: string, messages: Message[]) => void;
+	updateRoomMessages: (
+		roomCode: string,
+		updater: (messages: Message[]) => Message[]
+	) => void;
+	receiveRoomMessage: (roomCode: string, message: Message) => void;
 }
 
+// The header badge shows the total across rooms
+const syncMessageCount = (chat: ChatSliceState) => {
+	chat.messageCount = Object.values(chat.unreadByRoom).reduce(
+		(total, count) => total + count,
+		0
+	);
+};
+
+const clearCurrentRoomUnread = (chat: ChatSliceState) => {
+	chat.unreadByRoom[chat.currentRoomCode] = 0;
+	syncMessageCount(chat);
+};
+
 /**
  * Chat Sidebar Slice Creator
  */
@@ -32,23 +68,27 @@ export const createChatSlice: AppStateCreator<
 	isOpen: false,
 	messageCount: 0,
 	lastReadMessageIndex: 0,
+	currentRoomCode: DEFAULT_CHAT_ROOM.code,
+	messagesByRoom: {},
+	unreadByRoom: {},
+	historyLoadedRooms: [],
 
 	// Actions
 	toggleChat: () =>
 		set((state) => {
 			const wasOpen = state.uiDefinition.chat.isOpen;
 			state.uiDefinition.chat.isOpen = !wasOpen;
-			// Reset message count when opening chat
+			// Reset the open room's unread count when opening chat
 			if (!wasOpen) {
-				state.uiDefinition.chat.messageCount = 0;
+				clearCurrentRoomUnread(state.uiDefinition.chat);
 			}
 		}),
 
 	openChat: () =>
 		set((state) => {
 			state.uiDefinition.chat.isOpen = true;
-			// Reset message count when opening chat
-			state.uiDefinition.chat.messageCount = 0;
+			// Reset the open room's unread count when opening chat
+			clearCurrentRoomUnread(state.uiDefinition.chat);
 		}),
 
 	closeChat: () =>
@@ -65,19 +105,84 @@ export const createChatSlice: AppStateCreator<
 		set((state) => {
 			state.uiDefinition.chat.lastReadMessageIndex = totalMessages;
 			if (state.uiDefinition.chat.isOpen) {
-				state.uiDefinition.chat.messageCount = 0;
+				clearCurrentRoomUnread(state.uiDefinition.chat);
 			}
 		}),
 
 	incrementUnreadCount: () =>
 		set((state) => {
-			if (!state.uiDefinition.chat.isOpen) {
-				state.uiDefinition.chat.messageCount += 1;
+			const chat = state.uiDefinition.chat;
+			if (!chat.isOpen) {
+				chat.unreadByRoom[chat.currentRoomCode] =
+					(chat.unreadByRoom[chat.currentRoomCode] ?? 0) + 1;
+				syncMessageCount(chat);
 			}
 		}),
 
 	resetUnreadCount: () =>
 		set((state) => {
-			state.uiDefinition.chat.messageCount = 0;
+			clearCurrentRoomUnread(state.uiDefinition.chat);
+		}),
+
+	setCurrentRoom: (roomCode: string) => {
+		const room = findChatRoom(roomCode) ?? DEFAULT_CHAT_ROOM;
+		LocalStorageService.getInstance().saveChatRoom(room.code);
+		set((state) => {
+			state.uiDefinition.chat.currentRoomCode = room.code;
+			clearCurrentRoomUnread(state.uiDefinition.chat);
+		});
+	},
+
+	// Reads the remembered room after hydration, falling back to Global
+	// when the stored code no longer matches a room
+	restoreLastRoom: () => {
+		const room = findChatRoom(
+			LocalStorageService.getInstance().getChatRoom()
+		);
+		if (!room) return;
+		set((state) => {
+			state.uiDefinition.chat.currentRoomCode = room.code;
+		});
+	},
+
+	setRoomHistory: (roomCode: string, messages: Message[]) =>
+		set((state) => {
+			const chat = state.uiDefinition.chat;
+			// Live messages that arrived while history was loading stay on top
+			const live = (chat.messagesByRoom[roomCode] ?? []).filter(
+				(message) => !messages.some((m) => m.id === message.id)
+			);
+			chat.messagesByRoom[roomCode] = [...messages, ...live].slice(
+				-MAX_ROOM_MESSAGES
+			);
+			if (!chat.historyLoadedRooms.includes(roomCode)) {
+				chat.historyLoadedRooms.push(roomCode);
+			}
+		}),
+
+	updateRoomMessages: (roomCode, updater) =>
+		set((state) => {
+			const chat = state.uiDefinition.chat;
+			chat.messagesByRoom[roomCode] = updater(
+				chat.messagesByRoom[roomCode] ?? []
+			).slice(-MAX_ROOM_MESSAGES);
+		}),
+
+	receiveRoomMessage: (roomCode: string, message: Message) =>
+		set((state) => {
+			const chat = state.uiDefinition.chat;
+			const buffer = chat.messagesByRoom[roomCode] ?? [];
+			if (buffer.some((m) => m.id === message.id)) return;
+
+			chat.messagesByRoom[roomCode] = [...buffer, message].slice(
+				-MAX_ROOM_MESSAGES
+			);
+
+			const isVisible = chat.isOpen && chat.currentRoomCode === roomCode;
+			if (!isVisible && !message.isCurrentUser) {
+				chat.unreadByRoom[roomCode] =
+					(chat.unreadByRoom[roomCode] ?? 0) + 1;
+				syncMessageCount(chat);
+			}
 		}),
 });
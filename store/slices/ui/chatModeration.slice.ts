@@ -0,0 +1,108 @@
+import { AppStateCreator } from "@/store/store";
+import {
+	ChatModerationEvent,
+	ChatRoomModeration,
+} from "@/types/features/chat-moderation.types";
+import { createEmptyRoomModeration } from "@/lib/utils/features/live-chat/chat-moderation.utils";
+
+/**
+ * Chat Moderation State Interface
+ */
+export interface ChatModerationSliceState {
+	// Moderation state per room code, as last reported by the server
+	rooms: Record<string, ChatRoomModeration>;
+	// When the current user last sent a message per room, for slow mode
+	lastSentAtByRoom: Record<string, number>;
+}
+
+/**
+ * Chat Moderation Actions Interface
+ */
+export interface ChatModerationSliceActions {
+	applyModerationState: (
+		roomCode: string,
+		moderation: ChatRoomModeration
+	) => void;
+	applyModerationEvent: (
+		roomCode: string,
+		event: ChatModerationEvent
+	) => void;
+	recordMessageSent: (roomCode: string) => void;
+}
+
+/**
+ * Chat Moderation Slice Creator
+ */
+export const createChatModerationSlice: AppStateCreator<
+	ChatModerationSliceState & ChatModerationSliceActions
+> = (set) => ({
+	// Initial state
+	rooms: {},
+	lastSentAtByRoom: {},
+
+	// Actions
+	applyModerationState: (roomCode, moderation) =>
+		set((state) => {
+			state.uiDefinition.chatModeration.rooms[roomCode] = {
+				moderators: moderation.moderators ?? [],
+				muted: moderation.muted ?? {},
+				banned: moderation.banned ?? [],
+				slowModeSeconds: moderation.slowModeSeconds ?? 0,
+				pinnedMessageId: moderation.pinnedMessageId ?? null,
+			};
+		}),
+
+	applyModerationEvent: (roomCode, event) =>
+		set((state) => {
+			const rooms = state.uiDefinition.chatModeration.rooms;
+			const room = (rooms[roomCode] ??= createEmptyRoomModeration());
+			const messages = state.uiDefinition.chat.messagesByRoom[roomCode];
+
+			switch (event.action) {
+				case "mute":
+					if (!event.target) break;
+					if (event.durationSeconds) {
+						room.muted[event.target] =
+							event.timestamp + event.durationSeconds * 1000;
+					} else {
+						delete room.muted[event.target];
+					}
+					break;
+				case "ban":
+					if (!event.target || room.banned.includes(event.target))
+						break;
+					room.banned.push(event.target);
+					// A ban also clears the user's messages from the room
+					if (messages) {
+						state.uiDefinition.chat.messagesByRoom[roomCode] =
+							messages.filter(
+								(message) => message.username !== event.target
+							);
+					}
+					break;
+				case "slow":
+					room.slowModeSeconds = event.durationSeconds ?? 0;
+					break;
+				case "delete":
+					if (messages) {
+						state.uiDefinition.chat.messagesByRoom[roomCode] =
+							messages.filter(
+								(message) => message.id !== event.messageId
+							);
+					}
+					if (room.pinnedMessageId === event.messageId) {
+						room.pinnedMessageId = null;
+					}
+					break;
+				case "pin":
+					room.pinnedMessageId = event.messageId ?? null;
+					break;
+			}
+		}),
+
+	recordMessageSent: (roomCode) =>
+		set((state) => {
+			state.uiDefinition.chatModeration.lastSentAtByRoom[roomCode] =
+				Date.now();
+		}),
+});
@@ -10,6 +10,11 @@ import {
 	ModalSliceActions,
 } from "./walletProvider/modal.slice";
 import { ChatSliceActions, ChatSliceState, createChatSlice } from "./chat.slice";
+import {
+	ChatModerationSliceActions,
+	ChatModerationSliceState,
+	createChatModerationSlice,
+} from "./chatModeration.slice";
 
 /**
  * The complete type for the entire 'uiDefinition' branch.
@@ -19,6 +24,7 @@ export type UiDefinitionSlice = {
 	heroBanner: HeroBannerSliceState & HeroBannerSliceActions;
 	modal: ModalSliceState & ModalSliceActions;
 	chat: ChatSliceState & ChatSliceActions;
+	chatModeration: ChatModerationSliceState & ChatModerationSliceActions;
 };
 // Example for the future:
 // export type UiDefinitionSlice = (HeroBannerSliceState & HeroBannerSliceActions) & (FooterSliceState & FooterSliceActions);
@@ -33,6 +39,7 @@ export const createUiDefinitionSlice: AppStateCreator<UiDefinitionSlice> = (
 	heroBanner: createHeroBannerSlice(...args),
 	modal: createModalSlice(...args),
 	chat: createChatSlice(...args),
+	chatModeration: createChatModerationSlice(...args),
 	// When you add a new slice for another dynamic component:
 	// ...createFooterSlice(...args),
 });
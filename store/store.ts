@@ -12,6 +12,10 @@ import {
 	createTransactionSlice,
 } from "./slices/transactions";
 import { createHistoryBranch, HistorySlice } from "./slices/history";
+import {
+	createResponsibleGamblingBranch,
+	ResponsibleGamblingSlice,
+} from "./slices/responsibleGambling";
 
 type AppStore = {
 	game: GameSlice;
@@ -23,6 +27,7 @@ type AppStore = {
 	bonus: BonusSliceBranch;
 	dynamicLoaded: boolean;
 	history: HistorySlice;
+	responsibleGambling: ResponsibleGamblingSlice;
 	setDynamicLoaded: (loaded: boolean) => void;
 };
 
@@ -48,6 +53,7 @@ const useAppStore = create<AppStore>()(
 			affiliate: createAffiliateSlice(...args),
 			bonus: createBonusSlice(...args),
 			history: createHistoryBranch(...args),
+			responsibleGambling: createResponsibleGamblingBranch(...args),
 			dynamicLoaded: false, // Initial state for dynamic loading
 			setDynamicLoaded: (loaded: boolean) => {
 				useAppStore.setState({ dynamicLoaded: loaded });
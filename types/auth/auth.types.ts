@@ -4,6 +4,7 @@
 // It's generally better for services to import types, not the other way around.
 // I'm keeping it as you provided, but it's something to be aware of.
 import { UserData } from "@/services/localStorageService";
+import { SelfExclusion } from "@/types/responsible-gambling/self-exclusion.types";
 
 /**
  * Defines the balance information for a specific cryptocurrency token.
@@ -147,6 +148,10 @@ export interface AuthContextType {
 	isAuthCheckComplete: boolean;
 	/** Auth token that is allocated after authentication has successfully completed */
 	authToken: string;
+	/** The device's active self-exclusion, or null when the player is not excluded. */
+	selfExclusion: SelfExclusion | null;
+	/** A boolean flag indicating that game launch, deposit, swap and tip are locked. */
+	isSelfExcluded: boolean;
 
 	/** A function to initiate the login process. */
 	login: () => void;
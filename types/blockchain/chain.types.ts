@@ -0,0 +1,35 @@
+// --- Chain Registry ---
+
+export interface NativeCurrency {
+	symbol: string;
+	name: string;
+	decimals: number;
+}
+
+/**
+ * Everything the wallet panels need to know about a network the platform
+ * accepts deposits and pays withdrawals on.
+ */
+export interface ChainConfig {
+	chainId: number;
+	name: string;
+	rpcUrl: string;
+	explorerUrl: string;
+	nativeToken: NativeCurrency;
+	// Symbols credited straight to the platform balance; anything else is
+	// swapped into one of these first
+	depositTokens: string[];
+	// Fallback minimum withdrawal, used until /getWalletAgent answers
+	minWithdraw: number;
+	// Native amount held back from "max" so the transaction can pay for gas
+	gasReserve: number;
+}
+
+// --- Balance Overview ---
+
+export interface ChainHoldings {
+	chainId: number;
+	tokens: number;
+	usdValue: number;
+	status: "loading" | "success" | "error";
+}
@@ -15,6 +15,8 @@ export enum TransactionType {
 	DEPOSIT = "deposit",
 	WITHDRAW = "withdraw",
 	SWAP = "swap",
+	// A deposit paid in another token and swapped into the house token
+	SWAP_DEPOSIT = "swap_deposit",
 	TIP = "tip",
 }
 
@@ -74,6 +76,9 @@ export interface AppTransaction {
 
 	// --- Internal properties for state management ---
 	error?: string | null; // To store any failure reasons
-	timeoutId?: NodeJS.Timeout | null; // To manage failsafe timeouts
 	serverTxId?: string; // To store the txId from the WebSocket for reference
+	/** The account that started it, needed to re-check it after a reload. */
+	username?: string;
+	/** When the status last changed. */
+	updatedAt?: number;
 }
@@ -0,0 +1,53 @@
+export type ChatModerationAction = "mute" | "ban" | "slow" | "delete" | "pin";
+
+/**
+ * A moderation action as sent by a moderator. Which fields are set depends
+ * on the action:
+ * - mute: target + durationSeconds (0 lifts the mute)
+ * - ban: target
+ * - slow: durationSeconds between messages (0 turns slow mode off)
+ * - delete: messageId
+ * - pin: messageId, or none to unpin
+ */
+export interface ChatModerationCommand {
+	action: ChatModerationAction;
+	target?: string;
+	messageId?: string;
+	durationSeconds?: number;
+	reason?: string;
+}
+
+// Sent to the chat socket; the server checks the moderator's rights
+export interface ChatModerationPayload extends ChatModerationCommand {
+	moderator: string;
+}
+
+// Broadcast to everyone in the room once the server has applied an action
+export interface ChatModerationEvent extends ChatModerationPayload {
+	// wsKey of the room the action applies to
+	room: string;
+	timestamp: number;
+}
+
+export interface ChatRoomModeration {
+	moderators: string[];
+	// Username -> epoch ms when the mute ends
+	muted: Record<string, number>;
+	banned: string[];
+	slowModeSeconds: number;
+	pinnedMessageId: string | null;
+}
+
+// Full moderation state of a room, sent by the server when a room is joined
+export interface ChatModerationSnapshot extends ChatRoomModeration {
+	room: string;
+}
+
+export type ModerationCommandError =
+	"notModerator" | "usage" | "invalidDuration" | "cannotTargetSelf";
+
+export interface ModerationCommandResult {
+	success: boolean;
+	command?: ChatModerationCommand;
+	error?: ModerationCommandError;
+}
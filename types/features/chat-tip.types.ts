@@ -0,0 +1,63 @@
+import { Token } from "@/types/blockchain/swap.types";
+
+export type ChatTipKind = "tip" | "rain";
+
+// A parsed /tip or /rain command waiting for the sender to confirm it
+export interface ChatTipIntent {
+	kind: ChatTipKind;
+	amount: number;
+	// "all", "random" or "@username"
+	target: string;
+	recipients: string[];
+}
+
+export type ChatTipCommandError =
+	| "usage"
+	| "invalidAmount"
+	| "invalidTarget"
+	| "cannotTargetSelf"
+	| "userNotFound"
+	| "noRecipients";
+
+export interface ChatTipCommandResult {
+	success: boolean;
+	intent?: ChatTipIntent;
+	error?: ChatTipCommandError;
+	// Username the error refers to, for userNotFound
+	username?: string;
+}
+
+// Sent to the chat socket once the transfer to the tip wallet has a hash
+export interface ChatTipPayload {
+	kind: ChatTipKind;
+	// wsKey of the room the command was sent in
+	room: string;
+	sender: string;
+	recipients: string[];
+	amount: string;
+	tokenSymbol: string;
+	tokenAddress: string;
+	network: number | string;
+	txHash: string;
+}
+
+// The server's reply once it has credited (or refused to credit) recipients
+export interface ChatTipAck {
+	success: boolean;
+	// Recipients actually credited, which can differ from the request when
+	// someone left the room in the meantime
+	recipients?: string[];
+	distributedAmount?: string;
+	error?: string;
+	// Set when the ack never arrived (chat offline, timeout) rather than the
+	// server refusing the tip, so the same payload can safely be resent
+	retryable?: boolean;
+}
+
+// A tip whose transfer settled but whose ack was lost, kept until the server
+// answers. The server dedupes on txHash, so resending can't credit twice.
+export interface PendingChatTip {
+	payload: ChatTipPayload;
+	intent: ChatTipIntent;
+	token: Token;
+}
@@ -116,6 +116,10 @@ export interface ChatRoom {
   code: string;
   name: string;
   flag: string;
+  // Key the chat socket and history API use to separate rooms
+  wsKey: string;
+  // Locale whose speakers land in this room by default
+  language?: string;
 }
 
 // User badge types
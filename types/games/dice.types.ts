@@ -0,0 +1,139 @@
+/**
+ * Whether a dice bet wins when the roll lands above or below the target.
+ */
+export type DiceDirection = "over" | "under";
+
+/**
+ * The player's active seed pair. The server seed itself stays hidden until
+ * the pair is rotated; only its SHA-256 hash is committed up front.
+ */
+export interface DiceSeedPair {
+	/**
+	 * SHA-256 hash (hex) of the hidden server seed.
+	 */
+	server_seed_hash: string;
+
+	/**
+	 * The player-controlled client seed.
+	 */
+	client_seed: string;
+
+	/**
+	 * The nonce the next round will use. Starts at 0 and increases by one per round.
+	 */
+	nonce: number;
+}
+
+/**
+ * A retired seed pair whose server seed has been revealed for verification.
+ */
+export interface DiceRevealedSeed {
+	server_seed: string;
+	server_seed_hash: string;
+	client_seed: string;
+	/**
+	 * Number of rounds played with the pair (nonces 0 to rounds - 1).
+	 */
+	rounds: number;
+	revealed_at: string;
+}
+
+/**
+ * A single settled dice round.
+ */
+export interface DiceRound {
+	round_id: string;
+	bet_amount: number;
+	target: number;
+	direction: DiceDirection;
+	roll: number;
+	multiplier: number;
+	payout: number;
+	win: boolean;
+	server_seed_hash: string;
+	client_seed: string;
+	nonce: number;
+	/**
+	 * Format: "YYYY-MM-DD HH:mm:ss"
+	 */
+	created_at: string;
+}
+
+export interface GetDiceSeedsRequest {
+	username: string;
+}
+
+export interface GetDiceSeedsResponse {
+	error: boolean;
+	message: string;
+	data: {
+		active: DiceSeedPair;
+		revealed: DiceRevealedSeed[];
+	};
+}
+
+export interface PlaceDiceBetRequest {
+	username: string;
+	bet_amount: number;
+	target: number;
+	direction: DiceDirection;
+}
+
+export interface PlaceDiceBetResponse {
+	error: boolean;
+	message: string;
+	data: {
+		round: DiceRound;
+		balance: number;
+	};
+}
+
+export interface RotateDiceSeedRequest {
+	username: string;
+	/**
+	 * Client seed for the new pair. The backend keeps the current one when omitted.
+	 */
+	client_seed?: string;
+}
+
+export interface RotateDiceSeedResponse {
+	error: boolean;
+	message: string;
+	data: {
+		revealed: DiceRevealedSeed;
+		active: DiceSeedPair;
+	};
+}
+
+/**
+ * Inputs the verifier needs to recompute a round.
+ */
+export interface DiceVerificationInput {
+	serverSeedHash: string;
+	serverSeed: string;
+	clientSeed: string;
+	nonce: number;
+}
+
+/**
+ * Every intermediate value of a recomputed roll, in the order it is derived.
+ */
+export interface DiceRollBreakdown {
+	/**
+	 * The HMAC message: `${clientSeed}:${nonce}:${cursor}`.
+	 */
+	message: string;
+	hmac: string;
+	/**
+	 * The leading HMAC bytes that are turned into a float.
+	 */
+	bytes: { hex: string; value: number; contribution: number }[];
+	float: number;
+	roll: number;
+}
+
+export interface DiceVerificationResult {
+	computedHash: string;
+	hashMatches: boolean;
+	breakdown: DiceRollBreakdown;
+}
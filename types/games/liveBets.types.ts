@@ -0,0 +1,73 @@
+/**
+ * Defines the raw payload pushed by the bet feed socket on every "bet_settled" event.
+ * Amounts arrive as strings (like the bet history API) to preserve decimal precision.
+ */
+export interface BetSettledPayload {
+	/**
+	 * The unique identifier of the settled bet.
+	 */
+	bet_id: string;
+
+	/**
+	 * The nickname of the player, unmasked. Never render this directly.
+	 */
+	nickname: string;
+
+	/**
+	 * The name of the game where the bet was placed.
+	 */
+	game_name: string;
+
+	/**
+	 * The provider name (formatted).
+	 */
+	provider_name: string;
+
+	/**
+	 * The amount that was bet.
+	 */
+	bet_amount: string | number;
+
+	/**
+	 * The total amount paid out to the player (0 for a losing bet).
+	 */
+	win_amount: string | number;
+
+	/**
+	 * The currency symbol of the bet (e.g. "USDT").
+	 */
+	currency?: string;
+
+	/**
+	 * The settlement time, either an epoch in milliseconds or "YYYY-MM-DD HH:mm:ss".
+	 */
+	settled_at: string | number;
+}
+
+/**
+ * The outcome of a settled bet as shown in the live feed.
+ */
+export type LiveBetOutcome = "win" | "lose";
+
+/**
+ * A settled bet as it is stored in the live bets buffer and rendered by the table.
+ */
+export interface LiveBet {
+	id: string;
+	gameName: string;
+	provider: string;
+	/** The masked nickname, stable for the same player. */
+	nickname: string;
+	bet: number;
+	payout: number;
+	profit: number;
+	multiplier: number;
+	outcome: LiveBetOutcome;
+	currency: string;
+	timestamp: number;
+}
+
+/**
+ * The tabs of the live betting table.
+ */
+export type LiveBetsTab = "all" | "highRollers" | "luckyWins";
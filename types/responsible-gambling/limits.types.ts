@@ -0,0 +1,112 @@
+/**
+ * The rolling windows a spend limit can be set for. Windows are calendar based
+ * (today, this week starting Monday, this month) in the player's local time.
+ */
+export type LimitPeriod = "daily" | "weekly" | "monthly";
+
+/**
+ * The kinds of money limits a player can set.
+ * - `deposit`: total deposited (including swaps into the casino wallet).
+ * - `loss`: net amount lost on settled bets.
+ * - `wager`: total amount staked.
+ */
+export type SpendLimitType = "deposit" | "loss" | "wager";
+
+/**
+ * Any limit that can be changed from the settings screen.
+ */
+export type LimitType = SpendLimitType | "session";
+
+/**
+ * USD caps per period. `null` means no limit is set for that period.
+ */
+export type SpendLimitAmounts = Record<LimitPeriod, number | null>;
+
+/**
+ * A requested change that loosens a limit (raise or removal). It only takes
+ * effect once the cool-down has passed; tightening is always immediate.
+ */
+export interface PendingLimitChange {
+	type: LimitType;
+	/** Not set for the session limit. */
+	period?: LimitPeriod;
+	/** The new value, or `null` when the limit is being removed. */
+	value: number | null;
+	requestedAt: number;
+	effectiveAt: number;
+}
+
+/**
+ * The full limits model stored for a player.
+ */
+export interface ResponsibleGamblingLimits {
+	spend: Record<SpendLimitType, SpendLimitAmounts>;
+	/** Maximum length of a single play session, in minutes. */
+	sessionMinutes: number | null;
+	pending: PendingLimitChange[];
+	updatedAt: number | null;
+}
+
+/**
+ * How much of each spend limit has been used in the current windows (USD).
+ */
+export type LimitUsage = Record<SpendLimitType, Record<LimitPeriod, number>>;
+
+/**
+ * The player's current play session, shared by every tab. It ends once no tab
+ * has been active for a while.
+ */
+export interface PlaySession {
+	startedAt: number;
+	lastActiveAt: number;
+}
+
+/**
+ * The outcome of checking an action against the player's limits.
+ * - `ok`: nothing to report.
+ * - `warn`: the action is allowed but brings a limit close to its cap.
+ * - `block`: the action would exceed a limit and must not go ahead.
+ */
+export type LimitVerdict = "ok" | "warn" | "block";
+
+export interface LimitCheckResult {
+	verdict: LimitVerdict;
+	type?: LimitType;
+	period?: LimitPeriod;
+	limit?: number;
+	used?: number;
+	/** What is left before the cap (never negative). */
+	remaining?: number;
+}
+
+// --- API ---
+/**
+ * The backend owns the limits and the cool-down on loosening them; every
+ * endpoint answers with the player's full, current limits.
+ */
+export interface PlayerLimitsResponse {
+	error: boolean;
+	message: string;
+	data: ResponsibleGamblingLimits;
+}
+
+export interface GetPlayerLimitsRequest {
+	username: string;
+}
+
+/**
+ * Tightening applies at once; loosening is queued as a pending change by the
+ * backend until its cool-down has passed.
+ */
+export interface SetPlayerLimitRequest {
+	username: string;
+	type: LimitType;
+	period?: LimitPeriod;
+	value: number | null;
+}
+
+export interface CancelPlayerLimitChangeRequest {
+	username: string;
+	type: LimitType;
+	period?: LimitPeriod;
+}
@@ -0,0 +1,49 @@
+/**
+ * How the game is shown while a play session is open on our side.
+ * "frame" embeds the provider in the page; "companion" keeps our tab open
+ * next to a provider tab for providers that forbid framing.
+ */
+export type GameSessionMode = "frame" | "companion";
+
+export type RealityCheckAction = "continue" | "view_history" | "stop";
+
+export interface RealityCheckSettings {
+	enabled: boolean;
+	intervalMinutes: number;
+}
+
+/**
+ * Wager and net result for a play session, in USD. Net is from the
+ * player's side, so a loss is negative.
+ */
+export interface PlaySessionTotals {
+	wagered: number;
+	net: number;
+}
+
+export interface GameSession {
+	gameId: string;
+	vendor: string;
+	mode: GameSessionMode;
+	startedAt: number;
+	/** Bet-history start date (YYYY-MM-DD) the deltas are measured from. */
+	fromDate: string;
+	/** Bet-history totals when the session started; null until fetched. */
+	baseline: PlaySessionTotals | null;
+	totals: PlaySessionTotals;
+	/** When the player last saw (or started without) a reality check. */
+	lastCheckAt: number;
+}
+
+/**
+ * One answer to a reality-check prompt, kept as an audit trail.
+ */
+export interface RealityCheckAcknowledgement {
+	at: number;
+	action: RealityCheckAction;
+	gameId: string;
+	vendor: string;
+	elapsedMinutes: number;
+	wagered: number;
+	net: number;
+}
@@ -0,0 +1,42 @@
+/**
+ * How long a self-exclusion lasts once started.
+ */
+export type SelfExclusionDuration = "24h" | "7d" | "30d" | "6m" | "permanent";
+
+/**
+ * A self-exclusion. The backend stores it against the account and refuses
+ * game launch, deposit and tip requests while it runs; the device keeps a copy
+ * that is not tied to a session so it also applies after logout.
+ */
+export interface SelfExclusion {
+	duration: SelfExclusionDuration;
+	startedAt: number;
+	/** When the exclusion lifts, or null for a permanent exclusion. */
+	endsAt: number | null;
+	/**
+	 * Who started the exclusion, or null when no one was logged in. Another
+	 * account logging in on the same device is not bound by it.
+	 */
+	username: string | null;
+}
+
+// --- API ---
+export interface SelfExclusionResponse {
+	error: boolean;
+	message: string;
+	/** The account's exclusion, or null when none is running. */
+	data: SelfExclusion | null;
+}
+
+export interface GetSelfExclusionRequest {
+	username: string;
+}
+
+/**
+ * The backend works out the end date and keeps a running exclusion when the
+ * request would shorten it.
+ */
+export interface StartSelfExclusionRequest {
+	username: string;
+	duration: SelfExclusionDuration;
+}
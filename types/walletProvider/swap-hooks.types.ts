@@ -22,6 +22,9 @@ export interface SwapConversion {
 	timestamp?: number;
 }
 
+// "high" impact swaps need an explicit confirmation before they are sent
+export type PriceImpactLevel = "low" | "medium" | "high";
+
 export interface SwapQuoteParams {
 	network: string;
 	fromToken: string;
@@ -38,6 +41,8 @@ export interface SwapExecuteParams {
 	walletAddress: string;
 	receiver?: string;
 	slippage: string;
+	// Lowest toToken amount accepted, derived from the quote and slippage
+	minReceived?: string;
 	username: string;
 }
 
@@ -94,9 +99,11 @@ export interface UseSwapQuoteReturn {
 	isFetching: boolean;
 	minRequiredAmount: string;
 	estimatedGas: string;
+	quoteSecondsLeft: number;
+	isQuoteExpired: boolean;
 	// Actions
 	getExchangeRate: () => number;
-	fetchQuote: () => Promise<void>;
+	fetchQuote: (forceRefresh?: boolean) => Promise<void>;
 	setMinRequiredAmount: (amount: string) => void;
 }
 
@@ -145,6 +152,7 @@ export interface UseSwapTransactionParams {
 	exchangeAmount: string;
 	receivedAmount: string;
 	slippage: string;
+	minReceived: string;
 	onTransactionComplete?: () => void;
 }
 
@@ -188,6 +196,11 @@ export interface UseSwapReturn {
 	estimatedGas: string;
 	slippage: string;
 	setSlippage: (slippage: string) => void;
+	minReceived: string;
+	priceImpact: number | null;
+	priceImpactLevel: PriceImpactLevel;
+	quoteSecondsLeft: number;
+	isQuoteExpired: boolean;
 	isLoading: boolean;
 	isFetching: boolean;
 	isApproveLoading: boolean;
@@ -243,7 +256,7 @@ export interface UseSwapReturn {
 	setSuccessPop: (value: boolean) => void;
 	minRequiredAmount: string;
 	setMinRequiredAmount: (amount: string) => void;
-	fetchQuote: () => Promise<void>;
+	fetchQuote: (forceRefresh?: boolean) => Promise<void>;
 	checkTokenAllowance: () => Promise<boolean>;
 	getGasReservationAmount: () => Promise<number>;
 
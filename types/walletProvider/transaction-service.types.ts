@@ -89,6 +89,7 @@ export interface ExecuteSwapParams {
 	walletAddress: string;
 	receiver?: string;
 	slippage?: string;
+	minReceived?: string;
 	username: string;
 	primaryWallet: PrimaryWalletWithClient;
 }
@@ -245,6 +246,8 @@ export interface GetTokenConversionParams {
 	toToken: string;
 	amount: number;
 	username: string;
+	// Ignore the cached rate, e.g. when an expired quote is refreshed
+	skipCache?: boolean;
 }
 
 export interface ConversionApiRequest {
@@ -324,6 +327,12 @@ export interface GetTipWalletResult {
 	error: Error | null;
 }
 
+export interface TipTransactionResult {
+	success: boolean;
+	txHash: string | null;
+	error: string | null;
+}
+
 // --- 10. Get Destination Swap Info ---
 export interface GetDestinationSwapInfoParams {
 	network: string;
@@ -435,6 +444,9 @@ export interface RiskWithdrawRequest {
 	username: string;
 	amount: string | number;
 	jwt_type: string;
+	// Destination, so the backend can enforce the address book rules
+	to_address?: string;
+	network?: number | string;
 }
 
 export interface RiskWithdrawResponse {
@@ -465,6 +477,9 @@ export interface PreWithdrawData {
 	encodedData: string;
 	expiry: number;
 	message: string;
+	// Fee actually charged and the resulting payout, in token units
+	fee_amount?: string;
+	payout_amount?: string;
 }
 
 export interface PreWithdrawResponse {
@@ -506,6 +521,101 @@ export interface SearchTokenResponse {
 	data: SearchTokenResult[];
 }
 
+// --- 16. Withdraw Fee ---
+export interface WithdrawFeeRequest {
+	api_key: string;
+	jwt_type: string;
+	network: number | string;
+	token_address: string;
+	token_type: string;
+}
+
+// Replaces the base flat and percentage fee from `min_amount` upwards
+export interface WithdrawFeeTier {
+	min_amount: string;
+	flat_fee: string;
+	percent_fee: string;
+}
+
+export interface WithdrawFeeData {
+	flat_fee: string;
+	percent_fee: string;
+	gas_fee: string;
+	tiers?: WithdrawFeeTier[];
+}
+
+export type WithdrawFeeResponse = ApiResponse<WithdrawFeeData>;
+
+export interface WithdrawFeeBreakdown {
+	flatFee: string;
+	percentFee: string;
+	gasFee: string;
+	totalFee: string;
+	payout: string;
+	// The percentage applied, after tier selection
+	feePercent: string;
+}
+
+// --- 17. Withdraw Address Book ---
+export interface WithdrawAddressEntry {
+	id: string;
+	label: string;
+	network: number;
+	address: string;
+	ens_name?: string;
+	created_at: string;
+}
+
+export interface WithdrawWhitelistData {
+	whitelist_only: boolean;
+	// When a requested switch-off takes effect; whitelist_only stays true
+	// until then
+	whitelist_disable_at?: string | null;
+}
+
+export interface WithdrawAddressBookData extends WithdrawWhitelistData {
+	addresses: WithdrawAddressEntry[];
+}
+
+export interface WithdrawAddressBookRequest {
+	api_key: string;
+	jwt_type: string;
+	username: string;
+}
+
+export interface AddWithdrawAddressRequest extends WithdrawAddressBookRequest {
+	label: string;
+	network: number;
+	address: string;
+	ens_name?: string;
+}
+
+export interface RemoveWithdrawAddressRequest extends WithdrawAddressBookRequest {
+	id: string;
+}
+
+export interface SetWithdrawWhitelistRequest extends WithdrawAddressBookRequest {
+	whitelist_only: boolean;
+}
+
+export type WithdrawAddressBookResponse = ApiResponse<WithdrawAddressBookData>;
+export type AddWithdrawAddressResponse = ApiResponse<WithdrawAddressEntry>;
+export type SetWithdrawWhitelistResponse = ApiResponse<WithdrawWhitelistData>;
+
+export interface NewWithdrawAddress {
+	label: string;
+	network: number;
+	// A hex address or an ENS name
+	address: string;
+}
+
+// Why a new address was refused, mapped to a message by the UI
+export type AddWithdrawAddressError =
+	"invalidAddress" | "ensNotFound" | "duplicate" | "failed";
+
+// Why the chosen destination cannot receive a withdrawal right now
+export type WithdrawAddressRestriction = "cooldown" | "notWhitelisted";
+
 export type NetworkName = string;
 export type TokenAddress = string;
 export type WalletAddress = string;
@@ -25,6 +25,8 @@ interface ReceivedChatMessage {
 	isAgent?: boolean;
 	timestamp: number;
 	messageId: string;
+	// wsKey of the room the message arrived on
+	room: string;
 }
 
 type Callback<T> = (data: T) => void;